@@ -0,0 +1,427 @@
+/**
+ * Anthropic Messages API ⇄ OpenAI Chat Completions
+ *
+ * Direct Anthropic keys hit /v1/messages, which speaks a different wire
+ * format than the OpenAI-compatible clients talking to the proxy. These
+ * helpers translate requests on the way out and responses (both complete
+ * JSON bodies and SSE streams) on the way back.
+ */
+
+type ToolCall = { id?: string; type?: string; function?: { name?: string; arguments?: string } };
+
+type ChatMessage = {
+  role: string;
+  content: string | unknown;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+};
+
+type ContentPart = {
+  type?: string;
+  text?: string;
+  image_url?: { url?: string } | string;
+  [key: string]: unknown;
+};
+
+type AnthropicBlock = Record<string, unknown> & { type: string };
+
+type AnthropicMessage = { role: "user" | "assistant"; content: AnthropicBlock[] };
+
+type OpenAITool = {
+  type?: string;
+  function?: { name?: string; description?: string; parameters?: unknown };
+};
+
+type AnthropicUsage = {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+};
+
+/**
+ * Map Anthropic stop reasons to OpenAI finish reasons.
+ */
+function mapStopReason(stopReason: unknown): string {
+  switch (stopReason) {
+    case "end_turn":
+    case "stop_sequence":
+    case undefined:
+    case null:
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    default:
+      return String(stopReason);
+  }
+}
+
+function convertUsage(usage: AnthropicUsage): Record<string, unknown> {
+  const promptTokens =
+    (usage.input_tokens || 0) +
+    (usage.cache_read_input_tokens || 0) +
+    (usage.cache_creation_input_tokens || 0);
+  const completionTokens = usage.output_tokens || 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(usage.cache_read_input_tokens
+      ? { prompt_tokens_details: { cached_tokens: usage.cache_read_input_tokens } }
+      : {}),
+  };
+}
+
+/**
+ * Flatten OpenAI message content (string or text parts) to plain text.
+ */
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return (content as ContentPart[])
+      .filter((p) => p?.type === "text" && typeof p.text === "string")
+      .map((p) => p.text)
+      .join("\n");
+  }
+  return content == null ? "" : JSON.stringify(content);
+}
+
+function convertImagePart(part: ContentPart): AnthropicBlock | undefined {
+  const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+  if (!url) return undefined;
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+/**
+ * Convert OpenAI message content to Anthropic content blocks.
+ * Blocks that are already in Anthropic shape (tool_use, tool_result, image) pass through.
+ */
+function convertContent(content: unknown): AnthropicBlock[] {
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+  if (!Array.isArray(content)) {
+    return content == null ? [] : [{ type: "text", text: JSON.stringify(content) }];
+  }
+  const blocks: AnthropicBlock[] = [];
+  for (const part of content as ContentPart[]) {
+    if (!part || typeof part !== "object" || !part.type) continue;
+    if (part.type === "text") {
+      if (part.text) blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "image_url") {
+      const image = convertImagePart(part);
+      if (image) blocks.push(image);
+    } else {
+      blocks.push(part as AnthropicBlock);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Anthropic requires tool_use.input to be an object; OpenAI sends a JSON string.
+ */
+function parseToolArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert OpenAI messages to Anthropic system + alternating user/assistant messages.
+ * - assistant tool_calls      → tool_use blocks (IDs kept as-is)
+ * - role "tool" messages      → tool_result blocks in a user turn
+ * - consecutive same-role turns are merged (Anthropic rejects them)
+ */
+function convertMessages(messages: ChatMessage[]): {
+  system: string | undefined;
+  messages: AnthropicMessage[];
+} {
+  const systemParts: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const append = (role: "user" | "assistant", blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) last.content.push(...blocks);
+    else converted.push({ role, content: [...blocks] });
+  };
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      const text = textOf(msg.content);
+      if (text) systemParts.push(text);
+    } else if (msg.role === "assistant") {
+      const toolUses: AnthropicBlock[] = (msg.tool_calls ?? []).map((tc) => ({
+        type: "tool_use",
+        id: tc.id,
+        name: tc.function?.name,
+        input: parseToolArguments(tc.function?.arguments),
+      }));
+      append("assistant", [...convertContent(msg.content), ...toolUses]);
+    } else if (msg.role === "tool" && msg.tool_call_id) {
+      const result = Array.isArray(msg.content) ? convertContent(msg.content) : textOf(msg.content);
+      append("user", [{ type: "tool_result", tool_use_id: msg.tool_call_id, content: result }]);
+    } else {
+      append("user", convertContent(msg.content));
+    }
+  }
+
+  return {
+    system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+    messages: converted,
+  };
+}
+
+/**
+ * Convert OpenAI function tools to Anthropic tool definitions.
+ */
+function convertTools(tools: OpenAITool[]): Array<Record<string, unknown>> {
+  return tools.map((tool) => {
+    if (tool.type !== "function" || !tool.function) return tool as Record<string, unknown>;
+    return {
+      name: tool.function.name,
+      ...(tool.function.description ? { description: tool.function.description } : {}),
+      input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+    };
+  });
+}
+
+/**
+ * Convert OpenAI tool_choice (+ parallel_tool_calls) to Anthropic tool_choice.
+ */
+function convertToolChoice(
+  toolChoice: unknown,
+  parallelToolCalls: unknown,
+): Record<string, unknown> | undefined {
+  let choice: Record<string, unknown> | undefined;
+  if (toolChoice === "auto") choice = { type: "auto" };
+  else if (toolChoice === "required") choice = { type: "any" };
+  else if (toolChoice === "none") return { type: "none" };
+  else if (toolChoice && typeof toolChoice === "object") {
+    const name = (toolChoice as { function?: { name?: string } }).function?.name;
+    if (name) choice = { type: "tool", name };
+  }
+
+  if (parallelToolCalls === false) {
+    choice = { ...(choice ?? { type: "auto" }), disable_parallel_tool_use: true };
+  }
+  return choice;
+}
+
+/**
+ * Convert OpenAI chat completion format to Anthropic Messages API format.
+ */
+export function convertToAnthropicFormat(parsed: Record<string, unknown>): Record<string, unknown> {
+  const { system, messages } = convertMessages((parsed.messages as ChatMessage[]) || []);
+
+  const result: Record<string, unknown> = {
+    model: parsed.model,
+    messages,
+    max_tokens: (parsed.max_tokens as number) || (parsed.max_completion_tokens as number) || 4096,
+  };
+
+  if (system) result.system = system;
+  if (parsed.stream) result.stream = true;
+  if (parsed.temperature !== undefined) result.temperature = parsed.temperature;
+  if (parsed.top_p !== undefined) result.top_p = parsed.top_p;
+  if (parsed.stop !== undefined && parsed.stop !== null) {
+    result.stop_sequences = Array.isArray(parsed.stop) ? parsed.stop : [parsed.stop];
+  }
+  if (Array.isArray(parsed.tools) && parsed.tools.length > 0) {
+    result.tools = convertTools(parsed.tools as OpenAITool[]);
+    const toolChoice = convertToolChoice(parsed.tool_choice, parsed.parallel_tool_calls);
+    if (toolChoice) result.tool_choice = toolChoice;
+  }
+
+  return result;
+}
+
+/**
+ * Convert Anthropic response to OpenAI format.
+ */
+export function convertAnthropicResponseToOpenAI(
+  anthropicData: Record<string, unknown>,
+): Record<string, unknown> {
+  const content = (anthropicData.content ?? []) as Array<{
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+  }>;
+  const textContent = content
+    .filter((b) => b.type === "text")
+    .map((b) => b.text)
+    .join("");
+  const toolCalls = content
+    .filter((b) => b.type === "tool_use")
+    .map((b) => ({
+      id: b.id,
+      type: "function",
+      function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+    }));
+
+  return {
+    id: (anthropicData.id as string) || `chatcmpl-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: anthropicData.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: textContent || (toolCalls.length > 0 ? null : ""),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: mapStopReason(anthropicData.stop_reason),
+      },
+    ],
+    usage: anthropicData.usage ? convertUsage(anthropicData.usage as AnthropicUsage) : undefined,
+  };
+}
+
+type AnthropicStreamEvent = {
+  type?: string;
+  index?: number;
+  message?: { id?: string; model?: string; usage?: AnthropicUsage };
+  content_block?: { type?: string; id?: string; name?: string };
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+};
+
+/**
+ * Translates an Anthropic Messages SSE stream into OpenAI `chat.completion.chunk` SSE.
+ *
+ * Feed it one upstream line at a time; it returns the lines to send to the client.
+ *   message_start        → role chunk
+ *   content_block_delta  → content / tool_calls argument chunks
+ *   content_block_start  → tool_calls chunk with id + function name (tool_use blocks)
+ *   message_delta        → finish_reason chunk
+ *   message_stop         → usage chunk + [DONE]
+ * Thinking blocks, signatures and pings are dropped.
+ */
+export class AnthropicStreamTranslator {
+  private id = `chatcmpl-${Date.now()}`;
+  private model: string;
+  private created = Math.floor(Date.now() / 1000);
+  private usage: AnthropicUsage = {};
+  /** Anthropic content block index → OpenAI tool_calls index */
+  private toolIndexes = new Map<number, number>();
+  private finishReason: string | undefined;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  push(line: string): string[] {
+    if (!line.startsWith("data:")) return [];
+    let event: AnthropicStreamEvent;
+    try {
+      event = JSON.parse(line.slice(5).trim()) as AnthropicStreamEvent;
+    } catch {
+      return [];
+    }
+
+    switch (event.type) {
+      case "message_start":
+        if (event.message?.id) this.id = event.message.id;
+        if (event.message?.model) this.model = event.message.model;
+        this.usage = { ...this.usage, ...event.message?.usage };
+        return this.chunk({ role: "assistant", content: "" });
+
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use" && event.index !== undefined) {
+          const toolIndex = this.toolIndexes.size;
+          this.toolIndexes.set(event.index, toolIndex);
+          return this.chunk({
+            tool_calls: [
+              {
+                index: toolIndex,
+                id: event.content_block.id,
+                type: "function",
+                function: { name: event.content_block.name, arguments: "" },
+              },
+            ],
+          });
+        }
+        return [];
+
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          return this.chunk({ content: event.delta.text });
+        }
+        if (event.delta?.type === "input_json_delta" && event.index !== undefined) {
+          const toolIndex = this.toolIndexes.get(event.index);
+          if (toolIndex === undefined || !event.delta.partial_json) return [];
+          return this.chunk({
+            tool_calls: [{ index: toolIndex, function: { arguments: event.delta.partial_json } }],
+          });
+        }
+        return [];
+
+      case "message_delta":
+        this.usage = { ...this.usage, ...event.usage };
+        this.finishReason = mapStopReason(event.delta?.stop_reason);
+        return this.chunk({}, this.finishReason);
+
+      case "message_stop":
+        return [
+          ...(this.finishReason ? [] : this.chunk({}, "stop")),
+          `data: ${JSON.stringify({ ...this.baseChunk(), choices: [], usage: convertUsage(this.usage) })}`,
+          "",
+          "data: [DONE]",
+          "",
+        ];
+
+      case "error":
+        return [
+          `data: ${JSON.stringify({
+            error: {
+              message: event.error?.message ?? "Anthropic stream error",
+              type: event.error?.type ?? "provider_error",
+            },
+          })}`,
+          "",
+        ];
+
+      default:
+        return [];
+    }
+  }
+
+  private baseChunk() {
+    return {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.model,
+      system_fingerprint: null,
+    };
+  }
+
+  private chunk(delta: Record<string, unknown>, finishReason: string | null = null): string[] {
+    const data = {
+      ...this.baseChunk(),
+      choices: [{ index: 0, delta, logprobs: null, finish_reason: finishReason }],
+    };
+    return [`data: ${JSON.stringify(data)}`, ""];
+  }
+}
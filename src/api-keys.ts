@@ -3,107 +3,248 @@
  *
  * Manages per-provider API keys for direct provider access.
  * Keys can be configured via:
- *   1. Environment variables (OPENAI_API_KEY, ANTHROPIC_API_KEY, etc.)
- *   2. Config file (~/.openclaw/clawrouter/config.json)
- *   3. Plugin config in openclaw.json
+ *   1. Environment variables (OPENAI_API_KEY, ANTHROPIC_API_KEY, etc.), or
+ *      files they point to (OPENAI_API_KEY_FILE, …)
+ *   2. Plugin config in openclaw.json
+ *   3. Config file (~/.openclaw/clawrouter/config.json), with the encrypted
+ *      store (secrets.enc) over it
+ * Plugin config and config.json entries can name an apiKeyCommand instead of
+ * an apiKey. See secrets.ts.
+ *
+ * Which providers exist, and their default endpoints and env vars, comes from
+ * the adapter registry in providers.ts.
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
-import { join } from "node:path";
+import { join, resolve, isAbsolute } from "node:path";
 import { homedir } from "node:os";
+import { pathToFileURL } from "node:url";
+import {
+  getProviderAdapter,
+  listProviderAdapters,
+  registerProviderAdapter,
+  isProviderAdapter,
+  type ProviderAdapter,
+} from "./providers.js";
+import {
+  loadPassphrase,
+  loadSecretStore,
+  readSecretFile,
+  runKeyCommand,
+  saveSecretStore,
+  splitSecrets,
+} from "./secrets.js";
 
 const CONFIG_DIR = join(homedir(), ".openclaw", "clawrouter");
 const CONFIG_FILE = join(CONFIG_DIR, "config.json");
 
 export { CONFIG_FILE };
 
-/** Provider ID to API base URL mapping */
-export const PROVIDER_ENDPOINTS: Record<string, string> = {
-  openai: "https://api.openai.com/v1",
-  anthropic: "https://api.anthropic.com/v1",
-  google: "https://generativelanguage.googleapis.com/v1beta",
-  xai: "https://api.x.ai/v1",
-  deepseek: "https://api.deepseek.com/v1",
-  moonshot: "https://api.moonshot.cn/v1",
-  nvidia: "https://integrate.api.nvidia.com/v1",
-  openrouter: "https://openrouter.ai/api/v1",
-};
+/** Bearer token sent to custom providers declared without an apiKey */
+export const NO_AUTH_KEY = "no-key";
 
-/**
- * Providers that accept the OpenAI /v1/chat/completions format.
- * Anthropic and Google use incompatible APIs and must go via OpenRouter.
- */
-const OPENAI_COMPATIBLE_PROVIDERS = new Set([
-  "openai", "xai", "deepseek", "moonshot", "nvidia",
-]);
+/** A model served by a provider, declared in config (see custom-providers.ts) */
+export type ProviderModelConfig = {
+  /** Upstream model ID; routed as "<provider>/<id>" */
+  id: string;
+  name?: string;
+  /** USD per 1M tokens (default 0) */
+  inputPrice?: number;
+  outputPrice?: number;
+  cachedInputPrice?: number;
+  contextWindow: number;
+  maxOutput?: number;
+  reasoning?: boolean;
+  vision?: boolean;
+  tools?: boolean;
+  structuredOutput?: boolean;
+  agentic?: boolean;
+  /** Self-hosted: private requests may use it (see `routing.privacy`) */
+  local?: boolean;
+  /** Short names for the model, like the built-in "sonnet" or "flash" */
+  aliases?: string[];
+};
 
-/** Environment variable names per provider */
-const ENV_VAR_MAP: Record<string, string> = {
-  openai: "OPENAI_API_KEY",
-  anthropic: "ANTHROPIC_API_KEY",
-  google: "GOOGLE_API_KEY",
-  xai: "XAI_API_KEY",
-  deepseek: "DEEPSEEK_API_KEY",
-  moonshot: "MOONSHOT_API_KEY",
-  nvidia: "NVIDIA_API_KEY",
-  openrouter: "OPENROUTER_API_KEY",
+/** One of several keys for a provider (see key-pool.ts) */
+export type ProviderKeyConfig = {
+  apiKey: string;
+  /** Shown in usage logs and /health instead of the key, e.g. a team or project */
+  label?: string;
+  /** Share of requests relative to the provider's other keys (default 1) */
+  weight?: number;
+  /** Requests per minute this key may send */
+  rpm?: number;
+  /** Tokens per minute (estimated input plus max_tokens) this key may send */
+  tpm?: number;
+  /** How long a 401/402/429 benches the key, unless a 429 says when to retry (default 60s) */
+  cooldownMs?: number;
 };
 
 export type ProviderConfig = {
   apiKey: string;
+  /** Shell command whose first line of output is the key, e.g. "pass show openai" */
+  apiKeyCommand?: string;
+  /** Where apiKey came from ("env OPENAI_API_KEY", "encrypted store", …) — set by loadApiKeys */
+  keySource?: string;
   baseUrl?: string; // Override default endpoint
+  /** Several keys to spread requests over; used instead of apiKey when set */
+  keys?: ProviderKeyConfig[];
+  /** How a key is picked from `keys` (default "round-robin", weighted) */
+  keySelection?: "round-robin" | "least-loaded";
+  /** Models this provider serves beyond the built-in catalog; any other provider ID becomes OpenAI-compatible */
+  models?: ProviderModelConfig[];
 };
 
 export type ApiKeysConfig = {
   providers: Record<string, ProviderConfig>;
 };
 
+export type LoadApiKeysOptions = {
+  /**
+   * Run apiKeyCommands (default). When false, each command's key from its last
+   * run is reused — commands block for up to 10s, too long for a file watcher.
+   */
+  runKeyCommands?: boolean;
+};
+
 /**
  * Load API keys from all sources (env vars take precedence over config file).
  */
-export function loadApiKeys(pluginConfig?: Record<string, unknown>): ApiKeysConfig {
+export function loadApiKeys(
+  pluginConfig?: Record<string, unknown>,
+  options: LoadApiKeysOptions = {},
+): ApiKeysConfig {
   const config: ApiKeysConfig = { providers: {} };
+  const runCommands = options.runKeyCommands ?? true;
 
-  // 1. Load from config file
+  // 1. Load from config file, then the encrypted store over it
   if (existsSync(CONFIG_FILE)) {
     try {
       const content = readFileSync(CONFIG_FILE, "utf-8").trim();
       if (content) {
         const parsed = JSON.parse(content) as Partial<ApiKeysConfig>;
         if (parsed.providers) {
-          config.providers = { ...parsed.providers };
+          config.providers = withKeySources(parsed.providers, "config.json", runCommands);
         }
       }
     } catch {
       // Invalid config file, ignore
     }
   }
+  for (const [provider, secrets] of Object.entries(loadSecretStore() ?? {})) {
+    config.providers[provider] = overlayProvider(config.providers[provider], {
+      ...secrets,
+      keySource: "encrypted store",
+    });
+  }
 
   // 2. Load from plugin config (openclaw.json)
   if (pluginConfig?.providers && typeof pluginConfig.providers === "object") {
     const pluginProviders = pluginConfig.providers as Record<string, ProviderConfig>;
-    for (const [provider, providerConfig] of Object.entries(pluginProviders)) {
-      if (providerConfig.apiKey) {
-        config.providers[provider] = { ...config.providers[provider], ...providerConfig };
+    for (const [provider, providerConfig] of Object.entries(
+      withKeySources(pluginProviders, "plugin config", runCommands),
+    )) {
+      if (
+        providerConfig.apiKey ||
+        Array.isArray(providerConfig.keys) ||
+        Array.isArray(providerConfig.models)
+      ) {
+        config.providers[provider] = overlayProvider(config.providers[provider], providerConfig);
       }
     }
   }
 
   // 3. Environment variables (highest precedence)
-  for (const [provider, envVar] of Object.entries(ENV_VAR_MAP)) {
-    const key = process.env[envVar];
+  //    The key itself, else a file it points to (OPENAI_API_KEY_FILE)
+  for (const { id: provider, envVar } of listProviderAdapters()) {
+    if (!envVar) continue;
+    const fromFile = !process.env[envVar] && !!process.env[`${envVar}_FILE`];
+    const key = process.env[envVar] || readSecretFile(process.env[`${envVar}_FILE`]);
     if (key) {
-      if (!config.providers[provider]) {
-        config.providers[provider] = { apiKey: key };
-      } else {
-        config.providers[provider].apiKey = key;
-      }
+      const keySource = fromFile ? `file ${envVar}_FILE` : `env ${envVar}`;
+      config.providers[provider] = overlayProvider(config.providers[provider], {
+        apiKey: key,
+        keySource,
+      });
+    }
+  }
+
+  // 4. A key list stands in for apiKey; declared models without a key (a local
+  //    server without auth) send a placeholder
+  for (const providerConfig of Object.values(config.providers)) {
+    if (providerConfig.apiKey) continue;
+    if (Array.isArray(providerConfig.keys) && providerConfig.keys[0]?.apiKey) {
+      providerConfig.apiKey = providerConfig.keys[0].apiKey;
+    } else if (Array.isArray(providerConfig.models)) {
+      providerConfig.apiKey = NO_AUTH_KEY;
     }
   }
 
   return config;
 }
 
+/**
+ * A higher-precedence layer's entry laid over a provider's config. A layer
+ * that sets a single apiKey replaces the lower layers' key list — the pool
+ * would otherwise keep using those keys and ignore it.
+ */
+function overlayProvider(
+  lower: ProviderConfig | undefined,
+  upper: Partial<ProviderConfig>,
+): ProviderConfig {
+  const base: Partial<ProviderConfig> = { ...lower };
+  if (upper.apiKey && !Array.isArray(upper.keys)) {
+    delete base.keys;
+    delete base.keySelection;
+  }
+  return { ...base, ...upper } as ProviderConfig;
+}
+
+/** Each apiKeyCommand's key from its last successful run, by provider and command */
+const commandKeys = new Map<string, string>();
+
+/**
+ * The key an apiKeyCommand gives — run now, or as it last gave it. A command
+ * that hasn't run yet waits for a load that runs commands.
+ */
+function commandKey(provider: string, command: string, run: boolean): string | undefined {
+  const id = `${provider}\n${command}`;
+  if (!run) {
+    const key = commandKeys.get(id);
+    if (!key) console.warn(`[ClawRouter] apiKeyCommand for ${provider} waits for a full reload`);
+    return key;
+  }
+  const key = runKeyCommand(provider, command);
+  if (key) commandKeys.set(id, key);
+  return key;
+}
+
+/**
+ * A config layer's providers with their apiKeyCommands resolved and the source
+ * of each key noted. A command only runs for an entry without an apiKey.
+ */
+function withKeySources(
+  providers: Record<string, ProviderConfig>,
+  source: string,
+  runCommands: boolean,
+): Record<string, ProviderConfig> {
+  const result: Record<string, ProviderConfig> = {};
+  for (const [provider, entry] of Object.entries(providers)) {
+    if (!entry || typeof entry !== "object") continue;
+    const resolved: ProviderConfig = { ...entry };
+    delete resolved.keySource;
+    if (resolved.apiKey || Array.isArray(resolved.keys)) {
+      result[provider] = { ...resolved, keySource: source };
+      continue;
+    }
+    const key = resolved.apiKeyCommand
+      ? commandKey(provider, resolved.apiKeyCommand, runCommands)
+      : undefined;
+    result[provider] = key ? { ...resolved, apiKey: key, keySource: "apiKeyCommand" } : resolved;
+  }
+  return result;
+}
+
 /**
  * Get configured providers (those with API keys).
  */
@@ -122,7 +263,7 @@ export function getApiKey(config: ApiKeysConfig, provider: string): string | und
  * Get the base URL for a provider (custom or default).
  */
 export function getProviderBaseUrl(config: ApiKeysConfig, provider: string): string | undefined {
-  return config.providers[provider]?.baseUrl ?? PROVIDER_ENDPOINTS[provider];
+  return config.providers[provider]?.baseUrl ?? getProviderAdapter(provider)?.baseUrl;
 }
 
 /**
@@ -144,35 +285,29 @@ export function hasOpenRouter(config: ApiKeysConfig): boolean {
  * Resolve the best API key + base URL for a model.
  * Priority: direct provider key > OpenRouter fallback.
  * Returns undefined if no key is available for this model.
+ *
+ * @param customAdapters - The custom providers' adapters to consider (default: the active config's)
  */
 export function resolveProviderAccess(
   config: ApiKeysConfig,
   modelId: string,
+  customAdapters?: readonly ProviderAdapter[],
 ): { apiKey: string; baseUrl: string; provider: string; viaOpenRouter: boolean } | undefined {
   const provider = getProviderFromModel(modelId);
 
-  // Anthropic + Google need format conversion (tools, streaming, etc.)
-  // Always route through OpenRouter if available — it handles conversion automatically
-  const needsConversion = provider === "anthropic" || provider === "google";
-  const orKey = config.providers.openrouter?.apiKey;
-  if (needsConversion && orKey) {
-    const orUrl = config.providers.openrouter?.baseUrl ?? PROVIDER_ENDPOINTS.openrouter;
-    return { apiKey: orKey, baseUrl: orUrl, provider: "openrouter", viaOpenRouter: true };
-  }
-
   // 1. Direct provider key (cheapest, no middleman)
-  //    Only for OpenAI-compatible providers — Anthropic/Google use different APIs
+  //    Only for providers with an adapter (see providers.ts)
   const directKey = getApiKey(config, provider);
   const directUrl = getProviderBaseUrl(config, provider);
-  if (directKey && directUrl && OPENAI_COMPATIBLE_PROVIDERS.has(provider)) {
+  if (directKey && directUrl && getProviderAdapter(provider, customAdapters)) {
     return { apiKey: directKey, baseUrl: directUrl, provider, viaOpenRouter: false };
   }
 
   // 2. OpenRouter fallback (covers all providers)
   const orFallbackKey = config.providers.openrouter?.apiKey;
   if (orFallbackKey) {
-    const orUrl2 = config.providers.openrouter?.baseUrl ?? PROVIDER_ENDPOINTS.openrouter;
-    return { apiKey: orFallbackKey, baseUrl: orUrl2, provider: "openrouter", viaOpenRouter: true };
+    const orUrl = getProviderBaseUrl(config, "openrouter")!;
+    return { apiKey: orFallbackKey, baseUrl: orUrl, provider: "openrouter", viaOpenRouter: true };
   }
 
   return undefined;
@@ -181,8 +316,12 @@ export function resolveProviderAccess(
 /**
  * Check if a model is accessible (has direct key or OpenRouter fallback).
  */
-export function isModelAccessible(config: ApiKeysConfig, modelId: string): boolean {
-  return resolveProviderAccess(config, modelId) !== undefined;
+export function isModelAccessible(
+  config: ApiKeysConfig,
+  modelId: string,
+  customAdapters?: readonly ProviderAdapter[],
+): boolean {
+  return resolveProviderAccess(config, modelId, customAdapters) !== undefined;
 }
 
 /**
@@ -193,17 +332,163 @@ export function getAccessibleProviders(config: ApiKeysConfig): string[] {
   const direct = getConfiguredProviders(config).filter((p) => p !== "openrouter");
   if (hasOpenRouter(config)) {
     // OpenRouter covers all known providers
-    return Object.keys(PROVIDER_ENDPOINTS).filter((p) => p !== "openrouter");
+    return listProviderAdapters()
+      .map((a) => a.id)
+      .filter((p) => p !== "openrouter");
   }
   return direct;
 }
 
 /**
- * Save API keys config to file.
+ * Import and register the adapter modules listed under `providerAdapters` in
+ * config.json and plugin config — package names, or paths (relative ones resolve
+ * against the working directory). Each module's default export is a
+ * ProviderAdapter or an array of them. Call before loadApiKeys so the adapters'
+ * env vars are read. A module that fails to load is logged and skipped.
  */
-export function saveApiKeys(config: ApiKeysConfig): void {
+export async function loadProviderAdapters(
+  pluginConfig?: Record<string, unknown>,
+): Promise<ProviderAdapter[]> {
+  const specifiers: unknown[] = [];
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      const parsed = JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as {
+        providerAdapters?: unknown;
+      };
+      if (Array.isArray(parsed.providerAdapters)) specifiers.push(...parsed.providerAdapters);
+    } catch {
+      // Invalid config file, ignore
+    }
+  }
+  if (Array.isArray(pluginConfig?.providerAdapters))
+    specifiers.push(...pluginConfig.providerAdapters);
+
+  const loaded: ProviderAdapter[] = [];
+  for (const specifier of new Set(specifiers)) {
+    if (typeof specifier !== "string" || !specifier) continue;
+    const url =
+      specifier.startsWith(".") || isAbsolute(specifier)
+        ? pathToFileURL(resolve(specifier)).href
+        : specifier;
+    try {
+      const mod = (await import(url)) as { default?: unknown };
+      const exported = Array.isArray(mod.default) ? mod.default : [mod.default];
+      if (exported.length === 0 || !exported.every(isProviderAdapter)) {
+        throw new Error("default export is not a ProviderAdapter (or an array of them)");
+      }
+      for (const adapter of exported) {
+        registerProviderAdapter(adapter);
+        loaded.push(adapter);
+      }
+    } catch (err) {
+      console.warn(
+        `[ClawRouter] Skipping provider adapter ${specifier}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Providers as saveApiKeys writes them: config.json's own entries (`saved`)
+ * with their keys replaced by those given. Only keys are written — settings
+ * such as baseUrl or models stay as config.json has them, since a loaded
+ * config also carries plugin config's. Keys loadApiKeys found anywhere but
+ * `sources` — the environment, a file, a command or plugin config — stay
+ * there, and the keyless placeholder isn't written.
+ */
+function savableProviders(
+  providers: Record<string, ProviderConfig>,
+  sources: string[],
+  saved: Record<string, Partial<ProviderConfig>>,
+): Record<string, ProviderConfig> {
+  const result: Record<string, ProviderConfig> = {};
+  for (const [provider, config] of Object.entries(providers)) {
+    const entry: Partial<ProviderConfig> = { ...saved[provider] };
+    delete entry.apiKey;
+    delete entry.keys;
+    // Entries without a source weren't loaded — their keys are the caller's own
+    if (config.keySource === undefined || sources.includes(config.keySource)) {
+      const { apiKey, keys } = config;
+      if (apiKey !== undefined && apiKey !== NO_AUTH_KEY) entry.apiKey = apiKey;
+      if (keys !== undefined) entry.keys = keys;
+    }
+    if (Object.keys(entry).length > 0) result[provider] = entry as ProviderConfig;
+  }
+  return result;
+}
+
+/**
+ * Save API keys config to file, replacing only config.json's providers. With a
+ * secrets passphrase, the keys go to the encrypted store instead and
+ * config.json keeps the rest. Keys from other
+ * sources (see savableProviders) aren't written. The store ends up holding the
+ * providers saved: others are removed from it, except where a higher source
+ * hides the stored key.
+ */
+export function saveApiKeys(config: ApiKeysConfig, passphrase = loadPassphrase()): void {
   if (!existsSync(CONFIG_DIR)) {
     mkdirSync(CONFIG_DIR, { recursive: true });
   }
-  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+  const file = readConfigFile();
+  const saved = (file.providers ?? {}) as Record<string, Partial<ProviderConfig>>;
+  if (!passphrase) {
+    writeConfigProviders(file, savableProviders(config.providers, ["config.json"], saved));
+    return;
+  }
+  const sources = ["config.json", "encrypted store"];
+  const { secrets, rest } = splitSecrets(savableProviders(config.providers, sources, saved));
+  // A stored key the environment (or a file, command, plugin config) overrides isn't in config — keep it
+  const hidden = (provider: string) => {
+    const source = config.providers[provider]?.keySource;
+    return source !== undefined && !sources.includes(source);
+  };
+  saveSecretStore(secrets, passphrase, hidden);
+  writeConfigProviders(file, rest);
+}
+
+/** config.json as it is on disk ({} when missing or empty) */
+function readConfigFile(): Record<string, unknown> {
+  if (!existsSync(CONFIG_FILE)) return {};
+  const content = readFileSync(CONFIG_FILE, "utf-8").trim();
+  try {
+    return content ? (JSON.parse(content) as Record<string, unknown>) : {};
+  } catch (err) {
+    // Overwriting it would lose whatever else the file holds
+    throw new Error(
+      `${CONFIG_FILE} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Replace the providers section of config.json, keeping its other sections
+ * (routing, budgets, feedback, ...) as they are.
+ */
+function writeConfigProviders(
+  file: Record<string, unknown>,
+  providers: Record<string, Partial<ProviderConfig>>,
+): void {
+  writeFileSync(CONFIG_FILE, JSON.stringify({ ...file, providers }, null, 2), {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Move the plaintext keys in config.json into the encrypted store, leaving the
+ * rest of the file as it was. Returns the providers whose keys moved.
+ */
+export function encryptConfigKeys(passphrase: string): string[] {
+  if (!existsSync(CONFIG_FILE)) return [];
+  const parsed = JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as Record<string, unknown>;
+  const providers = (parsed.providers ?? {}) as Record<string, ProviderConfig>;
+  const { secrets, rest } = splitSecrets(providers);
+  const moved = Object.keys(secrets);
+  if (moved.length === 0) return [];
+  // Store first: if it fails, config.json still has the keys
+  saveSecretStore(secrets, passphrase);
+  writeFileSync(CONFIG_FILE, JSON.stringify({ ...parsed, providers: rest }, null, 2) + "\n", {
+    mode: 0o600,
+  });
+  return moved;
 }
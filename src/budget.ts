@@ -0,0 +1,285 @@
+/**
+ * Spend Budgets
+ *
+ * Daily and monthly spend caps — global, per billed provider and per session
+ * (X-Session-ID header). Spend is rebuilt from the usage log on startup and
+ * then tracked in memory as requests complete. Windows follow the log's UTC dates.
+ *
+ * - Soft limit: global/session → the router caps the tier (default MEDIUM);
+ *   provider → its models move to the end of the fallback chain.
+ * - Hard limit: global/session → requests are rejected with a 429;
+ *   provider → its models are skipped.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { CONFIG_FILE } from "./api-keys.js";
+import type { UsageEntry } from "./logger.js";
+import { getUsageEntriesSince } from "./stats.js";
+import type { Tier } from "./router/index.js";
+
+/** Spend limits in USD */
+export type BudgetLimit = { soft?: number; hard?: number };
+
+export type BudgetWindows = { daily?: BudgetLimit; monthly?: BudgetLimit };
+
+export type BudgetConfig = {
+  global?: BudgetWindows;
+  /** Keyed by billed provider ("openai", "openrouter", ...) */
+  providers?: Record<string, BudgetWindows>;
+  /** Applied to each session ID separately */
+  perSession?: BudgetWindows;
+  /** Highest tier allowed once a soft limit is crossed (default: MEDIUM) */
+  softLimitTier?: Tier;
+};
+
+export type BudgetState = "ok" | "soft" | "hard";
+
+type BudgetWindow = "daily" | "monthly";
+
+const WINDOWS: BudgetWindow[] = ["daily", "monthly"];
+
+export type BudgetWindowStatus = {
+  spent: number;
+  soft?: number;
+  hard?: number;
+  /** USD left before the hard limit (or the soft one, if only that is set) */
+  remaining?: number;
+  state: BudgetState;
+};
+
+export type BudgetScopeStatus = Partial<Record<BudgetWindow, BudgetWindowStatus>>;
+
+export type BudgetStatus = {
+  enabled: boolean;
+  softLimitTier: Tier;
+  global: BudgetScopeStatus;
+  providers: Record<string, BudgetScopeStatus>;
+  sessions: { limits: BudgetWindows; capped: number; blocked: number };
+};
+
+/** Outcome of a pre-request check for the global and session scopes */
+export type BudgetVerdict = {
+  state: BudgetState;
+  /** Human-readable cause, set when state is not "ok" */
+  reason?: string;
+  /** Tier cap to pass to the router, set when state is "soft" */
+  maxTier?: Tier;
+};
+
+const STATE_RANK: Record<BudgetState, number> = { ok: 0, soft: 1, hard: 2 };
+
+function hasLimits(windows: BudgetWindows | undefined): boolean {
+  return WINDOWS.some((w) => windows?.[w]?.soft !== undefined || windows?.[w]?.hard !== undefined);
+}
+
+/**
+ * Load budget config from ~/.openclaw/clawrouter/config.json (`budgets` key),
+ * overridden by plugin config.
+ */
+export function loadBudgetConfig(pluginConfig?: Record<string, unknown>): BudgetConfig {
+  let config: BudgetConfig = {};
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      const content = readFileSync(CONFIG_FILE, "utf-8").trim();
+      if (content) {
+        const parsed = JSON.parse(content) as { budgets?: BudgetConfig };
+        if (parsed.budgets) config = { ...parsed.budgets };
+      }
+    } catch {
+      // Invalid config file, ignore
+    }
+  }
+  if (pluginConfig?.budgets && typeof pluginConfig.budgets === "object") {
+    config = { ...config, ...(pluginConfig.budgets as BudgetConfig) };
+  }
+  return config;
+}
+
+/**
+ * Tracks spend per scope for the current day and month.
+ */
+export class BudgetTracker {
+  private spend = new Map<string, number>();
+  private day = "";
+  private month = "";
+  private config: BudgetConfig;
+  private now: () => Date;
+
+  constructor(config: BudgetConfig = {}, now: () => Date = () => new Date()) {
+    this.config = config;
+    this.now = now;
+  }
+
+  /** True when any limit is configured */
+  get enabled(): boolean {
+    return (
+      hasLimits(this.config.global) ||
+      hasLimits(this.config.perSession) ||
+      Object.values(this.config.providers ?? {}).some(hasLimits)
+    );
+  }
+
+  get softLimitTier(): Tier {
+    return this.config.softLimitTier ?? "MEDIUM";
+  }
+
+  /**
+   * Rebuild this month's spend from the usage log.
+   */
+  async load(): Promise<void> {
+    this.roll();
+    this.spend.clear();
+    for (const entry of await getUsageEntriesSince(`${this.month}-01`)) this.record(entry);
+  }
+
+  /**
+   * Add a completed request's cost to its scopes.
+   */
+  record(entry: Pick<UsageEntry, "timestamp" | "cost" | "provider" | "sessionId">): void {
+    this.roll();
+    if (!entry.cost || entry.timestamp.slice(0, 7) !== this.month) return;
+    const today = entry.timestamp.slice(0, 10) === this.day;
+    const add = (scope: string) => {
+      if (today) this.add(`${scope}|daily`, entry.cost);
+      this.add(`${scope}|monthly`, entry.cost);
+    };
+    add("global");
+    if (entry.provider) add(`provider:${entry.provider}`);
+    if (entry.sessionId) add(`session:${entry.sessionId}`);
+  }
+
+  /**
+   * Check the global and session budgets before a request.
+   */
+  check(sessionId?: string): BudgetVerdict {
+    let verdict = this.scopeVerdict("global", "global", this.config.global);
+    if (sessionId) {
+      const session = this.scopeVerdict(
+        `session:${sessionId}`,
+        `session ${sessionId}`,
+        this.config.perSession,
+      );
+      if (STATE_RANK[session.state] > STATE_RANK[verdict.state]) verdict = session;
+    }
+    if (verdict.state === "soft") verdict.maxTier = this.softLimitTier;
+    return verdict;
+  }
+
+  /**
+   * Worst budget state for a billed provider across its windows.
+   */
+  providerState(provider: string): BudgetState {
+    return this.scopeVerdict(`provider:${provider}`, provider, this.config.providers?.[provider])
+      .state;
+  }
+
+  /**
+   * Remaining budget per scope, for /health and /stats.
+   */
+  getStatus(): BudgetStatus {
+    this.roll();
+    const scopeStatus = (scope: string, windows: BudgetWindows | undefined) => {
+      const result: BudgetScopeStatus = {};
+      for (const window of WINDOWS) {
+        const status = this.windowStatus(scope, window, windows?.[window]);
+        if (status) result[window] = status;
+      }
+      return result;
+    };
+
+    const providers: Record<string, BudgetScopeStatus> = {};
+    for (const [provider, windows] of Object.entries(this.config.providers ?? {})) {
+      providers[provider] = scopeStatus(`provider:${provider}`, windows);
+    }
+
+    let capped = 0;
+    let blocked = 0;
+    if (hasLimits(this.config.perSession)) {
+      const sessions = new Set<string>();
+      for (const key of this.spend.keys()) {
+        if (key.startsWith("session:")) sessions.add(key.slice(8, key.lastIndexOf("|")));
+      }
+      for (const sessionId of sessions) {
+        const { state } = this.scopeVerdict(
+          `session:${sessionId}`,
+          sessionId,
+          this.config.perSession,
+        );
+        if (state === "hard") blocked++;
+        else if (state === "soft") capped++;
+      }
+    }
+
+    return {
+      enabled: this.enabled,
+      softLimitTier: this.softLimitTier,
+      global: scopeStatus("global", this.config.global),
+      providers,
+      sessions: { limits: this.config.perSession ?? {}, capped, blocked },
+    };
+  }
+
+  private scopeVerdict(
+    scope: string,
+    label: string,
+    windows: BudgetWindows | undefined,
+  ): BudgetVerdict {
+    let verdict: BudgetVerdict = { state: "ok" };
+    for (const window of WINDOWS) {
+      const status = this.windowStatus(scope, window, windows?.[window]);
+      if (!status || STATE_RANK[status.state] <= STATE_RANK[verdict.state]) continue;
+      const limit = status.state === "hard" ? status.hard! : status.soft!;
+      verdict = {
+        state: status.state,
+        reason: `Budget exceeded: ${label} ${window} spend $${status.spent.toFixed(2)} reached the $${limit.toFixed(2)} ${status.state} limit`,
+      };
+    }
+    return verdict;
+  }
+
+  private windowStatus(
+    scope: string,
+    window: BudgetWindow,
+    limit: BudgetLimit | undefined,
+  ): BudgetWindowStatus | undefined {
+    if (!limit || (limit.soft === undefined && limit.hard === undefined)) return undefined;
+    this.roll();
+    const spent = this.spend.get(`${scope}|${window}`) ?? 0;
+    const cap = limit.hard ?? limit.soft!;
+    const state: BudgetState =
+      limit.hard !== undefined && spent >= limit.hard
+        ? "hard"
+        : limit.soft !== undefined && spent >= limit.soft
+          ? "soft"
+          : "ok";
+    return {
+      spent,
+      soft: limit.soft,
+      hard: limit.hard,
+      remaining: Math.max(0, cap - spent),
+      state,
+    };
+  }
+
+  private add(key: string, cost: number): void {
+    this.spend.set(key, (this.spend.get(key) ?? 0) + cost);
+  }
+
+  /**
+   * Drop spend from windows that have ended.
+   */
+  private roll(): void {
+    const iso = this.now().toISOString();
+    const day = iso.slice(0, 10);
+    const month = iso.slice(0, 7);
+    if (month !== this.month) {
+      this.spend.clear();
+    } else if (day !== this.day) {
+      for (const key of [...this.spend.keys()]) {
+        if (key.endsWith("|daily")) this.spend.delete(key);
+      }
+    }
+    this.day = day;
+    this.month = month;
+  }
+}
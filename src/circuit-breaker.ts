@@ -0,0 +1,337 @@
+/**
+ * Circuit Breaker
+ *
+ * Tracks upstream health per model and per provider. A circuit opens when the
+ * recent error rate or slow-call rate crosses its threshold, or when the
+ * upstream rate-limits us (honouring Retry-After / x-ratelimit-reset). While a
+ * circuit is open the proxy skips that model or provider. After the cooldown a
+ * single probe request is let through (half-open); its outcome closes the
+ * circuit or opens it again. A probe that ends without a verdict (a request
+ * error) is released so the next request can probe instead.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerConfig = {
+  /** Recent calls the rates are computed over (default: 20) */
+  windowSize: number;
+  /** Calls needed before the rates can trip the circuit (default: 5) */
+  minCalls: number;
+  /** Share of failed calls that opens the circuit (default: 0.5) */
+  errorRateThreshold: number;
+  /** Calls slower than this count as slow (default: 30s) */
+  slowCallMs: number;
+  /** Share of slow calls that opens the circuit (default: 0.8) */
+  slowCallRateThreshold: number;
+  /** How long a tripped circuit stays open (default: 30s) */
+  openDurationMs: number;
+  /** Cap on open periods taken from rate-limit headers (default: 10 minutes) */
+  maxRetryAfterMs: number;
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  windowSize: 20,
+  minCalls: 5,
+  errorRateThreshold: 0.5,
+  slowCallMs: 30_000,
+  slowCallRateThreshold: 0.8,
+  openDurationMs: 30_000,
+  maxRetryAfterMs: 10 * 60_000,
+};
+
+export type CircuitStatus = {
+  state: CircuitState;
+  calls: number;
+  errorRate: number;
+  slowRate: number;
+  /** ISO timestamp the open period ends at (open circuits only) */
+  openUntil?: string;
+  lastError?: string;
+};
+
+export type CircuitFailure = {
+  reason: string;
+  status?: number;
+  /** Backoff from {@link rateLimitBackoff} — set for 429s and 503s with a Retry-After */
+  retryAfterMs?: number;
+};
+
+type Outcome = { ok: boolean; slow: boolean };
+
+/**
+ * Parse a duration like "1s", "6m0s", "250ms" or "1h2m" (OpenAI rate-limit headers).
+ */
+function parseDuration(value: string): number | undefined {
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (parts.length === 0) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+  return parts.reduce((sum, [, n, unit]) => sum + parseFloat(n) * unitMs[unit], 0);
+}
+
+/**
+ * How long the upstream asked us to back off, in ms.
+ * Reads `retry-after-ms`, `retry-after` (seconds or HTTP date), `x-ratelimit-reset`
+ * (seconds, epoch seconds/ms or a duration) and OpenAI's `x-ratelimit-reset-requests`
+ * / `x-ratelimit-reset-tokens` durations.
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfterMs = headers.get("retry-after-ms");
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) return Math.max(0, Number(retryAfterMs));
+
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    if (!isNaN(Number(retryAfter))) return Math.max(0, Number(retryAfter) * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset) {
+    const n = Number(reset);
+    if (!isNaN(n)) {
+      if (n > 1e12) return Math.max(0, n - now); // epoch ms
+      if (n > 1e9) return Math.max(0, n * 1000 - now); // epoch seconds
+      return Math.max(0, n * 1000);
+    }
+    const duration = parseDuration(reset);
+    if (duration !== undefined) return duration;
+  }
+
+  const resets = [
+    headers.get("x-ratelimit-reset-requests"),
+    headers.get("x-ratelimit-reset-tokens"),
+  ]
+    .map((v) => (v ? parseDuration(v) : undefined))
+    .filter((v): v is number => v !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Backoff a failed response asks for, in ms — only for a 429, or a 503 with an
+ * explicit Retry-After. OpenAI sends `x-ratelimit-reset-*` on nearly every
+ * response, so other statuses never count as rate limits.
+ */
+export function rateLimitBackoff(
+  status: number,
+  headers: Headers,
+  now: number = Date.now(),
+): number | undefined {
+  if (status === 429) return parseRetryAfter(headers, now);
+  if (status === 503 && (headers.has("retry-after") || headers.has("retry-after-ms"))) {
+    return parseRetryAfter(headers, now);
+  }
+  return undefined;
+}
+
+/**
+ * Circuit breaker for one model or provider.
+ */
+export class CircuitBreaker {
+  private outcomes: Outcome[] = [];
+  private state: CircuitState = "closed";
+  private openUntil = 0;
+  private probeInFlight = false;
+  private lastError: string | undefined;
+  private config: CircuitBreakerConfig;
+  private now: () => number;
+
+  constructor(config: CircuitBreakerConfig, now: () => number = Date.now) {
+    this.config = config;
+    this.now = now;
+  }
+
+  /**
+   * Current state. Open circuits turn half-open once their cooldown ends.
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && this.now() >= this.openUntil) {
+      this.state = "half-open";
+      this.probeInFlight = false;
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent now (half-open allows one probe at a time).
+   */
+  canAttempt(): boolean {
+    const state = this.getState();
+    return state === "closed" || (state === "half-open" && !this.probeInFlight);
+  }
+
+  /**
+   * Note that a request is being sent — claims the probe when half-open.
+   */
+  onAttempt(): void {
+    if (this.getState() === "half-open") this.probeInFlight = true;
+  }
+
+  /**
+   * End an attempt that says nothing about upstream health (a request error,
+   * every key benched) — frees the probe without changing the state.
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    const slow = latencyMs >= this.config.slowCallMs;
+    if (this.getState() !== "closed") {
+      // A slow probe doesn't prove recovery
+      if (slow) this.trip(this.config.openDurationMs, `slow response (${latencyMs}ms)`);
+      else this.reset();
+      return;
+    }
+    this.push({ ok: true, slow });
+    this.evaluate();
+  }
+
+  recordFailure(failure: CircuitFailure): void {
+    this.lastError = failure.reason;
+    const rateLimited =
+      failure.status === 429 || (failure.status === 503 && failure.retryAfterMs !== undefined);
+    if (rateLimited) {
+      const backoff = failure.retryAfterMs ?? this.config.openDurationMs;
+      this.trip(Math.min(backoff, this.config.maxRetryAfterMs), failure.reason);
+      return;
+    }
+    if (this.getState() !== "closed") {
+      this.trip(this.config.openDurationMs, failure.reason);
+      return;
+    }
+    this.push({ ok: false, slow: false });
+    this.evaluate();
+  }
+
+  getStatus(): CircuitStatus {
+    const state = this.getState();
+    const { errorRate, slowRate } = this.rates();
+    return {
+      state,
+      calls: this.outcomes.length,
+      errorRate,
+      slowRate,
+      ...(state === "open" ? { openUntil: new Date(this.openUntil).toISOString() } : {}),
+      ...(this.lastError ? { lastError: this.lastError } : {}),
+    };
+  }
+
+  private push(outcome: Outcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.config.windowSize) this.outcomes.shift();
+  }
+
+  private rates(): { errorRate: number; slowRate: number } {
+    const calls = this.outcomes.length;
+    if (calls === 0) return { errorRate: 0, slowRate: 0 };
+    return {
+      errorRate: this.outcomes.filter((o) => !o.ok).length / calls,
+      slowRate: this.outcomes.filter((o) => o.slow).length / calls,
+    };
+  }
+
+  private evaluate(): void {
+    if (this.outcomes.length < this.config.minCalls) return;
+    const { errorRate, slowRate } = this.rates();
+    if (errorRate >= this.config.errorRateThreshold) {
+      this.trip(this.config.openDurationMs, this.lastError ?? "error rate");
+    } else if (slowRate >= this.config.slowCallRateThreshold) {
+      this.trip(this.config.openDurationMs, "slow responses");
+    }
+  }
+
+  private trip(durationMs: number, reason: string): void {
+    this.state = "open";
+    this.openUntil = Math.max(this.openUntil, this.now() + durationMs);
+    this.probeInFlight = false;
+    this.outcomes = [];
+    this.lastError = reason;
+  }
+
+  private reset(): void {
+    this.state = "closed";
+    this.openUntil = 0;
+    this.probeInFlight = false;
+    this.outcomes = [];
+  }
+}
+
+/**
+ * Circuit breakers for every model and provider the proxy has called.
+ * A model can be attempted only when both its own and its provider's circuit allow it.
+ */
+export class CircuitBreakerRegistry {
+  private models = new Map<string, CircuitBreaker>();
+  private providers = new Map<string, CircuitBreaker>();
+  private config: CircuitBreakerConfig;
+  private now: () => number;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}, now: () => number = Date.now) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+    this.now = now;
+  }
+
+  canAttempt(model: string, provider: string): boolean {
+    return this.model(model).canAttempt() && this.provider(provider).canAttempt();
+  }
+
+  onAttempt(model: string, provider: string): void {
+    this.model(model).onAttempt();
+    this.provider(provider).onAttempt();
+  }
+
+  release(model: string, provider: string): void {
+    this.model(model).release();
+    this.provider(provider).release();
+  }
+
+  recordSuccess(model: string, provider: string, latencyMs: number): void {
+    this.model(model).recordSuccess(latencyMs);
+    this.provider(provider).recordSuccess(latencyMs);
+  }
+
+  recordFailure(model: string, provider: string, failure: CircuitFailure): void {
+    const before = this.model(model).getState();
+    this.model(model).recordFailure(failure);
+    // Rate limits are usually per model — count them against the provider as plain failures
+    this.provider(provider).recordFailure({ reason: failure.reason });
+    if (before !== "open" && this.model(model).getState() === "open") {
+      console.log(`[ClawRouter] Circuit open for ${model}: ${failure.reason.slice(0, 100)}`);
+    }
+  }
+
+  /**
+   * Drop models whose model or provider circuit is open.
+   * If that leaves nothing, the original chain is returned (better than no options).
+   */
+  filterChain(models: string[], providerOf: (model: string) => string): string[] {
+    const allowed = models.filter((m) => this.canAttempt(m, providerOf(m)));
+    return allowed.length > 0 ? allowed : models;
+  }
+
+  getStatus(): {
+    models: Record<string, CircuitStatus>;
+    providers: Record<string, CircuitStatus>;
+  } {
+    const collect = (map: Map<string, CircuitBreaker>) =>
+      Object.fromEntries([...map].map(([key, breaker]) => [key, breaker.getStatus()]));
+    return { models: collect(this.models), providers: collect(this.providers) };
+  }
+
+  private model(id: string): CircuitBreaker {
+    return this.get(this.models, id);
+  }
+
+  private provider(id: string): CircuitBreaker {
+    return this.get(this.providers, id);
+  }
+
+  private get(map: Map<string, CircuitBreaker>, key: string): CircuitBreaker {
+    let breaker = map.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config, this.now);
+      map.set(key, breaker);
+    }
+    return breaker;
+  }
+}
@@ -3,13 +3,27 @@
  * ClawRouter CLI — Standalone proxy mode
  *
  * Usage:
- *   npx clawrouter              # Start standalone proxy
- *   npx clawrouter --version    # Show version
+ *   npx clawrouter                   # Start standalone proxy
+ *   npx clawrouter explain "prompt"  # Show how a prompt would be routed
+ *   npx clawrouter eval cases.jsonl  # Score routing against a labeled dataset
+ *   npx clawrouter optimize cases.jsonl  # Tune scoring weights on a labeled dataset
+ *   npx clawrouter feedback          # Show learned routing corrections
+ *   npx clawrouter keys              # Show where each provider's key comes from
+ *   npx clawrouter --version         # Show version
  */
 
-import { startProxy, getProxyPort } from "./proxy.js";
-import { loadApiKeys, getConfiguredProviders, hasOpenRouter, getAccessibleProviders } from "./api-keys.js";
+import { readFileSync, writeFileSync } from "node:fs";
+import { startProxy, getProxyPort, buildModelPricing, type ProxyHandle } from "./proxy.js";
+import { parseEvalDataset, evaluateRouting, diffEvalReports, optimizeScoring, mergeRoutingConfig, applyProfile, validateRoutingConfig, formatConfigIssues, type EvalReport, type RoutingConfig, type Tier } from "./router/index.js";
+import { loadApiKeys, loadProviderAdapters, getConfiguredProviders, hasOpenRouter, getAccessibleProviders, encryptConfigKeys, CONFIG_FILE } from "./api-keys.js";
+import { loadPassphrase, PASSPHRASE_ENV, SECRETS_FILE } from "./secrets.js";
+import { loadRoutingConfig, loadReloadableConfig, loadAdminToken, configSourceFiles } from "./config-reload.js";
 import { VERSION } from "./version.js";
+import { BLOCKRUN_MODELS } from "./models.js";
+import { parseCustomProviders } from "./custom-providers.js";
+import { validateProviderKeys } from "./key-pool.js";
+import { loadBudgetConfig } from "./budget.js";
+import { FeedbackStore, loadFeedbackConfig, type FeedbackStatus } from "./feedback.js";
 
 function printHelp(): void {
   console.log(`
@@ -17,12 +31,54 @@ ClawRouter v${VERSION} - Smart LLM Router (Direct API Keys)
 
 Usage:
   clawrouter [options]
+  clawrouter explain <prompt> [--profile <name>] [--json]
+  clawrouter explain --body <request.json | -> [--json]
+  clawrouter eval <dataset.jsonl> [--config <routing.json>] [--compare <routing.json>] [--profile <name>] [--json]
+  clawrouter optimize <dataset.jsonl> [--config <routing.json>] [--out <file>] [--iterations N]
+                      [--seed N] [--under-penalty N] [--over-penalty N]
+  clawrouter feedback [--reset [pattern]] [--json]
+  clawrouter config validate [--config <routing.json>] [--json]
+  clawrouter keys [encrypt] [--json]
 
 Options:
   --version, -v     Show version number
   --help, -h        Show this help message
   --port <number>   Port to listen on (default: ${getProxyPort()})
 
+Commands:
+  explain           Show how a request would be routed (scoring, tier, fallback
+                    chain, cost) without calling any provider. Uses the running
+                    proxy on --port if there is one, else a temporary proxy.
+                    --body takes a chat completion request; --json prints it raw.
+                    --profile routes with a named profile (eco, premium, ...).
+  eval              Route a labeled JSONL dataset ({"prompt": ..., "tier": ...}
+                    per line) with the rules and report a confusion matrix,
+                    per-tier precision/recall and cost vs the premium baseline.
+                    --config: routing config to evaluate (JSON, merged over the
+                    defaults). --compare: a second config to diff against it;
+                    exits 1 if any case regresses. --profile: evaluate both
+                    with that routing profile applied.
+  optimize          Search dimension weights, tier boundaries and confidence
+                    settings that best match a labeled dataset, starting from
+                    --config. Writes a routing.scoring override (JSON) to --out
+                    or stdout. Under-routing a case costs --under-penalty (2)
+                    per tier, over-routing --over-penalty (1). Same dataset,
+                    config and --seed always give the same result.
+  feedback          List the tier corrections learned from retries, model
+                    overrides and bad completions (needs feedback.enabled in
+                    config.json). --reset forgets all of them, or one pattern
+                    (a running proxy needs CLAWROUTER_ADMIN_TOKEN for it).
+  config validate   Check the routing config in config.json (or --config) against
+                    the schema: unknown keys, wrong types, unordered tier
+                    boundaries, bad rules, invalid custom provider models.
+                    Model IDs missing from the catalog are warnings. Exits 1
+                    on errors.
+  keys              List configured providers and where each key comes from
+                    (env, key file, apiKeyCommand, encrypted store, config) —
+                    never the keys. "keys encrypt" moves the plaintext keys in
+                    config.json to the encrypted store (needs
+                    CLAWROUTER_SECRETS_PASSPHRASE).
+
 Examples:
   # Set API keys and start
   export OPENAI_API_KEY=sk-...
@@ -32,6 +88,22 @@ Examples:
   # Custom port
   npx clawrouter --port 9000
 
+  # Why does this prompt go where it goes?
+  npx clawrouter explain "Prove that sqrt(2) is irrational"
+
+  # Does a weight change help or hurt?
+  npx clawrouter eval cases.jsonl --compare tuned-routing.json
+
+  # Tune the weights on your own labeled prompts, then check the result
+  npx clawrouter optimize cases.jsonl --out tuned-routing.json
+
+  # Catch typos in the routing config before restarting
+  npx clawrouter config validate
+
+  # Stop keeping keys in plaintext
+  export CLAWROUTER_SECRETS_PASSPHRASE=...
+  npx clawrouter keys encrypt
+
 Environment Variables:
   OPENROUTER_API_KEY    OpenRouter key (one key → all models!)
   OPENAI_API_KEY        OpenAI API key (direct, cheaper)
@@ -42,27 +114,301 @@ Environment Variables:
   MOONSHOT_API_KEY      Moonshot/Kimi API key (direct, cheaper)
   NVIDIA_API_KEY        NVIDIA API key (direct, cheaper)
   CLAWROUTER_PORT       Default proxy port (default: 8402)
+  CLAWROUTER_ADMIN_TOKEN  Bearer token for POST /admin/reload and DELETE /feedback
+  CLAWROUTER_SECRETS_PASSPHRASE  Unlocks ~/.openclaw/clawrouter/secrets.enc
+  <PROVIDER>_API_KEY_FILE  Read a key from a file (Docker secrets), e.g. OPENAI_API_KEY_FILE
 
   Direct keys take priority over OpenRouter for that provider's models.
+  Edits to ~/.openclaw/clawrouter/config.json (keys, routing) apply without a restart.
 `);
 }
 
-function parseArgs(args: string[]): { version: boolean; help: boolean; port?: number } {
-  const result = { version: false, help: false, port: undefined as number | undefined };
+type CliArgs = { version: boolean; help: boolean; port?: number; command?: "explain" | "eval" | "optimize" | "feedback" | "config" | "keys"; subcommand?: string; prompt?: string; profile?: string; reset?: boolean; pattern?: string; body?: string; dataset?: string; config?: string; compare?: string; out?: string; iterations?: number; seed?: number; underPenalty?: number; overPenalty?: number; json: boolean };
+
+function parseArgs(args: string[]): CliArgs {
+  const result: CliArgs = { version: false, help: false, json: false };
+  const positional: string[] = [];
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === "--version" || arg === "-v") result.version = true;
     else if (arg === "--help" || arg === "-h") result.help = true;
     else if (arg === "--port" && args[i + 1]) { result.port = parseInt(args[i + 1], 10); i++; }
+    else if (arg === "--body" && args[i + 1]) { result.body = args[i + 1]; i++; }
+    else if (arg === "--config" && args[i + 1]) { result.config = args[i + 1]; i++; }
+    else if (arg === "--compare" && args[i + 1]) { result.compare = args[i + 1]; i++; }
+    else if (arg === "--profile" && args[i + 1]) { result.profile = args[i + 1]; i++; }
+    else if (arg === "--out" && args[i + 1]) { result.out = args[i + 1]; i++; }
+    else if (arg === "--iterations" && args[i + 1]) { result.iterations = parseInt(args[i + 1], 10); i++; }
+    else if (arg === "--seed" && args[i + 1]) { result.seed = parseInt(args[i + 1], 10); i++; }
+    else if (arg === "--under-penalty" && args[i + 1]) { result.underPenalty = parseFloat(args[i + 1]); i++; }
+    else if (arg === "--over-penalty" && args[i + 1]) { result.overPenalty = parseFloat(args[i + 1]); i++; }
+    else if (arg === "--json") result.json = true;
+    else if (arg === "--reset") result.reset = true;
+    else positional.push(arg);
+  }
+  if (positional[0] === "explain") {
+    result.command = "explain";
+    result.prompt = positional.slice(1).join(" ") || undefined;
+  } else if (positional[0] === "eval" || positional[0] === "optimize") {
+    result.command = positional[0];
+    result.dataset = positional[1];
+  } else if (positional[0] === "feedback") {
+    result.command = "feedback";
+    result.pattern = positional[1];
+  } else if (positional[0] === "config" || positional[0] === "keys") {
+    result.command = positional[0];
+    result.subcommand = positional[1];
   }
   return result;
 }
 
+type Explanation = {
+  model: string; tier: string; method: string; confidence: number; reasoning: string; agentic: boolean; profile?: string; rule?: string;
+  scoring: { score: number; dimensions?: Array<{ name: string; score: number; weight: number; signal: string | null }> };
+  boundaries: { lower?: { name: string; value: number }; upper?: { name: string; value: number } };
+  requiredCapabilities: string[];
+  chain: string[];
+  dropped: Array<{ model: string; reason: string }>;
+  cost: { estimate: number; baseline: number; savings: number };
+  budget: { state: string; reason?: string };
+};
+
+function printExplanation(e: Explanation): void {
+  const { lower, upper } = e.boundaries;
+  const between = [lower ? `${lower.name} (${lower.value})` : "bottom", upper ? `${upper.name} (${upper.value})` : "top"].join(" and ");
+  console.log(`\nTier:        ${e.tier} via ${e.method}, confidence ${e.confidence.toFixed(2)}${e.agentic ? " (agentic tiers)" : ""}${e.profile ? `, profile ${e.profile}` : ""}${e.rule ? `, rule ${e.rule}` : ""}`);
+  console.log(`Model:       ${e.model}`);
+  console.log(`Score:       ${e.scoring.score.toFixed(3)}, between ${between}`);
+  if (e.requiredCapabilities.length > 0) console.log(`Needs:       ${e.requiredCapabilities.join(", ")}`);
+  console.log(`\nDimensions (score × weight):`);
+  const active = (e.scoring.dimensions ?? []).filter((d) => d.score !== 0).sort((a, b) => Math.abs(b.score * b.weight) - Math.abs(a.score * a.weight));
+  for (const d of active) {
+    const contribution = d.score * d.weight;
+    console.log(`  ${d.name.padEnd(22)} ${d.score.toFixed(2).padStart(5)} × ${d.weight.toFixed(2)} = ${contribution >= 0 ? "+" : ""}${contribution.toFixed(3)}${d.signal ? `  ${d.signal}` : ""}`);
+  }
+  if (active.length === 0) console.log("  (all dimensions scored 0)");
+  console.log(`\nChain:       ${e.chain.join(" → ") || "(none)"}`);
+  for (const d of e.dropped) console.log(`  skipped ${d.model}: ${d.reason}`);
+  console.log(`\nCost:        ~$${e.cost.estimate.toFixed(4)} (baseline $${e.cost.baseline.toFixed(4)}, saves ${(e.cost.savings * 100).toFixed(0)}%)`);
+  if (e.budget.state !== "ok") console.log(`Budget:      ${e.budget.state} — ${e.budget.reason}`);
+  console.log(`Reasoning:   ${e.reasoning}\n`);
+}
+
+/**
+ * Ask the running proxy (live circuit and latency state) how it would route a
+ * request, or start a temporary one if none is listening.
+ */
+async function explain(args: CliArgs): Promise<void> {
+  if (!args.body && !args.prompt) { console.error("Usage: clawrouter explain <prompt> | --body <request.json | ->"); process.exit(1); }
+  const body = args.body
+    ? readFileSync(args.body === "-" ? 0 : args.body, "utf-8")
+    : JSON.stringify({ model: args.profile ? `auto:${args.profile}` : "auto", messages: [{ role: "user", content: args.prompt }] });
+
+  let baseUrl = `http://127.0.0.1:${args.port ?? getProxyPort()}`;
+  let proxy: ProxyHandle | undefined;
+  try {
+    const health = await fetch(`${baseUrl}/health`, { signal: AbortSignal.timeout(2_000) });
+    if (!health.ok) throw new Error(`health check returned ${health.status}`);
+  } catch {
+    await loadProviderAdapters();
+    proxy = await startProxy({ apiKeys: loadApiKeys(), port: 0, routingConfig: loadRoutingConfig(), budgets: loadBudgetConfig(), feedback: loadFeedbackConfig() });
+    baseUrl = proxy.baseUrl;
+  }
+
+  try {
+    const res = await fetch(`${baseUrl}/v1/route/explain`, { method: "POST", headers: { "Content-Type": "application/json" }, body });
+    const result = await res.json() as Explanation & { error?: { message: string } };
+    if (!res.ok) throw new Error(result.error?.message ?? `HTTP ${res.status}`);
+    if (args.json) console.log(JSON.stringify(result, null, 2));
+    else printExplanation(result);
+  } finally {
+    await proxy?.close();
+  }
+}
+
+function readRoutingConfigFile(path: string): RoutingConfig {
+  try {
+    return mergeRoutingConfig(JSON.parse(readFileSync(path, "utf-8")) as Partial<RoutingConfig>);
+  } catch (err) {
+    throw new Error(`Cannot load routing config ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+function printEvalReport(label: string, r: EvalReport): void {
+  const tiers = Object.keys(r.tiers) as Tier[];
+  console.log(`\n${label}: ${r.correct}/${r.total} correct (${pct(r.accuracy)})`);
+  console.log(`\n  expected \\ routed  ${tiers.map((t) => t.padStart(9)).join(" ")}`);
+  for (const expected of tiers) console.log(`  ${expected.padEnd(18)}  ${tiers.map((t) => String(r.confusion[expected][t]).padStart(9)).join(" ")}`);
+  console.log(`\n  tier        precision   recall   cases`);
+  for (const t of tiers) console.log(`  ${t.padEnd(10)}  ${pct(r.tiers[t].precision).padStart(9)}  ${pct(r.tiers[t].recall).padStart(7)}  ${String(r.tiers[t].support).padStart(6)}`);
+  console.log(`\n  Cost: ~$${r.cost.estimate.toFixed(4)} vs $${r.cost.baseline.toFixed(4)} all-premium baseline (saves ${pct(r.cost.savings)})`);
+}
+
+/**
+ * Score the rules router against a labeled dataset, optionally diffing two
+ * routing configs. Offline: no provider is called.
+ */
+function runEval(args: CliArgs): void {
+  if (!args.dataset) { console.error("Usage: clawrouter eval <dataset.jsonl> [--config <routing.json>] [--compare <routing.json>]"); process.exit(1); }
+  const cases = parseEvalDataset(readFileSync(args.dataset, "utf-8"));
+  const modelPricing = buildModelPricing();
+  const withProfile = (config: RoutingConfig) => {
+    if (!args.profile) return config;
+    const profiled = applyProfile(config, args.profile);
+    if (!profiled) throw new Error(`Unknown routing profile "${args.profile}" (available: ${Object.keys(config.profiles ?? {}).join(", ")})`);
+    return profiled;
+  };
+  const evaluate = (path?: string) => evaluateRouting(cases, { config: withProfile(path ? readRoutingConfigFile(path) : mergeRoutingConfig()), modelPricing });
+
+  const base = evaluate(args.config);
+  const candidate = args.compare ? evaluate(args.compare) : undefined;
+  const diff = candidate ? diffEvalReports(base, candidate) : undefined;
+  if (args.json) {
+    console.log(JSON.stringify({ base, candidate, diff }, null, 2));
+  } else {
+    printEvalReport(`${args.config ?? "default config"}${args.profile ? ` (profile ${args.profile})` : ""}`, base);
+    for (const r of base.results.filter((r) => r.tier !== r.case.tier)) console.log(`  ✗ ${r.case.tier} → ${r.tier} (score ${r.score.toFixed(3)}): ${r.case.prompt.slice(0, 70)}`);
+    if (candidate && diff) {
+      printEvalReport(args.compare!, candidate);
+      const sign = (n: number) => (n >= 0 ? "+" : "-");
+      console.log(`\nDiff: accuracy ${sign(diff.accuracyDelta)}${pct(Math.abs(diff.accuracyDelta))}, cost ${sign(diff.costDelta)}$${Math.abs(diff.costDelta).toFixed(4)}, ${diff.fixed} fixed, ${diff.regressed} regressed`);
+      for (const c of diff.changes) console.log(`  ${c.kind.padEnd(9)} ${c.before} → ${c.after} (expected ${c.expected}): ${c.prompt.slice(0, 60)}`);
+    }
+    console.log();
+  }
+  if (diff && diff.regressed > 0) process.exit(1);
+}
+
+/**
+ * Tune the scoring parameters on a labeled dataset and write the result as a
+ * routing config override. The summary goes to stderr so stdout stays JSON.
+ */
+function runOptimize(args: CliArgs): void {
+  if (!args.dataset) { console.error("Usage: clawrouter optimize <dataset.jsonl> [--config <routing.json>] [--out <file>]"); process.exit(1); }
+  const cases = parseEvalDataset(readFileSync(args.dataset, "utf-8"));
+  const config = args.config ? readRoutingConfigFile(args.config) : mergeRoutingConfig();
+  const result = optimizeScoring(cases, config, { iterations: args.iterations, seed: args.seed, underRoutingPenalty: args.underPenalty, overRoutingPenalty: args.overPenalty });
+
+  console.error(`[ClawRouter] ${cases.length} cases, ${result.iterations} iterations`);
+  console.error(`[ClawRouter] Loss ${result.before.loss.toFixed(3)} → ${result.after.loss.toFixed(3)}, accuracy ${pct(result.before.accuracy)} → ${pct(result.after.accuracy)}`);
+  const json = JSON.stringify({ scoring: result.scoring }, null, 2) + "\n";
+  if (args.out) {
+    writeFileSync(args.out, json);
+    console.error(`[ClawRouter] Wrote ${args.out} — check it with: clawrouter eval ${args.dataset} --compare ${args.out}`);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+/**
+ * Show or reset learned routing corrections — through the running proxy so its
+ * in-memory state stays in sync, else directly on the store file.
+ */
+async function feedback(args: CliArgs): Promise<void> {
+  const url = `http://127.0.0.1:${args.port ?? getProxyPort()}/feedback${args.pattern ? `?pattern=${encodeURIComponent(args.pattern)}` : ""}`;
+  let status: FeedbackStatus;
+  let removed: number | undefined;
+  try {
+    const token = args.reset ? loadAdminToken() : undefined;
+    const res = await fetch(url, { method: args.reset ? "DELETE" : "GET", headers: token ? { Authorization: `Bearer ${token}` } : undefined, signal: AbortSignal.timeout(2_000) });
+    // The running proxy refused — don't reset its file behind its back
+    if (res.status === 401 || res.status === 403) { console.error(`[ClawRouter] Reset refused: ${((await res.json()) as { error: string }).error}`); process.exit(1); }
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    if (args.reset) removed = ((await res.json()) as { removed: number }).removed;
+    status = (await (await fetch(url.split("?")[0])).json()) as FeedbackStatus;
+  } catch {
+    const store = new FeedbackStore({ ...loadFeedbackConfig(), enabled: true });
+    await store.load();
+    if (args.reset) { removed = store.reset(args.pattern); await store.flush(); }
+    status = { ...store.getStatus(), enabled: loadFeedbackConfig().enabled ?? false };
+  }
+
+  if (args.json) { console.log(JSON.stringify(removed === undefined ? status : { removed, ...status }, null, 2)); return; }
+  if (removed !== undefined) console.log(`[ClawRouter] Removed ${removed} pattern(s)`);
+  if (!status.enabled) console.log(`[ClawRouter] Feedback is disabled — set "feedback": { "enabled": true } in ~/.openclaw/clawrouter/config.json`);
+  if (status.patterns.length === 0) { console.log("\nNo learned corrections.\n"); return; }
+  console.log(`\n  ${"pattern".padEnd(48)} weight  tiers  signals`);
+  for (const p of status.patterns) {
+    const signals = Object.entries(p.counts).map(([signal, count]) => `${signal}×${count}`).join(", ");
+    console.log(`  ${p.pattern.padEnd(48)} ${p.weight.toFixed(2).padStart(6)}  ${(p.tiers > 0 ? `+${p.tiers}` : "-").padStart(5)}  ${signals}`);
+  }
+  console.log(`\n  One tier up per ${status.threshold} weight.\n`);
+}
+
+/**
+ * Check a routing config — --config's file, else config.json's `routing` key —
+ * the models custom providers declare and their key lists, the way the proxy does at startup and on reload.
+ */
+function validateConfig(args: CliArgs): boolean {
+  if (args.subcommand !== "validate") { console.error("Usage: clawrouter config validate [--config <routing.json>] [--json]"); process.exit(1); }
+  const source = args.config ?? CONFIG_FILE;
+  let overrides: unknown;
+  try {
+    overrides = args.config ? JSON.parse(readFileSync(args.config, "utf-8")) : loadReloadableConfig().routingConfig;
+  } catch (err) {
+    console.error(`[ClawRouter] Cannot read ${source}: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+  // Models custom providers declare count as known, and their mistakes as errors
+  const apiKeys = loadApiKeys();
+  const custom = parseCustomProviders(apiKeys);
+  const routing = validateRoutingConfig(overrides, { knownModels: [...BLOCKRUN_MODELS, ...custom.models].map((m) => m.id) });
+  const result = { errors: [...custom.errors, ...validateProviderKeys(apiKeys), ...routing.errors], warnings: routing.warnings };
+
+  if (args.json) { console.log(JSON.stringify({ source, ...result }, null, 2)); return result.errors.length === 0; }
+  for (const e of result.errors) console.log(`  ✗ ${formatConfigIssues([e])}`);
+  for (const w of result.warnings) console.log(`  ! ${formatConfigIssues([w])}`);
+  console.log(`\n${source}: ${result.errors.length} error(s), ${result.warnings.length} warning(s)${result.errors.length === 0 ? " — valid" : ""}\n`);
+  return result.errors.length === 0;
+}
+
+/**
+ * List each configured provider's key source, or ("keys encrypt") move
+ * config.json's plaintext keys to the encrypted store. Never prints a key.
+ */
+function keys(args: CliArgs): boolean {
+  if (args.subcommand === "encrypt") {
+    const passphrase = loadPassphrase();
+    if (!passphrase) { console.error(`[ClawRouter] Set ${PASSPHRASE_ENV} (or ${PASSPHRASE_ENV}_FILE) to encrypt keys`); return false; }
+    try {
+      const moved = encryptConfigKeys(passphrase);
+      console.log(moved.length > 0 ? `[ClawRouter] Moved keys for ${moved.join(", ")} from ${CONFIG_FILE} to ${SECRETS_FILE}` : `[ClawRouter] No plaintext keys in ${CONFIG_FILE}`);
+      return true;
+    } catch (err) {
+      console.error(`[ClawRouter] Cannot encrypt keys: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }
+  if (args.subcommand) { console.error("Usage: clawrouter keys [encrypt] [--json]"); process.exit(1); }
+
+  const apiKeys = loadApiKeys();
+  const providers = getConfiguredProviders(apiKeys).map((provider) => {
+    const { keySource, keys: pool } = apiKeys.providers[provider];
+    return { provider, source: keySource ?? "config", keys: pool?.length ?? 1 };
+  });
+  if (args.json) { console.log(JSON.stringify({ providers }, null, 2)); return true; }
+  if (providers.length === 0) { console.log("\nNo API keys configured.\n"); return true; }
+  console.log(`\n  ${"provider".padEnd(16)} source`);
+  for (const p of providers) console.log(`  ${p.provider.padEnd(16)} ${p.source}${p.keys > 1 ? ` (${p.keys} keys)` : ""}`);
+  console.log();
+  return true;
+}
+
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2));
   if (args.version) { console.log(VERSION); process.exit(0); }
   if (args.help) { printHelp(); process.exit(0); }
+  if (args.command === "eval") { runEval(args); process.exit(0); }
+  if (args.command === "optimize") { runOptimize(args); process.exit(0); }
+  if (args.command === "explain") { await explain(args); process.exit(0); }
+  if (args.command === "feedback") { await feedback(args); process.exit(0); }
+  if (args.command === "config") { await loadProviderAdapters(); process.exit(validateConfig(args) ? 0 : 1); }
+  if (args.command === "keys") { await loadProviderAdapters(); process.exit(keys(args) ? 0 : 1); }
 
+  const adapters = await loadProviderAdapters();
+  if (adapters.length > 0) console.log(`[ClawRouter] Provider adapters: ${adapters.map((a) => a.id).join(", ")}`);
   const apiKeys = loadApiKeys();
   const configured = getConfiguredProviders(apiKeys);
 
@@ -70,7 +416,7 @@ async function main(): Promise<void> {
     console.error("[ClawRouter] No API keys configured!");
     console.error("[ClawRouter] Quickest: export OPENROUTER_API_KEY=sk-or-...  (one key → all models)");
     console.error("[ClawRouter] Or set individual keys: OPENAI_API_KEY, ANTHROPIC_API_KEY, etc.");
-    console.error("[ClawRouter] Or edit ~/.openclaw/clawrouter/config.json");
+    console.error("[ClawRouter] Or edit ~/.openclaw/clawrouter/config.json (then `clawrouter keys encrypt`)");
     process.exit(1);
   }
 
@@ -82,6 +428,12 @@ async function main(): Promise<void> {
   const proxy = await startProxy({
     apiKeys,
     port: args.port,
+    routingConfig: loadRoutingConfig(),
+    budgets: loadBudgetConfig(),
+    feedback: loadFeedbackConfig(),
+    loadConfig: (keyOptions) => loadReloadableConfig(undefined, keyOptions),
+    watchConfigFile: configSourceFiles(),
+    adminToken: loadAdminToken(),
     onReady: (port) => {
       console.log(`[ClawRouter] Proxy listening on http://127.0.0.1:${port}`);
       console.log(`[ClawRouter] Health check: http://127.0.0.1:${port}/health`);
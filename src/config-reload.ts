@@ -0,0 +1,171 @@
+/**
+ * Config Reload
+ *
+ * Lets a running proxy pick up edited API keys and routing config without a
+ * restart, from two triggers:
+ *
+ *   - a watcher on ~/.openclaw/clawrouter/config.json and the other files keys
+ *     come from (secrets.enc, *_API_KEY_FILE and passphrase files). It doesn't
+ *     run apiKeyCommands — they'd block the proxy — but reuses their last keys
+ *   - POST /admin/reload, with `Authorization: Bearer <adminToken>`, which
+ *     runs them again
+ *
+ * The proxy builds the new routing state in full (merged config, compiled
+ * rules, profiles) before swapping it in, so an invalid edit leaves the current
+ * config serving. Requests already in flight finish on the config they started with.
+ */
+
+import { readFileSync, existsSync, watch } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+import { timingSafeEqual } from "node:crypto";
+import {
+  CONFIG_FILE,
+  loadApiKeys,
+  type ApiKeysConfig,
+  type LoadApiKeysOptions,
+} from "./api-keys.js";
+import { listProviderAdapters } from "./providers.js";
+import type { RoutingConfig } from "./router/index.js";
+import { PASSPHRASE_ENV, SECRETS_FILE } from "./secrets.js";
+
+/** What a reload replaces — everything else (budgets, health, sessions) carries over */
+export type ReloadableConfig = {
+  apiKeys: ApiKeysConfig;
+  routingConfig?: Partial<RoutingConfig>;
+};
+
+/**
+ * Load routing overrides from ~/.openclaw/clawrouter/config.json (`routing` key),
+ * overridden section by section by plugin config.
+ */
+export function loadRoutingConfig(
+  pluginConfig?: Record<string, unknown>,
+): Partial<RoutingConfig> | undefined {
+  let config: Partial<RoutingConfig> | undefined;
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      const content = readFileSync(CONFIG_FILE, "utf-8").trim();
+      if (content) {
+        const parsed = JSON.parse(content) as { routing?: Partial<RoutingConfig> };
+        if (parsed.routing) config = { ...parsed.routing };
+      }
+    } catch {
+      // Invalid config file, ignore
+    }
+  }
+  if (pluginConfig?.routing && typeof pluginConfig.routing === "object") {
+    config = { ...config, ...(pluginConfig.routing as Partial<RoutingConfig>) };
+  }
+  return config;
+}
+
+/**
+ * Keys and routing config as they are on disk now. Unlike the startup
+ * loaders, an unreadable config file is an error — reloading it would
+ * otherwise drop every key it holds.
+ */
+export function loadReloadableConfig(
+  pluginConfig?: Record<string, unknown>,
+  options?: LoadApiKeysOptions,
+): ReloadableConfig {
+  if (existsSync(CONFIG_FILE)) {
+    const content = readFileSync(CONFIG_FILE, "utf-8").trim();
+    try {
+      if (content) JSON.parse(content);
+    } catch (err) {
+      throw new Error(
+        `${CONFIG_FILE} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  return {
+    apiKeys: loadApiKeys(pluginConfig, options),
+    routingConfig: loadRoutingConfig(pluginConfig),
+  };
+}
+
+/**
+ * Every file keys and routing config are read from: config.json, the encrypted
+ * store, its passphrase file and the providers' *_API_KEY_FILE files, as the
+ * environment names them now.
+ */
+export function configSourceFiles(): string[] {
+  const pointers = [PASSPHRASE_ENV, ...listProviderAdapters().map((a) => a.envVar)]
+    .map((envVar) => envVar && process.env[`${envVar}_FILE`])
+    .filter((path): path is string => !!path)
+    .map((path) => resolve(path));
+  return [...new Set([CONFIG_FILE, SECRETS_FILE, ...pointers])];
+}
+
+/**
+ * Token POST /admin/reload and DELETE /feedback require: CLAWROUTER_ADMIN_TOKEN,
+ * else plugin config or config.json `adminToken`. Without one they're disabled.
+ */
+export function loadAdminToken(pluginConfig?: Record<string, unknown>): string | undefined {
+  if (process.env.CLAWROUTER_ADMIN_TOKEN) return process.env.CLAWROUTER_ADMIN_TOKEN;
+  if (typeof pluginConfig?.adminToken === "string" && pluginConfig.adminToken) {
+    return pluginConfig.adminToken;
+  }
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      const parsed = JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as { adminToken?: unknown };
+      if (typeof parsed.adminToken === "string" && parsed.adminToken) return parsed.adminToken;
+    } catch {
+      // Invalid config file, ignore
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether an Authorization header carries the admin token (constant-time compare).
+ */
+export function isAdminAuthorized(authorization: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Call onChange once the files have stopped changing for debounceMs. Watches
+ * their directories, so editors that save by rename are seen too. Returns a
+ * stop function; files in a missing directory are not watched.
+ */
+export function watchConfigFile(
+  files: string | string[],
+  onChange: () => void,
+  debounceMs = 250,
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const byDirectory = new Map<string, Set<string>>();
+  for (const file of typeof files === "string" ? [files] : files) {
+    const names = byDirectory.get(dirname(file)) ?? new Set<string>();
+    byDirectory.set(dirname(file), names.add(basename(file)));
+  }
+  const watchers: Array<ReturnType<typeof watch>> = [];
+  for (const [directory, names] of byDirectory) {
+    try {
+      const watcher = watch(directory, (_event, name) => {
+        if (name !== null && !names.has(name)) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(onChange, debounceMs);
+        timer.unref();
+      });
+      watcher.on("error", (err) =>
+        console.warn(`[ClawRouter] Config watcher error: ${err.message}`),
+      );
+      watcher.unref();
+      watchers.push(watcher);
+    } catch (err) {
+      console.warn(
+        `[ClawRouter] Not watching ${[...names].map((n) => `${directory}/${n}`).join(", ")}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  return () => {
+    if (timer) clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
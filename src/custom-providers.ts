@@ -0,0 +1,140 @@
+/**
+ * Custom Providers
+ *
+ * Lets config declare models the built-in catalog doesn't have, with their
+ * prices, context windows and capabilities, under `providers.<id>.models`:
+ *
+ *   "providers": {
+ *     "vllm": {
+ *       "baseUrl": "http://gpu-box:8000/v1",
+ *       "models": [{ "id": "llama-3.1-8b", "contextWindow": 131072, "aliases": ["local"] }]
+ *     }
+ *   }
+ *
+ * A provider ID without a registered adapter (Ollama, vLLM, LM Studio, Groq,
+ * Together, …) gets an OpenAI-compatible one. Declared models are routed as
+ * "<provider>/<id>" — in tiers, rules, aliases and /v1/models — like built-in ones.
+ */
+
+import type { ApiKeysConfig, ProviderModelConfig } from "./api-keys.js";
+import { BLOCKRUN_MODELS, setCustomModels, type BlockRunModel } from "./models.js";
+import {
+  getProviderAdapter,
+  setCustomAdapters,
+  openAICompatibleAdapter,
+  type ProviderAdapter,
+} from "./providers.js";
+import { validateSchema, type ConfigIssue, type JsonSchema } from "./router/schema.js";
+
+const DEFAULT_MAX_OUTPUT = 8192;
+
+const price: JsonSchema = { type: "number", minimum: 0 };
+const flag: JsonSchema = { type: "boolean" };
+
+/** JSON Schema for one entry of `providers.<id>.models` */
+export const PROVIDER_MODEL_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", pattern: "^\\S+$" },
+    name: { type: "string" },
+    inputPrice: price,
+    outputPrice: price,
+    cachedInputPrice: price,
+    contextWindow: { type: "integer", minimum: 1 },
+    maxOutput: { type: "integer", minimum: 1 },
+    reasoning: flag,
+    vision: flag,
+    tools: flag,
+    structuredOutput: flag,
+    agentic: flag,
+    local: flag,
+    aliases: { type: "array", items: { type: "string", pattern: "^[^/\\s]+$" } },
+  },
+  additionalProperties: false,
+  required: ["id", "contextWindow"],
+};
+
+export type CustomProviders = {
+  /** Adapters for provider IDs nothing else registered */
+  adapters: ProviderAdapter[];
+  /** Catalog entries, IDs prefixed with their provider */
+  models: BlockRunModel[];
+  /** Alias → model ID */
+  aliases: Record<string, string>;
+  errors: ConfigIssue[];
+};
+
+/**
+ * Read the declared models out of the API keys config. Nothing is registered
+ * yet — check `errors`, then applyCustomProviders(). Only registered adapters
+ * count as existing, not those of an earlier config's custom providers.
+ */
+export function parseCustomProviders(apiKeys: ApiKeysConfig): CustomProviders {
+  const result: CustomProviders = { adapters: [], models: [], aliases: {}, errors: [] };
+  const seen = new Set(BLOCKRUN_MODELS.map((m) => m.id));
+
+  for (const [provider, config] of Object.entries(apiKeys.providers)) {
+    if (config?.models === undefined) continue;
+    const path = `providers.${provider}`;
+    if (!Array.isArray(config.models)) {
+      result.errors.push({ path: `${path}.models`, message: "expected an array of models" });
+      continue;
+    }
+    if (!getProviderAdapter(provider, [])) {
+      if (!config.baseUrl) {
+        result.errors.push({
+          path: `${path}.baseUrl`,
+          message: `required — "${provider}" is not a built-in provider`,
+        });
+        continue;
+      }
+      result.adapters.push(openAICompatibleAdapter({ id: provider, baseUrl: config.baseUrl }));
+    }
+
+    config.models.forEach((model: ProviderModelConfig, i) => {
+      const modelPath = `${path}.models[${i}]`;
+      const issues = validateSchema(PROVIDER_MODEL_SCHEMA, model, modelPath);
+      if (issues.length > 0) {
+        result.errors.push(...issues);
+        return;
+      }
+      const id = `${provider}/${model.id}`;
+      if (seen.has(id)) {
+        result.errors.push({ path: `${modelPath}.id`, message: `duplicate model "${id}"` });
+        return;
+      }
+      seen.add(id);
+      const { aliases, ...definition } = model;
+      result.models.push({
+        ...definition,
+        id,
+        name: model.name ?? model.id,
+        inputPrice: model.inputPrice ?? 0,
+        outputPrice: model.outputPrice ?? 0,
+        maxOutput: model.maxOutput ?? Math.min(model.contextWindow, DEFAULT_MAX_OUTPUT),
+      });
+      for (const alias of aliases ?? []) {
+        const key = alias.toLowerCase();
+        const taken = result.aliases[key];
+        if (taken) {
+          result.errors.push({
+            path: `${modelPath}.aliases`,
+            message: `alias "${alias}" already points to ${taken}`,
+          });
+        } else {
+          result.aliases[key] = id;
+        }
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Make the parsed providers the default for catalog and adapter lookups,
+ * replacing the previous config's — adapters and models together.
+ */
+export function applyCustomProviders(custom: CustomProviders): void {
+  setCustomAdapters(custom.adapters);
+  setCustomModels(custom.models, custom.aliases);
+}
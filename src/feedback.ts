@@ -0,0 +1,342 @@
+/**
+ * Routing Feedback
+ *
+ * Learns from what happens after an auto-routed answer:
+ *
+ *   error     — a provider error while serving it
+ *   retry     — the client re-sent the same messages right after the answer
+ *   override  — the next request in the conversation picked a model explicitly
+ *   empty     — the completion had no content and no tool calls
+ *   truncated — the completion stopped at max_tokens
+ *
+ * Outcomes are kept per signal pattern (the classifier's tier and strongest
+ * dimensions, see signalPattern), so what went wrong for one prompt applies to
+ * prompts that look alike. Each bad outcome adds weight; a clean answer takes a
+ * little away, and weight halves every halfLifeDays. Every `threshold` of weight
+ * moves the pattern's prompts up one tier (at most maxTiers), shown in the
+ * decision's reasoning as "feedback: SIMPLE -> MEDIUM (retry×3)".
+ *
+ * Stored in ~/.openclaw/clawrouter/feedback.json. Disabled unless
+ * `feedback.enabled` is set. Reset with DELETE /feedback or `clawrouter feedback --reset`.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, existsSync } from "node:fs";
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import { CONFIG_FILE } from "./api-keys.js";
+import type { TierCorrection } from "./router/index.js";
+
+export type FeedbackSignal = "error" | "retry" | "override" | "empty" | "truncated";
+
+export type FeedbackConfig = {
+  /** Record outcomes and apply corrections (default: false) */
+  enabled: boolean;
+  /** Weight per tier of correction (default: 3) */
+  threshold: number;
+  /** Most tiers a pattern can be moved up (default: 1) */
+  maxTiers: number;
+  /** Weight halves over this many days without new outcomes (default: 7) */
+  halfLifeDays: number;
+  /** How soon a retry or override must follow the answer to count (default: 2 minutes) */
+  followUpWindowMs: number;
+  /** Store location (default: ~/.openclaw/clawrouter/feedback.json) */
+  file: string;
+};
+
+export const DEFAULT_FEEDBACK_CONFIG: FeedbackConfig = {
+  enabled: false,
+  threshold: 3,
+  maxTiers: 1,
+  halfLifeDays: 7,
+  followUpWindowMs: 2 * 60 * 1000,
+  file: join(homedir(), ".openclaw", "clawrouter", "feedback.json"),
+};
+
+/** Weight each outcome adds to its pattern — overrides are the clearest "too weak" signal */
+const SIGNAL_WEIGHTS: Record<FeedbackSignal | "success", number> = {
+  error: 0.5,
+  retry: 1,
+  override: 1.5,
+  empty: 1,
+  truncated: 0.5,
+  success: -0.2,
+};
+
+export type FeedbackEntry = {
+  /** Accumulated weight as of updatedAt (decays from there) */
+  weight: number;
+  counts: Partial<Record<FeedbackSignal, number>>;
+  updatedAt: string;
+};
+
+export type FeedbackPatternStatus = {
+  pattern: string;
+  /** Current (decayed) weight */
+  weight: number;
+  /** Tiers prompts with this pattern are moved up */
+  tiers: number;
+  counts: Partial<Record<FeedbackSignal, number>>;
+  updatedAt: string;
+};
+
+export type FeedbackStatus = {
+  enabled: boolean;
+  threshold: number;
+  patterns: FeedbackPatternStatus[];
+};
+
+/** A retry or override of an auto-routed answer, to be recorded against its pattern */
+export type FollowUp = { pattern: string; signal: "retry" | "override" };
+
+/** The last auto-routed answer in a conversation, waiting for a follow-up */
+type PendingAnswer = { pattern: string; request: string; answeredAt: number };
+
+/**
+ * Load feedback config from ~/.openclaw/clawrouter/config.json (`feedback` key),
+ * overridden by plugin config.
+ */
+export function loadFeedbackConfig(
+  pluginConfig?: Record<string, unknown>,
+): Partial<FeedbackConfig> {
+  let config: Partial<FeedbackConfig> = {};
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      const content = readFileSync(CONFIG_FILE, "utf-8").trim();
+      if (content) {
+        const parsed = JSON.parse(content) as { feedback?: Partial<FeedbackConfig> };
+        if (parsed.feedback) config = { ...parsed.feedback };
+      }
+    } catch {
+      // Invalid config file, ignore
+    }
+  }
+  if (pluginConfig?.feedback && typeof pluginConfig.feedback === "object") {
+    config = { ...config, ...(pluginConfig.feedback as Partial<FeedbackConfig>) };
+  }
+  return config;
+}
+
+const hash = (value: unknown) =>
+  createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 16);
+
+/**
+ * Identifies a conversation across requests: the session ID when the client
+ * sends one, else the messages up to the first user message.
+ */
+export function conversationKey(messages: unknown[], sessionId?: string): string {
+  if (sessionId) return `session:${sessionId}`;
+  const firstUser = messages.findIndex((m) => (m as { role?: unknown })?.role === "user");
+  return hash(messages.slice(0, firstUser + 1));
+}
+
+/** Identifies one request's messages, to spot a client re-sending them */
+export function requestKey(messages: unknown[]): string {
+  return hash(messages);
+}
+
+/**
+ * Whether a completion (OpenAI JSON, or the SSE stream sent to the client)
+ * came back empty or cut off at max_tokens. Unparseable bodies count as fine.
+ */
+export function completionOutcome(
+  body: string,
+  streaming: boolean,
+): "empty" | "truncated" | undefined {
+  type Choice = {
+    message?: { content?: unknown; tool_calls?: unknown[] };
+    delta?: { content?: unknown; tool_calls?: unknown[] };
+    finish_reason?: string | null;
+  };
+  let chunks: Array<{ choices?: Choice[]; error?: unknown }>;
+  try {
+    chunks = streaming
+      ? body
+          .split("\n")
+          .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+          .map((line) => JSON.parse(line.slice(6)))
+      : [JSON.parse(body)];
+  } catch {
+    return undefined;
+  }
+  if (chunks.length === 0 || chunks.some((c) => c.error)) return undefined;
+
+  let content = "";
+  let toolCalls = false;
+  let finishReason: string | null | undefined;
+  for (const chunk of chunks) {
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    const part = choice.message ?? choice.delta;
+    if (typeof part?.content === "string") content += part.content;
+    if (part?.tool_calls?.length) toolCalls = true;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  }
+  if (finishReason === "length") return "truncated";
+  if (!content.trim() && !toolCalls) return "empty";
+  return undefined;
+}
+
+/**
+ * Per-pattern routing outcomes, persisted to disk.
+ */
+export class FeedbackStore {
+  private entries = new Map<string, FeedbackEntry>();
+  private pending = new Map<string, PendingAnswer>();
+  private config: FeedbackConfig;
+  private now: () => number;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: Partial<FeedbackConfig> = {}, now: () => number = () => Date.now()) {
+    this.config = { ...DEFAULT_FEEDBACK_CONFIG, ...config };
+    this.now = now;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Read the stored corrections. A missing or unreadable file starts empty.
+   */
+  async load(): Promise<void> {
+    this.entries.clear();
+    try {
+      const stored = JSON.parse(await readFile(this.config.file, "utf-8")) as {
+        patterns?: Record<string, FeedbackEntry>;
+      };
+      for (const [pattern, entry] of Object.entries(stored.patterns ?? {})) {
+        if (typeof entry?.weight === "number") this.entries.set(pattern, entry);
+      }
+    } catch {
+      // No store yet
+    }
+  }
+
+  /**
+   * Correction for prompts with this signal pattern, if its weight is high enough.
+   */
+  correction(pattern: string): TierCorrection | undefined {
+    const entry = this.entries.get(pattern);
+    if (!this.enabled || !entry) return undefined;
+    const tiers = this.tiersFor(this.decayed(entry));
+    if (tiers === 0) return undefined;
+    const reason = Object.entries(entry.counts)
+      .map(([signal, count]) => `${signal}×${count}`)
+      .join(", ");
+    return { tiers, reason };
+  }
+
+  /**
+   * Add an outcome for a pattern. "success" only lowers an existing weight.
+   */
+  record(pattern: string, signal: FeedbackSignal | "success"): void {
+    if (!this.enabled) return;
+    const entry = this.entries.get(pattern);
+    if (!entry && signal === "success") return;
+
+    const weight = (entry ? this.decayed(entry) : 0) + SIGNAL_WEIGHTS[signal];
+    if (weight <= 0) {
+      this.entries.delete(pattern);
+    } else {
+      const counts = { ...entry?.counts };
+      if (signal !== "success") counts[signal] = (counts[signal] ?? 0) + 1;
+      this.entries.set(pattern, {
+        weight,
+        counts,
+        updatedAt: new Date(this.now()).toISOString(),
+      });
+    }
+    this.save();
+  }
+
+  /**
+   * Before routing a request: if it follows an auto-routed answer in the same
+   * conversation closely enough, return a retry (same messages, auto model)
+   * or an override (explicit model) of that answer's pattern. The caller
+   * records it once the request isn't answered from the dedup cache — a
+   * replay is a transport retry, not a verdict on the answer.
+   */
+  observe(conversation: string, request: string, auto: boolean): FollowUp | undefined {
+    const previous = this.pending.get(conversation);
+    if (!this.enabled || !previous) return undefined;
+    this.pending.delete(conversation);
+    if (this.now() - previous.answeredAt > this.config.followUpWindowMs) return undefined;
+
+    const signal = !auto ? "override" : request === previous.request ? "retry" : undefined;
+    return signal && { pattern: previous.pattern, signal };
+  }
+
+  /**
+   * After an auto-routed answer completes: remember it for observe().
+   */
+  answered(conversation: string, request: string, pattern: string): void {
+    if (!this.enabled) return;
+    const now = this.now();
+    for (const [key, answer] of this.pending) {
+      if (now - answer.answeredAt > this.config.followUpWindowMs) this.pending.delete(key);
+    }
+    this.pending.set(conversation, { pattern, request, answeredAt: now });
+  }
+
+  /**
+   * Forget one pattern's outcomes, or all of them. Returns how many were removed.
+   */
+  reset(pattern?: string): number {
+    let removed: number;
+    if (pattern) {
+      removed = this.entries.delete(pattern) ? 1 : 0;
+    } else {
+      removed = this.entries.size;
+      this.entries.clear();
+      this.pending.clear();
+    }
+    this.save();
+    return removed;
+  }
+
+  /**
+   * Stored patterns, strongest first, for GET /feedback.
+   */
+  getStatus(): FeedbackStatus {
+    const patterns = [...this.entries].map(([pattern, entry]) => {
+      const weight = this.decayed(entry);
+      return {
+        pattern,
+        weight: Math.round(weight * 100) / 100,
+        tiers: this.tiersFor(weight),
+        counts: entry.counts,
+        updatedAt: entry.updatedAt,
+      };
+    });
+    patterns.sort((a, b) => b.weight - a.weight);
+    return { enabled: this.enabled, threshold: this.config.threshold, patterns };
+  }
+
+  /** Resolves once pending writes have reached disk */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private decayed(entry: FeedbackEntry): number {
+    const ageDays = (this.now() - Date.parse(entry.updatedAt)) / 86_400_000;
+    return entry.weight * 0.5 ** (Math.max(0, ageDays) / this.config.halfLifeDays);
+  }
+
+  private tiersFor(weight: number): number {
+    return Math.min(this.config.maxTiers, Math.floor(weight / this.config.threshold));
+  }
+
+  private save(): void {
+    const data = JSON.stringify({ patterns: Object.fromEntries(this.entries) }, null, 2);
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(dirname(this.config.file), { recursive: true });
+        await writeFile(this.config.file, data);
+      })
+      .catch(() => {
+        // Never break the request flow — the store is rebuilt from new outcomes
+      });
+  }
+}
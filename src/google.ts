@@ -0,0 +1,465 @@
+/**
+ * Google Gemini generateContent ⇄ OpenAI Chat Completions
+ *
+ * Direct Google keys hit `models/{model}:generateContent` (or
+ * `:streamGenerateContent?alt=sse`), whose request and response shapes
+ * differ from OpenAI's. These helpers translate messages, tools and
+ * generation settings on the way out, and candidates, function calls and
+ * usageMetadata on the way back.
+ */
+
+type ToolCall = { id?: string; type?: string; function?: { name?: string; arguments?: string } };
+
+type ChatMessage = {
+  role: string;
+  content: string | unknown;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+};
+
+type ContentPart = {
+  type?: string;
+  text?: string;
+  image_url?: { url?: string } | string;
+};
+
+type GeminiPart = Record<string, unknown>;
+
+type GeminiContent = { role: "user" | "model"; parts: GeminiPart[] };
+
+type OpenAITool = {
+  type?: string;
+  function?: { name?: string; description?: string; parameters?: unknown };
+};
+
+type GeminiUsage = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+};
+
+type GeminiCandidate = {
+  index?: number;
+  content?: {
+    parts?: Array<{
+      text?: string;
+      thought?: boolean;
+      functionCall?: { id?: string; name?: string; args?: unknown };
+    }>;
+  };
+  finishReason?: string;
+};
+
+type GeminiResponse = {
+  candidates?: GeminiCandidate[];
+  usageMetadata?: GeminiUsage;
+  modelVersion?: string;
+  responseId?: string;
+  error?: { code?: number; message?: string; status?: string };
+};
+
+/** JSON Schema keywords the Gemini function/response schema rejects */
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "$id", "additionalProperties", "strict"]);
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+};
+
+const SAFETY_FINISH_REASONS = new Set([
+  "SAFETY",
+  "RECITATION",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+/**
+ * Map Gemini finish reasons to OpenAI finish reasons.
+ */
+function mapFinishReason(finishReason: string | undefined, hasToolCalls: boolean): string {
+  if (hasToolCalls) return "tool_calls";
+  if (finishReason === "MAX_TOKENS") return "length";
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) return "content_filter";
+  return "stop";
+}
+
+function convertUsage(usage: GeminiUsage): Record<string, unknown> {
+  const promptTokens = usage.promptTokenCount || 0;
+  const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    ...(usage.cachedContentTokenCount
+      ? { prompt_tokens_details: { cached_tokens: usage.cachedContentTokenCount } }
+      : {}),
+  };
+}
+
+/**
+ * Strip JSON Schema keywords Gemini doesn't accept, recursively.
+ */
+function sanitizeSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(sanitizeSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+    result[key] = sanitizeSchema(value);
+  }
+  return result;
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return (content as ContentPart[])
+      .filter((p) => p?.type === "text" && typeof p.text === "string")
+      .map((p) => p.text)
+      .join("\n");
+  }
+  return content == null ? "" : JSON.stringify(content);
+}
+
+function convertImagePart(part: ContentPart): GeminiPart | undefined {
+  const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+  if (!url) return undefined;
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) return { inlineData: { mimeType: dataUrl[1], data: dataUrl[2] } };
+  const extension = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  return {
+    fileData: { fileUri: url, mimeType: MIME_BY_EXTENSION[extension ?? ""] ?? "image/jpeg" },
+  };
+}
+
+function convertContent(content: unknown): GeminiPart[] {
+  if (typeof content === "string") return content ? [{ text: content }] : [];
+  if (!Array.isArray(content)) return content == null ? [] : [{ text: JSON.stringify(content) }];
+  const parts: GeminiPart[] = [];
+  for (const part of content as ContentPart[]) {
+    if (part?.type === "text" && part.text) parts.push({ text: part.text });
+    else if (part?.type === "image_url") {
+      const image = convertImagePart(part);
+      if (image) parts.push(image);
+    }
+  }
+  return parts;
+}
+
+function parseToolArguments(args: string | undefined): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * functionResponse.response must be an object — wrap anything else.
+ */
+function toFunctionResponse(content: unknown): Record<string, unknown> {
+  const text = textOf(content);
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // not JSON — wrap as text
+  }
+  return { content: text };
+}
+
+/**
+ * Convert OpenAI messages to Gemini contents + systemInstruction.
+ * - assistant tool_calls → functionCall parts (role "model")
+ * - role "tool" messages → functionResponse parts (name looked up from the call ID)
+ * - consecutive same-role turns are merged
+ */
+function convertMessages(messages: ChatMessage[]): {
+  systemInstruction: { parts: GeminiPart[] } | undefined;
+  contents: GeminiContent[];
+} {
+  const systemParts: GeminiPart[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNames = new Map<string, string>();
+
+  const append = (role: "user" | "model", parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) last.parts.push(...parts);
+    else contents.push({ role, parts: [...parts] });
+  };
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      const text = textOf(msg.content);
+      if (text) systemParts.push({ text });
+    } else if (msg.role === "assistant") {
+      const calls: GeminiPart[] = (msg.tool_calls ?? []).map((tc) => {
+        if (tc.id && tc.function?.name) toolNames.set(tc.id, tc.function.name);
+        return {
+          functionCall: {
+            name: tc.function?.name,
+            args: parseToolArguments(tc.function?.arguments),
+          },
+        };
+      });
+      append("model", [...convertContent(msg.content), ...calls]);
+    } else if (msg.role === "tool" || msg.role === "function") {
+      const name = (msg.tool_call_id && toolNames.get(msg.tool_call_id)) || msg.name || "tool";
+      append("user", [{ functionResponse: { name, response: toFunctionResponse(msg.content) } }]);
+    } else {
+      append("user", convertContent(msg.content));
+    }
+  }
+
+  return {
+    systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined,
+    contents,
+  };
+}
+
+function convertToolConfig(toolChoice: unknown): Record<string, unknown> | undefined {
+  if (toolChoice === "auto") return { functionCallingConfig: { mode: "AUTO" } };
+  if (toolChoice === "required") return { functionCallingConfig: { mode: "ANY" } };
+  if (toolChoice === "none") return { functionCallingConfig: { mode: "NONE" } };
+  const name = (toolChoice as { function?: { name?: string } } | undefined)?.function?.name;
+  if (name) return { functionCallingConfig: { mode: "ANY", allowedFunctionNames: [name] } };
+  return undefined;
+}
+
+function convertGenerationConfig(parsed: Record<string, unknown>): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  const maxTokens = parsed.max_completion_tokens ?? parsed.max_tokens;
+  if (maxTokens !== undefined) config.maxOutputTokens = maxTokens;
+  if (parsed.temperature !== undefined) config.temperature = parsed.temperature;
+  if (parsed.top_p !== undefined) config.topP = parsed.top_p;
+  if (parsed.n !== undefined) config.candidateCount = parsed.n;
+  if (parsed.seed !== undefined) config.seed = parsed.seed;
+  if (parsed.presence_penalty !== undefined) config.presencePenalty = parsed.presence_penalty;
+  if (parsed.frequency_penalty !== undefined) config.frequencyPenalty = parsed.frequency_penalty;
+  if (parsed.stop !== undefined && parsed.stop !== null) {
+    config.stopSequences = Array.isArray(parsed.stop) ? parsed.stop : [parsed.stop];
+  }
+
+  const responseFormat = parsed.response_format as
+    { type?: string; json_schema?: { schema?: unknown } } | undefined;
+  if (responseFormat?.type === "json_object" || responseFormat?.type === "json_schema") {
+    config.responseMimeType = "application/json";
+    if (responseFormat.json_schema?.schema) {
+      config.responseSchema = sanitizeSchema(responseFormat.json_schema.schema);
+    }
+  }
+  return config;
+}
+
+/**
+ * Convert OpenAI chat completion format to a Gemini generateContent request.
+ */
+export function convertToGeminiFormat(parsed: Record<string, unknown>): Record<string, unknown> {
+  const { systemInstruction, contents } = convertMessages((parsed.messages as ChatMessage[]) || []);
+
+  const result: Record<string, unknown> = { contents };
+  if (systemInstruction) result.systemInstruction = systemInstruction;
+
+  if (Array.isArray(parsed.tools) && parsed.tools.length > 0) {
+    const functionDeclarations = (parsed.tools as OpenAITool[])
+      .filter((t) => t.type === "function" && t.function?.name)
+      .map((t) => ({
+        name: t.function!.name,
+        ...(t.function!.description ? { description: t.function!.description } : {}),
+        ...(t.function!.parameters ? { parameters: sanitizeSchema(t.function!.parameters) } : {}),
+      }));
+    if (functionDeclarations.length > 0) result.tools = [{ functionDeclarations }];
+    const toolConfig = convertToolConfig(parsed.tool_choice);
+    if (toolConfig) result.toolConfig = toolConfig;
+  }
+
+  const generationConfig = convertGenerationConfig(parsed);
+  if (Object.keys(generationConfig).length > 0) result.generationConfig = generationConfig;
+
+  return result;
+}
+
+/**
+ * Convert a complete Gemini generateContent response to OpenAI format.
+ */
+export function convertGeminiResponseToOpenAI(
+  data: Record<string, unknown>,
+  model: string,
+): Record<string, unknown> {
+  const response = data as GeminiResponse;
+  let callCount = 0;
+  const choices = (response.candidates ?? []).map((candidate, i) => {
+    const parts = (candidate.content?.parts ?? []).filter((p) => !p.thought);
+    const text = parts
+      .filter((p) => typeof p.text === "string")
+      .map((p) => p.text)
+      .join("");
+    const toolCalls = parts
+      .filter((p) => p.functionCall)
+      .map((p) => ({
+        id: p.functionCall!.id ?? `call_${Date.now()}_${callCount++}`,
+        type: "function",
+        function: {
+          name: p.functionCall!.name,
+          arguments: JSON.stringify(p.functionCall!.args ?? {}),
+        },
+      }));
+    return {
+      index: candidate.index ?? i,
+      message: {
+        role: "assistant",
+        content: text || (toolCalls.length > 0 ? null : ""),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: mapFinishReason(candidate.finishReason, toolCalls.length > 0),
+    };
+  });
+
+  return {
+    id: response.responseId ? `chatcmpl-${response.responseId}` : `chatcmpl-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: response.modelVersion ?? model,
+    choices,
+    usage: response.usageMetadata ? convertUsage(response.usageMetadata) : undefined,
+  };
+}
+
+/**
+ * Translates a Gemini `streamGenerateContent?alt=sse` stream into OpenAI
+ * `chat.completion.chunk` SSE.
+ *
+ * Each Gemini event carries a slice of every candidate: text parts become
+ * content deltas and functionCall parts become complete tool_calls deltas.
+ * Gemini has no terminal event, so call finish() when the upstream body ends
+ * to emit the usage chunk and [DONE].
+ */
+export class GeminiStreamTranslator {
+  private id = `chatcmpl-${Date.now()}`;
+  private model: string;
+  private created = Math.floor(Date.now() / 1000);
+  private usage: GeminiUsage | undefined;
+  private started = new Set<number>();
+  /** candidate index → number of tool calls emitted so far */
+  private toolCallCounts = new Map<number, number>();
+  private finished = false;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  push(line: string): string[] {
+    if (!line.startsWith("data:")) return [];
+    let event: GeminiResponse;
+    try {
+      event = JSON.parse(line.slice(5).trim()) as GeminiResponse;
+    } catch {
+      return [];
+    }
+
+    if (event.error) {
+      return [
+        `data: ${JSON.stringify({
+          error: {
+            message: event.error.message ?? "Gemini stream error",
+            type: event.error.status ?? "provider_error",
+          },
+        })}`,
+        "",
+      ];
+    }
+
+    if (event.responseId) this.id = `chatcmpl-${event.responseId}`;
+    if (event.modelVersion) this.model = event.modelVersion;
+    if (event.usageMetadata) this.usage = event.usageMetadata;
+
+    const out: string[] = [];
+    for (const [i, candidate] of (event.candidates ?? []).entries()) {
+      const index = candidate.index ?? i;
+      if (!this.started.has(index)) {
+        this.started.add(index);
+        out.push(...this.chunk(index, { role: "assistant", content: "" }));
+      }
+
+      for (const part of candidate.content?.parts ?? []) {
+        if (part.thought) continue;
+        if (part.functionCall) {
+          const toolIndex = this.toolCallCounts.get(index) ?? 0;
+          this.toolCallCounts.set(index, toolIndex + 1);
+          out.push(
+            ...this.chunk(index, {
+              tool_calls: [
+                {
+                  index: toolIndex,
+                  id: part.functionCall.id ?? `call_${Date.now()}_${toolIndex}`,
+                  type: "function",
+                  function: {
+                    name: part.functionCall.name,
+                    arguments: JSON.stringify(part.functionCall.args ?? {}),
+                  },
+                },
+              ],
+            }),
+          );
+        } else if (part.text) {
+          out.push(...this.chunk(index, { content: part.text }));
+        }
+      }
+
+      if (candidate.finishReason) {
+        const hasToolCalls = (this.toolCallCounts.get(index) ?? 0) > 0;
+        out.push(...this.chunk(index, {}, mapFinishReason(candidate.finishReason, hasToolCalls)));
+      }
+    }
+    return out;
+  }
+
+  finish(): string[] {
+    if (this.finished) return [];
+    this.finished = true;
+    const usage = this.usage
+      ? [
+          `data: ${JSON.stringify({ ...this.baseChunk(), choices: [], usage: convertUsage(this.usage) })}`,
+          "",
+        ]
+      : [];
+    return [...usage, "data: [DONE]", ""];
+  }
+
+  private baseChunk() {
+    return {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.model,
+      system_fingerprint: null,
+    };
+  }
+
+  private chunk(
+    index: number,
+    delta: Record<string, unknown>,
+    finishReason: string | null = null,
+  ): string[] {
+    const data = {
+      ...this.baseChunk(),
+      choices: [{ index, delta, logprobs: null, finish_reason: finishReason }],
+    };
+    return [`data: ${JSON.stringify(data)}`, ""];
+  }
+}
@@ -18,15 +18,20 @@ import type {
 } from "./types.js";
 import { clawrouterProvider, setActiveProxy } from "./provider.js";
 import { startProxy, getProxyPort } from "./proxy.js";
-import { loadApiKeys, getConfiguredProviders, hasOpenRouter, getAccessibleProviders, type ApiKeysConfig } from "./api-keys.js";
-import type { RoutingConfig } from "./router/index.js";
-import { OPENCLAW_MODELS } from "./models.js";
+import { loadApiKeys, loadProviderAdapters, getConfiguredProviders, hasOpenRouter, getAccessibleProviders, type ApiKeysConfig } from "./api-keys.js";
+import { getOpenClawModels } from "./models.js";
+import { parseCustomProviders, applyCustomProviders } from "./custom-providers.js";
+import { formatConfigIssues } from "./router/index.js";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { VERSION } from "./version.js";
 import { getStats, formatStatsAscii } from "./stats.js";
 import { refreshOpenRouterModels } from "./openrouter-models.js";
+import { loadBudgetConfig } from "./budget.js";
+import { loadFeedbackConfig } from "./feedback.js";
+import { loadRoutingConfig, loadReloadableConfig, loadAdminToken, configSourceFiles } from "./config-reload.js";
+import type { CircuitBreakerConfig } from "./circuit-breaker.js";
 
 async function waitForProxyHealth(port: number, timeoutMs = 3000): Promise<boolean> {
   const start = Date.now();
@@ -82,7 +87,7 @@ function injectModelsConfig(logger: { info: (msg: string) => void }): void {
       baseUrl: expectedBaseUrl,
       api: "openai-completions",
       apiKey: "local-proxy",
-      models: OPENCLAW_MODELS,
+      models: getOpenClawModels(),
     };
     needsWrite = true;
   } else {
@@ -92,7 +97,7 @@ function injectModelsConfig(logger: { info: (msg: string) => void }): void {
     if (!cr.api) { cr.api = "openai-completions"; fixed = true; }
     if (!cr.apiKey) { cr.apiKey = "local-proxy"; fixed = true; }
     const currentModels = cr.models as unknown[];
-    if (!currentModels || !Array.isArray(currentModels) || currentModels.length !== OPENCLAW_MODELS.length) { cr.models = OPENCLAW_MODELS; fixed = true; }
+    if (!currentModels || !Array.isArray(currentModels) || currentModels.length !== getOpenClawModels().length) { cr.models = getOpenClawModels(); fixed = true; }
     if (fixed) needsWrite = true;
   }
 
@@ -128,7 +133,11 @@ function injectModelsConfig(logger: { info: (msg: string) => void }): void {
 
 let activeProxyHandle: Awaited<ReturnType<typeof startProxy>> | null = null;
 
-async function startProxyInBackground(api: OpenClawPluginApi, apiKeys: ApiKeysConfig): Promise<void> {
+async function startProxyInBackground(api: OpenClawPluginApi, initialKeys: ApiKeysConfig): Promise<void> {
+  // Third-party adapters bring their own env vars — re-read keys once they're registered
+  const adapters = await loadProviderAdapters(api.pluginConfig);
+  if (adapters.length > 0) api.logger.info(`Provider adapters: ${adapters.map((a) => a.id).join(", ")}`);
+  const apiKeys = adapters.length > 0 ? loadApiKeys(api.pluginConfig) : initialKeys;
   const configuredProviders = getConfiguredProviders(apiKeys);
   const orFallback = hasOpenRouter(apiKeys);
   const accessibleProviders = getAccessibleProviders(apiKeys);
@@ -139,11 +148,15 @@ async function startProxyInBackground(api: OpenClawPluginApi, apiKeys: ApiKeysCo
     return;
   }
 
-  const routingConfig = api.pluginConfig?.routing as Partial<RoutingConfig> | undefined;
-
   const proxy = await startProxy({
     apiKeys,
-    routingConfig,
+    routingConfig: loadRoutingConfig(api.pluginConfig),
+    budgets: loadBudgetConfig(api.pluginConfig),
+    feedback: loadFeedbackConfig(api.pluginConfig),
+    loadConfig: (keyOptions) => loadReloadableConfig(api.pluginConfig, keyOptions),
+    watchConfigFile: configSourceFiles(),
+    adminToken: loadAdminToken(api.pluginConfig),
+    circuitBreaker: api.pluginConfig?.circuitBreaker as Partial<CircuitBreakerConfig> | undefined,
     onReady: (port) => api.logger.info(`ClawRouter proxy listening on port ${port}`),
     onError: (error) => api.logger.error(`ClawRouter proxy error: ${error.message}`),
     onRouted: (decision) => {
@@ -184,13 +197,15 @@ async function createStatsCommand(): Promise<OpenClawPluginCommandDefinition> {
   };
 }
 
-async function createKeysCommand(apiKeys: ApiKeysConfig): Promise<OpenClawPluginCommandDefinition> {
+/** `currentKeys` is read on every call, so the command reflects config reloads */
+async function createKeysCommand(currentKeys: () => ApiKeysConfig): Promise<OpenClawPluginCommandDefinition> {
   return {
     name: "keys",
     description: "Show configured API key status (no secrets shown)",
     acceptsArgs: false,
     requireAuth: true,
     handler: async () => {
+      const apiKeys = currentKeys();
       const providers = getConfiguredProviders(apiKeys);
       if (providers.length === 0) {
         return {
@@ -209,7 +224,7 @@ async function createKeysCommand(apiKeys: ApiKeysConfig): Promise<OpenClawPlugin
             "• `XAI_API_KEY=xai-...`",
             "• `DEEPSEEK_API_KEY=sk-...`",
             "",
-            "**Or edit:** `~/.openclaw/clawrouter/config.json`",
+            "**Or edit:** `~/.openclaw/clawrouter/config.json` (`clawrouter keys encrypt` moves its keys to an encrypted store)",
           ].join("\n"),
         };
       }
@@ -220,10 +235,11 @@ async function createKeysCommand(apiKeys: ApiKeysConfig): Promise<OpenClawPlugin
         "🔑 **ClawRouter API Keys**",
         "",
         ...providers.map((p) => {
-          const key = apiKeys.providers[p]?.apiKey || "";
-          const masked = key.length > 8 ? key.slice(0, 4) + "..." + key.slice(-4) : "****";
+          // Where the key comes from — never any part of the key itself
+          const { keySource = "config", keys } = apiKeys.providers[p] ?? {};
+          const pool = keys?.length ? `, ${keys.length} keys` : "";
           const label = p === "openrouter" ? `${p} (fallback for all providers)` : p;
-          return `• **${label}**: \`${masked}\` ✅`;
+          return `• **${label}**: ${keySource}${pool} ✅`;
         }),
         "",
         orActive ? `**${accessible.length} providers accessible** (${providers.filter(p => p !== "openrouter").length} direct + OpenRouter fallback)` : `**${providers.length} providers configured**`,
@@ -252,8 +268,11 @@ const plugin: OpenClawPluginDefinition = {
       return;
     }
 
-    // Load API keys
+    // Load API keys, and the models custom providers declare (so OpenClaw lists them)
     const apiKeys = loadApiKeys(api.pluginConfig);
+    const custom = parseCustomProviders(apiKeys);
+    if (custom.errors.length > 0) api.logger.warn(`Invalid custom providers:\n${formatConfigIssues(custom.errors)}`);
+    else applyCustomProviders(custom);
 
     api.registerProvider(clawrouterProvider);
     injectModelsConfig(api.logger);
@@ -266,7 +285,7 @@ const plugin: OpenClawPluginDefinition = {
       baseUrl: `http://127.0.0.1:${runtimePort}/v1`,
       api: "openai-completions",
       apiKey: "local-proxy",
-      models: OPENCLAW_MODELS,
+      models: getOpenClawModels(),
     };
 
     if (!api.config.agents) api.config.agents = {};
@@ -282,7 +301,8 @@ const plugin: OpenClawPluginDefinition = {
 
     // Register commands
     createStatsCommand().then((cmd) => api.registerCommand(cmd)).catch(() => {});
-    createKeysCommand(apiKeys).then((cmd) => api.registerCommand(cmd)).catch(() => {});
+    // The running proxy's keys once it's up — they follow config reloads
+    createKeysCommand(() => activeProxyHandle?.apiKeys() ?? apiKeys).then((cmd) => api.registerCommand(cmd)).catch(() => {});
 
     // Register service for cleanup
     api.registerService({
@@ -317,24 +337,43 @@ export default plugin;
 
 // Re-exports
 export { startProxy, getProxyPort } from "./proxy.js";
-export type { ProxyOptions, ProxyHandle } from "./proxy.js";
+export type { ProxyOptions, ProxyHandle, ChainDrop, ReloadResult } from "./proxy.js";
 export { clawrouterProvider } from "./provider.js";
 export {
-  OPENCLAW_MODELS, BLOCKRUN_MODELS, buildProviderModels, MODEL_ALIASES,
-  resolveModelAlias, isAgenticModel, getAgenticModels, getModelContextWindow,
+  OPENCLAW_MODELS, BLOCKRUN_MODELS, buildProviderModels, MODEL_ALIASES, getAllModels, getOpenClawModels,
+  resolveModelAlias, isAgenticModel, getAgenticModels, getModelContextWindow, getModelCapabilities, isLocalModel,
 } from "./models.js";
-export { route, DEFAULT_ROUTING_CONFIG, getFallbackChain, getFallbackChainFiltered } from "./router/index.js";
-export type { RoutingDecision, RoutingConfig, Tier } from "./router/index.js";
+export { route, routeAsync, DEFAULT_ROUTING_CONFIG, getFallbackChain, getFallbackChainFiltered, rankModels, rankFallbackChain, rankByCost, rankingMode, estimateRequestCost, detectCapabilities, filterByCapabilities, buildConversationContext, explainRoute, mergeRoutingConfig, applyProfile, parseEvalDataset, evaluateRouting, diffEvalReports, optimizeScoring, signalPattern, compileRoutingRules, matchRoutingRule, compilePrivacyCheck, localTierConfigs, NoLocalModelError, validateRoutingConfig, formatConfigIssues, ROUTING_CONFIG_SCHEMA } from "./router/index.js";
+export type { RoutingDecision, RoutingConfig, Tier, ModelHealth, RankingConfig, RankingWeights, Capability, RequestTokens, PayFetch, ConversationContext, RouteExplanation, TierBoundary, ScoringResult, DimensionDetail, EvalCase, EvalCaseResult, EvalReport, EvalChange, EvalDiff, TierMetrics, OptimizerOptions, OptimizeResult, OptimizerScore, ScoringOverride, TierCorrection, RoutingProfile, RoutingRule, RuleMatch, RuleAction, RuleContext, MatchedRule, PrivacyConfig, PrivacyCheck, ConfigIssue, ConfigValidation, JsonSchema } from "./router/index.js";
 export { logUsage } from "./logger.js";
 export type { UsageEntry } from "./logger.js";
+export { parseUsage, computeCost } from "./usage.js";
+export type { TokenUsage } from "./usage.js";
 export { RequestDeduplicator } from "./dedup.js";
 export type { CachedResponse } from "./dedup.js";
 export { fetchWithRetry, isRetryable, DEFAULT_RETRY_CONFIG } from "./retry.js";
 export type { RetryConfig } from "./retry.js";
 export { getStats, formatStatsAscii } from "./stats.js";
-export type { DailyStats, AggregatedStats } from "./stats.js";
+export type { DailyStats, AggregatedStats, TokenTotals } from "./stats.js";
 export { SessionStore, getSessionId, DEFAULT_SESSION_CONFIG } from "./session.js";
 export type { SessionEntry, SessionConfig } from "./session.js";
-export { loadApiKeys, getConfiguredProviders, getApiKey, getProviderFromModel, resolveProviderAccess, hasOpenRouter, getAccessibleProviders, isModelAccessible } from "./api-keys.js";
-export type { ApiKeysConfig, ProviderConfig } from "./api-keys.js";
-export { refreshOpenRouterModels, resolveOpenRouterModelId, isOpenRouterCacheReady } from "./openrouter-models.js";
+export { BudgetTracker, loadBudgetConfig } from "./budget.js";
+export type { BudgetConfig, BudgetLimit, BudgetWindows, BudgetStatus, BudgetVerdict } from "./budget.js";
+export { CircuitBreaker, CircuitBreakerRegistry, parseRetryAfter, rateLimitBackoff, DEFAULT_CIRCUIT_BREAKER_CONFIG } from "./circuit-breaker.js";
+export type { CircuitBreakerConfig, CircuitState, CircuitStatus } from "./circuit-breaker.js";
+export { ModelHealthTracker } from "./model-health.js";
+export { FeedbackStore, loadFeedbackConfig, conversationKey, completionOutcome, DEFAULT_FEEDBACK_CONFIG } from "./feedback.js";
+export type { FeedbackConfig, FeedbackSignal, FollowUp, FeedbackEntry, FeedbackStatus, FeedbackPatternStatus } from "./feedback.js";
+export { loadRoutingConfig, loadReloadableConfig, loadAdminToken, isAdminAuthorized, watchConfigFile, configSourceFiles } from "./config-reload.js";
+export type { ReloadableConfig } from "./config-reload.js";
+export { loadApiKeys, loadProviderAdapters, getConfiguredProviders, getApiKey, getProviderFromModel, resolveProviderAccess, hasOpenRouter, getAccessibleProviders, isModelAccessible, saveApiKeys, encryptConfigKeys } from "./api-keys.js";
+export type { ApiKeysConfig, ProviderConfig, ProviderModelConfig, ProviderKeyConfig, LoadApiKeysOptions } from "./api-keys.js";
+export { SECRETS_FILE, PASSPHRASE_ENV, encryptSecrets, decryptSecrets, loadSecretStore, saveSecretStore } from "./secrets.js";
+export type { StoredSecrets } from "./secrets.js";
+export { KeyPoolRegistry, validateProviderKeys, PROVIDER_KEY_SCHEMA, BENCH_STATUSES } from "./key-pool.js";
+export type { SelectedKey, KeyStatus } from "./key-pool.js";
+export { parseCustomProviders, applyCustomProviders, PROVIDER_MODEL_SCHEMA } from "./custom-providers.js";
+export type { CustomProviders } from "./custom-providers.js";
+export { registerProviderAdapter, getProviderAdapter, listProviderAdapters, openAICompatibleAdapter, classifyProviderError, joinProviderUrl, stripProviderPrefix } from "./providers.js";
+export type { ProviderAdapter, ProviderRequestContext, StreamTranslator, ErrorClass, OpenAICompatibleOptions } from "./providers.js";
+export { refreshOpenRouterModels, resolveOpenRouterModelId, isOpenRouterCacheReady, getLivePricing } from "./openrouter-models.js";
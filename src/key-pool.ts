@@ -0,0 +1,238 @@
+/**
+ * API Key Pools
+ *
+ * A provider can list several API keys (`providers.<id>.keys`), each with a
+ * label, a weight and optional requests/tokens-per-minute limits. Requests are
+ * spread over them — weighted round-robin, or to the least-loaded key — and a
+ * key at its limits is skipped until its one-minute window frees up. A key the
+ * upstream rejects (401, 402) or rate-limits (429) is benched for its cooldown,
+ * or for as long as the 429 asked, while the provider's other keys carry on.
+ *
+ * Providers with a single `apiKey` aren't pooled: their failures go to the
+ * circuit breaker as before.
+ */
+
+import type { ApiKeysConfig, ProviderConfig, ProviderKeyConfig } from "./api-keys.js";
+import { validateSchema, type ConfigIssue, type JsonSchema } from "./router/schema.js";
+
+const WINDOW_MS = 60_000;
+const DEFAULT_COOLDOWN_MS = 60_000;
+/** Shortest bench — a `retry-after: 0` still takes the key out of this request's rotation */
+const MIN_BENCH_MS = 1_000;
+/** Cap on bench periods taken from Retry-After */
+const MAX_BENCH_MS = 10 * 60_000;
+
+/** Upstream statuses that bench a pooled key: bad key, out of credit, rate-limited */
+export const BENCH_STATUSES = [401, 402, 429];
+
+/** JSON Schema for one entry of `providers.<id>.keys` */
+export const PROVIDER_KEY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    apiKey: { type: "string", pattern: "\\S", description: "a non-empty key" },
+    label: { type: "string", pattern: "\\S", description: "a non-empty label" },
+    weight: { type: "number", exclusiveMinimum: 0 },
+    rpm: { type: "integer", minimum: 1 },
+    tpm: { type: "integer", minimum: 1 },
+    cooldownMs: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+  required: ["apiKey"],
+};
+
+const KEY_SELECTION_SCHEMA: JsonSchema = { type: "string", enum: ["round-robin", "least-loaded"] };
+
+/**
+ * Check every provider's `keys` and `keySelection`. Messages name the key by
+ * index or label, never by its value.
+ */
+export function validateProviderKeys(apiKeys: ApiKeysConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  for (const [provider, config] of Object.entries(apiKeys.providers)) {
+    const path = `providers.${provider}`;
+    if (config?.keySelection !== undefined) {
+      validateSchema(KEY_SELECTION_SCHEMA, config.keySelection, `${path}.keySelection`, issues);
+    }
+    if (config?.keys === undefined) continue;
+    if (!Array.isArray(config.keys) || config.keys.length === 0) {
+      issues.push({ path: `${path}.keys`, message: "expected a non-empty array of keys" });
+      continue;
+    }
+    const labels = new Set<string>();
+    config.keys.forEach((key, i) => {
+      const keyPath = `${path}.keys[${i}]`;
+      const found = validateSchema(PROVIDER_KEY_SCHEMA, key, keyPath);
+      issues.push(...found);
+      if (found.length > 0 || key.label === undefined) return;
+      if (labels.has(key.label)) {
+        issues.push({ path: `${keyPath}.label`, message: `duplicate label "${key.label}"` });
+      }
+      labels.add(key.label);
+    });
+  }
+  return issues;
+}
+
+/** Label for a pooled key: its own, or "<provider>#<position>" */
+export function keyLabel(provider: string, key: ProviderKeyConfig, index: number): string {
+  return key.label ?? `${provider}#${index + 1}`;
+}
+
+/** The key picked for one request */
+export type SelectedKey = {
+  apiKey: string;
+  /** Set for pooled keys only */
+  label?: string;
+};
+
+export type KeyStatus = {
+  label: string;
+  weight: number;
+  requestsLastMinute: number;
+  tokensLastMinute: number;
+  rpm?: number;
+  tpm?: number;
+  /** ISO timestamp the key is benched until (benched keys only) */
+  benchedUntil?: string;
+  /** Upstream status that benched it */
+  benchedFor?: number;
+};
+
+type KeyState = {
+  /** Requests in the last minute, oldest first, with their estimated tokens */
+  sent: Array<{ at: number; tokens: number }>;
+  benchedUntil: number;
+  benchedFor?: number;
+  /** Smooth weighted round-robin counter */
+  current: number;
+  cooldownMs: number;
+};
+
+/**
+ * Usage, limits and benching per pooled key. State is keyed by provider and
+ * key, so it carries over config reloads that keep the key.
+ */
+export class KeyPoolRegistry {
+  private states = new Map<string, KeyState>();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  private state(provider: string, key: ProviderKeyConfig): KeyState {
+    const id = `${provider}\n${key.apiKey}`;
+    let state = this.states.get(id);
+    if (!state) {
+      state = { sent: [], benchedUntil: 0, current: 0, cooldownMs: DEFAULT_COOLDOWN_MS };
+      this.states.set(id, state);
+    }
+    state.cooldownMs = key.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    const cutoff = this.now() - WINDOW_MS;
+    while (state.sent.length > 0 && state.sent[0].at <= cutoff) state.sent.shift();
+    return state;
+  }
+
+  /**
+   * Pick the key for a request to `provider` and count the request against it.
+   * Undefined when every key is benched or at its limits. Providers without
+   * `keys` get their apiKey, unpooled.
+   *
+   * @param estimatedTokens - Input plus max_tokens, counted against the key's tpm
+   */
+  acquire(
+    provider: string,
+    config: ProviderConfig | undefined,
+    estimatedTokens: number,
+  ): SelectedKey | undefined {
+    const keys = config?.keys;
+    if (!keys?.length) return config?.apiKey ? { apiKey: config.apiKey } : undefined;
+
+    const now = this.now();
+    const candidates = keys
+      .map((key, i) => ({
+        key,
+        label: keyLabel(provider, key, i),
+        state: this.state(provider, key),
+      }))
+      .filter(
+        ({ key, state }) =>
+          state.benchedUntil <= now &&
+          (key.rpm === undefined || state.sent.length < key.rpm) &&
+          // A request over the whole tpm still goes out on an idle key
+          (key.tpm === undefined ||
+            state.sent.length === 0 ||
+            tokensOf(state) + estimatedTokens <= key.tpm),
+      );
+    if (candidates.length === 0) return undefined;
+
+    const weight = (key: ProviderKeyConfig) => key.weight ?? 1;
+    let pick = candidates[0];
+    if (config?.keySelection === "least-loaded") {
+      // Fewest tokens sent in the last minute for its weight
+      for (const c of candidates) {
+        if (tokensOf(c.state) / weight(c.key) < tokensOf(pick.state) / weight(pick.key)) pick = c;
+      }
+    } else {
+      // Smooth weighted round-robin: even spread, in proportion to weight
+      const total = candidates.reduce((sum, c) => sum + weight(c.key), 0);
+      for (const c of candidates) {
+        c.state.current += weight(c.key);
+        if (c.state.current > pick.state.current) pick = c;
+      }
+      pick.state.current -= total;
+    }
+    pick.state.sent.push({ at: now, tokens: estimatedTokens });
+    return { apiKey: pick.key.apiKey, label: pick.label };
+  }
+
+  /**
+   * Take a key out of rotation after the upstream rejected or rate-limited it:
+   * for the Retry-After of a 429 (capped at 10 minutes) or the key's cooldown,
+   * but never under a second. Returns the bench duration in ms.
+   */
+  bench(provider: string, apiKey: string, status: number, retryAfterMs?: number): number {
+    const state = this.states.get(`${provider}\n${apiKey}`);
+    if (!state) return 0;
+    const ms = Math.max(
+      MIN_BENCH_MS,
+      status === 429 && retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, MAX_BENCH_MS)
+        : state.cooldownMs,
+    );
+    state.benchedUntil = this.now() + ms;
+    state.benchedFor = status;
+    return ms;
+  }
+
+  /**
+   * Every pooled key's usage and bench state, by provider — labels only, never
+   * the keys themselves.
+   */
+  getStatus(apiKeys: ApiKeysConfig): Record<string, KeyStatus[]> {
+    const status: Record<string, KeyStatus[]> = {};
+    const now = this.now();
+    for (const [provider, config] of Object.entries(apiKeys.providers)) {
+      if (!config?.keys?.length) continue;
+      status[provider] = config.keys.map((key, i) => {
+        const state = this.state(provider, key);
+        const benched = state.benchedUntil > now;
+        return {
+          label: keyLabel(provider, key, i),
+          weight: key.weight ?? 1,
+          requestsLastMinute: state.sent.length,
+          tokensLastMinute: tokensOf(state),
+          rpm: key.rpm,
+          tpm: key.tpm,
+          benchedUntil: benched ? new Date(state.benchedUntil).toISOString() : undefined,
+          benchedFor: benched ? state.benchedFor : undefined,
+        };
+      });
+    }
+    return status;
+  }
+}
+
+function tokensOf(state: KeyState): number {
+  return state.sent.reduce((sum, s) => sum + s.tokens, 0);
+}
@@ -15,11 +15,23 @@ import { homedir } from "node:os";
 export type UsageEntry = {
   timestamp: string;
   model: string;
-  tier: string;
-  cost: number;
+  tier: string; // Routing tier, or "DIRECT" when the client picked the model
+  cost: number; // Actual cost when the provider reported usage, else the estimate
+  estimatedCost?: number; // Router's pre-request estimate (chars/4 input, full max_tokens output)
   baselineCost: number;
   savings: number; // 0-1 percentage
   latencyMs: number;
+  // Provider-reported token counts (absent when the upstream didn't report usage)
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedTokens?: number;
+  provider?: string; // Billed upstream ("openrouter" when routed through it)
+  sessionId?: string; // X-Session-ID header, if sent
+  profile?: string; // Routing profile the request was routed with, if any
+  rule?: string; // Routing rule that matched, if any
+  private?: string; // Why the request was kept on local models, if it was
+  keyLabel?: string; // Label of the API key that served the request (providers with several keys)
+  method?: "rules" | "llm"; // How the router picked the tier
   reasoning?: string; // Router classification reasoning (for debugging)
 };
 
@@ -0,0 +1,91 @@
+/**
+ * Model Health Tracking
+ *
+ * Rolling time-to-first-token and error-rate statistics per model, fed by
+ * the proxy as upstream requests complete. The router uses them to rank the
+ * models inside a tier (see RankingConfig); /health exposes them.
+ *
+ * Time to first token is measured from sending the request to the first
+ * streamed body bytes, or to the response headers for non-streaming requests
+ * (which upstreams send once the whole completion is generated).
+ */
+
+import type { ModelHealth } from "./router/index.js";
+
+/** Samples kept per model (latency and outcomes separately) */
+const DEFAULT_WINDOW_SIZE = 50;
+
+type ModelSamples = { latencies: number[]; outcomes: boolean[] };
+
+/**
+ * Nearest-rank percentile of an unsorted list.
+ */
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export class ModelHealthTracker {
+  private models = new Map<string, ModelSamples>();
+  private windowSize: number;
+
+  constructor(windowSize: number = DEFAULT_WINDOW_SIZE) {
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Record a successful request and its time to first token.
+   */
+  recordSuccess(model: string, ttftMs: number): void {
+    const samples = this.samples(model);
+    this.push(samples.latencies, ttftMs);
+    this.push(samples.outcomes, true);
+  }
+
+  /**
+   * Record a failed request (provider error or timeout).
+   */
+  recordFailure(model: string): void {
+    this.push(this.samples(model).outcomes, false);
+  }
+
+  /**
+   * Current stats for a model, or undefined if it hasn't been called yet.
+   */
+  get(model: string): ModelHealth | undefined {
+    const samples = this.models.get(model);
+    if (!samples || samples.outcomes.length === 0) return undefined;
+    const failures = samples.outcomes.filter((ok) => !ok).length;
+    return {
+      samples: samples.outcomes.length,
+      ttftP50Ms: percentile(samples.latencies, 50),
+      ttftP95Ms: percentile(samples.latencies, 95),
+      errorRate: failures / samples.outcomes.length,
+    };
+  }
+
+  getStatus(): Record<string, ModelHealth> {
+    const status: Record<string, ModelHealth> = {};
+    for (const model of this.models.keys()) {
+      const health = this.get(model);
+      if (health) status[model] = health;
+    }
+    return status;
+  }
+
+  private samples(model: string): ModelSamples {
+    let samples = this.models.get(model);
+    if (!samples) {
+      samples = { latencies: [], outcomes: [] };
+      this.models.set(model, samples);
+    }
+    return samples;
+  }
+
+  private push<T>(list: T[], value: T): void {
+    list.push(value);
+    if (list.length > this.windowSize) list.shift();
+  }
+}
@@ -9,6 +9,7 @@
  */
 
 import type { ModelDefinitionConfig, ModelProviderConfig } from "./types.js";
+import type { Capability } from "./router/index.js";
 
 /**
  * Model aliases for convenient shorthand access.
@@ -55,16 +56,16 @@ export const MODEL_ALIASES: Record<string, string> = {
  * Resolve a model alias to its full model ID.
  * Returns the original model if not an alias.
  */
-export function resolveModelAlias(model: string): string {
+export function resolveModelAlias(model: string, custom = activeCatalog): string {
   const normalized = model.trim().toLowerCase();
-  const resolved = MODEL_ALIASES[normalized];
+  const resolved = custom.aliases[normalized] ?? MODEL_ALIASES[normalized];
   if (resolved) return resolved;
 
   // Check with "blockrun/" or "clawrouter/" prefix stripped
   for (const prefix of ["blockrun/", "clawrouter/"]) {
     if (normalized.startsWith(prefix)) {
       const withoutPrefix = normalized.slice(prefix.length);
-      const resolvedWithoutPrefix = MODEL_ALIASES[withoutPrefix];
+      const resolvedWithoutPrefix = custom.aliases[withoutPrefix] ?? MODEL_ALIASES[withoutPrefix];
       if (resolvedWithoutPrefix) return resolvedWithoutPrefix;
     }
   }
@@ -72,17 +73,25 @@ export function resolveModelAlias(model: string): string {
   return model;
 }
 
-type BlockRunModel = {
+export type BlockRunModel = {
   id: string;
   name: string;
   inputPrice: number;
   outputPrice: number;
+  /** Price for cache-hit input tokens, where the provider discounts them */
+  cachedInputPrice?: number;
   contextWindow: number;
   maxOutput: number;
   reasoning?: boolean;
   vision?: boolean;
+  /** Function calling (tools / tool_choice) — assumed unless false */
+  tools?: boolean;
+  /** response_format json_schema — assumed unless false */
+  structuredOutput?: boolean;
   /** Models optimized for agentic workflows (multi-step autonomous tasks) */
   agentic?: boolean;
+  /** Self-hosted — the only models private requests may use (see RoutingConfig.privacy) */
+  local?: boolean;
 };
 
 export const BLOCKRUN_MODELS: BlockRunModel[] = [
@@ -103,6 +112,7 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "GPT-5.2",
     inputPrice: 1.75,
     outputPrice: 14.0,
+    cachedInputPrice: 0.175,
     contextWindow: 400000,
     maxOutput: 128000,
     reasoning: true,
@@ -114,16 +124,20 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "GPT-5 Mini",
     inputPrice: 0.25,
     outputPrice: 2.0,
+    cachedInputPrice: 0.025,
     contextWindow: 200000,
     maxOutput: 65536,
+    vision: true,
   },
   {
     id: "openai/gpt-5-nano",
     name: "GPT-5 Nano",
     inputPrice: 0.05,
     outputPrice: 0.4,
+    cachedInputPrice: 0.005,
     contextWindow: 128000,
     maxOutput: 32768,
+    vision: true,
   },
   {
     id: "openai/gpt-5.2-pro",
@@ -141,6 +155,7 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "GPT-4.1",
     inputPrice: 2.0,
     outputPrice: 8.0,
+    cachedInputPrice: 0.5,
     contextWindow: 128000,
     maxOutput: 16384,
     vision: true,
@@ -150,22 +165,27 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "GPT-4.1 Mini",
     inputPrice: 0.4,
     outputPrice: 1.6,
+    cachedInputPrice: 0.1,
     contextWindow: 128000,
     maxOutput: 16384,
+    vision: true,
   },
   {
     id: "openai/gpt-4.1-nano",
     name: "GPT-4.1 Nano",
     inputPrice: 0.1,
     outputPrice: 0.4,
+    cachedInputPrice: 0.025,
     contextWindow: 128000,
     maxOutput: 16384,
+    vision: true,
   },
   {
     id: "openai/gpt-4o",
     name: "GPT-4o",
     inputPrice: 2.5,
     outputPrice: 10.0,
+    cachedInputPrice: 1.25,
     contextWindow: 128000,
     maxOutput: 16384,
     vision: true,
@@ -176,8 +196,10 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "GPT-4o Mini",
     inputPrice: 0.15,
     outputPrice: 0.6,
+    cachedInputPrice: 0.075,
     contextWindow: 128000,
     maxOutput: 16384,
+    vision: true,
   },
 
   // OpenAI O-series (Reasoning)
@@ -186,33 +208,41 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "o1",
     inputPrice: 15.0,
     outputPrice: 60.0,
+    cachedInputPrice: 7.5,
     contextWindow: 200000,
     maxOutput: 100000,
     reasoning: true,
+    vision: true,
   },
   {
     id: "openai/o1-mini",
     name: "o1-mini",
     inputPrice: 1.1,
     outputPrice: 4.4,
+    cachedInputPrice: 0.55,
     contextWindow: 128000,
     maxOutput: 65536,
     reasoning: true,
+    tools: false,
+    structuredOutput: false,
   },
   {
     id: "openai/o3",
     name: "o3",
     inputPrice: 2.0,
     outputPrice: 8.0,
+    cachedInputPrice: 0.5,
     contextWindow: 200000,
     maxOutput: 100000,
     reasoning: true,
+    vision: true,
   },
   {
     id: "openai/o3-mini",
     name: "o3-mini",
     inputPrice: 1.1,
     outputPrice: 4.4,
+    cachedInputPrice: 0.55,
     contextWindow: 128000,
     maxOutput: 65536,
     reasoning: true,
@@ -222,9 +252,11 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "o4-mini",
     inputPrice: 1.1,
     outputPrice: 4.4,
+    cachedInputPrice: 0.275,
     contextWindow: 128000,
     maxOutput: 65536,
     reasoning: true,
+    vision: true,
   },
 
   // Anthropic - all Claude models excel at agentic workflows
@@ -233,18 +265,22 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "Claude Haiku 4.5",
     inputPrice: 1.0,
     outputPrice: 5.0,
+    cachedInputPrice: 0.1,
     contextWindow: 200000,
     maxOutput: 8192,
     agentic: true,
+    vision: true,
   },
   {
     id: "anthropic/claude-sonnet-4",
     name: "Claude Sonnet 4",
     inputPrice: 3.0,
     outputPrice: 15.0,
+    cachedInputPrice: 0.3,
     contextWindow: 200000,
     maxOutput: 64000,
     reasoning: true,
+    vision: true,
     agentic: true,
   },
   {
@@ -252,9 +288,11 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "Claude Opus 4",
     inputPrice: 15.0,
     outputPrice: 75.0,
+    cachedInputPrice: 1.5,
     contextWindow: 200000,
     maxOutput: 32000,
     reasoning: true,
+    vision: true,
     agentic: true,
   },
   {
@@ -262,9 +300,11 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "Claude Opus 4.5",
     inputPrice: 5.0,
     outputPrice: 25.0,
+    cachedInputPrice: 0.5,
     contextWindow: 200000,
     maxOutput: 32000,
     reasoning: true,
+    vision: true,
     agentic: true,
   },
 
@@ -296,6 +336,7 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     outputPrice: 0.6,
     contextWindow: 1000000,
     maxOutput: 65536,
+    vision: true,
   },
 
   // DeepSeek
@@ -304,17 +345,21 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
     name: "DeepSeek V3.2 Chat",
     inputPrice: 0.28,
     outputPrice: 0.42,
+    cachedInputPrice: 0.028,
     contextWindow: 128000,
     maxOutput: 8192,
+    structuredOutput: false,
   },
   {
     id: "deepseek/deepseek-reasoner",
     name: "DeepSeek V3.2 Reasoner",
     inputPrice: 0.28,
     outputPrice: 0.42,
+    cachedInputPrice: 0.028,
     contextWindow: 128000,
     maxOutput: 8192,
     reasoning: true,
+    structuredOutput: false,
   },
 
   // Moonshot / Kimi - optimized for agentic workflows
@@ -448,6 +493,51 @@ export const BLOCKRUN_MODELS: BlockRunModel[] = [
   },
 ];
 
+/**
+ * Models and aliases declared in config for custom providers (see
+ * custom-providers.ts), aliases lowercased.
+ */
+export type CustomCatalog = {
+  models: BlockRunModel[];
+  aliases: Record<string, string>;
+};
+
+/**
+ * The custom catalog lookups below use by default — replaced whole on every
+ * load or reload. The proxy passes each request the catalog of the config it
+ * started with instead.
+ */
+let activeCatalog: CustomCatalog = { models: [], aliases: {} };
+
+/**
+ * Replace the custom models and aliases. Lookups below see them next to the
+ * built-in catalog; a custom alias shadows a built-in one.
+ */
+export function setCustomModels(
+  models: BlockRunModel[],
+  aliases: Record<string, string> = {},
+): void {
+  activeCatalog = {
+    models: [...models],
+    aliases: Object.fromEntries(Object.entries(aliases).map(([a, id]) => [a.toLowerCase(), id])),
+  };
+}
+
+/**
+ * The built-in catalog followed by the custom models.
+ */
+export function getAllModels(custom = activeCatalog): BlockRunModel[] {
+  return custom.models.length === 0 ? BLOCKRUN_MODELS : [...BLOCKRUN_MODELS, ...custom.models];
+}
+
+function findModel(modelId: string, custom = activeCatalog): BlockRunModel | undefined {
+  const normalized = modelId.replace("blockrun/", "");
+  return (
+    BLOCKRUN_MODELS.find((m) => m.id === normalized) ??
+    custom.models.find((m) => m.id === normalized)
+  );
+}
+
 /**
  * Convert BlockRun model definitions to OpenClaw ModelDefinitionConfig format.
  */
@@ -489,6 +579,21 @@ export const OPENCLAW_MODELS: ModelDefinitionConfig[] = [
   ...ALIAS_MODELS,
 ];
 
+/**
+ * OPENCLAW_MODELS plus the custom models and their aliases.
+ */
+export function getOpenClawModels(): ModelDefinitionConfig[] {
+  const { models: customModels, aliases: customAliases } = activeCatalog;
+  if (customModels.length === 0) return OPENCLAW_MODELS;
+  const aliases = Object.entries(customAliases)
+    .map(([alias, targetId]) => {
+      const target = findModel(targetId);
+      return target && toOpenClawModel({ ...target, id: alias, name: `${alias} → ${target.name}` });
+    })
+    .filter((m): m is ModelDefinitionConfig => m !== undefined);
+  return [...OPENCLAW_MODELS, ...customModels.map(toOpenClawModel), ...aliases];
+}
+
 /**
  * Build a ModelProviderConfig for BlockRun.
  *
@@ -498,7 +603,7 @@ export function buildProviderModels(baseUrl: string): ModelProviderConfig {
   return {
     baseUrl: `${baseUrl}/v1`,
     api: "openai-completions",
-    models: OPENCLAW_MODELS,
+    models: getOpenClawModels(),
   };
 }
 
@@ -508,25 +613,47 @@ export function buildProviderModels(baseUrl: string): ModelProviderConfig {
  * instead of stopping and waiting for user input.
  */
 export function isAgenticModel(modelId: string): boolean {
-  const model = BLOCKRUN_MODELS.find(
-    (m) => m.id === modelId || m.id === modelId.replace("blockrun/", ""),
-  );
-  return model?.agentic ?? false;
+  return findModel(modelId)?.agentic ?? false;
 }
 
 /**
  * Get all agentic-capable models.
  */
 export function getAgenticModels(): string[] {
-  return BLOCKRUN_MODELS.filter((m) => m.agentic).map((m) => m.id);
+  return getAllModels()
+    .filter((m) => m.agentic)
+    .map((m) => m.id);
+}
+
+/**
+ * Whether a model is self-hosted (declared with `local: true`).
+ */
+export function isLocalModel(modelId: string, custom = activeCatalog): boolean {
+  return findModel(modelId, custom)?.local ?? false;
 }
 
 /**
  * Get context window size for a model.
  * Returns undefined if model not found.
  */
-export function getModelContextWindow(modelId: string): number | undefined {
-  const normalized = modelId.replace("blockrun/", "");
-  const model = BLOCKRUN_MODELS.find((m) => m.id === normalized);
-  return model?.contextWindow;
+export function getModelContextWindow(modelId: string, custom = activeCatalog): number | undefined {
+  return findModel(modelId, custom)?.contextWindow;
+}
+
+/**
+ * Get the capabilities a model supports.
+ * Returns undefined if model not found.
+ */
+export function getModelCapabilities(
+  modelId: string,
+  custom = activeCatalog,
+): Capability[] | undefined {
+  const model = findModel(modelId, custom);
+  if (!model) return undefined;
+  const capabilities: Capability[] = [];
+  if (model.vision) capabilities.push("vision");
+  if (model.tools !== false) capabilities.push("tools");
+  if (model.structuredOutput !== false) capabilities.push("structuredOutput");
+  if (model.reasoning) capabilities.push("reasoning");
+  return capabilities;
 }
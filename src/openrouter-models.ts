@@ -9,13 +9,22 @@
  *   1. Exact match — ClawRouter ID exists in OpenRouter catalog
  *   2. Name match — strip provider prefix, find OR model with same name part
  *   3. No match — pass through original ID (OpenRouter will error, triggering fallback)
+ *
+ * The catalog's per-token prices are kept as live pricing for matched models.
  */
 
 import { BLOCKRUN_MODELS } from "./models.js";
+import type { ModelPricing } from "./router/index.js";
 
-type OpenRouterModel = { id: string; name?: string };
+type OpenRouterModel = {
+  id: string;
+  name?: string;
+  /** USD per token, as decimal strings ("-1" = variable) */
+  pricing?: { prompt?: string; completion?: string; input_cache_read?: string };
+};
 
 let cache: Map<string, string> | null = null; // clawrouter ID → OpenRouter ID
+let livePricing = new Map<string, ModelPricing>(); // clawrouter ID → catalog pricing
 let cacheTime = 0;
 const CACHE_TTL_MS = 3_600_000; // 1 hour
 
@@ -81,7 +90,28 @@ export async function refreshOpenRouterModels(apiKey: string): Promise<void> {
     // 3. No match — will pass through as-is
   }
 
+  // Catalog pricing for each mapped model (per token → per 1M tokens)
+  const orById = new Map(orModels.map((m) => [m.id, m]));
+  const perMillion = (value: string | undefined): number | undefined => {
+    const n = value === undefined ? NaN : Number(value);
+    return Number.isFinite(n) && n >= 0 ? n * 1_000_000 : undefined;
+  };
+  const newPricing = new Map<string, ModelPricing>();
+  for (const [clawrouterId, orId] of newCache) {
+    const pricing = orById.get(orId)?.pricing;
+    const inputPrice = perMillion(pricing?.prompt);
+    const outputPrice = perMillion(pricing?.completion);
+    if (inputPrice === undefined || outputPrice === undefined) continue;
+    const cachedInputPrice = perMillion(pricing?.input_cache_read);
+    newPricing.set(clawrouterId, {
+      inputPrice,
+      outputPrice,
+      ...(cachedInputPrice !== undefined ? { cachedInputPrice } : {}),
+    });
+  }
+
   cache = newCache;
+  livePricing = newPricing;
   cacheTime = Date.now();
 
   const mapped = [...newCache.entries()].filter(([k, v]) => k !== v);
@@ -104,6 +134,14 @@ export function resolveOpenRouterModelId(clawrouterModelId: string): string {
   return cache.get(clawrouterModelId) ?? clawrouterModelId;
 }
 
+/**
+ * Pricing from the last catalog fetch, keyed by ClawRouter model ID.
+ * Empty until the catalog has been loaded.
+ */
+export function getLivePricing(): ReadonlyMap<string, ModelPricing> {
+  return livePricing;
+}
+
 /**
  * Check if the OpenRouter model cache is populated and fresh.
  */
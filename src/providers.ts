@@ -0,0 +1,306 @@
+/**
+ * Provider Adapters
+ *
+ * Everything the proxy needs to know about one upstream API: its default
+ * endpoint and key variable, how to build the request URL and auth headers,
+ * how to map ClawRouter model IDs to its own, how to translate OpenAI-format
+ * requests, responses and streams, and which errors should fall back to the
+ * next model.
+ *
+ * Built-in providers register here at load time. Third parties add their own
+ * with registerProviderAdapter(), or by listing adapter modules under
+ * `providerAdapters` in plugin config (see loadProviderAdapters in api-keys.ts).
+ */
+
+import { USER_AGENT } from "./version.js";
+import {
+  convertToAnthropicFormat,
+  convertAnthropicResponseToOpenAI,
+  AnthropicStreamTranslator,
+} from "./anthropic.js";
+import {
+  convertToGeminiFormat,
+  convertGeminiResponseToOpenAI,
+  GeminiStreamTranslator,
+} from "./google.js";
+import { resolveOpenRouterModelId } from "./openrouter-models.js";
+
+/** Translates a native SSE stream into OpenAI `chat.completion.chunk` lines */
+export type StreamTranslator = {
+  /** One upstream SSE line in, zero or more OpenAI SSE lines out */
+  push(line: string): string[];
+  /** Called once the upstream body ends, for formats without a terminal event */
+  finish?(): string[];
+};
+
+/** Per-request details adapters may need */
+export type ProviderRequestContext = {
+  /** Upstream model ID (after mapModelId) */
+  model: string;
+  /** Whether the client asked for a stream */
+  stream: boolean;
+};
+
+/**
+ * "provider": the upstream failed (quota, rate limit, outage) — try the next
+ * model and count it against the provider's circuit.
+ * "request": the request itself was rejected — return the error to the client.
+ */
+export type ErrorClass = "provider" | "request";
+
+export type ProviderAdapter = {
+  /** Provider ID, the prefix of its model IDs ("openai" in "openai/gpt-4o") */
+  id: string;
+  /** Default API base URL; `providers.<id>.baseUrl` overrides it */
+  baseUrl: string;
+  /** Environment variable holding the API key */
+  envVar?: string;
+  /** Upstream model ID for a ClawRouter model ID (default: drop the provider prefix) */
+  mapModelId?(modelId: string): string;
+  /** OpenAI paths it serves (default: any); other /v1 requests are refused with a 400 */
+  paths?: string[];
+  /** Request URL (default: baseUrl + path, without doubling /v1) */
+  buildUrl?(baseUrl: string, path: string, ctx: ProviderRequestContext): string;
+  /** Auth and provider-specific headers; content-type and user-agent are added by the proxy */
+  authHeaders(apiKey: string): Record<string, string>;
+  /** OpenAI-format body → native body (default: sent as-is) */
+  transformRequest?(
+    body: Record<string, unknown>,
+    ctx: ProviderRequestContext,
+  ): Record<string, unknown>;
+  /** Complete native response → OpenAI format; undefined when already OpenAI-shaped */
+  transformResponse?(
+    body: Record<string, unknown>,
+    model: string,
+  ): Record<string, unknown> | undefined;
+  /** Translator for native SSE streams (default: OpenAI chunks passed through) */
+  createStreamTranslator?(model: string): StreamTranslator;
+  /** Error classification (default: classifyProviderError) */
+  classifyError?(status: number, body: string): ErrorClass;
+};
+
+const PROVIDER_ERROR_PATTERNS = [
+  /billing/i,
+  /insufficient.*balance/i,
+  /credits/i,
+  /quota.*exceeded/i,
+  /rate.*limit/i,
+  /model.*unavailable/i,
+  /service.*unavailable/i,
+  /capacity/i,
+  /overloaded/i,
+  /temporarily.*unavailable/i,
+  /api.*key.*invalid/i,
+  /authentication.*failed/i,
+];
+
+const FALLBACK_STATUS_CODES = [400, 401, 402, 403, 404, 405, 429, 500, 502, 503, 504];
+
+/**
+ * Default error classification: 5xx are provider errors, as are fallback-worthy
+ * 4xx whose body mentions billing, quotas, rate limits, capacity or bad keys.
+ */
+export function classifyProviderError(status: number, body: string): ErrorClass {
+  if (!FALLBACK_STATUS_CODES.includes(status)) return "request";
+  if (status >= 500) return "provider";
+  return PROVIDER_ERROR_PATTERNS.some((pattern) => pattern.test(body)) ? "provider" : "request";
+}
+
+/** Join a base URL and an OpenAI-style path, dropping the path's /v1 when the base ends in it */
+export function joinProviderUrl(baseUrl: string, path: string): string {
+  return baseUrl.endsWith("/v1") && path.startsWith("/v1")
+    ? `${baseUrl}${path.slice(3)}`
+    : `${baseUrl}${path}`;
+}
+
+/** ClawRouter model ID without its provider prefix ("openai/gpt-4o" → "gpt-4o") */
+export function stripProviderPrefix(modelId: string): string {
+  return modelId.includes("/") ? modelId.split("/").slice(1).join("/") : modelId;
+}
+
+export type OpenAICompatibleOptions = {
+  /**
+   * Ask streams for the usage chunk (`stream_options.include_usage`) so costs
+   * come from real token counts. Off by default: some self-hosted servers
+   * reject unknown stream_options; the built-in providers turn it on.
+   */
+  includeUsage?: boolean;
+};
+
+/**
+ * Adapter for an API that speaks OpenAI /v1/chat/completions with Bearer auth.
+ */
+export function openAICompatibleAdapter(
+  adapter: Pick<ProviderAdapter, "id" | "baseUrl"> & Partial<ProviderAdapter>,
+  options: OpenAICompatibleOptions = {},
+): ProviderAdapter {
+  return {
+    authHeaders: (apiKey) => ({ authorization: `Bearer ${apiKey}` }),
+    ...(options.includeUsage ? { transformRequest: requestStreamUsage } : {}),
+    ...adapter,
+  };
+}
+
+function requestStreamUsage(
+  body: Record<string, unknown>,
+  ctx: ProviderRequestContext,
+): Record<string, unknown> {
+  if (!ctx.stream) return body;
+  return {
+    ...body,
+    stream_options: {
+      ...(body.stream_options as Record<string, unknown> | undefined),
+      include_usage: true,
+    },
+  };
+}
+
+/** A built-in OpenAI-compatible provider — these all report stream usage */
+function builtinOpenAIAdapter(
+  adapter: Pick<ProviderAdapter, "id" | "baseUrl"> & Partial<ProviderAdapter>,
+): ProviderAdapter {
+  return openAICompatibleAdapter(adapter, { includeUsage: true });
+}
+
+// Anthropic needs full model IDs (e.g. claude-sonnet-4-20250514)
+const ANTHROPIC_MODEL_MAP: Record<string, string> = {
+  "claude-sonnet-4": "claude-sonnet-4-20250514",
+  "claude-opus-4": "claude-opus-4-20250514",
+  "claude-opus-4.5": "claude-opus-4-20250514", // fallback
+  "claude-haiku-4.5": "claude-haiku-4-20250414",
+};
+
+const BUILTIN_ADAPTERS: ProviderAdapter[] = [
+  builtinOpenAIAdapter({
+    id: "openai",
+    baseUrl: "https://api.openai.com/v1",
+    envVar: "OPENAI_API_KEY",
+  }),
+  {
+    id: "anthropic",
+    baseUrl: "https://api.anthropic.com/v1",
+    envVar: "ANTHROPIC_API_KEY",
+    mapModelId: (modelId) => {
+      const model = stripProviderPrefix(modelId);
+      return ANTHROPIC_MODEL_MAP[model] || model;
+    },
+    // Messages API, not /chat/completions
+    paths: ["/v1/chat/completions"],
+    buildUrl: (baseUrl) => `${baseUrl}/messages`,
+    authHeaders: (apiKey) => ({ "x-api-key": apiKey, "anthropic-version": "2023-06-01" }),
+    transformRequest: (body) => convertToAnthropicFormat(body),
+    transformResponse: (body) =>
+      body.type === "message" && body.content ? convertAnthropicResponseToOpenAI(body) : undefined,
+    createStreamTranslator: (model) => new AnthropicStreamTranslator(model),
+    // 529 is Anthropic's "overloaded_error"
+    classifyError: (status, body) =>
+      status === 529 ? "provider" : classifyProviderError(status, body),
+  },
+  {
+    id: "google",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    envVar: "GOOGLE_API_KEY",
+    // Model in the path, and a separate non-streaming method
+    paths: ["/v1/chat/completions"],
+    buildUrl: (baseUrl, _path, ctx) =>
+      `${baseUrl}/models/${ctx.model}:${ctx.stream ? "streamGenerateContent?alt=sse" : "generateContent"}`,
+    authHeaders: (apiKey) => ({ "x-goog-api-key": apiKey }),
+    transformRequest: (body) => convertToGeminiFormat(body),
+    transformResponse: (body, model) =>
+      Array.isArray(body.candidates) ? convertGeminiResponseToOpenAI(body, model) : undefined,
+    createStreamTranslator: (model) => new GeminiStreamTranslator(model),
+  },
+  builtinOpenAIAdapter({ id: "xai", baseUrl: "https://api.x.ai/v1", envVar: "XAI_API_KEY" }),
+  builtinOpenAIAdapter({
+    id: "deepseek",
+    baseUrl: "https://api.deepseek.com/v1",
+    envVar: "DEEPSEEK_API_KEY",
+  }),
+  builtinOpenAIAdapter({
+    id: "moonshot",
+    baseUrl: "https://api.moonshot.cn/v1",
+    envVar: "MOONSHOT_API_KEY",
+  }),
+  builtinOpenAIAdapter({
+    id: "nvidia",
+    baseUrl: "https://integrate.api.nvidia.com/v1",
+    envVar: "NVIDIA_API_KEY",
+  }),
+  builtinOpenAIAdapter({
+    id: "openrouter",
+    baseUrl: "https://openrouter.ai/api/v1",
+    envVar: "OPENROUTER_API_KEY",
+    // OpenRouter takes full IDs from its own catalog ("moonshot/kimi-k2.5" → "moonshotai/kimi-k2.5")
+    mapModelId: resolveOpenRouterModelId,
+    authHeaders: (apiKey) => ({ authorization: `Bearer ${apiKey}`, "x-title": "ClawRouter" }),
+  }),
+];
+
+const adapters = new Map<string, ProviderAdapter>(BUILTIN_ADAPTERS.map((a) => [a.id, a]));
+
+/**
+ * Register a provider adapter, replacing any adapter with the same ID
+ * (built-ins included). Models "<id>/..." then route through it.
+ */
+export function registerProviderAdapter(adapter: ProviderAdapter): void {
+  if (!isProviderAdapter(adapter)) {
+    throw new Error("Provider adapter needs a string id and baseUrl and an authHeaders function");
+  }
+  if (adapters.has(adapter.id))
+    console.log(`[ClawRouter] Replacing provider adapter: ${adapter.id}`);
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * OpenAI-compatible adapters for the custom providers config declares (see
+ * custom-providers.ts) — replaced whole on every load or reload, never mixed
+ * into the registry above.
+ */
+let activeCustomAdapters: readonly ProviderAdapter[] = [];
+
+/** Replace the custom providers' adapters getProviderAdapter() falls back to */
+export function setCustomAdapters(custom: readonly ProviderAdapter[]): void {
+  activeCustomAdapters = [...custom];
+}
+
+/**
+ * The registered adapter for a provider, else the custom one. The proxy passes
+ * the custom adapters of the config a request started with; pass [] for
+ * registered adapters only.
+ */
+export function getProviderAdapter(
+  provider: string,
+  custom: readonly ProviderAdapter[] = activeCustomAdapters,
+): ProviderAdapter | undefined {
+  return adapters.get(provider) ?? custom.find((a) => a.id === provider);
+}
+
+/** Every registered adapter, built-ins first */
+export function listProviderAdapters(): ProviderAdapter[] {
+  return [...adapters.values()];
+}
+
+export function isProviderAdapter(value: unknown): value is ProviderAdapter {
+  const a = value as Partial<ProviderAdapter> | null;
+  return (
+    typeof a === "object" &&
+    a !== null &&
+    typeof a.id === "string" &&
+    a.id.length > 0 &&
+    !a.id.includes("/") &&
+    typeof a.baseUrl === "string" &&
+    typeof a.authHeaders === "function"
+  );
+}
+
+/** Request headers for an adapter: JSON content type, our user agent, then its auth headers */
+export function buildProviderHeaders(
+  adapter: ProviderAdapter,
+  apiKey: string,
+): Record<string, string> {
+  return {
+    "content-type": "application/json",
+    "user-agent": USER_AGENT,
+    ...adapter.authHeaders(apiKey),
+  };
+}
@@ -25,60 +25,180 @@ import {
   getAccessibleProviders,
   hasOpenRouter,
   type ApiKeysConfig,
+  type LoadApiKeysOptions,
 } from "./api-keys.js";
 import {
-  route,
+  routeAsync,
+  explainRoute,
   getFallbackChain,
   getFallbackChainFiltered,
-  DEFAULT_ROUTING_CONFIG,
+  BASELINE_MODEL,
+  TIER_RANK,
+  rankFallbackChain,
+  rankingMode,
+  detectCapabilities,
+  filterByCapabilities,
+  buildConversationContext,
+  mergeRoutingConfig,
+  applyProfile,
+  findProfile,
+  compileRoutingRules,
+  matchRoutingRule,
+  validateRoutingConfig,
+  formatConfigIssues,
+  compilePrivacyCheck,
+  localTierConfigs,
+  NoLocalModelError,
+  type PrivacyCheck,
+  type CompiledRule,
+  type MatchedRule,
   type RouterOptions,
   type RoutingDecision,
   type RoutingConfig,
   type ModelPricing,
+  type Capability,
+  type PayFetch,
+  type Tier,
 } from "./router/index.js";
-import { BLOCKRUN_MODELS, resolveModelAlias, getModelContextWindow } from "./models.js";
+import { BLOCKRUN_MODELS, getAllModels, resolveModelAlias, getModelContextWindow, getModelCapabilities, isLocalModel, type BlockRunModel } from "./models.js";
+import { parseCustomProviders, applyCustomProviders, type CustomProviders } from "./custom-providers.js";
 import { logUsage, type UsageEntry } from "./logger.js";
+import { parseUsage, parseUsageChunk, computeCost, type TokenUsage } from "./usage.js";
 import { getStats } from "./stats.js";
 import { RequestDeduplicator } from "./dedup.js";
-import { USER_AGENT } from "./version.js";
-import { SessionStore, getSessionId, type SessionConfig } from "./session.js";
-import { resolveOpenRouterModelId, ensureOpenRouterCache } from "./openrouter-models.js";
-
-const AUTO_MODEL = "clawrouter/auto";
-const AUTO_MODEL_SHORT = "auto";
+import { SessionStore, getSessionId, type SessionConfig, type SessionEntry } from "./session.js";
+import { BudgetTracker, type BudgetConfig } from "./budget.js";
+import { CircuitBreakerRegistry, rateLimitBackoff, type CircuitBreakerConfig } from "./circuit-breaker.js";
+import { KeyPoolRegistry, BENCH_STATUSES, validateProviderKeys } from "./key-pool.js";
+import { ModelHealthTracker } from "./model-health.js";
+import { FeedbackStore, conversationKey, requestKey, completionOutcome, type FeedbackConfig, type FollowUp } from "./feedback.js";
+import { watchConfigFile, isAdminAuthorized, type ReloadableConfig } from "./config-reload.js";
+import { ensureOpenRouterCache, getLivePricing } from "./openrouter-models.js";
+import { SseLineBuffer, looksLikeSse } from "./sse.js";
+import { getProviderAdapter, buildProviderHeaders, classifyProviderError, joinProviderUrl, stripProviderPrefix, type ProviderAdapter } from "./providers.js";
+
+// "clawrouter/auto", "auto" or "blockrun/auto" (backward compat), optionally ":<profile>"
+const AUTO_MODEL_PATTERN = /^(?:clawrouter\/|blockrun\/)?auto(?::([\w.-]+))?$/;
+const PROFILE_HEADER = "x-clawrouter-profile";
+const PRIVATE_HEADER = "x-clawrouter-private";
 const HEARTBEAT_INTERVAL_MS = 2_000;
 const DEFAULT_REQUEST_TIMEOUT_MS = 180_000;
 const DEFAULT_PORT = 8402;
 const MAX_FALLBACK_ATTEMPTS = 3;
 const HEALTH_CHECK_TIMEOUT_MS = 2_000;
-const RATE_LIMIT_COOLDOWN_MS = 60_000;
 const PORT_RETRY_ATTEMPTS = 5;
 const PORT_RETRY_DELAY_MS = 1_000;
+const MIN_CACHED_PREFIX_TOKENS = 1_024; // shortest prefix OpenAI/Anthropic prompt caches store
 
-const rateLimitedModels = new Map<string, number>();
-
-function isRateLimited(modelId: string): boolean {
-  const hitTime = rateLimitedModels.get(modelId);
-  if (!hitTime) return false;
-  if (Date.now() - hitTime >= RATE_LIMIT_COOLDOWN_MS) {
-    rateLimitedModels.delete(modelId);
-    return false;
+/**
+ * Drop models whose billed provider is over its hard budget and move those
+ * over a soft budget to the end of the chain.
+ */
+function applyProviderBudgets(models: string[], apiKeys: ApiKeysConfig, customAdapters: ProviderAdapter[], tracker: BudgetTracker): { models: string[]; blocked: string[] } {
+  if (!tracker.enabled) return { models, blocked: [] };
+  const ok: string[] = [];
+  const soft: string[] = [];
+  const blocked: string[] = [];
+  for (const model of models) {
+    const state = tracker.providerState(resolveProviderAccess(apiKeys, model, customAdapters)?.provider ?? getProviderFromModel(model));
+    (state === "hard" ? blocked : state === "soft" ? soft : ok).push(model);
   }
-  return true;
+  return { models: [...ok, ...soft], blocked };
 }
 
-function markRateLimited(modelId: string): void {
-  rateLimitedModels.set(modelId, Date.now());
-  console.log(`[ClawRouter] Model ${modelId} rate-limited, will deprioritize for 60s`);
+/** A model from the tier's chain that won't be tried, and why */
+export type ChainDrop = { model: string; reason: string };
+
+type ChainContext = {
+  estimatedTotalTokens: number;
+  requiredCapabilities: Capability[];
+  /** This request's router options (ranking, pricing) */
+  routerOpts: RouterOptions;
+  apiKeys: ApiKeysConfig;
+  /** Custom providers declared with apiKeys — their models and adapters */
+  custom: CustomProviders;
+  circuitBreakers: CircuitBreakerRegistry;
+  budgetTracker: BudgetTracker;
+};
+
+/**
+ * The tier chains a routing decision was made from: the agentic tiers when it
+ * was routed as agentic, narrowed to local models for a private request.
+ */
+function decisionTierConfigs(decision: RoutingDecision, routerOpts: RouterOptions): RoutingConfig["tiers"] {
+  const { config, private: privateReason } = routerOpts;
+  const useAgenticTiers = decision.reasoning?.includes("agentic") && config.agenticTiers;
+  const tierConfigs = useAgenticTiers ? config.agenticTiers! : config.tiers;
+  if (!privateReason) return tierConfigs;
+  return localTierConfigs(tierConfigs, (m) => routerOpts.modelLocal?.(m) ?? false) ?? tierConfigs;
 }
 
-function prioritizeNonRateLimited(models: string[]): string[] {
-  const available: string[] = [];
-  const limited: string[] = [];
-  for (const model of models) {
-    (isRateLimited(model) ? limited : available).push(model);
+/**
+ * The models a request will try, in order. Routed requests use their tier's
+ * chain — fitting the context, with the needed capabilities, ranked, capped at
+ * MAX_FALLBACK_ATTEMPTS and reachable with the configured keys; explicit
+ * models (and models forced by a routing rule) are tried alone. Then rule
+ * provider exclusions, private-request limits (local models, called directly),
+ * open circuits and provider budgets apply.
+ */
+function buildFallbackChain(
+  decision: RoutingDecision | undefined,
+  modelId: string,
+  ctx: ChainContext,
+): { models: string[]; dropped: ChainDrop[]; blocked: string[] } {
+  const dropped: ChainDrop[] = [];
+  const keep = (models: string[], kept: string[], reason: (m: string) => string): string[] => {
+    for (const m of models) if (!kept.includes(m)) dropped.push({ model: m, reason: reason(m) });
+    return kept;
+  };
+
+  const { rule, private: privateReason } = ctx.routerOpts;
+  const isLocal = (m: string) => ctx.routerOpts.modelLocal?.(m) ?? false;
+  const contextWindowOf = (m: string) => getModelContextWindow(m, ctx.custom);
+  const capabilitiesOf = (m: string) => getModelCapabilities(m, ctx.custom);
+  const forced = rule?.action.model !== undefined && decision?.model === rule.action.model;
+  let models: string[];
+  if (decision && !forced) {
+    // The same (agentic, local-only) chains the router picked from
+    const tierConfigs = decisionTierConfigs(decision, ctx.routerOpts);
+    const contextFiltered = keep(getFallbackChain(decision.tier, tierConfigs),
+      getFallbackChainFiltered(decision.tier, tierConfigs, ctx.estimatedTotalTokens, contextWindowOf),
+      (m) => `context window ${contextWindowOf(m)} too small for ~${ctx.estimatedTotalTokens} tokens`);
+    // Only models with the capabilities the request needs (unless none have them)
+    const capable = filterByCapabilities(contextFiltered, ctx.requiredCapabilities, capabilitiesOf).models;
+    const usable = keep(contextFiltered, capable.length > 0 ? capable : contextFiltered,
+      (m) => `lacks ${ctx.requiredCapabilities.filter((c) => !capabilitiesOf(m)?.includes(c)).join(", ")}`);
+    // Best cost/latency/reliability score first (the router already picked the primary the same way)
+    const ranked = rankFallbackChain(usable, decision.tier, ctx.routerOpts);
+    models = keep(ranked, ranked.slice(0, MAX_FALLBACK_ATTEMPTS), () => `beyond ${MAX_FALLBACK_ATTEMPTS} fallback attempts`);
+    // Filter to models with accessible keys (direct or OpenRouter)
+    models = keep(models, models.filter((m) => isModelAccessible(ctx.apiKeys, m, ctx.custom.adapters)),
+      (m) => `no API key for ${getProviderFromModel(m)} (and no OpenRouter fallback)`);
+  } else {
+    const only = decision?.model ?? modelId;
+    models = only ? [only] : [];
+  }
+
+  const providerOf = (m: string) => resolveProviderAccess(ctx.apiKeys, m, ctx.custom.adapters)?.provider ?? getProviderFromModel(m);
+  // A rule's excluded providers — the model's own or the one billed for it (e.g. openrouter)
+  const excluded = rule?.action.excludeProviders ?? [];
+  if (excluded.length > 0) {
+    models = keep(models, models.filter((m) => !excluded.includes(getProviderFromModel(m)) && !excluded.includes(providerOf(m))),
+      () => `excluded by rule ${rule!.name}`);
+  }
+
+  // Private requests never leave self-hosted models — no cloud fallback, no OpenRouter
+  if (privateReason) {
+    models = keep(models, models.filter((m) => isLocal(m) && resolveProviderAccess(ctx.apiKeys, m, ctx.custom.adapters)?.viaOpenRouter === false),
+      (m) => isLocal(m) ? `no direct access to ${getProviderFromModel(m)} (private request)` : "not a local model (private request)");
   }
-  return [...available, ...limited];
+
+  // Skip models and providers whose circuit is open
+  models = keep(models, ctx.circuitBreakers.filterChain(models, providerOf), (m) => `circuit open (${providerOf(m)})`);
+
+  const providerBudget = applyProviderBudgets(models, ctx.apiKeys, ctx.custom.adapters, ctx.budgetTracker);
+  models = keep(models, providerBudget.models, (m) => `${providerOf(m)} budget exceeded`);
+  return { models, dropped, blocked: providerBudget.blocked };
 }
 
 function canWrite(res: ServerResponse): boolean {
@@ -116,21 +236,6 @@ async function checkExistingProxy(port: number): Promise<boolean> {
   }
 }
 
-const PROVIDER_ERROR_PATTERNS = [
-  /billing/i, /insufficient.*balance/i, /credits/i, /quota.*exceeded/i,
-  /rate.*limit/i, /model.*unavailable/i, /service.*unavailable/i,
-  /capacity/i, /overloaded/i, /temporarily.*unavailable/i,
-  /api.*key.*invalid/i, /authentication.*failed/i,
-];
-
-const FALLBACK_STATUS_CODES = [400, 401, 402, 403, 404, 405, 429, 500, 502, 503, 504];
-
-function isProviderError(status: number, body: string): boolean {
-  if (!FALLBACK_STATUS_CODES.includes(status)) return false;
-  if (status >= 500) return true;
-  return PROVIDER_ERROR_PATTERNS.some((pattern) => pattern.test(body));
-}
-
 const VALID_ROLES = new Set(["system", "user", "assistant", "tool", "function"]);
 const ROLE_MAPPINGS: Record<string, string> = { developer: "system", model: "assistant" };
 
@@ -263,68 +368,119 @@ function stripThinkingTokens(content: string): string {
   return cleaned;
 }
 
+const THINKING_OPEN_RE = /<\s*(?:think(?:ing)?|thought|antthinking)\b[^>]*>/i;
+const THINKING_CLOSE_RE = /<\s*\/\s*(?:think(?:ing)?|thought|antthinking)\s*>/i;
+
+const THINKING_TAG_NAMES = ["think", "thinking", "thought", "antthinking"];
+
 /**
- * Convert OpenAI chat completion format to Anthropic Messages API format.
+ * Length of a trailing fragment that may be the start of a thinking tag or
+ * Kimi token cut off by the delta boundary ("<thi", "</thought", "<｜begin"), else 0.
  */
-function convertToAnthropicFormat(parsed: Record<string, unknown>): Record<string, unknown> {
-  const messages = (parsed.messages as ChatMessage[]) || [];
-  
-  // Extract system message
-  let system: string | undefined;
-  const nonSystemMessages: Array<{ role: string; content: string | unknown }> = [];
-  
-  for (const msg of messages) {
-    if (msg.role === "system") {
-      system = typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content);
-    } else {
-      nonSystemMessages.push({
-        role: msg.role === "assistant" ? "assistant" : "user",
-        content: msg.content,
-      });
-    }
-  }
+function partialTagLength(text: string): number {
+  const start = text.lastIndexOf("<");
+  if (start === -1 || text.includes(">", start)) return 0;
+  const fragment = text.slice(start);
+  if (/^<[｜|][^<>]*$/.test(fragment)) return fragment.length;
+  const tag = /^<\s*\/?\s*([a-z]*)(\s[^<>]*)?$/i.exec(fragment);
+  if (!tag) return 0;
+  const name = tag[1].toLowerCase();
+  const candidate = tag[2] === undefined ? THINKING_TAG_NAMES.some((n) => n.startsWith(name)) : THINKING_TAG_NAMES.includes(name);
+  return candidate ? fragment.length : 0;
+}
 
-  const result: Record<string, unknown> = {
-    model: parsed.model,
-    messages: nonSystemMessages,
-    max_tokens: (parsed.max_tokens as number) || 4096,
+/**
+ * Streaming variant of stripThinkingTokens — a thinking block usually spans
+ * many deltas, so we track whether we're inside one across calls. A tag can be
+ * split across deltas too, so a trailing fragment that may start one is held
+ * back until the next delta (or `final`, which flushes it).
+ */
+function createThinkingStreamStripper(): (delta: string, final?: boolean) => string {
+  let inBlock = false;
+  let pending = "";
+  return (delta: string, final = false) => {
+    let rest = pending + delta;
+    pending = "";
+    let out = "";
+    while (rest) {
+      if (inBlock) {
+        const close = THINKING_CLOSE_RE.exec(rest);
+        if (!close) {
+          if (!final) pending = rest.slice(rest.length - partialTagLength(rest));
+          return out;
+        }
+        rest = rest.slice(close.index + close[0].length);
+        inBlock = false;
+        continue;
+      }
+      const open = THINKING_OPEN_RE.exec(rest);
+      if (!open) {
+        const held = final ? 0 : partialTagLength(rest);
+        pending = rest.slice(rest.length - held);
+        return out + stripThinkingTokens(rest.slice(0, rest.length - held));
+      }
+      out += stripThinkingTokens(rest.slice(0, open.index));
+      rest = rest.slice(open.index + open[0].length);
+      inBlock = true;
+    }
+    return out;
   };
+}
 
-  if (system) result.system = system;
-  if (parsed.stream) result.stream = true;
-  if (parsed.temperature !== undefined) result.temperature = parsed.temperature;
-  if (parsed.top_p !== undefined) result.top_p = parsed.top_p;
-  if (parsed.tools) result.tools = parsed.tools;
+/** One stream's thinking strippers, by choice index, and the last chunk's id fields (for flushed chunks) */
+type SseFilterState = {
+  strippers: Map<number, (delta: string, final?: boolean) => string>;
+  last?: { id?: unknown; created?: unknown; model?: unknown };
+};
 
-  return result;
+/**
+ * Chunks with the text each choice still holds back as a possible tag, for
+ * streams that end (or reach [DONE]) without a finish_reason chunk flushing it.
+ */
+function flushSseFilter(state: SseFilterState): string[] {
+  const lines: string[] = [];
+  for (const [index, strip] of state.strippers) {
+    const held = strip("", true);
+    if (held) lines.push(`data: ${JSON.stringify({ ...state.last, object: "chat.completion.chunk", choices: [{ index, delta: { content: held }, finish_reason: null }] })}`, "");
+  }
+  state.strippers.clear();
+  return lines;
 }
 
 /**
- * Convert Anthropic response to OpenAI format.
+ * Filter a single upstream SSE line before forwarding it.
+ * Keeps empty lines (event separators), `data: [DONE]` and JSON data lines
+ * (with thinking tokens stripped from delta content). Drops SSE comments and
+ * non-JSON data lines (e.g. ": OPENROUTER PROCESSING"). Returns the lines to
+ * send — none for a dropped line; text held back as a possible tag goes out before [DONE].
  */
-function convertAnthropicResponseToOpenAI(anthropicData: Record<string, unknown>): Record<string, unknown> {
-  const content = anthropicData.content as Array<{ type: string; text?: string }> | undefined;
-  const textContent = content?.filter(b => b.type === "text").map(b => b.text).join("") || "";
-  
-  return {
-    id: (anthropicData.id as string) || `chatcmpl-${Date.now()}`,
-    object: "chat.completion",
-    created: Math.floor(Date.now() / 1000),
-    model: anthropicData.model,
-    choices: [{
-      index: 0,
-      message: {
-        role: "assistant",
-        content: textContent,
-      },
-      finish_reason: anthropicData.stop_reason === "end_turn" ? "stop" : (anthropicData.stop_reason || "stop"),
-    }],
-    usage: anthropicData.usage ? {
-      prompt_tokens: (anthropicData.usage as Record<string, number>).input_tokens || 0,
-      completion_tokens: (anthropicData.usage as Record<string, number>).output_tokens || 0,
-      total_tokens: ((anthropicData.usage as Record<string, number>).input_tokens || 0) + ((anthropicData.usage as Record<string, number>).output_tokens || 0),
-    } : undefined,
-  };
+function filterSseLine(line: string, state: SseFilterState): string[] {
+  const trimmed = line.trim();
+  if (trimmed === "") return [""];
+  if (trimmed === "data: [DONE]") return [...flushSseFilter(state), trimmed];
+  if (!trimmed.startsWith("data: {")) return [];
+
+  try {
+    const chunk = JSON.parse(trimmed.slice(6)) as { id?: unknown; created?: unknown; model?: unknown; choices?: Array<{ index?: number; delta?: { content?: unknown }; finish_reason?: unknown }> };
+    if (chunk.choices) state.last = { id: chunk.id, created: chunk.created, model: chunk.model };
+    let changed = false;
+    for (const choice of chunk.choices ?? []) {
+      const index = choice.index ?? 0;
+      const final = choice.finish_reason != null;
+      if (typeof choice.delta?.content !== "string") {
+        // The last chunk flushes whatever was held back as a possible tag
+        const held = final ? state.strippers.get(index)?.("", true) : undefined;
+        if (held) { choice.delta = { ...choice.delta, content: held }; changed = true; }
+        continue;
+      }
+      if (!state.strippers.has(index)) state.strippers.set(index, createThinkingStreamStripper());
+      const stripped = state.strippers.get(index)!(choice.delta.content, final);
+      if (stripped !== choice.delta.content) { choice.delta.content = stripped; changed = true; }
+    }
+    return [changed ? `data: ${JSON.stringify(chunk)}` : trimmed];
+  } catch {
+    return [trimmed];
+  }
 }
 
 export type ProxyOptions = {
@@ -333,6 +489,16 @@ export type ProxyOptions = {
   routingConfig?: Partial<RoutingConfig>;
   requestTimeoutMs?: number;
   sessionConfig?: Partial<SessionConfig>;
+  budgets?: BudgetConfig;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  /** Learn tier corrections from retries, overrides and bad completions (see feedback.ts) */
+  feedback?: Partial<FeedbackConfig>;
+  /** Re-reads API keys and routing config for POST /admin/reload and the config watcher */
+  loadConfig?: (options: LoadApiKeysOptions) => ReloadableConfig;
+  /** Reload when these files change (e.g. configSourceFiles()); needs loadConfig */
+  watchConfigFile?: string | string[];
+  /** Bearer token POST /admin/reload and DELETE /feedback require — without one they're disabled */
+  adminToken?: string;
   onReady?: (port: number) => void;
   onError?: (error: Error) => void;
   onRouted?: (decision: RoutingDecision) => void;
@@ -342,146 +508,276 @@ export type ProxyHandle = {
   port: number;
   baseUrl: string;
   configuredProviders: string[];
+  /** The keys requests are served with now — replaced by every reload */
+  apiKeys: () => ApiKeysConfig;
+  /** Re-read keys and routing config via loadConfig, as POST /admin/reload does */
+  reload: () => ReloadResult;
   close: () => Promise<void>;
 };
 
-function buildModelPricing(): Map<string, ModelPricing> {
+export type ReloadResult =
+  | { ok: true; providers: string[]; profiles: string[]; rules: number }
+  | { ok: false; error: string };
+
+/** Keys and the routing built from them — replaced whole on reload, never mutated */
+type RoutingState = {
+  apiKeys: ApiKeysConfig;
+  /** Custom providers' models, aliases and adapters declared with these keys */
+  custom: CustomProviders;
+  routerOpts: RouterOptions;
+  profiles: Map<string, RouterOptions>;
+  routingRules: CompiledRule[];
+  privacyCheck: PrivacyCheck;
+};
+
+/** Static per-1M pricing from the model catalog (built-in and custom models) */
+export function buildModelPricing(models: BlockRunModel[] = getAllModels()): Map<string, ModelPricing> {
   const map = new Map<string, ModelPricing>();
-  for (const m of BLOCKRUN_MODELS) {
+  for (const m of models) {
     if (m.id === "auto") continue;
-    map.set(m.id, { inputPrice: m.inputPrice, outputPrice: m.outputPrice });
+    map.set(m.id, { inputPrice: m.inputPrice, outputPrice: m.outputPrice, cachedInputPrice: m.cachedInputPrice });
   }
   return map;
 }
 
-function mergeRoutingConfig(overrides?: Partial<RoutingConfig>): RoutingConfig {
-  if (!overrides) return DEFAULT_ROUTING_CONFIG;
+/**
+ * Static pricing overlaid with the OpenRouter catalog's live prices, once loaded.
+ */
+function withLivePricing(pricing: Map<string, ModelPricing>): Map<string, ModelPricing> {
+  const live = getLivePricing();
+  if (live.size === 0) return pricing;
+  const merged = new Map(pricing);
+  for (const [id, p] of live) merged.set(id, { ...pricing.get(id), ...p });
+  return merged;
+}
+
+type ContentPart = { type: string; text?: string };
+type Msg = { role: string; content: string | ContentPart[] | null };
+
+function extractText(content: string | ContentPart[] | null | undefined): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((p): p is ContentPart & { text: string } => p.type === "text" && typeof p.text === "string")
+      .map((p) => p.text)
+      .join("\n");
+  }
+  return "";
+}
+
+/** The newest user message and the system prompt, as text */
+function promptsOf(messages: Msg[] | undefined): { prompt: string; systemPrompt: string | undefined } {
+  let lastUserMsg: Msg | undefined;
+  if (messages) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === "user") { lastUserMsg = messages[i]; break; }
+    }
+  }
+  const systemMsg = messages?.find((m: Msg) => m.role === "system");
+  return { prompt: extractText(lastUserMsg?.content), systemPrompt: extractText(systemMsg?.content) || undefined };
+}
+
+/**
+ * The routing rule (see RoutingConfig.rules) that applies to a chat completion, if any.
+ */
+function matchRequestRule(rules: CompiledRule[], parsed: Record<string, unknown>, headers: IncomingMessage["headers"], bodyLength: number, requiredCapabilities: Capability[]): MatchedRule | undefined {
+  if (rules.length === 0) return undefined;
+  return matchRoutingRule(rules, {
+    ...promptsOf(parsed.messages as Msg[] | undefined),
+    headers: headers as Record<string, string | string[] | undefined>,
+    hasTools: requiredCapabilities.includes("tools"),
+    hasImages: requiredCapabilities.includes("vision"),
+    tokens: Math.ceil(bodyLength / 4),
+    sessionId: getSessionId(headers as Record<string, string | string[] | undefined>),
+  });
+}
+
+/**
+ * What route() needs from a chat completion body: the newest user message, the
+ * system prompt, and router options for this request (tier cap, capabilities,
+ * conversation context, token counts for cheapest-capable ranking).
+ */
+function prepareRouting(
+  parsed: Record<string, unknown>,
+  bodyLength: number,
+  maxTokens: number,
+  requiredCapabilities: Capability[],
+  routerOpts: RouterOptions,
+  maxTier?: Tier,
+): { prompt: string; systemPrompt: string | undefined; routerOpts: RouterOptions } {
+  const messages = parsed.messages as Msg[] | undefined;
+  const { prompt, systemPrompt } = promptsOf(messages);
+
+  // Providers cache repeated prompt prefixes — everything before the newest message went out last turn
+  const prefixTokens = messages && messages.length > 1 ? Math.ceil(JSON.stringify(messages.slice(0, -1)).length / 4) : 0;
+  const requestTokens = { input: Math.ceil(bodyLength / 4), cached: prefixTokens >= MIN_CACHED_PREFIX_TOKENS ? prefixTokens : 0, output: maxTokens };
+  // Live prices matter to cheapest-mode ranking only — read the same way as the router reads it
+  const cheapest = rankingMode(routerOpts.config.ranking) === "cheapest";
+  // Earlier turns count too — a short "yes, do it" mid-task is scored with the discussion before it
+  const conversation = buildConversationContext(messages);
   return {
-    ...DEFAULT_ROUTING_CONFIG,
-    ...overrides,
-    classifier: { ...DEFAULT_ROUTING_CONFIG.classifier, ...overrides.classifier },
-    scoring: { ...DEFAULT_ROUTING_CONFIG.scoring, ...overrides.scoring },
-    tiers: { ...DEFAULT_ROUTING_CONFIG.tiers, ...overrides.tiers },
-    overrides: { ...DEFAULT_ROUTING_CONFIG.overrides, ...overrides.overrides },
+    prompt,
+    systemPrompt,
+    routerOpts: { ...routerOpts, maxTier, requiredCapabilities, requestTokens, conversation, modelPricing: cheapest ? withLivePricing(routerOpts.modelPricing) : routerOpts.modelPricing },
   };
 }
 
+type ToolCallMsg = Msg & { tool_calls?: Array<{ function?: { arguments?: unknown } }> };
+
+/** Every message's text and tool call arguments, for the privacy check */
+function messagesText(messages: unknown): string {
+  if (!Array.isArray(messages)) return "";
+  return (messages as Array<ToolCallMsg | null>)
+    .flatMap((m) => [extractText(m?.content), ...(m?.tool_calls ?? []).map((c) => String(c.function?.arguments ?? ""))])
+    .join("\n");
+}
+
+/** Every string in a request body (embeddings input, completion prompt, …), for the privacy check */
+function bodyText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value === null || typeof value !== "object") return "";
+  return Object.values(value).map(bodyText).filter(Boolean).join("\n");
+}
+
 /**
- * Build the upstream URL for a provider.
- * Priority: direct provider key > OpenRouter fallback.
+ * Why a request must stay on local models — the x-clawrouter-private header, or
+ * a privacy pattern (see RoutingConfig.privacy) matching any message of a chat
+ * completion, or any string in the body of another /v1 endpoint.
  */
-function buildUpstreamUrl(
-  modelId: string,
-  path: string,
-  apiKeys: ApiKeysConfig,
-): { url: string; provider: string; apiKey: string; actualModelId: string; viaOpenRouter: boolean } | undefined {
-  const access = resolveProviderAccess(apiKeys, modelId);
-  if (!access) return undefined;
-
-  const { apiKey, baseUrl, provider, viaOpenRouter } = access;
+function privateReason(parsed: Record<string, unknown>, headers: IncomingMessage["headers"], check: PrivacyCheck): string | undefined {
+  const header = headers[PRIVATE_HEADER];
+  if ((Array.isArray(header) ? header[0] : header)?.trim().toLowerCase() === "true") return `${PRIVATE_HEADER} header`;
+  return check(Array.isArray(parsed.messages) ? messagesText(parsed.messages) : bodyText(parsed));
+}
 
-  if (viaOpenRouter) {
-    // Resolve ClawRouter model ID to OpenRouter's model ID
-    // e.g., "moonshot/kimi-k2.5" → "moonshotai/kimi-k2.5"
-    const resolvedModelId = resolveOpenRouterModelId(modelId);
-    // Trigger background cache refresh if stale
-    ensureOpenRouterCache(apiKey);
-    const orPath = baseUrl.endsWith("/v1") && path.startsWith("/v1") ? path.slice(3) : path;
-    return {
-      url: `${baseUrl}${orPath}`,
-      provider,
-      apiKey,
-      actualModelId: resolvedModelId,
-      viaOpenRouter: true,
-    };
-  }
+/** Fail closed: a private request no local model can take is answered here, before any upstream is tried */
+function rejectPrivateRequest(res: ServerResponse, message: string): void {
+  console.log(`[ClawRouter] ${message} — rejected`);
+  res.writeHead(503, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: { message, type: "private_route_unavailable", code: "private_route_unavailable" } }));
+}
 
-  // Direct provider access — strip provider prefix
-  const actualModelId = modelId.includes("/") ? modelId.split("/").slice(1).join("/") : modelId;
+type ProfileChoice = { profile?: string; routerOpts?: RouterOptions; private?: boolean; error?: string };
 
-  // Strip /v1 prefix from path if baseUrl already ends with /v1
-  const normalizedPath = baseUrl.endsWith("/v1") && path.startsWith("/v1")
-    ? path.slice(3) // remove leading /v1
-    : path;
+/**
+ * The router options for an auto-routed request: the profile named by the
+ * model ("clawrouter/auto:eco") or, failing that, the x-clawrouter-profile header.
+ * No profile → the base config. A `private: true` profile makes the request private.
+ */
+function selectProfile(profileFromModel: string | undefined, headers: IncomingMessage["headers"], routerOpts: RouterOptions, profiles: Map<string, RouterOptions>): ProfileChoice {
+  const header = headers[PROFILE_HEADER];
+  const profile = (profileFromModel ?? (Array.isArray(header) ? header[0] : header))?.trim().toLowerCase() || undefined;
+  if (!profile) return { routerOpts };
+  const selected = profiles.get(profile);
+  if (!selected) return { profile, error: `Unknown routing profile "${profile}" (available: ${[...profiles.keys()].join(", ") || "none"})` };
+  return { profile, routerOpts: selected, private: routerOpts.config.profiles?.[findProfile(routerOpts.config, profile)!]?.private === true };
+}
 
-  // Google uses a different URL structure
-  if (provider === "google") {
-    return {
-      url: `${baseUrl}/models/${actualModelId}:streamGenerateContent?alt=sse`,
-      provider,
-      apiKey,
-      actualModelId,
-      viaOpenRouter: false,
-    };
-  }
+/**
+ * Whether an auto-routed request may keep its session's pinned model. A pin from
+ * another profile, overruled by a rule, above the budget's tier cap, lacking a
+ * capability this request needs, or in the cloud for a private request is re-routed.
+ */
+function canReusePinnedModel(session: SessionEntry, request: { profile?: string; rule?: MatchedRule; maxTier?: Tier; requiredCapabilities: Capability[]; private?: string }, routerOpts: RouterOptions, custom: CustomProviders): boolean {
+  if (session.profile !== request.profile) return false;
+  if (request.rule) return false;
+  if (request.maxTier && TIER_RANK[session.tier] > TIER_RANK[request.maxTier]) return false;
+  if (filterByCapabilities([session.model], request.requiredCapabilities, routerOpts.modelCapabilities).models.length === 0) return false;
+  if (request.private && !isLocalModel(session.model, custom)) return false;
+  return true;
+}
 
-  // Anthropic uses /v1/messages, not /v1/chat/completions
-  // Also needs full model IDs (e.g., claude-sonnet-4-20250514)
-  if (provider === "anthropic") {
-    const ANTHROPIC_MODEL_MAP: Record<string, string> = {
-      "claude-sonnet-4": "claude-sonnet-4-20250514",
-      "claude-opus-4": "claude-opus-4-20250514",
-      "claude-opus-4.5": "claude-opus-4-20250514", // fallback
-      "claude-haiku-4.5": "claude-haiku-4-20250414",
-    };
-    const mappedModel = ANTHROPIC_MODEL_MAP[actualModelId] || actualModelId;
-    return {
-      url: `${baseUrl}/messages`,
-      provider,
-      apiKey,
-      actualModelId: mappedModel,
-      viaOpenRouter: false,
-    };
-  }
+/**
+ * How a chat completion body would be routed, without calling any provider:
+ * rule-based scoring with every dimension, the tier boundaries the score fell
+ * between, agentic tiers, the fallback chain (and why dropped models were
+ * skipped), the cost estimate and the budget state. The LLM classifier and
+ * session pins are not consulted.
+ */
+function explainRouting(
+  parsed: Record<string, unknown>,
+  sessionId: string | undefined,
+  deps: { apiKeys: ApiKeysConfig; custom: CustomProviders; routerOpts: RouterOptions; circuitBreakers: CircuitBreakerRegistry; budgetTracker: BudgetTracker },
+): Record<string, unknown> {
+  const bodyLength = JSON.stringify(parsed).length;
+  const maxTokens = (parsed.max_tokens as number) || 4096;
+  const budget = deps.budgetTracker.check(sessionId);
+  const requiredCapabilities = detectCapabilities(parsed);
+  const input = prepareRouting(parsed, bodyLength, maxTokens, requiredCapabilities, deps.routerOpts, budget.maxTier);
+  const { decision, scoring, boundaries, agentic } = explainRoute(input.prompt, input.systemPrompt, maxTokens, input.routerOpts);
+  const chain = buildFallbackChain(decision, "", {
+    estimatedTotalTokens: Math.ceil(bodyLength / 4) + maxTokens, requiredCapabilities,
+    routerOpts: input.routerOpts, apiKeys: deps.apiKeys, custom: deps.custom, circuitBreakers: deps.circuitBreakers, budgetTracker: deps.budgetTracker,
+  });
 
   return {
-    url: `${baseUrl}${normalizedPath}`,
-    provider,
-    apiKey,
-    actualModelId,
-    viaOpenRouter: false,
+    model: chain.models[0] ?? decision.model,
+    tier: decision.tier,
+    method: decision.method,
+    rule: decision.rule,
+    private: decision.private,
+    confidence: decision.confidence,
+    reasoning: decision.reasoning,
+    scoring,
+    boundaries,
+    agentic,
+    requiredCapabilities,
+    chain: chain.models,
+    dropped: chain.dropped,
+    cost: { estimate: decision.costEstimate, baseline: decision.baselineCost, savings: decision.savings },
+    budget,
   };
 }
 
 /**
- * Build headers for a provider request.
+ * Build the upstream URL for a provider through its adapter.
+ * Priority: direct provider key > OpenRouter fallback.
  */
-function buildProviderHeaders(provider: string, apiKey: string, viaOpenRouter = false): Record<string, string> {
-  const headers: Record<string, string> = {
-    "content-type": "application/json",
-    "user-agent": USER_AGENT,
-  };
+function buildUpstreamUrl(
+  modelId: string,
+  path: string,
+  apiKeys: ApiKeysConfig,
+  customAdapters: ProviderAdapter[],
+  stream = true,
+): { url: string; adapter: ProviderAdapter; provider: string; apiKey: string; actualModelId: string; viaOpenRouter: boolean } | undefined {
+  const access = resolveProviderAccess(apiKeys, modelId, customAdapters);
+  const adapter = access && getProviderAdapter(access.provider, customAdapters);
+  if (!access || !adapter) return undefined;
 
-  // OpenRouter always uses Bearer auth (OpenAI-compatible)
-  if (viaOpenRouter) {
-    headers["authorization"] = `Bearer ${apiKey}`;
-    headers["x-title"] = "ClawRouter";
-    return headers;
-  }
+  const { apiKey, baseUrl, provider, viaOpenRouter } = access;
+  // Trigger background refresh of OpenRouter's catalog (used for its model IDs) if stale
+  if (provider === "openrouter") ensureOpenRouterCache(apiKey);
 
-  switch (provider) {
-    case "anthropic":
-      headers["x-api-key"] = apiKey;
-      headers["anthropic-version"] = "2023-06-01";
-      break;
-    case "google":
-      headers["x-goog-api-key"] = apiKey;
-      break;
-    default:
-      // OpenAI-compatible providers (openai, xai, deepseek, moonshot, nvidia)
-      headers["authorization"] = `Bearer ${apiKey}`;
-      break;
-  }
+  const actualModelId = adapter.mapModelId ? adapter.mapModelId(modelId) : stripProviderPrefix(modelId);
+  const ctx = { model: actualModelId, stream };
+  const url = adapter.buildUrl ? adapter.buildUrl(baseUrl, path, ctx) : joinProviderUrl(baseUrl, path);
+  return { url, adapter, provider, apiKey, actualModelId, viaOpenRouter };
+}
 
-  return headers;
+/**
+ * Convert a complete native-format response body to OpenAI format.
+ * Returns undefined when the body is already OpenAI-shaped.
+ */
+function convertResponseToOpenAI(raw: Record<string, unknown>, adapter: ProviderAdapter | undefined, modelId: string): Record<string, unknown> | undefined {
+  return adapter?.transformResponse?.(raw, modelId);
 }
 
 type ModelRequestResult = {
   success: boolean;
   response?: Response;
+  /** Adapter that translates the response back to OpenAI format */
+  adapter?: ProviderAdapter;
+  /** Billed upstream ("openrouter" when routed through it) */
+  provider?: string;
   errorBody?: string;
   errorStatus?: number;
+  /** OpenAI error type for errors raised here rather than upstream */
+  errorType?: string;
   isProviderError?: boolean;
+  /** Backoff the upstream asked for (429, or 503 with Retry-After) */
+  retryAfterMs?: number;
+  /** Label of the pooled key that served the request */
+  keyLabel?: string;
 };
 
 async function tryModelRequest(
@@ -491,9 +787,16 @@ async function tryModelRequest(
   body: Buffer,
   maxTokens: number,
   apiKeys: ApiKeysConfig,
+  customAdapters: ProviderAdapter[],
+  keyPools: KeyPoolRegistry,
   signal: AbortSignal,
 ): Promise<ModelRequestResult> {
-  const upstream = buildUpstreamUrl(modelId, path, apiKeys);
+  let stream = true;
+  try {
+    stream = (JSON.parse(body.toString()) as { stream?: unknown }).stream === true;
+  } catch { /* not JSON */ }
+
+  const upstream = buildUpstreamUrl(modelId, path, apiKeys, customAdapters, stream);
   if (!upstream) {
     return {
       success: false,
@@ -502,6 +805,17 @@ async function tryModelRequest(
       isProviderError: true,
     };
   }
+  // Native-format APIs only translate chat completions — embeddings and the rest have no equivalent
+  const endpoint = path.split("?")[0];
+  if (upstream.adapter.paths && !upstream.adapter.paths.includes(endpoint)) {
+    return {
+      success: false,
+      errorBody: `${upstream.adapter.id} models don't support ${endpoint} (only ${upstream.adapter.paths.join(", ")})`,
+      errorStatus: 400,
+      errorType: "invalid_request_error",
+      isProviderError: false,
+    };
+  }
 
   // Update model in body and normalize messages
   let requestBody = body;
@@ -522,50 +836,97 @@ async function tryModelRequest(
       parsed.messages = normalizeMessagesForThinking(parsed.messages as ExtendedChatMessage[]);
     }
 
-    // Convert OpenAI format to Anthropic Messages API format
-    if (upstream.provider === "anthropic" && !upstream.viaOpenRouter) {
-      const anthropicBody = convertToAnthropicFormat(parsed);
-      requestBody = Buffer.from(JSON.stringify(anthropicBody));
-    } else {
-      requestBody = Buffer.from(JSON.stringify(parsed));
-    }
+    // Convert OpenAI format to the provider's native format
+    const native = upstream.adapter.transformRequest?.(parsed, { model: upstream.actualModelId, stream }) ?? parsed;
+    requestBody = Buffer.from(JSON.stringify(native));
   } catch {
     // If body isn't valid JSON, use as-is
   }
 
-  const headers = buildProviderHeaders(upstream.provider, upstream.apiKey, upstream.viaOpenRouter);
+  // Providers with several keys: a benched or rate-limited key hands over to the next one
+  const providerConfig = apiKeys.providers[upstream.provider];
+  const estimatedTokens = Math.ceil(body.length / 4) + maxTokens;
+  // Each key at most once per request — a key benched for no time at all comes straight back
+  const tried = new Set<string>();
+  for (;;) {
+    const key = providerConfig?.keys?.length ? keyPools.acquire(upstream.provider, providerConfig, estimatedTokens) : { apiKey: upstream.apiKey, label: undefined };
+    if (!key || (key.label && tried.has(key.apiKey))) {
+      // No provider: the keys are benched, not the provider, so its circuit stays closed
+      return { success: false, errorBody: `All API keys for ${upstream.provider} are rate-limited or benched`, errorStatus: 429, isProviderError: true };
+    }
+    const headers = buildProviderHeaders(upstream.adapter, key.apiKey);
+    tried.add(key.apiKey);
 
-  try {
-    console.log(`[ClawRouter] → ${upstream.provider} ${upstream.url} model=${upstream.actualModelId} viaOR=${upstream.viaOpenRouter}`);
-    const response = await fetch(upstream.url, {
-      method,
-      headers,
-      body: requestBody.length > 0 ? new Uint8Array(requestBody) : undefined,
-      signal,
-    });
+    try {
+      console.log(`[ClawRouter] → ${upstream.provider} ${upstream.url} model=${upstream.actualModelId} viaOR=${upstream.viaOpenRouter}${key.label ? ` key=${key.label}` : ""}`);
+      const response = await fetch(upstream.url, {
+        method,
+        headers,
+        body: requestBody.length > 0 ? new Uint8Array(requestBody) : undefined,
+        signal,
+      });
+
+      if (response.status !== 200) {
+        const errorBody = await response.text();
+        console.log(`[ClawRouter] ← ${response.status} ${errorBody.slice(0, 200)}`);
+        const retryAfterMs = rateLimitBackoff(response.status, response.headers);
+        if (key.label && BENCH_STATUSES.includes(response.status)) {
+          const ms = keyPools.bench(upstream.provider, key.apiKey, response.status, retryAfterMs);
+          console.log(`[ClawRouter] Key ${key.label} benched for ${Math.round(ms / 1000)}s (${response.status}), trying the next key`);
+          continue;
+        }
+        return {
+          success: false,
+          provider: upstream.provider,
+          errorBody,
+          errorStatus: response.status,
+          isProviderError: (upstream.adapter.classifyError ?? classifyProviderError)(response.status, errorBody) === "provider",
+          retryAfterMs,
+        };
+      }
 
-    if (response.status !== 200) {
-      const errorBody = await response.text();
-      console.log(`[ClawRouter] ← ${response.status} ${errorBody.slice(0, 200)}`);
+      return { success: true, response, adapter: upstream.adapter, provider: upstream.provider, keyLabel: key.label };
+    } catch (err) {
       return {
         success: false,
-        errorBody,
-        errorStatus: response.status,
-        isProviderError: isProviderError(response.status, errorBody),
+        provider: upstream.provider,
+        errorBody: err instanceof Error ? err.message : String(err),
+        errorStatus: 500,
+        isProviderError: true,
       };
     }
-
-    return { success: true, response };
-  } catch (err) {
-    return {
-      success: false,
-      errorBody: err instanceof Error ? err.message : String(err),
-      errorStatus: 500,
-      isProviderError: true,
-    };
   }
 }
 
+/**
+ * Transport for the LLM classifier: sends its chat completion through the same
+ * provider access layer as routed requests (direct key or OpenRouter, native
+ * formats converted back to OpenAI). Models with an open circuit are not called;
+ * outcomes count toward the circuits like a routed request's.
+ */
+function createClassifierFetch(apiKeys: ApiKeysConfig, customAdapters: ProviderAdapter[], circuitBreakers: CircuitBreakerRegistry, keyPools: KeyPoolRegistry): PayFetch {
+  return async (_input, init) => {
+    const body = Buffer.from(typeof init?.body === "string" ? init.body : "");
+    const modelId = (JSON.parse(body.toString()) as { model: string }).model;
+    const providerOf = (m: string) => resolveProviderAccess(apiKeys, m, customAdapters)?.provider ?? getProviderFromModel(m);
+    const provider = providerOf(modelId);
+    if (!circuitBreakers.canAttempt(modelId, provider)) return new Response("circuit open", { status: 503 });
+
+    circuitBreakers.onAttempt(modelId, provider);
+    const attemptStart = Date.now();
+    const result = await tryModelRequest(modelId, "/v1/chat/completions", "POST", body, 0, apiKeys, customAdapters, keyPools, init?.signal ?? AbortSignal.timeout(DEFAULT_REQUEST_TIMEOUT_MS));
+    if (!result.success || !result.response) {
+      if (result.isProviderError && result.provider) circuitBreakers.recordFailure(modelId, provider, { reason: result.errorBody ?? "", status: result.errorStatus, retryAfterMs: result.retryAfterMs });
+      else circuitBreakers.release(modelId, provider);
+      return new Response(result.errorBody ?? "", { status: result.errorStatus ?? 502 });
+    }
+    circuitBreakers.recordSuccess(modelId, provider, Date.now() - attemptStart);
+    const raw = (await result.response.json()) as Record<string, unknown>;
+    const converted = convertResponseToOpenAI(raw, result.adapter, modelId) ?? raw;
+    return new Response(JSON.stringify(converted), { status: 200, headers: { "content-type": "application/json" } });
+  };
+}
+
 export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
   const listenPort = options.port ?? getProxyPort();
   const configuredProviders = getConfiguredProviders(options.apiKeys);
@@ -578,36 +939,106 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
       port: listenPort,
       baseUrl: `http://127.0.0.1:${listenPort}`,
       configuredProviders,
+      apiKeys: () => options.apiKeys,
+      reload: () => ({ ok: false, error: "Proxy is running in another process" }),
       close: async () => {},
     };
   }
 
-  const routingConfig = mergeRoutingConfig(options.routingConfig);
-  const modelPricing = buildModelPricing();
-  const routerOpts: RouterOptions = { config: routingConfig, modelPricing };
+  const modelHealth = new ModelHealthTracker();
+  const feedback = new FeedbackStore(options.feedback);
+  if (feedback.enabled) await feedback.load();
+  // Throws on an invalid config, so a bad one never replaces a working one
+  const buildState = ({ apiKeys, routingConfig: overrides }: ReloadableConfig): RoutingState => {
+    const custom = parseCustomProviders(apiKeys);
+    if (custom.errors.length > 0) throw new Error(`Invalid custom providers:\n${formatConfigIssues(custom.errors)}`);
+    const keyIssues = validateProviderKeys(apiKeys);
+    if (keyIssues.length > 0) throw new Error(`Invalid provider keys:\n${formatConfigIssues(keyIssues)}`);
+    const models = [...BLOCKRUN_MODELS, ...custom.models];
+    const validation = validateRoutingConfig(overrides, { knownModels: models.map((m) => m.id) });
+    for (const warning of validation.warnings) console.warn(`[ClawRouter] Routing config: ${formatConfigIssues([warning])}`);
+    if (validation.errors.length > 0) throw new Error(`Invalid routing config:\n${formatConfigIssues(validation.errors)}`);
+    const modelPricing = buildModelPricing(models);
+    const routingConfig = mergeRoutingConfig(overrides);
+    const routingRules = compileRoutingRules(routingConfig);
+    const privacyCheck = compilePrivacyCheck(routingConfig);
+    const routerOpts: RouterOptions = {
+      config: routingConfig, modelPricing, modelHealth: (m) => modelHealth.get(m), modelCapabilities: (m) => getModelCapabilities(m, custom),
+      modelAvailable: (m) => isModelAccessible(apiKeys, m, custom.adapters), modelContextWindow: (m) => getModelContextWindow(m, custom), modelLocal: (m) => isLocalModel(m, custom),
+      tierCorrection: feedback.enabled ? (pattern) => feedback.correction(pattern) : undefined,
+    };
+    // Same health, pricing and keys — only the config differs
+    const profiles = new Map(Object.keys(routingConfig.profiles ?? {}).map((name) => [name.toLowerCase(), { ...routerOpts, config: applyProfile(routingConfig, name)! }]));
+    return { apiKeys, custom, routerOpts, profiles, routingRules, privacyCheck };
+  };
+  // Requests use their state's catalog and adapters; the shared defaults (plugin model list, exported lookups) follow the swap
+  const swapState = (next: RoutingState) => {
+    state = next;
+    applyCustomProviders(next.custom);
+  };
+  let state = buildState(options);
+  swapState(state);
+
+  // Swap in freshly loaded keys and routing; requests already running keep the state they started with.
+  // The watcher reuses apiKeyCommand keys rather than block every request on the commands.
+  const reload = (runKeyCommands = true): ReloadResult => {
+    if (!options.loadConfig) return { ok: false, error: "No config source to reload from" };
+    try {
+      const config = options.loadConfig({ runKeyCommands });
+      const providers = getConfiguredProviders(config.apiKeys);
+      if (providers.length === 0) throw new Error("no API keys configured");
+      const next = buildState(config);
+      swapState(next);
+      const result = { ok: true as const, providers, profiles: [...next.profiles.keys()], rules: next.routingRules.length };
+      console.log(`[ClawRouter] Config reloaded: ${providers.length} provider(s), ${result.profiles.length} profile(s), ${result.rules} rule(s)`);
+      return result;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(`[ClawRouter] Config reload failed, keeping the current config: ${error}`);
+      return { ok: false, error };
+    }
+  };
   const deduplicator = new RequestDeduplicator();
   const sessionStore = new SessionStore(options.sessionConfig);
+  const budgetTracker = new BudgetTracker(options.budgets);
+  if (budgetTracker.enabled) await budgetTracker.load();
+  const circuitBreakers = new CircuitBreakerRegistry(options.circuitBreaker);
+  const keyPools = new KeyPoolRegistry();
   const connections = new Set<import("net").Socket>();
+  // Admin endpoints need the admin token, and are disabled without one. Returns true when it answered.
+  const rejectUnlessAdmin = (req: IncomingMessage, res: ServerResponse): boolean => {
+    const denied = !options.adminToken ? "Admin endpoints are disabled (no admin token configured)"
+      : !isAdminAuthorized(req.headers.authorization, options.adminToken) ? "Invalid admin token" : undefined;
+    if (!denied) return false;
+    res.writeHead(options.adminToken ? 401 : 403, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: denied }));
+    return true;
+  };
 
   const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     req.on("error", (err) => console.error(`[ClawRouter] Request stream error: ${err.message}`));
     res.on("error", (err) => console.error(`[ClawRouter] Response stream error: ${err.message}`));
     finished(res, (err) => { if (err && err.code !== "ERR_STREAM_DESTROYED") console.error(`[ClawRouter] Response finished with error: ${err.message}`); });
+    const { apiKeys, custom, routerOpts, profiles, routingRules, privacyCheck } = state;
 
     // Health check
     if (req.url === "/health" || req.url?.startsWith("/health?")) {
-      const accessibleProviders = getAccessibleProviders(options.apiKeys);
+      const accessibleProviders = getAccessibleProviders(apiKeys);
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify({
         status: "ok",
-        configuredProviders,
-        openRouterFallback: hasOpenRouter(options.apiKeys),
+        configuredProviders: getConfiguredProviders(apiKeys),
+        openRouterFallback: hasOpenRouter(apiKeys),
         accessibleProviders,
-        modelCount: BLOCKRUN_MODELS.filter((m) => {
+        modelCount: getAllModels(custom).filter((m) => {
           if (m.id === "auto") return false;
           const provider = getProviderFromModel(m.id);
           return accessibleProviders.includes(provider);
         }).length,
+        budget: budgetTracker.getStatus(),
+        circuits: circuitBreakers.getStatus(),
+        keys: keyPools.getStatus(apiKeys),
+        modelHealth: modelHealth.getStatus(),
       }));
       return;
     }
@@ -619,7 +1050,7 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
         const days = parseInt(url.searchParams.get("days") || "7", 10);
         const stats = await getStats(Math.min(days, 30));
         res.writeHead(200, { "Content-Type": "application/json", "Cache-Control": "no-cache" });
-        res.end(JSON.stringify(stats, null, 2));
+        res.end(JSON.stringify({ ...stats, budget: budgetTracker.getStatus() }, null, 2));
       } catch (err) {
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: `Failed to get stats: ${err instanceof Error ? err.message : String(err)}` }));
@@ -627,26 +1058,97 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
       return;
     }
 
+    // Learned routing corrections — DELETE (admin token) resets all, or one with ?pattern=
+    if (req.url === "/feedback" || req.url?.startsWith("/feedback?")) {
+      const pattern = new URL(req.url, "http://localhost").searchParams.get("pattern") ?? undefined;
+      if (req.method === "DELETE") {
+        if (rejectUnlessAdmin(req, res)) return;
+        const removed = feedback.reset(pattern);
+        await feedback.flush();
+        console.log(`[ClawRouter] Feedback reset: ${removed} pattern(s) removed`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ removed }));
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json", "Cache-Control": "no-cache" });
+        res.end(JSON.stringify(feedback.getStatus(), null, 2));
+      }
+      return;
+    }
+
+    // Re-read keys and routing config — needs the admin token
+    if (req.url === "/admin/reload" && req.method === "POST") {
+      if (rejectUnlessAdmin(req, res)) return;
+      const result = reload();
+      res.writeHead(result.ok ? 200 : 422, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(result));
+      return;
+    }
+
     // Models list
     if (req.url === "/v1/models" && req.method === "GET") {
-      const accessibleProviders = getAccessibleProviders(options.apiKeys);
-      const models = BLOCKRUN_MODELS
+      const accessibleProviders = getAccessibleProviders(apiKeys);
+      const models = getAllModels(custom)
         .filter((m) => {
           if (m.id === "auto") return true;
           const provider = getProviderFromModel(m.id);
           return accessibleProviders.includes(provider);
         })
-        .map((m) => ({
-          id: m.id,
+        .flatMap((m) => m.id === "auto" ? ["auto", ...[...profiles.keys()].map((p) => `auto:${p}`)] : [m.id])
+        .map((id) => ({
+          id,
           object: "model",
           created: Math.floor(Date.now() / 1000),
-          owned_by: m.id.split("/")[0] || "clawrouter",
+          owned_by: id.startsWith("auto") ? "clawrouter" : id.split("/")[0],
         }));
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ object: "list", data: models }));
       return;
     }
 
+    // Routing dry run — how a chat completion would be routed, no provider called
+    if (req.url === "/v1/route/explain" && req.method === "POST") {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(Buffer.concat(chunks).toString()) as Record<string, unknown>;
+        if (!Array.isArray(parsed?.messages)) throw new Error("body must be a chat completion request with messages");
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: `Invalid request: ${err instanceof Error ? err.message : String(err)}`, type: "invalid_request_error" } }));
+        return;
+      }
+      const model = typeof parsed.model === "string" ? parsed.model.trim().toLowerCase() : "";
+      const rule = matchRequestRule(routingRules, parsed, req.headers, JSON.stringify(parsed).length, detectCapabilities(parsed));
+      const choice = selectProfile(rule?.action.profile ?? AUTO_MODEL_PATTERN.exec(model)?.[1], req.headers, routerOpts, profiles);
+      if (!choice.routerOpts) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: choice.error, type: "invalid_request_error", code: "unknown_profile" } }));
+        return;
+      }
+      const sessionId = getSessionId(req.headers as Record<string, string | string[] | undefined>);
+      let explanation: Record<string, unknown>;
+      try {
+        const privacy = privateReason(parsed, req.headers, privacyCheck) ?? (choice.private ? `${choice.profile} profile` : undefined);
+        explanation = explainRouting(parsed, sessionId, { apiKeys, custom, routerOpts: { ...choice.routerOpts, rule, private: privacy }, circuitBreakers, budgetTracker });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        // A private request with no local model to go to
+        if (err instanceof NoLocalModelError) {
+          res.writeHead(503, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: { message, type: "private_route_unavailable" } }));
+          return;
+        }
+        options.onError?.(err instanceof Error ? err : new Error(message));
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: `Explain failed: ${message}`, type: "proxy_error" } }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ profile: choice.profile, ...explanation }, null, 2));
+      return;
+    }
+
     if (!req.url?.startsWith("/v1")) {
       res.writeHead(404, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ error: "Not found" }));
@@ -654,7 +1156,7 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
     }
 
     try {
-      await proxyRequest(req, res, options, routerOpts, deduplicator, sessionStore);
+      await proxyRequest(req, res, { ...options, apiKeys }, custom, routerOpts, profiles, routingRules, privacyCheck, deduplicator, sessionStore, budgetTracker, circuitBreakers, keyPools, modelHealth, feedback);
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       options.onError?.(error);
@@ -710,6 +1212,8 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
 
   server.on("error", (err) => { console.error(`[ClawRouter] Server runtime error: ${err.message}`); options.onError?.(err); });
   server.on("clientError", (err, socket) => { console.error(`[ClawRouter] Client error: ${err.message}`); if (socket.writable && !socket.destroyed) socket.end("HTTP/1.1 400 Bad Request\r\n\r\n"); });
+  const stopWatching = options.watchConfigFile && options.loadConfig ? watchConfigFile(options.watchConfigFile, () => reload(false)) : undefined;
+
   server.on("connection", (socket) => {
     connections.add(socket);
     socket.setTimeout(300_000);
@@ -722,12 +1226,15 @@ export async function startProxy(options: ProxyOptions): Promise<ProxyHandle> {
     port,
     baseUrl: `http://127.0.0.1:${port}`,
     configuredProviders,
+    apiKeys: () => state.apiKeys,
+    reload: () => reload(),
     close: () => new Promise<void>((res, rej) => {
       const timeout = setTimeout(() => rej(new Error("[ClawRouter] Close timeout after 4s")), 4000);
+      stopWatching?.();
       sessionStore.close();
       for (const socket of connections) socket.destroy();
       connections.clear();
-      server.close((err) => { clearTimeout(timeout); err ? rej(err) : res(); });
+      server.close((err) => { clearTimeout(timeout); err ? rej(err) : feedback.flush().then(() => res()); });
     }),
   };
 }
@@ -736,9 +1243,18 @@ async function proxyRequest(
   req: IncomingMessage,
   res: ServerResponse,
   options: ProxyOptions,
+  custom: CustomProviders,
   routerOpts: RouterOptions,
+  profiles: Map<string, RouterOptions>,
+  routingRules: CompiledRule[],
+  privacyCheck: PrivacyCheck,
   deduplicator: RequestDeduplicator,
   sessionStore: SessionStore,
+  budgetTracker: BudgetTracker,
+  circuitBreakers: CircuitBreakerRegistry,
+  keyPools: KeyPoolRegistry,
+  modelHealth: ModelHealthTracker,
+  feedback: FeedbackStore,
 ): Promise<void> {
   const startTime = Date.now();
   const requestPath = req.url || "/v1/chat/completions";
@@ -754,74 +1270,100 @@ async function proxyRequest(
   let isStreaming = false;
   let modelId = "";
   let maxTokens = 4096;
+  let clientWantsUsage = false;
+  let requiredCapabilities: Capability[] = [];
+  let requestRouterOpts = routerOpts;
+  let profile: string | undefined;
+  let privacy: string | undefined;
+  let feedbackKeys: { conversation: string; request: string } | undefined;
+  let followUp: FollowUp | undefined;
   const isChatCompletion = req.url?.includes("/chat/completions");
 
+  // Budget check — hard limits reject every /v1 request (embeddings and the rest cost too), soft limits cap the routing tier
+  const budgetSessionId = getSessionId(req.headers as Record<string, string | string[] | undefined>);
+  const budget = budgetTracker.check(budgetSessionId);
+  if (budget.state === "hard") {
+    console.log(`[ClawRouter] ${budget.reason}`);
+    res.writeHead(429, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message: budget.reason, type: "budget_exceeded", code: "budget_exceeded" } }));
+    return;
+  }
+
   if (isChatCompletion && body.length > 0) {
     try {
       const parsed = JSON.parse(body.toString()) as Record<string, unknown>;
       isStreaming = parsed.stream === true;
       modelId = (parsed.model as string) || "";
       maxTokens = (parsed.max_tokens as number) || 4096;
+      clientWantsUsage = (parsed.stream_options as { include_usage?: unknown } | undefined)?.include_usage === true;
 
       const normalizedModel = typeof parsed.model === "string" ? parsed.model.trim().toLowerCase() : "";
-      const resolvedModel = resolveModelAlias(normalizedModel);
+      const resolvedModel = resolveModelAlias(normalizedModel, custom);
       const wasAlias = resolvedModel !== normalizedModel;
 
-      const isAutoModel = normalizedModel === AUTO_MODEL.toLowerCase() ||
-        normalizedModel === AUTO_MODEL_SHORT.toLowerCase() ||
-        normalizedModel === "blockrun/auto" || // backward compat
-        normalizedModel === "clawrouter/auto";
+      const autoMatch = AUTO_MODEL_PATTERN.exec(normalizedModel);
+      const isAutoModel = autoMatch !== null;
 
       console.log(`[ClawRouter] Received model: "${parsed.model}" -> normalized: "${normalizedModel}"${wasAlias ? ` -> alias: "${resolvedModel}"` : ""}, isAuto: ${isAutoModel}`);
 
+      // A re-send or an explicit model right after an auto-routed answer says the route was too weak
+      if (feedback.enabled && Array.isArray(parsed.messages)) {
+        feedbackKeys = { conversation: conversationKey(parsed.messages, budgetSessionId), request: requestKey(parsed.messages) };
+        followUp = feedback.observe(feedbackKeys.conversation, feedbackKeys.request, isAutoModel);
+      }
+
+      // Secrets, PII or protected paths (or the header) keep the request on local models
+      privacy = privateReason(parsed, req.headers, privacyCheck);
+      if (privacy) {
+        console.log(`[ClawRouter] Private request (${privacy}) — local models only`);
+        requestRouterOpts = { ...routerOpts, private: privacy };
+      }
+
       if (wasAlias && !isAutoModel) {
         parsed.model = resolvedModel;
         modelId = resolvedModel;
       }
 
       if (isAutoModel) {
+        requiredCapabilities = detectCapabilities(parsed);
+        // Operator rules come first — one can pick the profile, force a model or tier, or exclude providers
+        const rule = matchRequestRule(routingRules, parsed, req.headers, body.length, requiredCapabilities);
+        if (rule) console.log(`[ClawRouter] Routing rule matched: ${rule.name}`);
+        const choice = selectProfile(rule?.action.profile ?? autoMatch[1], req.headers, routerOpts, profiles);
+        if (!choice.routerOpts) {
+          console.log(`[ClawRouter] ${choice.error}`);
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: { message: choice.error, type: "invalid_request_error", code: "unknown_profile" } }));
+          return;
+        }
+        profile = choice.profile;
+        if (choice.private && !privacy) {
+          privacy = `${profile} profile`;
+          console.log(`[ClawRouter] Private request (${privacy}) — local models only`);
+          requestRouterOpts = { ...routerOpts, private: privacy };
+        }
+        const profileOpts: RouterOptions = { ...choice.routerOpts, rule, private: privacy };
         const sessionId = getSessionId(req.headers as Record<string, string | string[] | undefined>);
         const existingSession = sessionId ? sessionStore.getSession(sessionId) : undefined;
 
-        if (existingSession) {
+        if (existingSession && canReusePinnedModel(existingSession, { profile, rule, maxTier: budget.maxTier, requiredCapabilities, private: privacy }, routerOpts, custom)) {
           console.log(`[ClawRouter] Session ${sessionId?.slice(0, 8)}... using pinned model: ${existingSession.model}`);
           parsed.model = existingSession.model;
           modelId = existingSession.model;
           sessionStore.touchSession(sessionId!);
         } else {
-          type ContentPart = { type: string; text?: string };
-          type Msg = { role: string; content: string | ContentPart[] | null };
-          const messages = parsed.messages as Msg[] | undefined;
-
-          function extractText(content: string | ContentPart[] | null | undefined): string {
-            if (typeof content === "string") return content;
-            if (Array.isArray(content)) {
-              return content
-                .filter((p): p is ContentPart & { text: string } => p.type === "text" && typeof p.text === "string")
-                .map((p) => p.text)
-                .join("\n");
-            }
-            return "";
-          }
-
-          let lastUserMsg: Msg | undefined;
-          if (messages) {
-            for (let i = messages.length - 1; i >= 0; i--) {
-              if (messages[i].role === "user") { lastUserMsg = messages[i]; break; }
-            }
-          }
-          const systemMsg = messages?.find((m: Msg) => m.role === "system");
-          const prompt = extractText(lastUserMsg?.content);
-          const systemPrompt = extractText(systemMsg?.content) || undefined;
-
-          routingDecision = route(prompt, systemPrompt, maxTokens, routerOpts);
-
-          // Filter to models with configured API keys (direct or via OpenRouter)
-          if (!isModelAccessible(options.apiKeys, routingDecision.model)) {
+          const input = prepareRouting(parsed, body.length, maxTokens, requiredCapabilities, profileOpts, budget.maxTier);
+          const { prompt, systemPrompt } = input;
+          requestRouterOpts = input.routerOpts;
+          // Ambiguous prompts go to the LLM classifier when classifier.llmEnabled is set
+          routingDecision = await routeAsync(prompt, systemPrompt, maxTokens, requestRouterOpts, createClassifierFetch(options.apiKeys, custom.adapters, circuitBreakers, keyPools));
+
+          // Filter to models with configured API keys (direct or via OpenRouter) — a rule's forced model stays
+          if (!isModelAccessible(options.apiKeys, routingDecision.model, custom.adapters) && !rule?.action.model) {
             // Primary model not accessible, find alternative
-            const tierConfig = routerOpts.config.tiers[routingDecision.tier];
-            const chain = [tierConfig.primary, ...tierConfig.fallback];
-            const available = chain.find((m) => isModelAccessible(options.apiKeys, m));
+            const tierConfig = decisionTierConfigs(routingDecision, requestRouterOpts)[routingDecision.tier];
+            const chain = filterByCapabilities([tierConfig.primary, ...tierConfig.fallback], requiredCapabilities, routerOpts.modelCapabilities).models;
+            const available = chain.find((m) => isModelAccessible(options.apiKeys, m, custom.adapters));
             if (available) {
               routingDecision = { ...routingDecision, model: available, reasoning: routingDecision.reasoning + ` | rerouted to ${available} (key available)` };
             }
@@ -831,7 +1373,7 @@ async function proxyRequest(
           modelId = routingDecision.model;
 
           if (sessionId) {
-            sessionStore.setSession(sessionId, routingDecision.model, routingDecision.tier);
+            sessionStore.setSession(sessionId, routingDecision.model, routingDecision.tier, profile);
           }
           options.onRouted?.(routingDecision);
         }
@@ -840,15 +1382,48 @@ async function proxyRequest(
       body = Buffer.from(JSON.stringify(parsed));
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
+      // Unrouted, a private request would go out as-is — no local model could take it
+      if (privacy) { rejectPrivateRequest(res, errorMsg); return; }
       console.error(`[ClawRouter] Routing error: ${errorMsg}`);
       options.onError?.(new Error(`Routing failed: ${errorMsg}`));
     }
+  } else if (body.length > 0) {
+    // Other /v1 endpoints aren't routed, but the same content stays private: only a local model, called directly, may have it
+    let parsed: Record<string, unknown> = {};
+    try { parsed = JSON.parse(body.toString()) as Record<string, unknown>; } catch { /* not JSON — the header still applies */ }
+    privacy = privateReason(parsed, req.headers, privacyCheck);
+    const model = typeof parsed.model === "string" ? resolveModelAlias(parsed.model.trim().toLowerCase(), custom) : "";
+    if (privacy && !(isLocalModel(model, custom) && resolveProviderAccess(options.apiKeys, model, custom.adapters)?.viaOpenRouter === false)) {
+      rejectPrivateRequest(res, `Private request (${privacy}): ${model ? `${model} is not a local model` : "no local model named"}`);
+      return;
+    }
+    // With budgets on, spend that can't be priced can't be capped either (unpriced local models are free)
+    if (budgetTracker.enabled && !routerOpts.modelPricing.has(model) && !isLocalModel(model, custom)) {
+      const message = `Budgets are enforced and ${model ? `${model} has no pricing` : "no model is named"}, so this request's spend can't be counted`;
+      console.log(`[ClawRouter] ${message} — rejected`);
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message, type: "invalid_request_error", code: "unpriced_model" } }));
+      return;
+    }
+    // Sent to the model it names, and logged like an explicit chat request so budgets see the spend
+    modelId = model;
+    maxTokens = typeof parsed.max_tokens === "number" ? parsed.max_tokens : 0;
   }
 
   // Dedup check
   const dedupKey = RequestDeduplicator.hash(body);
   const cached = deduplicator.getCached(dedupKey);
-  if (cached) { res.writeHead(cached.status, cached.headers); res.end(cached.body); return; }
+  // A retry answered from the cache is the client's transport retrying, not a verdict on the answer
+  if (followUp && !cached) {
+    console.log(`[ClawRouter] Feedback: ${followUp.signal} after an auto-routed answer`);
+    feedback.record(followUp.pattern, followUp.signal);
+  }
+  if (cached) {
+    res.writeHead(cached.status, cached.headers); res.end(cached.body);
+    // A replayed answer can be retried again like the original
+    if (routingDecision?.pattern && feedbackKeys) feedback.answered(feedbackKeys.conversation, feedbackKeys.request, routingDecision.pattern);
+    return;
+  }
   const inflight = deduplicator.getInflight(dedupKey);
   if (inflight) { const result = await inflight; res.writeHead(result.status, result.headers); res.end(result.body); return; }
   deduplicator.markInflight(dedupKey);
@@ -876,45 +1451,67 @@ async function proxyRequest(
   const timeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  let actualUsage: TokenUsage | undefined;
+  let actualModelUsed = modelId;
+  let billedProvider: string | undefined;
+  let keyLabel: string | undefined;
+  let upstreamStart = 0;
 
   try {
     // Build fallback chain
-    let modelsToTry: string[];
-    if (routingDecision) {
-      const estimatedInputTokens = Math.ceil(body.length / 4);
-      const estimatedTotalTokens = estimatedInputTokens + maxTokens;
-      const useAgenticTiers = routingDecision.reasoning?.includes("agentic") && routerOpts.config.agenticTiers;
-      const tierConfigs = useAgenticTiers ? routerOpts.config.agenticTiers! : routerOpts.config.tiers;
-      const contextFiltered = getFallbackChainFiltered(routingDecision.tier, tierConfigs, estimatedTotalTokens, getModelContextWindow);
-      modelsToTry = contextFiltered.slice(0, MAX_FALLBACK_ATTEMPTS);
-      // Filter to models with accessible keys (direct or OpenRouter)
-      modelsToTry = modelsToTry.filter((m) => isModelAccessible(options.apiKeys, m));
-      modelsToTry = prioritizeNonRateLimited(modelsToTry);
-    } else {
-      modelsToTry = modelId ? [modelId] : [];
-    }
+    const chain = buildFallbackChain(routingDecision, modelId, {
+      estimatedTotalTokens: Math.ceil(body.length / 4) + maxTokens, requiredCapabilities,
+      routerOpts: requestRouterOpts, apiKeys: options.apiKeys, custom, circuitBreakers, budgetTracker,
+    });
+    const modelsToTry = chain.models;
+    const providerOf = (m: string) => resolveProviderAccess(options.apiKeys, m, custom.adapters)?.provider ?? getProviderFromModel(m);
 
     let upstream: Response | undefined;
-    let lastError: { body: string; status: number } | undefined;
-    let actualModelUsed = modelId;
+    let upstreamAdapter: ProviderAdapter | undefined;
+    let lastError: { body: string; status: number; type?: string } | undefined;
+    let sawProviderError = false;
+    if (modelsToTry.length === 0 && chain.blocked.length > 0) {
+      lastError = { body: `Budget exceeded: provider hard limit reached for ${chain.blocked.join(", ")}`, status: 429, type: "budget_exceeded" };
+    } else if (modelsToTry.length === 0 && privacy) {
+      // Fail closed — a private request is never sent to a cloud model instead
+      const skipped = chain.dropped.map((d) => `${d.model}: ${d.reason}`).join("; ");
+      lastError = { body: `Private request (${privacy}): no local model available${skipped ? ` (${skipped})` : ""}`, status: 503, type: "private_route_unavailable" };
+    }
 
     for (let i = 0; i < modelsToTry.length; i++) {
       const tryModel = modelsToTry[i];
       const isLastAttempt = i === modelsToTry.length - 1;
       console.log(`[ClawRouter] Trying model ${i + 1}/${modelsToTry.length}: ${tryModel}`);
 
-      const result = await tryModelRequest(tryModel, requestPath, req.method ?? "POST", body, maxTokens, options.apiKeys, controller.signal);
+      const tryProvider = providerOf(tryModel);
+      circuitBreakers.onAttempt(tryModel, tryProvider);
+      const attemptStart = Date.now();
+      const result = await tryModelRequest(tryModel, requestPath, req.method ?? "POST", body, maxTokens, options.apiKeys, custom.adapters, keyPools, controller.signal);
 
       if (result.success && result.response) {
+        circuitBreakers.recordSuccess(tryModel, tryProvider, Date.now() - attemptStart);
+        // Streams record time to first token once the first bytes arrive; other responses at their headers
+        upstreamStart = attemptStart;
+        if (!headersSentEarly) modelHealth.recordSuccess(tryModel, Date.now() - attemptStart);
         upstream = result.response;
+        upstreamAdapter = result.adapter;
         actualModelUsed = tryModel;
+        billedProvider = result.provider;
+        keyLabel = result.keyLabel;
         console.log(`[ClawRouter] Success with model: ${tryModel}`);
         break;
       }
 
-      lastError = { body: result.errorBody || "Unknown error", status: result.errorStatus || 500 };
+      lastError = { body: result.errorBody || "Unknown error", status: result.errorStatus || 500, type: result.errorType };
+      if (result.isProviderError) sawProviderError = true;
+      if (result.isProviderError && result.provider) {
+        circuitBreakers.recordFailure(tryModel, tryProvider, { reason: lastError.body, status: result.errorStatus, retryAfterMs: result.retryAfterMs });
+        modelHealth.recordFailure(tryModel);
+      } else {
+        // Request errors and benched keys say nothing about the upstream — free the half-open probe
+        circuitBreakers.release(tryModel, tryProvider);
+      }
       if (result.isProviderError && !isLastAttempt) {
-        if (result.errorStatus === 429) markRateLimited(tryModel);
         console.log(`[ClawRouter] Provider error from ${tryModel}, trying fallback: ${result.errorBody?.slice(0, 100)}`);
         continue;
       }
@@ -924,6 +1521,8 @@ async function proxyRequest(
     clearTimeout(timeoutId);
     if (heartbeatInterval) { clearInterval(heartbeatInterval); heartbeatInterval = undefined; }
 
+    if (routingDecision?.pattern && sawProviderError) feedback.record(routingDecision.pattern, "error");
+
     if (routingDecision && actualModelUsed !== routingDecision.model) {
       routingDecision = { ...routingDecision, model: actualModelUsed, reasoning: `${routingDecision.reasoning} | fallback to ${actualModelUsed}` };
       options.onRouted?.(routingDecision);
@@ -933,79 +1532,99 @@ async function proxyRequest(
     if (!upstream) {
       const errBody = lastError?.body || "All models in fallback chain failed";
       const errStatus = lastError?.status || 502;
+      const errType = lastError?.type ?? "provider_error";
       if (headersSentEarly) {
-        const errEvent = `data: ${JSON.stringify({ error: { message: errBody, type: "provider_error", status: errStatus } })}\n\n`;
+        const errEvent = `data: ${JSON.stringify({ error: { message: errBody, type: errType, status: errStatus } })}\n\n`;
         safeWrite(res, errEvent);
         safeWrite(res, "data: [DONE]\n\n");
         res.end();
         deduplicator.complete(dedupKey, { status: 200, headers: { "content-type": "text/event-stream" }, body: Buffer.from(errEvent + "data: [DONE]\n\n"), completedAt: Date.now() });
       } else {
         res.writeHead(errStatus, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: { message: errBody, type: "provider_error" } }));
-        deduplicator.complete(dedupKey, { status: errStatus, headers: { "content-type": "application/json" }, body: Buffer.from(JSON.stringify({ error: { message: errBody, type: "provider_error" } })), completedAt: Date.now() });
+        res.end(JSON.stringify({ error: { message: errBody, type: errType } }));
+        deduplicator.complete(dedupKey, { status: errStatus, headers: { "content-type": "application/json" }, body: Buffer.from(JSON.stringify({ error: { message: errBody, type: errType } })), completedAt: Date.now() });
       }
       return;
     }
 
     // Stream response
     const responseChunks: Buffer[] = [];
+    let finalBody = Buffer.alloc(0);
 
     if (headersSentEarly) {
+      let sawDone = false;
+
       // Stream SSE from upstream
       if (upstream.body) {
         const reader = upstream.body.getReader();
-        const chunks: Uint8Array[] = [];
+        const lineBuffer = new SseLineBuffer();
+        const filterState: SseFilterState = { strippers: new Map() };
+        const decoder = new TextDecoder();
+        // Native streams (Anthropic, Gemini, …) use their own event schemas — translate to OpenAI chunks, then filter those
+        const translator = upstreamAdapter?.createStreamTranslator?.(actualModelUsed);
+        const translateLine = (line: string): string[] =>
+          (translator ? translator.push(line) : [line]).flatMap((out) => filterSseLine(out, filterState));
+        const writeLines = (lines: string[]) => {
+          for (const out of lines) {
+            const usageChunk = parseUsageChunk(out);
+            if (usageChunk) {
+              actualUsage = usageChunk.usage;
+              // We asked for the usage chunk ourselves — don't hand it to clients that didn't
+              if (usageChunk.usageOnly && !clientWantsUsage) continue;
+            }
+            if (out === "data: [DONE]") sawDone = true;
+            safeWrite(res, out + "\n");
+            responseChunks.push(Buffer.from(out + "\n"));
+          }
+        };
+        const forwardLines = (lines: string[]) => writeLines(lines.flatMap(translateLine));
+
+        // Upstream may be SSE (forward each event as it arrives) or a plain JSON
+        // body (buffer and convert). Decide on the first non-empty bytes.
+        const declaredSse = upstream.headers.get("content-type")?.includes("text/event-stream") ?? false;
+        let isSSE: boolean | undefined = declaredSse || undefined;
+        let jsonStr = "";
         try {
           while (true) {
             const { done, value } = await reader.read();
             if (done) break;
-            chunks.push(value);
+            if (upstreamStart) { modelHealth.recordSuccess(actualModelUsed, Date.now() - upstreamStart); upstreamStart = 0; }
+            const text = decoder.decode(value, { stream: true });
+            if (isSSE === undefined) {
+              jsonStr += text;
+              if (!jsonStr.trim()) continue;
+              isSSE = looksLikeSse(jsonStr);
+              if (isSSE) { forwardLines(lineBuffer.push(jsonStr)); jsonStr = ""; }
+              continue;
+            }
+            if (isSSE) forwardLines(lineBuffer.push(text));
+            else jsonStr += text;
           }
+          const tail = decoder.decode();
+          if (isSSE) forwardLines([...lineBuffer.push(tail), ...lineBuffer.flush()]);
+          else jsonStr += tail;
+          if (isSSE && translator?.finish) writeLines(translator.finish().flatMap((out) => filterSseLine(out, filterState)));
+          // A stream cut off without a finish_reason or [DONE] still gets the text held back
+          if (isSSE) writeLines(flushSseFilter(filterState));
         } finally {
           reader.releaseLock();
         }
 
-        const jsonBody = Buffer.concat(chunks);
-        const jsonStr = jsonBody.toString();
-
-        // Check if response is SSE (streaming) or JSON (non-streaming)
-        // SSE can start with "data: ", "event: ", or ": " (comment/heartbeat)
-        const isSSE = jsonStr.startsWith("data: ") || jsonStr.startsWith("event: ") || jsonStr.startsWith(": ");
-        if (isSSE) {
-          // Already SSE format - filter out non-JSON lines (e.g. OpenRouter processing comments)
-          const cleaned = jsonStr
-            .split("\n")
-            .filter((line) => {
-              const trimmed = line.trim();
-              // Keep empty lines (SSE event separators), data: [DONE], and valid JSON data lines
-              if (trimmed === "") return true;
-              if (trimmed === "data: [DONE]") return true;
-              if (trimmed.startsWith("data: {")) return true;
-              // Drop SSE comments and non-JSON data lines (e.g. ": OPENROUTER PROCESSING")
-              return false;
-            })
-            .join("\n");
-          if (cleaned.trim()) {
-            safeWrite(res, cleaned);
-            responseChunks.push(Buffer.from(cleaned));
-          }
-        } else {
+        if (!isSSE) {
           // JSON response - convert to SSE
-          // If from Anthropic, convert to OpenAI format first
+          // If from Anthropic or Gemini, convert to OpenAI format first
           let responseJson = jsonStr;
           try {
-            const rawParsed = JSON.parse(jsonStr);
-            if (rawParsed.type === "message" && rawParsed.content) {
-              // This is an Anthropic response — convert to OpenAI format
-              const converted = convertAnthropicResponseToOpenAI(rawParsed);
-              responseJson = JSON.stringify(converted);
-            }
+            const converted = convertResponseToOpenAI(JSON.parse(jsonStr), upstreamAdapter, actualModelUsed);
+            if (converted) responseJson = JSON.stringify(converted);
           } catch { /* not JSON or parse error, continue */ }
           try {
             const rsp = JSON.parse(responseJson) as {
               id?: string; created?: number; model?: string;
               choices?: Array<{ index?: number; message?: { role?: string; content?: string; tool_calls?: unknown[] }; delta?: { role?: string; content?: string; tool_calls?: unknown[] }; finish_reason?: string | null }>;
+              usage?: unknown;
             };
+            actualUsage = parseUsage(rsp.usage);
 
             const baseChunk = {
               id: rsp.id ?? `chatcmpl-${Date.now()}`,
@@ -1034,7 +1653,9 @@ async function proxyRequest(
 
                 const toolCalls = choice.message?.tool_calls ?? choice.delta?.tool_calls;
                 if (toolCalls && (toolCalls as unknown[]).length > 0) {
-                  const toolCallData = `data: ${JSON.stringify({ ...baseChunk, choices: [{ index, delta: { tool_calls: toolCalls }, logprobs: null, finish_reason: null }] })}\n\n`;
+                  // Chunk-format tool calls need an index (message-format ones don't carry it)
+                  const indexedToolCalls = (toolCalls as Array<Record<string, unknown>>).map((tc, i) => ({ index: i, ...tc }));
+                  const toolCallData = `data: ${JSON.stringify({ ...baseChunk, choices: [{ index, delta: { tool_calls: indexedToolCalls }, logprobs: null, finish_reason: null }] })}\n\n`;
                   safeWrite(res, toolCallData);
                   responseChunks.push(Buffer.from(toolCallData));
                 }
@@ -1044,6 +1665,12 @@ async function proxyRequest(
                 responseChunks.push(Buffer.from(finishData));
               }
             }
+
+            if (actualUsage && clientWantsUsage) {
+              const usageData = `data: ${JSON.stringify({ ...baseChunk, choices: [], usage: rsp.usage })}\n\n`;
+              safeWrite(res, usageData);
+              responseChunks.push(Buffer.from(usageData));
+            }
           } catch {
             const sseData = `data: ${jsonStr}\n\n`;
             safeWrite(res, sseData);
@@ -1052,8 +1679,10 @@ async function proxyRequest(
         }
       }
 
-      safeWrite(res, "data: [DONE]\n\n");
-      responseChunks.push(Buffer.from("data: [DONE]\n\n"));
+      if (!sawDone) {
+        safeWrite(res, "data: [DONE]\n\n");
+        responseChunks.push(Buffer.from("data: [DONE]\n\n"));
+      }
       res.end();
       deduplicator.complete(dedupKey, { status: 200, headers: { "content-type": "text/event-stream" }, body: Buffer.concat(responseChunks), completedAt: Date.now() });
     } else {
@@ -1076,16 +1705,17 @@ async function proxyRequest(
           reader.releaseLock();
         }
       }
-      let finalBody = Buffer.concat(responseChunks);
+      finalBody = Buffer.concat(responseChunks);
       
-      // Convert Anthropic response to OpenAI format for non-streaming
+      // Convert Anthropic/Gemini response to OpenAI format for non-streaming
       try {
-        const rawParsed = JSON.parse(finalBody.toString());
-        if (rawParsed.type === "message" && rawParsed.content) {
-          const converted = convertAnthropicResponseToOpenAI(rawParsed);
+        const raw = JSON.parse(finalBody.toString()) as Record<string, unknown>;
+        const converted = convertResponseToOpenAI(raw, upstreamAdapter, actualModelUsed);
+        if (converted) {
           finalBody = Buffer.from(JSON.stringify(converted));
           responseHeaders["content-type"] = "application/json";
         }
+        actualUsage = parseUsage((converted ?? raw).usage);
       } catch { /* not JSON, pass through */ }
       
       res.writeHead(upstream.status, responseHeaders);
@@ -1095,6 +1725,13 @@ async function proxyRequest(
     }
 
     completed = true;
+
+    // Empty or cut-off completions count against the route; clean ones slowly clear it
+    if (routingDecision?.pattern && feedbackKeys && upstream.ok) {
+      const outcome = completionOutcome((headersSentEarly ? Buffer.concat(responseChunks) : finalBody).toString(), headersSentEarly);
+      feedback.record(routingDecision.pattern, outcome ?? "success");
+      feedback.answered(feedbackKeys.conversation, feedbackKeys.request, routingDecision.pattern);
+    }
   } catch (err) {
     clearTimeout(timeoutId);
     if (heartbeatInterval) { clearInterval(heartbeatInterval); heartbeatInterval = undefined; }
@@ -1103,18 +1740,37 @@ async function proxyRequest(
     throw err;
   }
 
-  // Usage logging
-  if (routingDecision) {
+  // Usage logging — priced from the provider-reported usage when there is one.
+  // Explicitly-requested models and other /v1 endpoints are logged as tier DIRECT so budgets see all spend.
+  if (routingDecision || actualModelUsed) {
+    const model = routingDecision?.model ?? actualModelUsed;
+    const pricing = routerOpts.modelPricing.get(model);
+    const estimatedCost = routingDecision?.costEstimate
+      ?? computeCost({ promptTokens: Math.ceil(body.length / 4), completionTokens: maxTokens, cachedTokens: 0 }, pricing);
+    const cost = actualUsage ? computeCost(actualUsage, pricing) : estimatedCost;
+    const baselineCost = !routingDecision ? cost
+      : actualUsage ? computeCost(actualUsage, routerOpts.modelPricing.get(BASELINE_MODEL))
+      : routingDecision.baselineCost;
     const entry: UsageEntry = {
       timestamp: new Date().toISOString(),
-      model: routingDecision.model,
-      tier: routingDecision.tier,
-      cost: routingDecision.costEstimate,
-      baselineCost: routingDecision.baselineCost,
-      savings: routingDecision.savings,
+      model,
+      tier: routingDecision?.tier ?? "DIRECT",
+      cost,
+      estimatedCost,
+      baselineCost,
+      savings: baselineCost > 0 ? Math.max(0, (baselineCost - cost) / baselineCost) : 0,
       latencyMs: Date.now() - startTime,
-      reasoning: routingDecision.reasoning,
+      ...actualUsage,
+      provider: billedProvider,
+      keyLabel,
+      sessionId: budgetSessionId,
+      profile,
+      rule: routingDecision?.rule,
+      private: privacy,
+      method: routingDecision?.method,
+      reasoning: routingDecision?.reasoning,
     };
+    budgetTracker.record(entry);
     logUsage(entry).catch(() => {});
   }
 }
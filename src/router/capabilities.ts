@@ -0,0 +1,74 @@
+/**
+ * Capability Detection
+ *
+ * Works out which model features an OpenAI-format request depends on, so
+ * the router never sends it to a model that cannot serve it:
+ *
+ *   vision           — image parts in any message
+ *   tools            — tools / functions, or a tool_choice other than "none"
+ *   structuredOutput — response_format of type json_schema
+ *   reasoning        — the thinking parameter (when not disabled)
+ */
+
+import type { Capability } from "./types.js";
+
+const IMAGE_PART_TYPES = new Set(["image_url", "image", "input_image"]);
+
+/**
+ * Capabilities a chat completion request needs.
+ */
+export function detectCapabilities(request: Record<string, unknown>): Capability[] {
+  const needed: Capability[] = [];
+
+  const messages = Array.isArray(request.messages) ? request.messages : [];
+  const hasImage = messages.some((m: { content?: unknown }) => {
+    if (!Array.isArray(m?.content)) return false;
+    return m.content.some(
+      (part: { type?: unknown }) =>
+        typeof part?.type === "string" && IMAGE_PART_TYPES.has(part.type),
+    );
+  });
+  if (hasImage) needed.push("vision");
+
+  const hasTools =
+    (Array.isArray(request.tools) && request.tools.length > 0) ||
+    (Array.isArray(request.functions) && request.functions.length > 0) ||
+    (request.tool_choice !== undefined && request.tool_choice !== "none");
+  if (hasTools) needed.push("tools");
+
+  const responseFormat = request.response_format as { type?: unknown } | undefined;
+  if (responseFormat?.type === "json_schema") needed.push("structuredOutput");
+
+  const thinking = request.thinking as { type?: unknown } | boolean | undefined;
+  const wantsThinking =
+    thinking === true ||
+    (typeof thinking === "object" && thinking !== null && thinking.type !== "disabled");
+  if (wantsThinking) needed.push("reasoning");
+
+  return needed;
+}
+
+/**
+ * Keep the models that support every required capability.
+ * Models with unknown capabilities are kept (let the API reject if needed).
+ *
+ * @param models - Candidate chain
+ * @param required - Capabilities the request needs
+ * @param getCapabilities - Capabilities of a model ID, or undefined if unknown
+ * @returns Models kept and models dropped, each in chain order
+ */
+export function filterByCapabilities(
+  models: string[],
+  required: Capability[] | undefined,
+  getCapabilities: ((modelId: string) => Capability[] | undefined) | undefined,
+): { models: string[]; dropped: string[] } {
+  if (!required?.length || !getCapabilities) return { models, dropped: [] };
+  const kept: string[] = [];
+  const dropped: string[] = [];
+  for (const model of models) {
+    const supported = getCapabilities(model);
+    if (!supported || required.every((c) => supported.includes(c))) kept.push(model);
+    else dropped.push(model);
+  }
+  return { models: kept, dropped };
+}
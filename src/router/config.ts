@@ -7,17 +7,19 @@
  * Scoring uses 14 weighted dimensions with sigmoid confidence calibration.
  */
 
-import type { RoutingConfig } from "./types.js";
+import type { ConversationScoringConfig, RoutingConfig, Tier, TierConfig } from "./types.js";
 
 export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
   version: "2.0",
 
   classifier: {
+    llmEnabled: false,
     llmModel: "google/gemini-2.5-flash",
     llmMaxTokens: 10,
     llmTemperature: 0,
     promptTruncationChars: 500,
     cacheTtlMs: 3_600_000, // 1 hour
+    llmTimeoutMs: 1_000,
   },
 
   scoring: {
@@ -601,7 +603,20 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
       "验证",
     ],
 
-    // Dimension weights (sum to 1.0)
+    // Earlier turns, tool activity and length of the conversation so far —
+    // a short "yes, do it" after a long design discussion isn't a SIMPLE task
+    conversation: {
+      historyDecay: 0.6,
+      maxHistoryTurns: 8,
+      conversationTokenThresholds: { low: 2_000, high: 20_000 },
+      toolResultTokenThresholds: { low: 1_000, high: 10_000 },
+      toolCallThresholds: { low: 3, high: 10 },
+    },
+
+    // Dimension weights. The prompt dimensions sum to 0.94 and the conversation
+    // ones add 0.39, scored only for multi-turn requests; tierBoundaries are set
+    // for this scale. To retune against labeled prompts rather than by hand, see
+    // `clawrouter optimize` (optimizer.ts)
     dimensionWeights: {
       tokenCount: 0.08,
       codePresence: 0.15,
@@ -618,6 +633,11 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
       negationComplexity: 0.01,
       domainSpecificity: 0.02,
       agenticTask: 0.04, // Reduced - agentic signals influence tier selection, not dominate it
+      // Conversation context — on top of the above, 0 for single-turn requests
+      conversationHistory: 0.2,
+      conversationLength: 0.08,
+      toolResultVolume: 0.05,
+      toolCallDepth: 0.06,
     },
 
     // Tier boundaries on weighted score axis
@@ -682,4 +702,199 @@ export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
     ambiguousDefaultTier: "MEDIUM",
     agenticMode: false,
   },
+
+  // Off until enabled: the configured tier order is used as is
+  ranking: {
+    enabled: false,
+    mode: "weighted",
+    weights: { cost: 0.2, latency: 0.4, reliability: 0.4 },
+    // Interactive requests: a fast first token matters more than a cent saved
+    tierWeights: { SIMPLE: { cost: 0, latency: 0.7, reliability: 0.3 } },
+    minSamples: 5,
+  },
+
+  // Selected per request with "clawrouter/auto:<name>" or the x-clawrouter-profile header
+  profiles: {
+    eco: {
+      description: "Cheapest models that do the job; ambiguous prompts go low",
+      tiers: {
+        SIMPLE: {
+          primary: "nvidia/gpt-oss-120b", // Free tier
+          fallback: ["google/gemini-2.5-flash", "deepseek/deepseek-chat", "openai/gpt-4o-mini"],
+        },
+        MEDIUM: {
+          primary: "deepseek/deepseek-chat",
+          fallback: [
+            "xai/grok-4-fast-non-reasoning",
+            "google/gemini-2.5-flash",
+            "openai/gpt-4o-mini",
+          ],
+        },
+        COMPLEX: {
+          primary: "moonshot/kimi-k2.5",
+          fallback: ["xai/grok-code-fast-1", "deepseek/deepseek-chat", "google/gemini-2.5-flash"],
+        },
+        REASONING: {
+          primary: "deepseek/deepseek-reasoner",
+          fallback: ["xai/grok-4-fast-reasoning", "moonshot/kimi-k2.5"],
+        },
+      },
+      overrides: { ambiguousDefaultTier: "SIMPLE" },
+      ranking: { enabled: true, mode: "cheapest" },
+    },
+    balanced: {
+      description: "The default tiers and scoring",
+    },
+    premium: {
+      description: "Frontier models at every tier; ambiguous prompts go high",
+      tiers: {
+        SIMPLE: {
+          primary: "anthropic/claude-haiku-4.5",
+          fallback: ["openai/gpt-5-mini", "google/gemini-2.5-flash"],
+        },
+        MEDIUM: {
+          primary: "anthropic/claude-sonnet-4",
+          fallback: ["openai/gpt-4.1", "google/gemini-2.5-pro"],
+        },
+        COMPLEX: {
+          primary: "anthropic/claude-opus-4.5",
+          fallback: ["openai/gpt-5.2", "google/gemini-3-pro-preview"],
+        },
+        REASONING: {
+          primary: "openai/gpt-5.2",
+          fallback: ["anthropic/claude-opus-4.5", "openai/o3"],
+        },
+      },
+      overrides: { ambiguousDefaultTier: "COMPLEX" },
+    },
+    coding: {
+      description: "Code-first models; code in the prompt weighs more",
+      tiers: {
+        MEDIUM: {
+          primary: "xai/grok-code-fast-1",
+          fallback: ["moonshot/kimi-k2.5", "deepseek/deepseek-chat"],
+        },
+        COMPLEX: {
+          primary: "anthropic/claude-sonnet-4",
+          fallback: ["openai/gpt-5.2", "google/gemini-2.5-pro"],
+        },
+        REASONING: {
+          primary: "anthropic/claude-opus-4.5",
+          fallback: ["openai/o3", "google/gemini-2.5-pro"],
+        },
+      },
+      scoring: { dimensionWeights: { codePresence: 0.25 } },
+    },
+    private: {
+      description: "Local models only, as if every request sent x-clawrouter-private",
+      private: true,
+    },
+  },
 };
+
+/**
+ * Conversation scoring with a partial override merged in, threshold by threshold.
+ */
+function mergeConversation(
+  base: ConversationScoringConfig,
+  override?: Partial<ConversationScoringConfig>,
+): ConversationScoringConfig {
+  return {
+    ...base,
+    ...override,
+    conversationTokenThresholds: {
+      ...base.conversationTokenThresholds,
+      ...override?.conversationTokenThresholds,
+    },
+    toolResultTokenThresholds: {
+      ...base.toolResultTokenThresholds,
+      ...override?.toolResultTokenThresholds,
+    },
+    toolCallThresholds: { ...base.toolCallThresholds, ...override?.toolCallThresholds },
+  };
+}
+
+/**
+ * Fill a partial config (openclaw.yaml, a JSON file) in from the defaults.
+ * Nested sections merge key by key, so a single dimension weight or tier
+ * boundary can be overridden on its own.
+ */
+export function mergeRoutingConfig(overrides?: Partial<RoutingConfig>): RoutingConfig {
+  if (!overrides) return DEFAULT_ROUTING_CONFIG;
+  const defaults = DEFAULT_ROUTING_CONFIG;
+  return {
+    ...defaults,
+    ...overrides,
+    classifier: { ...defaults.classifier, ...overrides.classifier },
+    scoring: {
+      ...defaults.scoring,
+      ...overrides.scoring,
+      dimensionWeights: {
+        ...defaults.scoring.dimensionWeights,
+        ...overrides.scoring?.dimensionWeights,
+      },
+      tierBoundaries: { ...defaults.scoring.tierBoundaries, ...overrides.scoring?.tierBoundaries },
+      conversation: mergeConversation(
+        defaults.scoring.conversation,
+        overrides.scoring?.conversation,
+      ),
+    },
+    tiers: { ...defaults.tiers, ...overrides.tiers },
+    overrides: { ...defaults.overrides, ...overrides.overrides },
+    ranking: overrides.ranking
+      ? {
+          ...defaults.ranking!,
+          ...overrides.ranking,
+          weights: { ...defaults.ranking!.weights, ...overrides.ranking.weights },
+        }
+      : defaults.ranking,
+    profiles: { ...defaults.profiles, ...overrides.profiles },
+  };
+}
+
+/** The configured key of profile `name`. Profile names match case-insensitively. */
+export function findProfile(config: RoutingConfig, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  return Object.keys(config.profiles ?? {}).find((key) => key.toLowerCase() === wanted);
+}
+
+/**
+ * The config a named profile routes with: its sections merged over `config`.
+ * Undefined when the profile doesn't exist.
+ */
+export function applyProfile(config: RoutingConfig, name: string): RoutingConfig | undefined {
+  const key = findProfile(config, name);
+  const profile = key === undefined ? undefined : config.profiles?.[key];
+  if (!profile) return undefined;
+  const ranking = config.ranking ?? DEFAULT_ROUTING_CONFIG.ranking!;
+  const mergeTiers = (
+    base: Record<Tier, TierConfig>,
+    tiers?: Partial<Record<Tier, TierConfig>>,
+  ): Record<Tier, TierConfig> => ({ ...base, ...tiers });
+  return {
+    ...config,
+    classifier: { ...config.classifier, ...profile.classifier },
+    scoring: {
+      ...config.scoring,
+      ...profile.scoring,
+      dimensionWeights: {
+        ...config.scoring.dimensionWeights,
+        ...profile.scoring?.dimensionWeights,
+      },
+      tierBoundaries: { ...config.scoring.tierBoundaries, ...profile.scoring?.tierBoundaries },
+      conversation: mergeConversation(config.scoring.conversation, profile.scoring?.conversation),
+    },
+    tiers: mergeTiers(config.tiers, profile.tiers),
+    agenticTiers: config.agenticTiers
+      ? mergeTiers(config.agenticTiers, profile.agenticTiers)
+      : undefined,
+    overrides: { ...config.overrides, ...profile.overrides },
+    ranking: profile.ranking
+      ? {
+          ...ranking,
+          ...profile.ranking,
+          weights: { ...ranking.weights, ...profile.ranking.weights },
+        }
+      : config.ranking,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Conversation Context
+ *
+ * Summarizes the turns around the newest user message of an OpenAI-format
+ * request, for the rule-based classifier's conversation dimensions:
+ *
+ *   priorTurns       — earlier user/assistant text, most recent first
+ *   toolResultTokens — volume of tool / function results
+ *   toolCallCount    — tool calls the assistant has made
+ *   totalTokens      — size of the whole conversation (system prompt excluded)
+ */
+
+import type { ConversationContext } from "./types.js";
+
+type Message = { role?: unknown; content?: unknown; tool_calls?: unknown; function_call?: unknown };
+
+function textOf(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter(
+      (p: { type?: unknown; text?: unknown }) => p?.type === "text" && typeof p.text === "string",
+    )
+    .map((p: { text: string }) => p.text)
+    .join("\n");
+}
+
+/**
+ * Context of a chat completion's messages, or undefined for a single-turn request.
+ * The newest user message (the prompt being routed) is not part of priorTurns.
+ */
+export function buildConversationContext(messages: unknown): ConversationContext | undefined {
+  if (!Array.isArray(messages)) return undefined;
+  const turns = (messages as Message[]).filter(
+    (m) => m?.role !== "system" && m?.role !== "developer",
+  );
+  if (turns.length <= 1) return undefined;
+
+  let lastUser = -1;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].role === "user") {
+      lastUser = i;
+      break;
+    }
+  }
+
+  const priorTurns: string[] = [];
+  let toolResultTokens = 0;
+  let toolCallCount = 0;
+  let totalChars = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const m = turns[i];
+    const text = textOf(m.content);
+    totalChars += text.length;
+    if (m.role === "tool" || m.role === "function") {
+      toolResultTokens += Math.ceil(text.length / 4);
+      continue;
+    }
+    if (m.role === "assistant") {
+      if (Array.isArray(m.tool_calls)) {
+        toolCallCount += m.tool_calls.length;
+        totalChars += JSON.stringify(m.tool_calls).length;
+      }
+      if (m.function_call) toolCallCount++;
+    }
+    if (i !== lastUser && text && (m.role === "user" || m.role === "assistant")) {
+      priorTurns.push(text);
+    }
+  }
+
+  return {
+    priorTurns,
+    toolResultTokens,
+    toolCallCount,
+    totalTokens: Math.ceil(totalChars / 4),
+  };
+}
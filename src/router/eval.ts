@@ -0,0 +1,212 @@
+/**
+ * Offline Routing Evaluation
+ *
+ * Routes a labeled dataset of prompts (JSONL, one case per line) with the
+ * rules-based router and measures the result against the expected tiers:
+ *
+ *   confusion matrix     — expected tier × routed tier
+ *   precision / recall   — per tier
+ *   cost                 — estimated spend vs sending everything to BASELINE_MODEL
+ *
+ * Two reports over the same dataset can be diffed to see which cases a config
+ * change fixed or broke before it ships.
+ */
+
+import type { Tier } from "./types.js";
+import { explainRoute, type RouterOptions } from "./index.js";
+
+/** One labeled prompt */
+export type EvalCase = {
+  prompt: string;
+  /** Tier the prompt should route to */
+  tier: Tier;
+  systemPrompt?: string;
+  /** Output tokens to price the request with (default 1024) */
+  maxTokens?: number;
+};
+
+export type EvalCaseResult = {
+  case: EvalCase;
+  /** Tier the router picked */
+  tier: Tier;
+  model: string;
+  score: number;
+  confidence: number;
+  costEstimate: number;
+  baselineCost: number;
+};
+
+export type TierMetrics = {
+  /** Correct / all cases routed to this tier (0 when none were) */
+  precision: number;
+  /** Correct / all cases labeled with this tier (0 when none are) */
+  recall: number;
+  /** Cases labeled with this tier */
+  support: number;
+};
+
+export type EvalReport = {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** confusion[expected][routed] = number of cases */
+  confusion: Record<Tier, Record<Tier, number>>;
+  tiers: Record<Tier, TierMetrics>;
+  cost: { estimate: number; baseline: number; savings: number };
+  results: EvalCaseResult[];
+};
+
+/** A case routed differently by two configs */
+export type EvalChange = {
+  prompt: string;
+  expected: Tier;
+  before: Tier;
+  after: Tier;
+  /** fixed: now correct; regressed: was correct; shifted: wrong both times */
+  kind: "fixed" | "regressed" | "shifted";
+};
+
+export type EvalDiff = {
+  accuracyDelta: number;
+  costDelta: number;
+  fixed: number;
+  regressed: number;
+  changes: EvalChange[];
+};
+
+const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+function isTier(value: unknown): value is Tier {
+  return TIERS.includes(value as Tier);
+}
+
+/**
+ * Parse a JSONL dataset: {"prompt": "...", "tier": "COMPLEX"} per line, with
+ * optional "systemPrompt" and "maxTokens". Blank lines are skipped.
+ * Throws on the first malformed line, naming its line number.
+ */
+export function parseEvalDataset(text: string): EvalCase[] {
+  const cases: EvalCase[] = [];
+  const lines = text.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(line) as Record<string, unknown>;
+    } catch (err) {
+      throw new Error(`line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (typeof entry?.prompt !== "string" || !entry.prompt) {
+      throw new Error(`line ${i + 1}: "prompt" must be a non-empty string`);
+    }
+    const tier = typeof entry.tier === "string" ? entry.tier.toUpperCase() : entry.tier;
+    if (!isTier(tier)) {
+      throw new Error(`line ${i + 1}: "tier" must be one of ${TIERS.join(", ")}`);
+    }
+    cases.push({
+      prompt: entry.prompt,
+      tier,
+      systemPrompt: typeof entry.systemPrompt === "string" ? entry.systemPrompt : undefined,
+      maxTokens: typeof entry.maxTokens === "number" ? entry.maxTokens : undefined,
+    });
+  }
+  return cases;
+}
+
+/**
+ * Route every case as route() would — rules only, no provider calls — and score
+ * the routed tiers against the labels.
+ */
+export function evaluateRouting(cases: EvalCase[], options: RouterOptions): EvalReport {
+  const confusion = Object.fromEntries(
+    TIERS.map((expected) => [expected, Object.fromEntries(TIERS.map((t) => [t, 0]))]),
+  ) as Record<Tier, Record<Tier, number>>;
+
+  const results: EvalCaseResult[] = cases.map((c) => {
+    const { decision, scoring } = explainRoute(
+      c.prompt,
+      c.systemPrompt,
+      c.maxTokens ?? DEFAULT_MAX_TOKENS,
+      options,
+    );
+    confusion[c.tier][decision.tier]++;
+    return {
+      case: c,
+      tier: decision.tier,
+      model: decision.model,
+      score: scoring.score,
+      confidence: decision.confidence,
+      costEstimate: decision.costEstimate,
+      baselineCost: decision.baselineCost,
+    };
+  });
+
+  const tiers = Object.fromEntries(
+    TIERS.map((tier) => {
+      const correct = confusion[tier][tier];
+      const routed = TIERS.reduce((sum, expected) => sum + confusion[expected][tier], 0);
+      const support = TIERS.reduce((sum, t) => sum + confusion[tier][t], 0);
+      return [
+        tier,
+        {
+          precision: routed > 0 ? correct / routed : 0,
+          recall: support > 0 ? correct / support : 0,
+          support,
+        },
+      ];
+    }),
+  ) as Record<Tier, TierMetrics>;
+
+  const correct = results.filter((r) => r.tier === r.case.tier).length;
+  const estimate = results.reduce((sum, r) => sum + r.costEstimate, 0);
+  const baseline = results.reduce((sum, r) => sum + r.baselineCost, 0);
+  return {
+    total: results.length,
+    correct,
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    confusion,
+    tiers,
+    cost: {
+      estimate,
+      baseline,
+      savings: baseline > 0 ? Math.max(0, (baseline - estimate) / baseline) : 0,
+    },
+    results,
+  };
+}
+
+/**
+ * Compare two reports over the same dataset (e.g. the current config and a
+ * candidate), case by case.
+ */
+export function diffEvalReports(before: EvalReport, after: EvalReport): EvalDiff {
+  if (before.results.length !== after.results.length) {
+    throw new Error(
+      `Reports cover different datasets (${before.results.length} vs ${after.results.length} cases)`,
+    );
+  }
+  const changes: EvalChange[] = [];
+  for (let i = 0; i < before.results.length; i++) {
+    const a = before.results[i];
+    const b = after.results[i];
+    if (a.tier === b.tier) continue;
+    const expected = a.case.tier;
+    changes.push({
+      prompt: a.case.prompt,
+      expected,
+      before: a.tier,
+      after: b.tier,
+      kind: b.tier === expected ? "fixed" : a.tier === expected ? "regressed" : "shifted",
+    });
+  }
+  return {
+    accuracyDelta: after.accuracy - before.accuracy,
+    costDelta: after.cost.estimate - before.cost.estimate,
+    fixed: changes.filter((c) => c.kind === "fixed").length,
+    regressed: changes.filter((c) => c.kind === "regressed").length,
+    changes,
+  };
+}
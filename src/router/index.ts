@@ -3,26 +3,161 @@
  *
  * Classifies requests and routes to the cheapest capable model.
  * 100% local — rules-based scoring handles all requests in <1ms.
- * Ambiguous cases default to configurable tier (MEDIUM by default).
+ * Ambiguous cases default to configurable tier (MEDIUM by default), or —
+ * via routeAsync with classifier.llmEnabled — go to a cheap LLM classifier.
  */
 
-import type { Tier, RoutingDecision, RoutingConfig } from "./types.js";
-import { classifyByRules } from "./rules.js";
-import { selectModel, type ModelPricing } from "./selector.js";
+import type {
+  Tier,
+  RoutingDecision,
+  RoutingConfig,
+  TierConfig,
+  ModelHealth,
+  Capability,
+  ScoringResult,
+  ScoringConfig,
+  ConversationContext,
+  TierCorrection,
+} from "./types.js";
+import { classifyByRules, signalPattern } from "./rules.js";
+import { classifyByLLM, type PayFetch } from "./llm-classifier.js";
+import {
+  selectModel,
+  rankModels,
+  rankByCost,
+  rankingMode,
+  type ModelPricing,
+  type RequestTokens,
+} from "./selector.js";
+import { filterByCapabilities } from "./capabilities.js";
+import type { MatchedRule } from "./routing-rules.js";
+import { localTierConfigs, NoLocalModelError } from "./privacy.js";
 
 export type RouterOptions = {
   config: RoutingConfig;
   modelPricing: Map<string, ModelPricing>;
+  /** Highest tier the router may pick (e.g. when a soft budget limit is crossed) */
+  maxTier?: Tier;
+  /** Observed latency/error stats per model — enables ranking inside a tier */
+  modelHealth?: (modelId: string) => ModelHealth | undefined;
+  /** Features the request needs (see detectCapabilities) */
+  requiredCapabilities?: Capability[];
+  /** What a model supports, or undefined for unknown models (assumed capable) */
+  modelCapabilities?: (modelId: string) => Capability[] | undefined;
+  /** Whether a model can be called (e.g. has an API key) — unavailable models are skipped */
+  modelAvailable?: (modelId: string) => boolean;
+  /** Context window per model ID, for cheapest-capable ranking */
+  modelContextWindow?: (modelId: string) => number | undefined;
+  /** This request's token counts, for cheapest-capable ranking (default: estimated from the prompt) */
+  requestTokens?: RequestTokens;
+  /** Earlier turns and tool activity (see buildConversationContext) — scored alongside the prompt */
+  conversation?: ConversationContext;
+  /** Learned correction for a signal pattern (e.g. from FeedbackStore) — moves the tier up */
+  tierCorrection?: (pattern: string) => TierCorrection | undefined;
+  /** Routing rule that matched the request (see matchRoutingRule) — applied ahead of the classifier */
+  rule?: MatchedRule;
+  /** Whether a model is self-hosted — the only models a private request may use */
+  modelLocal?: (modelId: string) => boolean;
+  /** Why this request must stay on local models (see compilePrivacyCheck); unset for ordinary requests */
+  private?: string;
 };
 
+export const TIER_RANK: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
+
+const TIERS = (Object.keys(TIER_RANK) as Tier[]).sort((a, b) => TIER_RANK[a] - TIER_RANK[b]);
+
+/**
+ * Reorder a tier's fallback chain by the configured ranking: estimated cost for
+ * this request in cheapest mode, otherwise the cost/latency/reliability score.
+ */
+export function rankFallbackChain(models: string[], tier: Tier, options: RouterOptions): string[] {
+  const { ranking } = options.config;
+  if (rankingMode(ranking) === "cheapest" && options.requestTokens) {
+    return rankByCost(
+      models,
+      options.modelPricing,
+      options.requestTokens,
+      options.modelContextWindow,
+    );
+  }
+  return rankModels(models, tier, ranking, options.modelPricing, options.modelHealth);
+}
+
+/**
+ * Build the chain for the chosen tier: drop models lacking a required capability
+ * (moving to the nearest tier that has a capable model if none are left), skip
+ * unavailable ones, then rank it. Returns the tier actually used and the reasoning suffix.
+ */
+function resolveTier(
+  tier: Tier,
+  tierConfigs: Record<Tier, TierConfig>,
+  options: RouterOptions,
+): { tier: Tier; tierConfigs: Record<Tier, TierConfig>; note: string } {
+  const { requiredCapabilities: required, modelCapabilities, maxTier } = options;
+  const chainOf = (t: Tier) => [tierConfigs[t].primary, ...tierConfigs[t].fallback];
+  const capableIn = (t: Tier) => filterByCapabilities(chainOf(t), required, modelCapabilities);
+
+  let chosen = tier;
+  let chain = chainOf(tier);
+  let note = "";
+  if (required?.length) {
+    const needs = `needs ${required.join(", ")}`;
+    const filtered = capableIn(tier);
+    if (filtered.models.length > 0) {
+      chain = filtered.models;
+      if (filtered.dropped.length > 0)
+        note += ` | ${needs}: dropped ${filtered.dropped.join(", ")}`;
+    } else {
+      // Nearest tier above (within the budget cap first), then below
+      const withinCap = (t: Tier) => !maxTier || TIER_RANK[t] <= TIER_RANK[maxTier];
+      const above = TIERS.filter((t) => TIER_RANK[t] > TIER_RANK[tier]);
+      const below = TIERS.filter((t) => TIER_RANK[t] < TIER_RANK[tier]).reverse();
+      const candidates = [
+        ...above.filter(withinCap),
+        ...below,
+        ...above.filter((t) => !withinCap(t)),
+      ];
+      const alternative = candidates.find((t) => capableIn(t).models.length > 0);
+      if (alternative) {
+        chosen = alternative;
+        chain = capableIn(alternative).models;
+        note += ` | ${needs}: no capable model in ${tier}, moved to ${alternative}`;
+      } else {
+        note += ` | ${needs}: no capable model configured`;
+      }
+    }
+  }
+
+  if (options.modelAvailable) {
+    const available = chain.filter(options.modelAvailable);
+    if (available.length > 0) chain = available;
+  }
+
+  const ranked = rankFallbackChain(chain, chosen, options);
+  const label = rankingMode(options.config.ranking) === "cheapest" ? "cheapest" : "ranked";
+  if (ranked[0] !== chain[0]) note += ` | ${label}: ${ranked[0]} over ${chain[0]}`;
+  return {
+    tier: chosen,
+    tierConfigs: { ...tierConfigs, [chosen]: { primary: ranked[0], fallback: ranked.slice(1) } },
+    note,
+  };
+}
+
 /**
  * Route a request to the cheapest capable model.
  *
- * 1. Check overrides (large context, structured output)
- * 2. Run rule-based classifier (14 weighted dimensions, <1ms)
- * 3. If ambiguous, default to configurable tier (no external API calls)
- * 4. Select model for tier
- * 5. Return RoutingDecision with metadata
+ * 1. Apply the matched routing rule: forced model or tier, excluded providers
+ * 2. Check overrides (large context, structured output)
+ * 3. Run rule-based classifier (14 weighted dimensions + conversation context, <1ms)
+ * 4. If ambiguous, default to configurable tier (no external API calls — see routeAsync)
+ * 5. Apply the learned correction for the prompt's signal pattern, if any
+ * 6. Raise to the rule's or structured output's minimum tier, then cap at maxTier, if set
+ * 7. Drop models lacking a required capability (vision, tools, ...), moving tier if needed
+ * 8. Select model for tier (ranked by cost/latency/reliability, if enabled)
+ * 9. Return RoutingDecision with metadata
+ *
+ * Private requests (options.private) only see reachable local models, taken
+ * from the nearest tier that has some; throws when there are none.
  */
 export function route(
   prompt: string,
@@ -30,7 +165,162 @@ export function route(
   maxOutputTokens: number,
   options: RouterOptions,
 ): RoutingDecision {
-  const { config, modelPricing } = options;
+  const ruleResult = classifyPrompt(prompt, systemPrompt, options);
+  return decide(prompt, systemPrompt, maxOutputTokens, options, ruleResult);
+}
+
+/** Tier boundary on the weighted score axis (see ScoringConfig.tierBoundaries) */
+export type TierBoundary = {
+  name: keyof ScoringConfig["tierBoundaries"];
+  value: number;
+};
+
+export type RouteExplanation = {
+  decision: RoutingDecision;
+  /** Rule-based scoring, with every dimension's score and weight */
+  scoring: ScoringResult;
+  /** Boundaries the score fell between (absent at either end of the scale) */
+  boundaries: { lower?: TierBoundary; upper?: TierBoundary };
+  /** Whether the agentic tier configs were used */
+  agentic: boolean;
+};
+
+/**
+ * route() plus what's behind the decision: each scoring dimension, the tier
+ * boundaries the score fell between and whether agentic tiers were used.
+ * Rules only — the LLM classifier is never called.
+ */
+export function explainRoute(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: RouterOptions,
+): RouteExplanation {
+  const scoring = classifyPrompt(prompt, systemPrompt, options);
+  const decision = decide(prompt, systemPrompt, maxOutputTokens, options, scoring);
+
+  const bounds = (
+    Object.entries(options.config.scoring.tierBoundaries) as [TierBoundary["name"], number][]
+  )
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => a.value - b.value);
+  return {
+    decision,
+    scoring,
+    boundaries: {
+      lower: bounds.filter((b) => b.value <= scoring.score).pop(),
+      upper: bounds.find((b) => b.value > scoring.score),
+    },
+    agentic: agenticTiersFor(scoring, options.config).use,
+  };
+}
+
+function classifyPrompt(
+  prompt: string,
+  systemPrompt: string | undefined,
+  options: RouterOptions,
+): ScoringResult {
+  // Pass user-only tokens so scoreTokenCount reflects actual request complexity
+  return classifyByRules(
+    prompt,
+    systemPrompt,
+    Math.ceil(prompt.length / 4),
+    options.config.scoring,
+    options.conversation,
+  );
+}
+
+/**
+ * Determine if agentic tiers should be used:
+ * 1. Explicit agenticMode config OR
+ * 2. Auto-detected agentic task (agenticScore >= 0.75)
+ */
+function agenticTiersFor(
+  ruleResult: ScoringResult,
+  config: RoutingConfig,
+): { auto: boolean; explicit: boolean; use: boolean } {
+  const auto = (ruleResult.agenticScore ?? 0) >= 0.75;
+  const explicit = config.overrides.agenticMode ?? false;
+  return { auto, explicit, use: (auto || explicit) && config.agenticTiers != null };
+}
+
+/**
+ * Like route(), but when the rules find the prompt ambiguous and
+ * classifier.llmEnabled is set, asks the classifier model for the tier
+ * (bounded by classifier.llmTimeoutMs, results cached). Falls back to
+ * ambiguousDefaultTier if the classifier fails or times out.
+ *
+ * @param llmFetch - Sends the classifier's chat completion request
+ * @param apiBase - Base URL passed to llmFetch
+ */
+export async function routeAsync(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: RouterOptions,
+  llmFetch: PayFetch,
+  apiBase = "",
+): Promise<RoutingDecision> {
+  const { config } = options;
+  const estimatedUserTokens = Math.ceil(prompt.length / 4);
+  const ruleResult = classifyPrompt(prompt, systemPrompt, options);
+
+  // Large inputs are forced to COMPLEX anyway — don't pay for a classification.
+  // A private prompt only goes to a local classifier model.
+  const needsLLM =
+    ruleResult.tier === null &&
+    !options.rule?.action.tier &&
+    !options.rule?.action.model &&
+    config.classifier.llmEnabled &&
+    estimatedUserTokens <= config.overrides.maxTokensForceComplex &&
+    (!options.private || (options.modelLocal?.(config.classifier.llmModel) ?? false));
+  if (!needsLLM) return decide(prompt, systemPrompt, maxOutputTokens, options, ruleResult);
+
+  const llmResult = await classifyByLLM(
+    prompt,
+    {
+      model: config.classifier.llmModel,
+      maxTokens: config.classifier.llmMaxTokens,
+      temperature: config.classifier.llmTemperature,
+      truncationChars: config.classifier.promptTruncationChars,
+      cacheTtlMs: config.classifier.cacheTtlMs,
+      timeoutMs: config.classifier.llmTimeoutMs,
+    },
+    llmFetch,
+    apiBase,
+  );
+  return decide(prompt, systemPrompt, maxOutputTokens, options, ruleResult, llmResult);
+}
+
+/**
+ * Turn a classification into a routing decision.
+ * llmResult: undefined when the LLM classifier wasn't asked, null when it failed.
+ */
+function decide(
+  prompt: string,
+  systemPrompt: string | undefined,
+  maxOutputTokens: number,
+  options: RouterOptions,
+  ruleResult: ScoringResult,
+  llmResult?: { tier: Tier; confidence: number } | null,
+): RoutingDecision {
+  const { config, modelPricing, maxTier, rule } = options;
+  const isLocal = (m: string) => options.modelLocal?.(m) ?? false;
+  // A rule can't force a cloud model onto a private request — it routes among local models instead
+  const forcedModel =
+    rule?.action.model && (!options.private || isLocal(rule.action.model))
+      ? rule.action.model
+      : undefined;
+  const withRule = (decision: RoutingDecision): RoutingDecision => {
+    const annotated = rule ? { ...decision, rule: rule.name } : decision;
+    if (!options.private) return annotated;
+    const skipped = rule?.action.model && !forcedModel ? `, skipped ${rule.action.model}` : "";
+    return {
+      ...annotated,
+      private: options.private,
+      reasoning: `${annotated.reasoning} | private (${options.private})${skipped}`,
+    };
+  };
 
   // Estimate input tokens (~4 chars per token)
   const fullText = `${systemPrompt ?? ""} ${prompt}`;
@@ -38,32 +328,89 @@ export function route(
   // User-only tokens — system prompt (tool defs, instructions) doesn't make
   // the task more complex and shouldn't inflate scoring or force overrides
   const estimatedUserTokens = Math.ceil(prompt.length / 4);
+  // Cheapest-capable ranking prices the whole request when the caller knows its size
+  const excluded = rule?.action.excludeProviders ?? [];
+  const tierOptions: RouterOptions = {
+    ...options,
+    requestTokens: options.requestTokens ?? {
+      input: estimatedTokens,
+      cached: 0,
+      output: maxOutputTokens,
+    },
+    modelAvailable:
+      excluded.length > 0
+        ? (m) => !excluded.includes(m.split("/")[0]) && (options.modelAvailable?.(m) ?? true)
+        : options.modelAvailable,
+  };
 
-  // --- Rule-based classification (runs first to get agenticScore) ---
-  // Pass user-only tokens so scoreTokenCount reflects actual request complexity
-  const ruleResult = classifyByRules(prompt, systemPrompt, estimatedUserTokens, config.scoring);
+  const agentic = agenticTiersFor(ruleResult, config);
+  const isAutoAgentic = agentic.auto;
+  const isExplicitAgentic = agentic.explicit;
+  const useAgenticTiers = agentic.use;
+  let tierConfigs = useAgenticTiers ? config.agenticTiers! : config.tiers;
 
-  // Determine if agentic tiers should be used:
-  // 1. Explicit agenticMode config OR
-  // 2. Auto-detected agentic task (agenticScore >= 0.75)
-  const agenticScore = ruleResult.agenticScore ?? 0;
-  const isAutoAgentic = agenticScore >= 0.75;
-  const isExplicitAgentic = config.overrides.agenticMode ?? false;
-  const useAgenticTiers = (isAutoAgentic || isExplicitAgentic) && config.agenticTiers != null;
-  const tierConfigs = useAgenticTiers ? config.agenticTiers! : config.tiers;
+  // --- Private: reachable local models only, never a cloud fallback ---
+  if (options.private) {
+    const local = localTierConfigs(
+      tierConfigs,
+      (m) => isLocal(m) && (tierOptions.modelAvailable?.(m) ?? true),
+    );
+    if (!local) {
+      throw new NoLocalModelError(options.private);
+    }
+    tierConfigs = local;
+  }
+
+  // --- Routing rule: a forced model or tier skips classification ---
+  // A forced model is sent as asked, like an explicit one — the budget's maxTier doesn't cap it
+  if (rule && forcedModel) {
+    const tier = rule.action.tier ?? ruleResult.tier ?? config.overrides.ambiguousDefaultTier;
+    return withRule(
+      selectModel(
+        tier,
+        1,
+        "rules",
+        `rule ${rule.name}: model ${forcedModel}`,
+        { ...tierConfigs, [tier]: { primary: forcedModel, fallback: [] } },
+        modelPricing,
+        estimatedTokens,
+        maxOutputTokens,
+      ),
+    );
+  }
+  if (rule?.action.tier) {
+    const capped = maxTier && TIER_RANK[rule.action.tier] > TIER_RANK[maxTier];
+    const resolved = resolveTier(capped ? maxTier : rule.action.tier, tierConfigs, tierOptions);
+    return withRule(
+      selectModel(
+        resolved.tier,
+        1,
+        "rules",
+        `rule ${rule.name}: tier ${rule.action.tier}${useAgenticTiers ? " | agentic" : ""}${capped ? ` | capped at ${maxTier} (budget)` : ""}${resolved.note}`,
+        resolved.tierConfigs,
+        modelPricing,
+        estimatedTokens,
+        maxOutputTokens,
+      ),
+    );
+  }
 
   // --- Override: large context → force COMPLEX ---
   // Uses user-only tokens — system prompt tool definitions shouldn't force COMPLEX
   if (estimatedUserTokens > config.overrides.maxTokensForceComplex) {
-    return selectModel(
-      "COMPLEX",
-      0.95,
-      "rules",
-      `Input exceeds ${config.overrides.maxTokensForceComplex} tokens${useAgenticTiers ? " | agentic" : ""}`,
-      tierConfigs,
-      modelPricing,
-      estimatedTokens,
-      maxOutputTokens,
+    const capped = maxTier && TIER_RANK[maxTier] < TIER_RANK.COMPLEX;
+    const resolved = resolveTier(capped ? maxTier : "COMPLEX", tierConfigs, tierOptions);
+    return withRule(
+      selectModel(
+        resolved.tier,
+        0.95,
+        "rules",
+        `Input exceeds ${config.overrides.maxTokensForceComplex} tokens${useAgenticTiers ? " | agentic" : ""}${capped ? ` | capped at ${maxTier} (budget)` : ""}${resolved.note}`,
+        resolved.tierConfigs,
+        modelPricing,
+        estimatedTokens,
+        maxOutputTokens,
+      ),
     );
   }
 
@@ -72,29 +419,53 @@ export function route(
 
   let tier: Tier;
   let confidence: number;
-  const method: "rules" | "llm" = "rules";
+  let method: "rules" | "llm" = "rules";
   let reasoning = `score=${ruleResult.score.toFixed(2)} | ${ruleResult.signals.join(", ")}`;
 
   if (ruleResult.tier !== null) {
     tier = ruleResult.tier;
     confidence = ruleResult.confidence;
+  } else if (llmResult) {
+    tier = llmResult.tier;
+    confidence = llmResult.confidence;
+    method = "llm";
+    reasoning += ` | ambiguous -> llm: ${tier}`;
   } else {
-    // Ambiguous — default to configurable tier (no external API call)
+    // Ambiguous — default to configurable tier
     tier = config.overrides.ambiguousDefaultTier;
     confidence = 0.5;
-    reasoning += ` | ambiguous -> default: ${tier}`;
+    reasoning += ` | ambiguous -> default: ${tier}${llmResult === null ? " (llm classifier failed)" : ""}`;
+  }
+
+  // Learned from how earlier prompts with the same signals went (retries, overrides, ...)
+  const pattern = signalPattern(ruleResult);
+  const correction = options.tierCorrection?.(pattern);
+  if (correction && correction.tiers > 0 && tier !== "REASONING") {
+    const corrected = TIERS[Math.min(TIER_RANK[tier] + correction.tiers, TIERS.length - 1)];
+    reasoning += ` | feedback: ${tier} -> ${corrected} (${correction.reason})`;
+    tier = corrected;
   }
 
-  // Apply structured output minimum tier
+  // Rule minimum, then structured output minimum
+  const minTier = rule?.action.minTier;
+  if (minTier && TIER_RANK[tier] < TIER_RANK[minTier]) {
+    reasoning += ` | rule ${rule.name}: raised to ${minTier}`;
+    tier = minTier;
+  }
   if (hasStructuredOutput) {
-    const tierRank: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
     const minTier = config.overrides.structuredOutputMinTier;
-    if (tierRank[tier] < tierRank[minTier]) {
+    if (TIER_RANK[tier] < TIER_RANK[minTier]) {
       reasoning += ` | upgraded to ${minTier} (structured output)`;
       tier = minTier;
     }
   }
 
+  // Budget cap wins over every upgrade above
+  if (maxTier && TIER_RANK[tier] > TIER_RANK[maxTier]) {
+    reasoning += ` | capped at ${maxTier} (budget)`;
+    tier = maxTier;
+  }
+
   // Add agentic mode indicator to reasoning
   if (isAutoAgentic) {
     reasoning += " | auto-agentic";
@@ -102,19 +473,81 @@ export function route(
     reasoning += " | agentic";
   }
 
-  return selectModel(
-    tier,
+  if (excluded.length > 0) reasoning += ` | rule ${rule!.name}: excluding ${excluded.join(", ")}`;
+
+  const resolved = resolveTier(tier, tierConfigs, tierOptions);
+  reasoning += resolved.note;
+
+  const decision = selectModel(
+    resolved.tier,
     confidence,
     method,
     reasoning,
-    tierConfigs,
+    resolved.tierConfigs,
     modelPricing,
     estimatedTokens,
     maxOutputTokens,
   );
+  return withRule({ ...decision, pattern });
 }
 
-export { getFallbackChain, getFallbackChainFiltered } from "./selector.js";
-export { DEFAULT_ROUTING_CONFIG } from "./config.js";
-export type { RoutingDecision, Tier, RoutingConfig } from "./types.js";
-export type { ModelPricing } from "./selector.js";
+export {
+  getFallbackChain,
+  getFallbackChainFiltered,
+  rankModels,
+  rankByCost,
+  rankingMode,
+  estimateRequestCost,
+  BASELINE_MODEL,
+} from "./selector.js";
+export { DEFAULT_ROUTING_CONFIG, mergeRoutingConfig, applyProfile, findProfile } from "./config.js";
+export { detectCapabilities, filterByCapabilities } from "./capabilities.js";
+export { buildConversationContext } from "./conversation.js";
+export { signalPattern } from "./rules.js";
+export { compileRoutingRules, matchRoutingRule } from "./routing-rules.js";
+export { compilePrivacyCheck, localTierConfigs, NoLocalModelError } from "./privacy.js";
+export type { PrivacyCheck } from "./privacy.js";
+export type { RuleContext, MatchedRule, CompiledRule } from "./routing-rules.js";
+export {
+  ROUTING_CONFIG_SCHEMA,
+  validateRoutingConfig,
+  validateSchema,
+  formatConfigIssues,
+} from "./schema.js";
+export type { JsonSchema, ConfigIssue, ConfigValidation } from "./schema.js";
+export { parseEvalDataset, evaluateRouting, diffEvalReports } from "./eval.js";
+export { optimizeScoring } from "./optimizer.js";
+export type {
+  RoutingDecision,
+  Tier,
+  RoutingConfig,
+  ModelHealth,
+  RankingConfig,
+  RankingWeights,
+  Capability,
+  ConversationContext,
+  ScoringResult,
+  DimensionDetail,
+  TierCorrection,
+  RoutingProfile,
+  RoutingRule,
+  RuleMatch,
+  RuleAction,
+  PrivacyConfig,
+} from "./types.js";
+export type { ModelPricing, RequestTokens } from "./selector.js";
+export type { PayFetch } from "./llm-classifier.js";
+export type {
+  EvalCase,
+  EvalCaseResult,
+  EvalReport,
+  EvalChange,
+  EvalDiff,
+  TierMetrics,
+} from "./eval.js";
+export type {
+  OptimizerOptions,
+  OptimizeResult,
+  OptimizerScore,
+  ScoringOverride,
+} from "./optimizer.js";
@@ -30,20 +30,22 @@ export type LLMClassifierConfig = {
   temperature: number;
   truncationChars: number;
   cacheTtlMs: number;
+  /** Give up (and let the caller fall back) after this long */
+  timeoutMs: number;
 };
 
-type PayFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+export type PayFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 
 /**
  * Classify a prompt using a cheap LLM.
- * Returns tier and confidence. Defaults to MEDIUM on any failure.
+ * Returns tier and confidence, or null on any failure (error, timeout, unparseable reply).
  */
 export async function classifyByLLM(
   prompt: string,
   config: LLMClassifierConfig,
   payFetch: PayFetch,
   apiBase: string,
-): Promise<{ tier: Tier; confidence: number }> {
+): Promise<{ tier: Tier; confidence: number } | null> {
   const truncated = prompt.slice(0, config.truncationChars);
 
   // Check cache
@@ -67,10 +69,11 @@ export async function classifyByLLM(
         temperature: config.temperature,
         stream: false,
       }),
+      signal: AbortSignal.timeout(config.timeoutMs),
     });
 
     if (!response.ok) {
-      return { tier: "MEDIUM", confidence: 0.5 };
+      return null;
     }
 
     const data = (await response.json()) as {
@@ -79,6 +82,7 @@ export async function classifyByLLM(
 
     const content = data.choices?.[0]?.message?.content?.trim().toUpperCase() ?? "";
     const tier = parseTier(content);
+    if (!tier) return null;
 
     // Cache result
     cache.set(cacheKey, { tier, expires: Date.now() + config.cacheTtlMs });
@@ -90,20 +94,20 @@ export async function classifyByLLM(
 
     return { tier, confidence: 0.75 };
   } catch {
-    // Any error → safe default
-    return { tier: "MEDIUM", confidence: 0.5 };
+    // Any error (including the timeout) → caller's default
+    return null;
   }
 }
 
 /**
  * Parse tier from LLM response. Handles "SIMPLE", "The query is SIMPLE", etc.
  */
-function parseTier(text: string): Tier {
+function parseTier(text: string): Tier | null {
   if (/\bREASONING\b/.test(text)) return "REASONING";
   if (/\bCOMPLEX\b/.test(text)) return "COMPLEX";
   if (/\bMEDIUM\b/.test(text)) return "MEDIUM";
   if (/\bSIMPLE\b/.test(text)) return "SIMPLE";
-  return "MEDIUM"; // safe default
+  return null;
 }
 
 function simpleHash(str: string): string {
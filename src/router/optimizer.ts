@@ -0,0 +1,281 @@
+/**
+ * Scoring Optimizer
+ *
+ * Searches dimensionWeights, tierBoundaries, confidenceSteepness and
+ * confidenceThreshold for the values that best reproduce the tiers of a
+ * labeled dataset (see eval.ts for the format).
+ *
+ * Dimension scores don't depend on these parameters, so every case is scored
+ * once and each candidate only re-weights and re-maps the stored scores.
+ * The search is a seeded hill climb from the current config: the same dataset,
+ * config and seed always give the same result. The walk moves across equal-loss
+ * plateaus; of the equally good configs it visits, the one closest to the
+ * starting config wins, so parameters only change where the data asks for it.
+ *
+ * Loss per case is 0 when the tier matches, otherwise the tier distance times
+ * underRoutingPenalty (routed too low — quality suffers) or overRoutingPenalty
+ * (routed too high — money is wasted).
+ */
+
+import type { RoutingConfig, ScoringConfig, Tier } from "./types.js";
+import { classifyByRules, hasReasoningOverride, tierForScore } from "./rules.js";
+import type { EvalCase } from "./eval.js";
+
+export type OptimizerOptions = {
+  /** Candidate configs to try (default 3000) */
+  iterations?: number;
+  /** PRNG seed (default 1) */
+  seed?: number;
+  /** Loss per tier a case is routed below its label (default 2) */
+  underRoutingPenalty?: number;
+  /** Loss per tier a case is routed above its label (default 1) */
+  overRoutingPenalty?: number;
+};
+
+/** The part of ScoringConfig the optimizer tunes — usable as a routing.scoring override */
+export type ScoringOverride = Pick<
+  ScoringConfig,
+  "dimensionWeights" | "tierBoundaries" | "confidenceSteepness" | "confidenceThreshold"
+>;
+
+export type OptimizerScore = {
+  /** Mean penalty per case */
+  loss: number;
+  accuracy: number;
+};
+
+export type OptimizeResult = {
+  scoring: ScoringOverride;
+  before: OptimizerScore;
+  after: OptimizerScore;
+  iterations: number;
+};
+
+const TIER_INDEX: Record<Tier, number> = { SIMPLE: 0, MEDIUM: 1, COMPLEX: 2, REASONING: 3 };
+
+const LIMITS = {
+  weight: { min: 0, max: 1, step: 0.05 },
+  boundary: { min: -1, max: 1, step: 0.05 },
+  steepness: { min: 1, max: 50, step: 3 },
+  threshold: { min: 0.5, max: 0.99, step: 0.05 },
+};
+
+type ScoredCase = {
+  expected: number;
+  /** Dimension scores, by dimension name */
+  dimensions: Array<[string, number]>;
+  /** 2+ reasoning markers: REASONING regardless of weights */
+  reasoningOverride: boolean;
+};
+
+/** mulberry32 — small, fast, seedable */
+function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const clamp = (value: number, limits: { min: number; max: number }) =>
+  Math.min(limits.max, Math.max(limits.min, value));
+
+const round = (value: number, places: number) => {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+};
+
+function scoreCases(cases: EvalCase[], scoring: ScoringConfig): ScoredCase[] {
+  return cases.map((c) => {
+    const result = classifyByRules(
+      c.prompt,
+      c.systemPrompt,
+      Math.ceil(c.prompt.length / 4),
+      scoring,
+    );
+    return {
+      expected: TIER_INDEX[c.tier],
+      dimensions: (result.dimensions ?? []).map((d) => [d.name, d.score]),
+      reasoningOverride: hasReasoningOverride(c.prompt, scoring),
+    };
+  });
+}
+
+function evaluate(
+  scored: ScoredCase[],
+  candidate: ScoringOverride,
+  ambiguousDefault: Tier,
+  under: number,
+  over: number,
+): OptimizerScore {
+  let loss = 0;
+  let correct = 0;
+  for (const c of scored) {
+    let routed = TIER_INDEX.REASONING;
+    if (!c.reasoningOverride) {
+      let score = 0;
+      for (const [name, value] of c.dimensions) {
+        score += value * (candidate.dimensionWeights[name] ?? 0);
+      }
+      routed = TIER_INDEX[tierForScore(score, candidate).tier ?? ambiguousDefault];
+    }
+    const delta = routed - c.expected;
+    if (delta === 0) correct++;
+    else loss += delta < 0 ? -delta * under : delta * over;
+  }
+  const n = Math.max(scored.length, 1);
+  return { loss: loss / n, accuracy: scored.length > 0 ? correct / n : 0 };
+}
+
+/** How far a candidate has moved from the starting config, in search steps */
+function distance(a: ScoringOverride, b: ScoringOverride): number {
+  let d = 0;
+  const names = new Set([...Object.keys(a.dimensionWeights), ...Object.keys(b.dimensionWeights)]);
+  for (const name of names) {
+    d += Math.abs((a.dimensionWeights[name] ?? 0) - (b.dimensionWeights[name] ?? 0));
+  }
+  d /= LIMITS.weight.step;
+  for (const key of Object.keys(a.tierBoundaries) as Array<
+    keyof ScoringOverride["tierBoundaries"]
+  >) {
+    d += Math.abs(a.tierBoundaries[key] - b.tierBoundaries[key]) / LIMITS.boundary.step;
+  }
+  d += Math.abs(a.confidenceSteepness - b.confidenceSteepness) / LIMITS.steepness.step;
+  d += Math.abs(a.confidenceThreshold - b.confidenceThreshold) / LIMITS.threshold.step;
+  return d;
+}
+
+/** Copy of the candidate with one randomly chosen parameter nudged */
+function mutate(
+  current: ScoringOverride,
+  weightNames: string[],
+  rng: () => number,
+): ScoringOverride {
+  const next: ScoringOverride = {
+    ...current,
+    dimensionWeights: { ...current.dimensionWeights },
+    tierBoundaries: { ...current.tierBoundaries },
+  };
+  const nudge = (step: number) => (rng() * 2 - 1) * step;
+  const boundaries = Object.keys(next.tierBoundaries) as Array<
+    keyof ScoringOverride["tierBoundaries"]
+  >;
+  const pick = Math.floor(rng() * (weightNames.length + boundaries.length + 2));
+
+  if (pick < weightNames.length) {
+    const name = weightNames[pick];
+    next.dimensionWeights[name] = clamp(
+      (next.dimensionWeights[name] ?? 0) + nudge(LIMITS.weight.step),
+      LIMITS.weight,
+    );
+  } else if (pick < weightNames.length + boundaries.length) {
+    const name = boundaries[pick - weightNames.length];
+    next.tierBoundaries[name] = clamp(
+      next.tierBoundaries[name] + nudge(LIMITS.boundary.step),
+      LIMITS.boundary,
+    );
+  } else if (pick === weightNames.length + boundaries.length) {
+    next.confidenceSteepness = clamp(
+      next.confidenceSteepness + nudge(LIMITS.steepness.step),
+      LIMITS.steepness,
+    );
+  } else {
+    next.confidenceThreshold = clamp(
+      next.confidenceThreshold + nudge(LIMITS.threshold.step),
+      LIMITS.threshold,
+    );
+  }
+  return next;
+}
+
+const ordered = ({
+  simpleMedium,
+  mediumComplex,
+  complexReasoning,
+}: ScoringOverride["tierBoundaries"]) =>
+  simpleMedium < mediumComplex && mediumComplex < complexReasoning;
+
+function rounded(candidate: ScoringOverride): ScoringOverride {
+  return {
+    dimensionWeights: Object.fromEntries(
+      Object.entries(candidate.dimensionWeights).map(([name, w]) => [name, round(w, 3)]),
+    ),
+    tierBoundaries: {
+      simpleMedium: round(candidate.tierBoundaries.simpleMedium, 3),
+      mediumComplex: round(candidate.tierBoundaries.mediumComplex, 3),
+      complexReasoning: round(candidate.tierBoundaries.complexReasoning, 3),
+    },
+    confidenceSteepness: round(candidate.confidenceSteepness, 2),
+    confidenceThreshold: round(candidate.confidenceThreshold, 3),
+  };
+}
+
+/**
+ * Tune the scoring parameters of `config` against labeled cases.
+ * Never returns parameters that score worse than the starting ones.
+ */
+export function optimizeScoring(
+  cases: EvalCase[],
+  config: RoutingConfig,
+  options: OptimizerOptions = {},
+): OptimizeResult {
+  const iterations = options.iterations ?? 3000;
+  const under = options.underRoutingPenalty ?? 2;
+  const over = options.overRoutingPenalty ?? 1;
+  const ambiguousDefault = config.overrides.ambiguousDefaultTier;
+  const rng = createRng(options.seed ?? 1);
+
+  const scored = scoreCases(cases, config.scoring);
+  // Only dimensions the dataset exercises — the rest keep their weights
+  const weightNames = [
+    ...new Set(
+      scored.flatMap((c) => c.dimensions.filter(([, value]) => value !== 0).map(([name]) => name)),
+    ),
+  ].sort();
+
+  const start: ScoringOverride = {
+    dimensionWeights: { ...config.scoring.dimensionWeights },
+    tierBoundaries: { ...config.scoring.tierBoundaries },
+    confidenceSteepness: config.scoring.confidenceSteepness,
+    confidenceThreshold: config.scoring.confidenceThreshold,
+  };
+  const before = evaluate(scored, start, ambiguousDefault, under, over);
+
+  let current = start;
+  let currentLoss = before.loss;
+  let best = { scoring: start, score: before, distance: 0 };
+  const consider = (scoring: ScoringOverride, score: OptimizerScore) => {
+    const d = distance(scoring, start);
+    if (score.loss < best.score.loss || (score.loss === best.score.loss && d < best.distance)) {
+      best = { scoring, score, distance: d };
+    }
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    const candidate = mutate(current, weightNames, rng);
+    if (!ordered(candidate.tierBoundaries)) continue;
+    const score = evaluate(scored, candidate, ambiguousDefault, under, over);
+    if (score.loss > currentLoss) continue;
+    current = candidate;
+    currentLoss = score.loss;
+    consider(candidate, score);
+  }
+
+  // Round for a readable override, unless rounding costs accuracy
+  let { scoring, score: after } = best;
+  const tidy = rounded(scoring);
+  const tidyScore = evaluate(scored, tidy, ambiguousDefault, under, over);
+  if (ordered(tidy.tierBoundaries) && tidyScore.loss <= after.loss) {
+    scoring = tidy;
+    after = tidyScore;
+  }
+  return {
+    scoring,
+    before: { loss: before.loss, accuracy: before.accuracy },
+    after: { loss: after.loss, accuracy: after.accuracy },
+    iterations,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Private Routing
+ *
+ * Some requests must never reach a cloud provider. A request is private when
+ * it carries the x-clawrouter-private header or its messages match
+ * RoutingConfig.privacy:
+ *
+ *   secrets  — built-in detectors: cloud and VCS tokens, private keys, passwords
+ *   patterns — named regexes (SSNs, customer IDs, internal hostnames, …)
+ *   paths    — file paths inside the listed directories
+ *
+ * Private requests are routed among models declared `local: true` only, and
+ * fail closed when none of them is reachable.
+ */
+
+import type { RoutingConfig, Tier, TierConfig } from "./types.js";
+
+/** Why text is sensitive ("secret: AWS access key", "pattern: ssn", "path: /srv/acme"), or undefined */
+export type PrivacyCheck = (text: string) => string | undefined;
+
+const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+/** Thrown by the router when a private request has no reachable local model */
+export class NoLocalModelError extends Error {
+  constructor(reason: string) {
+    super(`No local model available for a private request (${reason})`);
+    this.name = "NoLocalModelError";
+  }
+}
+
+const SECRET_PATTERNS: Record<string, RegExp> = {
+  "AWS access key": /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  "private key": /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+  "GitHub token": /\bgh[pousr]_[A-Za-z0-9]{36,}/,
+  "Slack token": /\bxox[abprs]-[A-Za-z0-9-]{10,}/,
+  "Google API key": /\bAIza[0-9A-Za-z_-]{35}/,
+  "API key": /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/,
+  JWT: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/,
+  password:
+    /(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token)["']?\s*[:=]\s*["']?[^\s"',;]{8,}/i,
+};
+
+/** The directory itself or anything under it — not "/srv/acme2" for "/srv/acme" */
+function pathPattern(dir: string, index: number): RegExp {
+  const trimmed = dir.trim().replace(/[\\/]+$/, "");
+  if (!trimmed) throw new Error(`routing.privacy.paths[${index}]: must name a directory`);
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\w.~-])${escaped}(?![\\w.-])`);
+}
+
+/**
+ * Compile config.privacy into a check over message text. Throws on an invalid
+ * pattern, naming it, so a bad config fails at startup.
+ */
+export function compilePrivacyCheck(config: RoutingConfig): PrivacyCheck {
+  const { secrets = false, patterns = {}, paths = [] } = config.privacy ?? {};
+  const checks: Array<[reason: string, pattern: RegExp]> = [];
+  if (secrets) {
+    for (const [name, re] of Object.entries(SECRET_PATTERNS)) checks.push([`secret: ${name}`, re]);
+  }
+  for (const [name, pattern] of Object.entries(patterns)) {
+    try {
+      checks.push([`pattern: ${name}`, new RegExp(pattern, "i")]);
+    } catch (err) {
+      throw new Error(
+        `routing.privacy.patterns.${name}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  paths.forEach((dir, i) => checks.push([`path: ${dir}`, pathPattern(dir, i)]));
+  return (text) => checks.find(([, re]) => re.test(text))?.[0];
+}
+
+/**
+ * Tier configs cut down to the models a private request may use: each tier's
+ * local models, or — for a tier without any — those of the nearest tier that
+ * has some (above first). Undefined when no tier has one.
+ */
+export function localTierConfigs(
+  tierConfigs: Record<Tier, TierConfig>,
+  isLocal: (modelId: string) => boolean,
+): Record<Tier, TierConfig> | undefined {
+  const local = new Map(
+    TIERS.map((t) => [t, [tierConfigs[t].primary, ...tierConfigs[t].fallback].filter(isLocal)]),
+  );
+  if (TIERS.every((t) => local.get(t)!.length === 0)) return undefined;
+
+  const result = {} as Record<Tier, TierConfig>;
+  TIERS.forEach((tier, rank) => {
+    const nearest = [...TIERS.slice(rank), ...TIERS.slice(0, rank).reverse()].find(
+      (t) => local.get(t)!.length > 0,
+    )!;
+    const [primary, ...fallback] = local.get(nearest)!;
+    result[tier] = { primary, fallback };
+  });
+  return result;
+}
@@ -0,0 +1,134 @@
+/**
+ * Routing Rules
+ *
+ * Operator policy checked before the classifier: an ordered list of
+ * match → action rules (RoutingConfig.rules). The first rule whose conditions
+ * all hold applies; the rest are skipped.
+ *
+ *   match  — prompt / system prompt regex, header values, tools, images,
+ *            token count, session ID prefix, local time of day
+ *   action — force a model or tier, set a minimum tier, exclude providers,
+ *            pick a profile
+ *
+ * Rules are compiled once (regexes, time windows) so a bad rule fails at
+ * startup instead of on the first request it would have matched.
+ */
+
+import { findProfile } from "./config.js";
+import type { RoutingConfig, RoutingRule, RuleAction, Tier } from "./types.js";
+
+/** What a rule can match on, gathered from the request */
+export type RuleContext = {
+  prompt: string;
+  systemPrompt?: string;
+  headers?: Record<string, string | string[] | undefined>;
+  hasTools?: boolean;
+  hasImages?: boolean;
+  /** Estimated request tokens */
+  tokens?: number;
+  sessionId?: string;
+  /** Default: now */
+  now?: Date;
+};
+
+/** The rule that applies to a request */
+export type MatchedRule = { name: string; action: RuleAction };
+
+export type CompiledRule = MatchedRule & { test: (ctx: RuleContext) => boolean };
+
+const TIERS: Tier[] = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+/** "HH:MM" → minutes after midnight */
+function parseClock(value: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return undefined;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+}
+
+function headerValue(headers: RuleContext["headers"], name: string): string | undefined {
+  const value = headers?.[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function compileRule(rule: RoutingRule, index: number, config: RoutingConfig): CompiledRule {
+  const name = rule.name ?? `rule ${index}`;
+  const fail = (message: string): never => {
+    throw new Error(`routing.rules[${index}] (${name}): ${message}`);
+  };
+  const regex = (field: string, pattern: unknown): RegExp => {
+    if (typeof pattern !== "string") return fail(`${field} must be a regex string`);
+    try {
+      return new RegExp(pattern, "i");
+    } catch (err) {
+      return fail(`${field}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const { match = {}, action = {} } = rule;
+  if (Object.keys(action).length === 0) fail("action is empty");
+  for (const field of ["tier", "minTier"] as const) {
+    if (action[field] !== undefined && !TIERS.includes(action[field])) {
+      fail(`${field} must be one of ${TIERS.join(", ")}`);
+    }
+  }
+  if (action.profile !== undefined && findProfile(config, action.profile) === undefined) {
+    fail(`unknown profile "${action.profile}"`);
+  }
+
+  const tests: Array<(ctx: RuleContext) => boolean> = [];
+  if (match.prompt !== undefined) {
+    const re = regex("match.prompt", match.prompt);
+    tests.push((ctx) => re.test(ctx.prompt));
+  }
+  if (match.systemPrompt !== undefined) {
+    const re = regex("match.systemPrompt", match.systemPrompt);
+    tests.push((ctx) => re.test(ctx.systemPrompt ?? ""));
+  }
+  for (const [header, pattern] of Object.entries(match.headers ?? {})) {
+    const re = regex(`match.headers.${header}`, pattern);
+    tests.push((ctx) => {
+      const value = headerValue(ctx.headers, header);
+      return value !== undefined && re.test(value);
+    });
+  }
+  if (match.tools !== undefined) tests.push((ctx) => (ctx.hasTools ?? false) === match.tools);
+  if (match.images !== undefined) tests.push((ctx) => (ctx.hasImages ?? false) === match.images);
+  if (match.minTokens !== undefined) {
+    tests.push((ctx) => (ctx.tokens ?? 0) >= match.minTokens!);
+  }
+  if (match.maxTokens !== undefined) {
+    tests.push((ctx) => (ctx.tokens ?? 0) <= match.maxTokens!);
+  }
+  if (match.sessionPrefix !== undefined) {
+    tests.push((ctx) => ctx.sessionId?.startsWith(match.sessionPrefix!) ?? false);
+  }
+  if (match.timeOfDay !== undefined) {
+    const [from, to] = match.timeOfDay.split("-").map(parseClock);
+    if (from === undefined || to === undefined) fail('match.timeOfDay must be "HH:MM-HH:MM"');
+    tests.push((ctx) => {
+      const now = ctx.now ?? new Date();
+      const minutes = now.getHours() * 60 + now.getMinutes();
+      // "22:00-06:00" wraps past midnight
+      return from! <= to! ? minutes >= from! && minutes < to! : minutes >= from! || minutes < to!;
+    });
+  }
+
+  return { name, action, test: (ctx) => tests.every((t) => t(ctx)) };
+}
+
+/**
+ * Validate and compile config.rules. Throws on the first invalid rule,
+ * naming its index.
+ */
+export function compileRoutingRules(config: RoutingConfig): CompiledRule[] {
+  return (config.rules ?? []).map((rule, index) => compileRule(rule, index, config));
+}
+
+/**
+ * The first rule whose conditions all hold, or undefined.
+ */
+export function matchRoutingRule(rules: CompiledRule[], ctx: RuleContext): MatchedRule | undefined {
+  const rule = rules.find((r) => r.test(ctx));
+  return rule && { name: rule.name, action: rule.action };
+}
@@ -1,14 +1,21 @@
 /**
  * Rule-Based Classifier (v2 — Weighted Scoring)
  *
- * Scores a request across 14 weighted dimensions and maps the aggregate
- * score to a tier using configurable boundaries. Confidence is calibrated
- * via sigmoid — low confidence triggers the fallback classifier.
+ * Scores a request across 14 weighted dimensions (plus 4 conversation-context
+ * dimensions for multi-turn requests) and maps the aggregate score to a tier
+ * using configurable boundaries. Confidence is calibrated via sigmoid — low
+ * confidence triggers the fallback classifier.
  *
  * Handles 70-80% of requests in < 1ms with zero cost.
  */
 
-import type { Tier, ScoringResult, ScoringConfig } from "./types.js";
+import type {
+  Tier,
+  ScoringResult,
+  ScoringConfig,
+  ConversationContext,
+  DimensionDetail,
+} from "./types.js";
 
 type DimensionScore = { name: string; score: number; signal: string | null };
 
@@ -132,24 +139,89 @@ function scoreAgenticTask(
   };
 }
 
-// ─── Main Classifier ───
+// ─── Conversation Dimensions ───
+// Score 0 for single-turn requests, so they only ever raise or lower a follow-up.
 
-export function classifyByRules(
-  prompt: string,
-  systemPrompt: string | undefined,
-  estimatedTokens: number,
+function scoreVolume(
+  value: number,
+  thresholds: { low: number; high: number },
+  name: string,
+  signal: string,
+): DimensionScore {
+  if (value >= thresholds.high) return { name, score: 1.0, signal };
+  if (value >= thresholds.low) return { name, score: 0.5, signal };
+  return { name, score: 0, signal: null };
+}
+
+/**
+ * Score earlier turns with the content dimensions, most recent weighted most
+ * (historyDecay per turn back). Scaled so a COMPLEX-level history scores 1.
+ */
+function scoreConversationHistory(priorTurns: string[], config: ScoringConfig): DimensionScore {
+  const { historyDecay, maxHistoryTurns } = config.conversation;
+  const turns = priorTurns.slice(0, maxHistoryTurns);
+  if (turns.length === 0) return { name: "conversationHistory", score: 0, signal: null };
+
+  let total = 0;
+  let weightSum = 0;
+  let weight = 1;
+  for (const turn of turns) {
+    total +=
+      weight * weightedSum(scoreContent(turn.toLowerCase(), config), config.dimensionWeights);
+    weightSum += weight;
+    weight *= historyDecay;
+  }
+  const average = total / weightSum;
+  const scale = config.tierBoundaries.mediumComplex || 1;
+  const score = Math.max(-1, Math.min(1, average / scale));
+  return {
+    name: "conversationHistory",
+    score,
+    signal:
+      Math.abs(score) >= 0.25
+        ? `history (${average.toFixed(2)} over ${turns.length} turn${turns.length === 1 ? "" : "s"})`
+        : null,
+  };
+}
+
+function scoreConversation(
+  conversation: ConversationContext,
   config: ScoringConfig,
-): ScoringResult {
-  // User prompt only — system prompt (tool defs, instructions) doesn't reflect
-  // the complexity of the user's actual request and inflates keyword matches
-  const userText = prompt.toLowerCase();
+): DimensionScore[] {
+  const c = config.conversation;
+  return [
+    scoreConversationHistory(conversation.priorTurns, config),
+    scoreVolume(
+      conversation.totalTokens,
+      c.conversationTokenThresholds,
+      "conversationLength",
+      `long conversation (${conversation.totalTokens} tokens)`,
+    ),
+    scoreVolume(
+      conversation.toolResultTokens,
+      c.toolResultTokenThresholds,
+      "toolResultVolume",
+      `tool results (${conversation.toolResultTokens} tokens)`,
+    ),
+    scoreVolume(
+      conversation.toolCallCount,
+      c.toolCallThresholds,
+      "toolCallDepth",
+      `${conversation.toolCallCount} tool calls`,
+    ),
+  ];
+}
 
-  // Score all 14 dimensions — using userText to avoid system prompt contamination
-  const dimensions: DimensionScore[] = [
-    // Original 8 dimensions
-    scoreTokenCount(estimatedTokens, config.tokenCountThresholds),
+// ─── Main Classifier ───
+
+/**
+ * Keyword and pattern dimensions of one turn's lowercased text
+ * (everything but tokenCount and agenticTask).
+ */
+function scoreContent(text: string, config: ScoringConfig): DimensionScore[] {
+  return [
     scoreKeywordMatch(
-      userText,
+      text,
       config.codeKeywords,
       "codePresence",
       "code",
@@ -157,7 +229,7 @@ export function classifyByRules(
       { none: 0, low: 0.5, high: 1.0 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.reasoningKeywords,
       "reasoningMarkers",
       "reasoning",
@@ -165,7 +237,7 @@ export function classifyByRules(
       { none: 0, low: 0.7, high: 1.0 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.technicalKeywords,
       "technicalTerms",
       "technical",
@@ -173,7 +245,7 @@ export function classifyByRules(
       { none: 0, low: 0.5, high: 1.0 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.creativeKeywords,
       "creativeMarkers",
       "creative",
@@ -181,19 +253,17 @@ export function classifyByRules(
       { none: 0, low: 0.5, high: 0.7 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.simpleKeywords,
       "simpleIndicators",
       "simple",
       { low: 1, high: 2 },
       { none: 0, low: -1.0, high: -1.0 },
     ),
-    scoreMultiStep(userText),
-    scoreQuestionComplexity(prompt),
-
-    // 6 new dimensions
+    scoreMultiStep(text),
+    scoreQuestionComplexity(text),
     scoreKeywordMatch(
-      userText,
+      text,
       config.imperativeVerbs,
       "imperativeVerbs",
       "imperative",
@@ -201,7 +271,7 @@ export function classifyByRules(
       { none: 0, low: 0.3, high: 0.5 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.constraintIndicators,
       "constraintCount",
       "constraints",
@@ -209,7 +279,7 @@ export function classifyByRules(
       { none: 0, low: 0.3, high: 0.7 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.outputFormatKeywords,
       "outputFormat",
       "format",
@@ -217,7 +287,7 @@ export function classifyByRules(
       { none: 0, low: 0.4, high: 0.7 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.referenceKeywords,
       "referenceComplexity",
       "references",
@@ -225,7 +295,7 @@ export function classifyByRules(
       { none: 0, low: 0.3, high: 0.5 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.negationKeywords,
       "negationComplexity",
       "negation",
@@ -233,7 +303,7 @@ export function classifyByRules(
       { none: 0, low: 0.3, high: 0.5 },
     ),
     scoreKeywordMatch(
-      userText,
+      text,
       config.domainSpecificKeywords,
       "domainSpecificity",
       "domain-specific",
@@ -241,6 +311,33 @@ export function classifyByRules(
       { none: 0, low: 0.5, high: 0.8 },
     ),
   ];
+}
+
+function weightedSum(dimensions: DimensionScore[], weights: Record<string, number>): number {
+  let sum = 0;
+  for (const d of dimensions) sum += d.score * (weights[d.name] ?? 0);
+  return sum;
+}
+
+export function classifyByRules(
+  prompt: string,
+  systemPrompt: string | undefined,
+  estimatedTokens: number,
+  config: ScoringConfig,
+  conversation?: ConversationContext,
+): ScoringResult {
+  // User prompt only — system prompt (tool defs, instructions) doesn't reflect
+  // the complexity of the user's actual request and inflates keyword matches
+  const userText = prompt.toLowerCase();
+
+  // Score all 14 dimensions — using userText to avoid system prompt contamination
+  const dimensions: DimensionScore[] = [
+    scoreTokenCount(estimatedTokens, config.tokenCountThresholds),
+    ...scoreContent(userText, config),
+  ];
+
+  // Earlier turns, tool activity and conversation length (multi-turn requests)
+  if (conversation) dimensions.push(...scoreConversation(conversation, config));
 
   // Score agentic task indicators — also user prompt only
   const agenticResult = scoreAgenticTask(userText, config.agenticTaskKeywords);
@@ -251,21 +348,14 @@ export function classifyByRules(
   const signals = dimensions.filter((d) => d.signal !== null).map((d) => d.signal!);
 
   // Compute weighted score
-  const weights = config.dimensionWeights;
-  let weightedScore = 0;
-  for (const d of dimensions) {
-    const w = weights[d.name] ?? 0;
-    weightedScore += d.score * w;
-  }
-
-  // Count reasoning markers for override — only check USER prompt, not system prompt
-  // This prevents system prompts with "step by step" from triggering REASONING for simple queries
-  const reasoningMatches = config.reasoningKeywords.filter((kw) =>
-    userText.includes(kw.toLowerCase()),
-  );
+  const weightedScore = weightedSum(dimensions, config.dimensionWeights);
+  const details: DimensionDetail[] = dimensions.map((d) => ({
+    ...d,
+    weight: config.dimensionWeights[d.name] ?? 0,
+  }));
 
   // Direct reasoning override: 2+ reasoning markers = high confidence REASONING
-  if (reasoningMatches.length >= 2) {
+  if (hasReasoningOverride(userText, config)) {
     const confidence = calibrateConfidence(
       Math.max(weightedScore, 0.3), // ensure positive for confidence calc
       config.confidenceSteepness,
@@ -276,10 +366,49 @@ export function classifyByRules(
       confidence: Math.max(confidence, 0.85),
       signals,
       agenticScore,
+      dimensions: details,
     };
   }
 
-  // Map weighted score to tier using boundaries
+  const { tier, confidence } = tierForScore(weightedScore, config);
+  return { score: weightedScore, tier, confidence, signals, agenticScore, dimensions: details };
+}
+
+/**
+ * Compact key for the kind of prompt a scoring result describes: the classifier's
+ * tier (AMBIGUOUS when it had none) and its three strongest dimensions, e.g.
+ * "SIMPLE:questionComplexity+simpleIndicators+tokenCount". Prompts that look
+ * alike to the classifier share a pattern, so feedback on one applies to all.
+ */
+export function signalPattern(result: ScoringResult): string {
+  const top = (result.dimensions ?? [])
+    .map((d) => ({ name: d.name, contribution: Math.abs(d.score * d.weight) }))
+    .filter((d) => d.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution || a.name.localeCompare(b.name))
+    .slice(0, 3)
+    .map((d) => d.name)
+    .sort();
+  return `${result.tier ?? "AMBIGUOUS"}:${top.join("+") || "none"}`;
+}
+
+/**
+ * Count reasoning markers for override — only check USER prompt, not system prompt.
+ * This prevents system prompts with "step by step" from triggering REASONING for simple queries.
+ */
+export function hasReasoningOverride(userText: string, config: ScoringConfig): boolean {
+  const text = userText.toLowerCase();
+  return config.reasoningKeywords.filter((kw) => text.includes(kw.toLowerCase())).length >= 2;
+}
+
+/**
+ * Map a weighted score to a tier using the boundaries. Confidence is a sigmoid
+ * of the distance to the nearest boundary; below confidenceThreshold the tier
+ * is null (ambiguous).
+ */
+export function tierForScore(
+  weightedScore: number,
+  config: Pick<ScoringConfig, "tierBoundaries" | "confidenceSteepness" | "confidenceThreshold">,
+): { tier: Tier | null; confidence: number } {
   const { simpleMedium, mediumComplex, complexReasoning } = config.tierBoundaries;
   let tier: Tier;
   let distanceFromBoundary: number;
@@ -305,11 +434,8 @@ export function classifyByRules(
   const confidence = calibrateConfidence(distanceFromBoundary, config.confidenceSteepness);
 
   // If confidence is below threshold → ambiguous
-  if (confidence < config.confidenceThreshold) {
-    return { score: weightedScore, tier: null, confidence, signals, agenticScore };
-  }
-
-  return { score: weightedScore, tier, confidence, signals, agenticScore };
+  if (confidence < config.confidenceThreshold) return { tier: null, confidence };
+  return { tier, confidence };
 }
 
 /**
@@ -0,0 +1,429 @@
+/**
+ * Routing Config Schema
+ *
+ * JSON Schema for routing overrides (the `routing` plugin config and the
+ * `routing` key of config.json), plus the checks a schema can't express:
+ * tier boundary order, the weight scale, rule profiles and regexes, and model
+ * IDs missing from the catalog.
+ *
+ * The schema is self-contained (no $ref), so openclaw.plugin.json embeds it as is.
+ * validateRoutingConfig() checks the subset of JSON Schema used here — no
+ * validator dependency.
+ */
+
+import { DEFAULT_ROUTING_CONFIG, mergeRoutingConfig, applyProfile, findProfile } from "./config.js";
+import type { RoutingConfig } from "./types.js";
+
+/** The JSON Schema keywords the routing schema uses */
+export type JsonSchema = {
+  title?: string;
+  description?: string;
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  minProperties?: number;
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  pattern?: string;
+  format?: "regex";
+};
+
+export type ConfigIssue = {
+  /** Where in the config, e.g. "routing.scoring.tierBoundaries" */
+  path: string;
+  message: string;
+};
+
+export type ConfigValidation = {
+  /** The config can't be used as is */
+  errors: ConfigIssue[];
+  /** Accepted, but probably not what was meant */
+  warnings: ConfigIssue[];
+};
+
+const TIERS = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+
+const object = (
+  properties: Record<string, JsonSchema>,
+  extra: Partial<JsonSchema> = {},
+): JsonSchema => ({ type: "object", properties, additionalProperties: false, ...extra });
+const number = (minimum?: number, maximum?: number): JsonSchema => ({
+  type: "number",
+  ...(minimum !== undefined ? { minimum } : {}),
+  ...(maximum !== undefined ? { maximum } : {}),
+});
+const integer = (minimum = 0): JsonSchema => ({ type: "integer", minimum });
+const strings: JsonSchema = { type: "array", items: { type: "string" } };
+const tier: JsonSchema = { type: "string", enum: TIERS };
+const modelId: JsonSchema = {
+  type: "string",
+  pattern: "^[^/\\s]+/\\S+$",
+  description: "provider/model, e.g. openai/gpt-4o",
+};
+const regex: JsonSchema = { type: "string", format: "regex" };
+// Either bound alone is fine: mergeRoutingConfig and applyProfile fill the other in
+const lowHigh = object({ low: integer(), high: integer() });
+
+const tierConfig = object(
+  { primary: modelId, fallback: { type: "array", items: modelId } },
+  { required: ["primary", "fallback"] },
+);
+const tierMap = object(Object.fromEntries(TIERS.map((t) => [t, tierConfig])));
+
+const classifier = object({
+  llmEnabled: { type: "boolean" },
+  llmModel: modelId,
+  llmMaxTokens: integer(1),
+  llmTemperature: number(0, 2),
+  promptTruncationChars: integer(1),
+  cacheTtlMs: integer(),
+  llmTimeoutMs: integer(1),
+});
+
+const scoring = object({
+  tokenCountThresholds: object({ simple: integer(), complex: integer() }),
+  codeKeywords: strings,
+  reasoningKeywords: strings,
+  simpleKeywords: strings,
+  technicalKeywords: strings,
+  creativeKeywords: strings,
+  imperativeVerbs: strings,
+  constraintIndicators: strings,
+  outputFormatKeywords: strings,
+  referenceKeywords: strings,
+  negationKeywords: strings,
+  domainSpecificKeywords: strings,
+  agenticTaskKeywords: strings,
+  conversation: object({
+    historyDecay: number(0, 1),
+    maxHistoryTurns: integer(),
+    conversationTokenThresholds: lowHigh,
+    toolResultTokenThresholds: lowHigh,
+    toolCallThresholds: lowHigh,
+  }),
+  dimensionWeights: object(
+    Object.fromEntries(
+      Object.keys(DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights).map((d) => [d, number(0, 1)]),
+    ),
+  ),
+  tierBoundaries: object({
+    simpleMedium: number(-1, 1),
+    mediumComplex: number(-1, 1),
+    complexReasoning: number(-1, 1),
+  }),
+  confidenceSteepness: { type: "number", exclusiveMinimum: 0 },
+  confidenceThreshold: number(0, 1),
+});
+
+const overrides = object({
+  maxTokensForceComplex: integer(1),
+  structuredOutputMinTier: tier,
+  ambiguousDefaultTier: tier,
+  agenticMode: { type: "boolean" },
+});
+
+const rankingWeights = object({ cost: number(0), latency: number(0), reliability: number(0) });
+const ranking = object({
+  enabled: { type: "boolean" },
+  mode: { type: "string", enum: ["weighted", "cheapest"] },
+  weights: rankingWeights,
+  tierWeights: object(Object.fromEntries(TIERS.map((t) => [t, rankingWeights]))),
+  minSamples: integer(),
+});
+
+const rule = object(
+  {
+    name: { type: "string" },
+    match: object({
+      prompt: regex,
+      systemPrompt: regex,
+      headers: { type: "object", additionalProperties: regex },
+      tools: { type: "boolean" },
+      images: { type: "boolean" },
+      minTokens: integer(),
+      maxTokens: integer(),
+      sessionPrefix: { type: "string" },
+      timeOfDay: { type: "string", pattern: "^\\d{1,2}:\\d{2}-\\d{1,2}:\\d{2}$" },
+    }),
+    action: object(
+      {
+        model: modelId,
+        tier,
+        minTier: tier,
+        excludeProviders: strings,
+        profile: { type: "string" },
+      },
+      { minProperties: 1 },
+    ),
+  },
+  { required: ["match", "action"] },
+);
+
+const privacy = object({
+  secrets: { type: "boolean" },
+  patterns: { type: "object", additionalProperties: regex },
+  paths: strings,
+});
+
+const profile = object({
+  description: { type: "string" },
+  private: { type: "boolean" },
+  classifier,
+  scoring,
+  tiers: tierMap,
+  agenticTiers: tierMap,
+  overrides,
+  ranking,
+});
+
+/** JSON Schema for routing overrides — every key optional, unknown keys rejected */
+export const ROUTING_CONFIG_SCHEMA: JsonSchema = object(
+  {
+    version: { type: "string" },
+    classifier,
+    scoring,
+    tiers: tierMap,
+    agenticTiers: tierMap,
+    overrides,
+    ranking,
+    profiles: { type: "object", additionalProperties: profile },
+    rules: { type: "array", items: rule },
+    privacy,
+  },
+  {
+    title: "ClawRouter routing config",
+    description:
+      "Override default routing configuration, merged over the defaults; profiles adds named " +
+      "profiles selectable as clawrouter/auto:<name>; rules is an ordered match → action list " +
+      "checked before the classifier; privacy lists content that keeps a request on local " +
+      "models. Unknown keys are rejected — check a config with `clawrouter config validate`.",
+  },
+);
+
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** The closest candidate, if it's close enough to be a typo */
+function suggest(value: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const d = distance(value.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) [best, bestDistance] = [candidate, d];
+  }
+  return best;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema["type"]>): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check a value against a schema, collecting every issue (not just the first).
+ */
+export function validateSchema(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[] = [],
+): ConfigIssue[] {
+  const fail = (message: string) => issues.push({ path, message });
+  if (schema.type && !matchesType(value, schema.type)) {
+    fail(
+      `expected ${schema.type === "integer" ? "an integer" : `a ${schema.type}`}, got ${describe(value)}`,
+    );
+    return issues;
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    const hint = typeof value === "string" ? suggest(value, schema.enum) : undefined;
+    fail(`must be one of ${schema.enum.join(", ")}${hint ? ` (did you mean ${hint}?)` : ""}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+  if (typeof value === "string") {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`${JSON.stringify(value)} doesn't match ${schema.description ?? schema.pattern}`);
+    }
+    if (schema.format === "regex") {
+      try {
+        new RegExp(value);
+      } catch (err) {
+        fail(`invalid regex: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateSchema(schema.items!, item, `${path}[${i}]`, issues));
+  }
+  if (matchesType(value, "object") && schema.type === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    for (const key of schema.required ?? []) {
+      if (!(key in (value as object))) issues.push({ path: `${path}.${key}`, message: "required" });
+    }
+    if (schema.minProperties !== undefined && entries.length < schema.minProperties) {
+      fail(`needs at least ${schema.minProperties} key(s)`);
+    }
+    for (const [key, child] of entries) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        validateSchema(childSchema, child, `${path}.${key}`, issues);
+      } else if (schema.additionalProperties === false) {
+        const hint = suggest(key, Object.keys(schema.properties ?? {}));
+        issues.push({
+          path: `${path}.${key}`,
+          message: `unknown key${hint ? ` (did you mean ${hint}?)` : ""}`,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateSchema(schema.additionalProperties, child, `${path}.${key}`, issues);
+      }
+    }
+  }
+  return issues;
+}
+
+/** Every model ID a config names, with where */
+function modelReferences(config: Partial<RoutingConfig>, path: string): ConfigIssue[] {
+  const refs: ConfigIssue[] = [];
+  const fromTiers = (tiers: object | undefined, at: string) => {
+    for (const [t, c] of Object.entries(tiers ?? {}) as Array<[string, Record<string, unknown>]>) {
+      refs.push({ path: `${at}.${t}.primary`, message: String(c.primary) });
+      (c.fallback as string[]).forEach((m, i) =>
+        refs.push({ path: `${at}.${t}.fallback[${i}]`, message: m }),
+      );
+    }
+  };
+  fromTiers(config.tiers, `${path}.tiers`);
+  fromTiers(config.agenticTiers, `${path}.agenticTiers`);
+  if (config.classifier?.llmModel) {
+    refs.push({ path: `${path}.classifier.llmModel`, message: config.classifier.llmModel });
+  }
+  config.rules?.forEach((r, i) => {
+    if (r.action.model)
+      refs.push({ path: `${path}.rules[${i}].action.model`, message: r.action.model });
+  });
+  for (const [name, p] of Object.entries(config.profiles ?? {})) {
+    refs.push(...modelReferences(p as Partial<RoutingConfig>, `${path}.profiles.${name}`));
+  }
+  return refs;
+}
+
+const DEFAULT_WEIGHT_SUM = Object.values(DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights).reduce(
+  (sum, w) => sum + w,
+  0,
+);
+
+/** Checks on the merged config: boundary order, threshold order, weight scale */
+function checkScoring(config: RoutingConfig, path: string, result: ConfigValidation): void {
+  const { tierBoundaries: b, tokenCountThresholds: t, dimensionWeights } = config.scoring;
+  if (!(b.simpleMedium < b.mediumComplex && b.mediumComplex < b.complexReasoning)) {
+    result.errors.push({
+      path: `${path}.scoring.tierBoundaries`,
+      message: `must increase: simpleMedium (${b.simpleMedium}) < mediumComplex (${b.mediumComplex}) < complexReasoning (${b.complexReasoning})`,
+    });
+  }
+  if (t.simple >= t.complex) {
+    result.errors.push({
+      path: `${path}.scoring.tokenCountThresholds`,
+      message: `simple (${t.simple}) must be below complex (${t.complex})`,
+    });
+  }
+  const sum = Object.values(dimensionWeights).reduce((s, w) => s + w, 0);
+  if (sum < DEFAULT_WEIGHT_SUM / 2 || sum > DEFAULT_WEIGHT_SUM * 1.5) {
+    result.warnings.push({
+      path: `${path}.scoring.dimensionWeights`,
+      message: `weights sum to ${sum.toFixed(2)} (defaults: ${DEFAULT_WEIGHT_SUM.toFixed(2)}) — tierBoundaries assume the default scale`,
+    });
+  }
+}
+
+/**
+ * Validate routing overrides before they're merged. Errors mean the config
+ * must not be used; warnings (e.g. model IDs not in knownModels) are worth
+ * logging. Paths start at "routing".
+ */
+export function validateRoutingConfig(
+  overrides: unknown,
+  options: { knownModels?: Iterable<string> } = {},
+): ConfigValidation {
+  const result: ConfigValidation = {
+    errors: validateSchema(ROUTING_CONFIG_SCHEMA, overrides ?? {}, "routing"),
+    warnings: [],
+  };
+  // The rest reads the merged config, which needs the right shape
+  if (result.errors.length > 0) return result;
+
+  const config = (overrides ?? {}) as Partial<RoutingConfig>;
+  const merged = mergeRoutingConfig(config);
+  checkScoring(merged, "routing", result);
+  for (const name of Object.keys(config.profiles ?? {})) {
+    checkScoring(applyProfile(merged, name)!, `routing.profiles.${name}`, result);
+  }
+  config.rules?.forEach((r, i) => {
+    if (r.action.profile !== undefined && findProfile(merged, r.action.profile) === undefined) {
+      const hint = suggest(r.action.profile, Object.keys(merged.profiles ?? {}));
+      result.errors.push({
+        path: `routing.rules[${i}].action.profile`,
+        message: `unknown profile "${r.action.profile}"${hint ? ` (did you mean ${hint}?)` : ""}`,
+      });
+    }
+  });
+
+  if (options.knownModels) {
+    const known = new Set(options.knownModels);
+    for (const ref of modelReferences(config, "routing")) {
+      if (known.has(ref.message)) continue;
+      const hint = suggest(ref.message, known);
+      result.warnings.push({
+        path: ref.path,
+        message: `unknown model "${ref.message}"${hint ? ` (did you mean ${hint}?)` : ""}`,
+      });
+    }
+  }
+  return result;
+}
+
+/** "routing.x.y: message", one issue per line */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map((i) => `${i.path}: ${i.message}`).join("\n");
+}
@@ -5,13 +5,24 @@
  * Builds RoutingDecision metadata with cost estimates and savings.
  */
 
-import type { Tier, TierConfig, RoutingDecision } from "./types.js";
+import type { Tier, TierConfig, RoutingDecision, RankingConfig, ModelHealth } from "./types.js";
 
 export type ModelPricing = {
   inputPrice: number; // per 1M tokens
   outputPrice: number; // per 1M tokens
+  cachedInputPrice?: number; // per 1M cache-hit input tokens
 };
 
+/** Token counts for one request, used to price candidates against each other */
+export type RequestTokens = {
+  input: number; // total input, including cached
+  cached: number; // input expected to hit the provider's prompt cache
+  output: number;
+};
+
+/** Savings are measured against what this premium default would have cost */
+export const BASELINE_MODEL = "anthropic/claude-opus-4";
+
 /**
  * Select the primary model for a tier and build the RoutingDecision.
  */
@@ -34,7 +45,7 @@ export function selectModel(
   const costEstimate = inputCost + outputCost;
 
   // Baseline: what Claude Opus would cost (the premium default)
-  const opusPricing = modelPricing.get("anthropic/claude-opus-4");
+  const opusPricing = modelPricing.get(BASELINE_MODEL);
   const baselineInput = opusPricing
     ? (estimatedInputTokens / 1_000_000) * opusPricing.inputPrice
     : 0;
@@ -100,3 +111,131 @@ export function getFallbackChainFiltered(
 
   return filtered;
 }
+
+/**
+ * Estimated USD cost of a request on a model.
+ * Cached input is billed at the cached rate where the model has one.
+ */
+export function estimateRequestCost(pricing: ModelPricing, tokens: RequestTokens): number {
+  const cached = Math.min(tokens.cached, tokens.input);
+  const cachedPrice = pricing.cachedInputPrice ?? pricing.inputPrice;
+  return (
+    ((tokens.input - cached) * pricing.inputPrice +
+      cached * cachedPrice +
+      tokens.output * pricing.outputPrice) /
+    1_000_000
+  );
+}
+
+/**
+ * Order a chain by estimated cost for this request, cheapest first.
+ * Models whose context window can't fit the request are dropped (unless none fit);
+ * models without pricing go last. Ties keep the configured order.
+ *
+ * @param models - Candidate chain in configured order
+ * @param modelPricing - Pricing per model ID
+ * @param tokens - This request's token counts
+ * @param getContextWindow - Context window per model ID (undefined = unknown, assumed to fit)
+ * @returns Reordered chain (cheapest first)
+ */
+export function rankByCost(
+  models: string[],
+  modelPricing: Map<string, ModelPricing>,
+  tokens: RequestTokens,
+  getContextWindow?: (modelId: string) => number | undefined,
+): string[] {
+  const needed = (tokens.input + tokens.output) * 1.1; // same 10% buffer as getFallbackChainFiltered
+  const fits = models.filter((m) => (getContextWindow?.(m) ?? Infinity) >= needed);
+  const candidates = fits.length > 0 ? fits : models;
+
+  const costs = new Map(
+    candidates.map((m) => {
+      const pricing = modelPricing.get(m);
+      return [m, pricing ? estimateRequestCost(pricing, tokens) : Infinity];
+    }),
+  );
+  return candidates
+    .map((model, i) => ({ model, i, cost: costs.get(model)! }))
+    .sort((a, b) => a.cost - b.cost || a.i - b.i)
+    .map((c) => c.model);
+}
+
+/**
+ * How tier chains are ranked, or undefined when ranking is off. Every reader of
+ * `ranking.enabled` and `ranking.mode` goes through here, so they agree: no
+ * ranking config means off, no mode means weighted.
+ */
+export function rankingMode(
+  ranking: Partial<RankingConfig> | undefined,
+): "weighted" | "cheapest" | undefined {
+  if (!ranking?.enabled) return undefined;
+  return ranking.mode ?? "weighted";
+}
+
+/**
+ * Reorder a chain by a weighted cost/latency/reliability score.
+ * Each component is relative to the best candidate (1 = best). Models without
+ * enough health samples are assumed to be average. Ties keep the configured order,
+ * and the chain is returned unchanged until at least one model has health data.
+ *
+ * @param models - Candidate chain in configured order
+ * @param tier - Tier the chain belongs to (selects per-tier weights)
+ * @param ranking - Ranking config
+ * @param modelPricing - Pricing per model ID
+ * @param getHealth - Health stats per model ID
+ * @returns Reordered chain (best first)
+ */
+export function rankModels(
+  models: string[],
+  tier: Tier,
+  ranking: RankingConfig | undefined,
+  modelPricing: Map<string, ModelPricing>,
+  getHealth: ((modelId: string) => ModelHealth | undefined) | undefined,
+): string[] {
+  if (!ranking || !rankingMode(ranking) || !getHealth || models.length < 2) return models;
+
+  const health = models.map((m) => {
+    const h = getHealth(m);
+    return h && h.samples >= ranking.minSamples ? h : undefined;
+  });
+  const known = health.filter((h): h is ModelHealth => h !== undefined);
+  if (known.length === 0) return models;
+
+  const weights = { ...ranking.weights, ...ranking.tierWeights?.[tier] };
+  const totalWeight = weights.cost + weights.latency + weights.reliability;
+  if (totalWeight <= 0) return models;
+
+  // Relative scores: best candidate → 1, unknowns → average of the known ones
+  const relative = (values: Array<number | undefined>): number[] => {
+    const present = values.filter((v): v is number => v !== undefined);
+    if (present.length === 0) return values.map(() => 1);
+    const best = Math.min(...present);
+    const scores = values.map((v) => (v === undefined ? undefined : v <= 0 ? 1 : best / v));
+    const known = scores.filter((v): v is number => v !== undefined);
+    const average = known.reduce((a, b) => a + b, 0) / known.length;
+    return scores.map((v) => v ?? average);
+  };
+
+  const costScores = relative(
+    models.map((m) => {
+      const p = modelPricing.get(m);
+      return p ? p.inputPrice + p.outputPrice : undefined;
+    }),
+  );
+  // 0 = no successful call yet, so no latency sample
+  const latencyScores = relative(health.map((h) => h?.ttftP95Ms || undefined));
+  const averageErrorRate = known.reduce((a, h) => a + h.errorRate, 0) / known.length;
+  const reliabilityScores = health.map((h) => 1 - (h?.errorRate ?? averageErrorRate));
+
+  const scored = models.map((model, i) => ({
+    model,
+    i,
+    score:
+      (weights.cost * costScores[i] +
+        weights.latency * latencyScores[i] +
+        weights.reliability * reliabilityScores[i]) /
+      totalWeight,
+  }));
+  scored.sort((a, b) => b.score - a.score || a.i - b.i);
+  return scored.map((s) => s.model);
+}
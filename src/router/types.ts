@@ -10,12 +10,21 @@
 
 export type Tier = "SIMPLE" | "MEDIUM" | "COMPLEX" | "REASONING";
 
+/** One scoring dimension — it adds score × weight to the total */
+export type DimensionDetail = {
+  name: string;
+  score: number; // [-1, 1]
+  weight: number;
+  signal: string | null;
+};
+
 export type ScoringResult = {
   score: number; // weighted float (roughly [-0.3, 0.4])
   tier: Tier | null; // null = ambiguous, needs fallback classifier
   confidence: number; // sigmoid-calibrated [0, 1]
   signals: string[];
   agenticScore?: number; // 0-1 agentic task score for auto-switching to agentic tiers
+  dimensions?: DimensionDetail[]; // every dimension scored, for explaining a decision
 };
 
 export type RoutingDecision = {
@@ -27,8 +36,25 @@ export type RoutingDecision = {
   costEstimate: number;
   baselineCost: number;
   savings: number; // 0-1 percentage
+  /** Classifier tier + strongest dimensions (see signalPattern) — the key routing feedback is kept under */
+  pattern?: string;
+  /** Routing rule that matched the request (see RoutingConfig.rules) */
+  rule?: string;
+  /** Why the request was kept on local models (see RoutingConfig.privacy) */
+  private?: string;
+};
+
+/** Learned adjustment for a signal pattern (see RouterOptions.tierCorrection) */
+export type TierCorrection = {
+  /** Tiers to move up */
+  tiers: number;
+  /** Why, for the decision's reasoning (e.g. "retry×3, override×1") */
+  reason: string;
 };
 
+/** Model features a request can depend on */
+export type Capability = "vision" | "tools" | "structuredOutput" | "reasoning";
+
 export type TierConfig = {
   primary: string;
   fallback: string[];
@@ -50,6 +76,8 @@ export type ScoringConfig = {
   domainSpecificKeywords: string[];
   // Agentic task detection keywords
   agenticTaskKeywords: string[];
+  // Conversation-context dimensions (multi-turn requests only)
+  conversation: ConversationScoringConfig;
   // Weighted scoring parameters
   dimensionWeights: Record<string, number>;
   tierBoundaries: {
@@ -61,12 +89,41 @@ export type ScoringConfig = {
   confidenceThreshold: number;
 };
 
+export type ConversationScoringConfig = {
+  /** Weight of each earlier turn relative to the one after it (0-1) */
+  historyDecay: number;
+  /** Earlier turns scored, most recent first */
+  maxHistoryTurns: number;
+  /** Total conversation tokens for a moderate / strong signal */
+  conversationTokenThresholds: { low: number; high: number };
+  /** Tool-result tokens for a moderate / strong signal */
+  toolResultTokenThresholds: { low: number; high: number };
+  /** Assistant tool calls so far for a moderate / strong signal */
+  toolCallThresholds: { low: number; high: number };
+};
+
+/** What the turns before the newest user message say about the task */
+export type ConversationContext = {
+  /** Text of earlier user/assistant turns, most recent first */
+  priorTurns: string[];
+  /** Estimated tokens across all tool results */
+  toolResultTokens: number;
+  /** Tool calls the assistant has made so far */
+  toolCallCount: number;
+  /** Estimated tokens in the whole conversation (system prompt excluded) */
+  totalTokens: number;
+};
+
 export type ClassifierConfig = {
+  /** Ask llmModel to classify prompts the rules find ambiguous (async routing only) */
+  llmEnabled?: boolean;
   llmModel: string;
   llmMaxTokens: number;
   llmTemperature: number;
   promptTruncationChars: number;
   cacheTtlMs: number;
+  /** Latency budget for the classifier call — past it, use ambiguousDefaultTier */
+  llmTimeoutMs: number;
 };
 
 export type OverridesConfig = {
@@ -81,6 +138,35 @@ export type OverridesConfig = {
   agenticMode?: boolean;
 };
 
+/** Rolling latency and error stats for one model, as observed by the proxy */
+export type ModelHealth = {
+  samples: number;
+  ttftP50Ms: number;
+  ttftP95Ms: number;
+  errorRate: number; // 0-1
+};
+
+export type RankingWeights = {
+  cost: number;
+  latency: number; // p95 time to first token
+  reliability: number; // 1 - error rate
+};
+
+export type RankingConfig = {
+  /** Reorder each tier's chain (see mode) */
+  enabled: boolean;
+  /**
+   * weighted: cost/latency/reliability score, once models have health data (default)
+   * cheapest: estimated cost of this request, cheapest capable model first
+   */
+  mode?: "weighted" | "cheapest";
+  weights: RankingWeights;
+  /** Per-tier overrides, e.g. favour latency over cost for SIMPLE */
+  tierWeights?: Partial<Record<Tier, Partial<RankingWeights>>>;
+  /** Samples a model needs before its stats are used */
+  minSamples: number;
+};
+
 export type RoutingConfig = {
   version: string;
   classifier: ClassifierConfig;
@@ -89,4 +175,86 @@ export type RoutingConfig = {
   /** Tier configs for agentic mode - models that excel at multi-step tasks */
   agenticTiers?: Record<Tier, TierConfig>;
   overrides: OverridesConfig;
+  /** Cost/latency/reliability ordering inside a tier */
+  ranking?: RankingConfig;
+  /** Named variants selected per request ("clawrouter/auto:eco", x-clawrouter-profile header) */
+  profiles?: Record<string, RoutingProfile>;
+  /** Checked in order before the classifier — the first rule that matches applies */
+  rules?: RoutingRule[];
+  /** Content that keeps a request on local models (as does the x-clawrouter-private header) */
+  privacy?: PrivacyConfig;
+};
+
+/**
+ * Sensitivity patterns. A request whose messages match any of them may only be
+ * routed to models declared `local: true`, and fails rather than fall back to
+ * a cloud model.
+ */
+export type PrivacyConfig = {
+  /** Built-in detectors for API keys, access tokens, private keys and passwords */
+  secrets?: boolean;
+  /** Name → regex (case-insensitive), e.g. { "ssn": "\\b\\d{3}-\\d{2}-\\d{4}\\b" } */
+  patterns?: Record<string, string>;
+  /** Directories — a path inside one, anywhere in the messages, matches */
+  paths?: string[];
+};
+
+/** Conditions of a routing rule — every one given must hold */
+export type RuleMatch = {
+  /** Regex (case-insensitive) against the newest user message */
+  prompt?: string;
+  /** Regex (case-insensitive) against the system prompt */
+  systemPrompt?: string;
+  /** Header name → regex (case-insensitive) its value must match */
+  headers?: Record<string, string>;
+  /** Whether the request sends tools */
+  tools?: boolean;
+  /** Whether the request sends images */
+  images?: boolean;
+  /** Estimated request tokens, inclusive */
+  minTokens?: number;
+  maxTokens?: number;
+  /** Session ID (X-Session-ID) starts with this */
+  sessionPrefix?: string;
+  /** Local time window, "HH:MM-HH:MM" (may wrap past midnight) */
+  timeOfDay?: string;
+};
+
+/** What a matching rule does — any combination */
+export type RuleAction = {
+  /** Send to this model only, no fallback chain */
+  model?: string;
+  /** Use this tier instead of classifying */
+  tier?: Tier;
+  /** Classify, but never below this tier */
+  minTier?: Tier;
+  /** Never use models from these providers */
+  excludeProviders?: string[];
+  /** Route with this profile (see RoutingConfig.profiles) */
+  profile?: string;
+};
+
+export type RoutingRule = {
+  /** Shown in the decision (default: "rule <index>") */
+  name?: string;
+  match: RuleMatch;
+  action: RuleAction;
+};
+
+/**
+ * A named variant of the routing config. Each section is merged over the base
+ * config key by key (tiers per tier), so a profile only lists what it changes.
+ */
+export type RoutingProfile = {
+  description?: string;
+  /** Every request routed with this profile is private (see RoutingConfig.privacy) */
+  private?: boolean;
+  classifier?: Partial<ClassifierConfig>;
+  scoring?: Partial<Omit<ScoringConfig, "tierBoundaries">> & {
+    tierBoundaries?: Partial<ScoringConfig["tierBoundaries"]>;
+  };
+  tiers?: Partial<Record<Tier, TierConfig>>;
+  agenticTiers?: Partial<Record<Tier, TierConfig>>;
+  overrides?: Partial<OverridesConfig>;
+  ranking?: Partial<RankingConfig>;
 };
@@ -0,0 +1,199 @@
+/**
+ * Secret Storage
+ *
+ * API keys don't have to sit in plaintext in config.json. Besides env vars,
+ * plugin config and config.json, a key can come from:
+ *
+ *   encrypted store — ~/.openclaw/clawrouter/secrets.enc, AES-256-GCM with a
+ *                     scrypt-derived key, unlocked by CLAWROUTER_SECRETS_PASSPHRASE
+ *                     (or CLAWROUTER_SECRETS_PASSPHRASE_FILE)
+ *   key files       — OPENAI_API_KEY_FILE=/run/secrets/openai (Docker secrets style)
+ *   key commands    — "apiKeyCommand": "pass show openai" (first line of its output)
+ *
+ * Nothing here logs a secret: failures name the provider, file or exit status only.
+ */
+
+import { spawnSync } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { ProviderConfig } from "./api-keys.js";
+
+export const SECRETS_FILE = join(homedir(), ".openclaw", "clawrouter", "secrets.enc");
+export const PASSPHRASE_ENV = "CLAWROUTER_SECRETS_PASSPHRASE";
+
+const COMMAND_TIMEOUT_MS = 10_000;
+
+/** Provider fields that hold secrets: moved into the store, kept out of config.json */
+const SECRET_FIELDS = ["apiKey", "keys"] as const;
+
+/** What the store holds per provider */
+export type StoredSecrets = Record<string, Partial<Pick<ProviderConfig, "apiKey" | "keys">>>;
+
+type Envelope = { version: 1; kdf: "scrypt"; salt: string; iv: string; tag: string; data: string };
+
+/**
+ * The store's passphrase: CLAWROUTER_SECRETS_PASSPHRASE, else the file
+ * CLAWROUTER_SECRETS_PASSPHRASE_FILE points to.
+ */
+export function loadPassphrase(): string | undefined {
+  return process.env[PASSPHRASE_ENV] || readSecretFile(process.env[`${PASSPHRASE_ENV}_FILE`]);
+}
+
+/**
+ * Read a secret from a file (a `*_FILE` pointer), trimmed. Undefined — with a
+ * warning naming the file — when it can't be read or is empty.
+ */
+export function readSecretFile(path: string | undefined): string | undefined {
+  if (!path) return undefined;
+  try {
+    const secret = readFileSync(path, "utf-8").trim();
+    if (secret) return secret;
+    console.warn(`[ClawRouter] Secret file ${path} is empty`);
+  } catch (err) {
+    console.warn(
+      `[ClawRouter] Cannot read secret file ${path}: ${(err as NodeJS.ErrnoException).code ?? "error"}`,
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Run a provider's apiKeyCommand and return the first line of its output.
+ * Undefined on failure; the warning gives the exit status, never the output.
+ */
+export function runKeyCommand(provider: string, command: string): string | undefined {
+  const result = spawnSync(command, {
+    shell: true,
+    encoding: "utf-8",
+    timeout: COMMAND_TIMEOUT_MS,
+    stdio: ["ignore", "pipe", "ignore"],
+  });
+  const key = result.status === 0 ? result.stdout.split("\n")[0].trim() : "";
+  if (key) return key;
+  const why = result.error
+    ? (result.error as NodeJS.ErrnoException).code === "ETIMEDOUT"
+      ? `timed out after ${COMMAND_TIMEOUT_MS / 1000}s`
+      : result.error.message
+    : result.status === 0
+      ? "no output"
+      : `exit ${result.status ?? result.signal}`;
+  console.warn(`[ClawRouter] apiKeyCommand for ${provider} failed (${why})`);
+  return undefined;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+/** Encrypt secrets into the store's file format */
+export function encryptSecrets(secrets: StoredSecrets, passphrase: string): string {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf-8"), cipher.final()]);
+  const envelope: Envelope = {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2) + "\n";
+}
+
+/**
+ * Decrypt the store's file content. Throws on a wrong passphrase or a
+ * damaged file.
+ */
+export function decryptSecrets(content: string, passphrase: string): StoredSecrets {
+  const envelope = JSON.parse(content) as Partial<Envelope>;
+  if (envelope.version !== 1 || envelope.kdf !== "scrypt") {
+    throw new Error("unsupported secrets file format");
+  }
+  const salt = Buffer.from(envelope.salt ?? "", "base64");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, salt),
+    Buffer.from(envelope.iv ?? "", "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag ?? "", "base64"));
+  try {
+    const data = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data ?? "", "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(data.toString("utf-8")) as StoredSecrets;
+  } catch {
+    throw new Error("wrong passphrase or damaged file");
+  }
+}
+
+/**
+ * The encrypted store's contents, or undefined when there is no store or it
+ * can't be unlocked (logged, so a locked store isn't silently ignored).
+ */
+export function loadSecretStore(passphrase = loadPassphrase()): StoredSecrets | undefined {
+  if (!existsSync(SECRETS_FILE)) return undefined;
+  if (!passphrase) {
+    console.warn(`[ClawRouter] ${SECRETS_FILE} is locked — set ${PASSPHRASE_ENV} to use its keys`);
+    return undefined;
+  }
+  try {
+    return decryptSecrets(readFileSync(SECRETS_FILE, "utf-8"), passphrase);
+  } catch (err) {
+    console.warn(
+      `[ClawRouter] Cannot unlock ${SECRETS_FILE}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Write secrets to the encrypted store (readable by the owner only). Providers
+ * already stored keep their entry where `keep` allows (default: all, so the
+ * secrets are added) and `secrets` doesn't replace it; the rest are dropped.
+ * Throws if an existing store doesn't open with the passphrase, rather than
+ * overwrite it.
+ */
+export function saveSecretStore(
+  secrets: StoredSecrets,
+  passphrase: string,
+  keep: (provider: string) => boolean = () => true,
+): void {
+  const existing = existsSync(SECRETS_FILE)
+    ? decryptSecrets(readFileSync(SECRETS_FILE, "utf-8"), passphrase)
+    : {};
+  const kept = Object.fromEntries(Object.entries(existing).filter(([provider]) => keep(provider)));
+  mkdirSync(dirname(SECRETS_FILE), { recursive: true });
+  writeFileSync(SECRETS_FILE, encryptSecrets({ ...kept, ...secrets }, passphrase), {
+    mode: 0o600,
+  });
+}
+
+/**
+ * Split providers into their secrets (for the store) and everything else (for
+ * config.json). Providers without secrets stay out of the store.
+ */
+export function splitSecrets(providers: Record<string, ProviderConfig>): {
+  secrets: StoredSecrets;
+  rest: Record<string, Partial<ProviderConfig>>;
+} {
+  const secrets: StoredSecrets = {};
+  const rest: Record<string, Partial<ProviderConfig>> = {};
+  for (const [provider, config] of Object.entries(providers)) {
+    const remaining: Partial<ProviderConfig> = { ...config };
+    delete remaining.keySource;
+    const found: StoredSecrets[string] = {};
+    for (const field of SECRET_FIELDS) {
+      if (config[field] === undefined) continue;
+      Object.assign(found, { [field]: config[field] });
+      delete remaining[field];
+    }
+    if (Object.keys(found).length > 0) secrets[provider] = found;
+    if (Object.keys(remaining).length > 0) rest[provider] = remaining;
+  }
+  return { secrets, rest };
+}
@@ -6,9 +6,13 @@
  * instead of re-routing each request.
  */
 
+import type { Tier } from "./router/index.js";
+
 export type SessionEntry = {
   model: string;
-  tier: string;
+  tier: Tier;
+  /** Routing profile the model was picked with (undefined = the base config) */
+  profile?: string;
   createdAt: number;
   lastUsedAt: number;
   requestCount: number;
@@ -72,7 +76,7 @@ export class SessionStore {
   /**
    * Pin a model to a session.
    */
-  setSession(sessionId: string, model: string, tier: string): void {
+  setSession(sessionId: string, model: string, tier: Tier, profile?: string): void {
     if (!this.config.enabled || !sessionId) {
       return;
     }
@@ -84,14 +88,16 @@ export class SessionStore {
       existing.lastUsedAt = now;
       existing.requestCount++;
       // Update model if different (e.g., fallback)
-      if (existing.model !== model) {
+      if (existing.model !== model || existing.profile !== profile) {
         existing.model = model;
         existing.tier = tier;
+        existing.profile = profile;
       }
     } else {
       this.sessions.set(sessionId, {
         model,
         tier,
+        profile,
         createdAt: now,
         lastUsedAt: now,
         requestCount: 1,
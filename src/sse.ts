@@ -0,0 +1,39 @@
+/**
+ * Server-Sent Events Helpers
+ *
+ * Upstream providers stream `text/event-stream` bodies in arbitrary byte
+ * chunks — a single network read can end mid-line or even mid-character.
+ * SseLineBuffer reassembles those chunks into complete lines so the proxy
+ * can forward (or translate) events as soon as each one arrives.
+ */
+
+export class SseLineBuffer {
+  private decoder = new TextDecoder();
+  private pending = "";
+
+  /** Feed a raw chunk; returns every line completed by it (without the trailing newline). */
+  push(chunk: Uint8Array | string): string[] {
+    this.pending +=
+      typeof chunk === "string" ? chunk : this.decoder.decode(chunk, { stream: true });
+    const lines = this.pending.split("\n");
+    this.pending = lines.pop() ?? "";
+    return lines.map((line) => (line.endsWith("\r") ? line.slice(0, -1) : line));
+  }
+
+  /** Return whatever is left once the upstream body has ended. */
+  flush(): string[] {
+    this.pending += this.decoder.decode();
+    const rest = this.pending;
+    this.pending = "";
+    return rest ? [rest.endsWith("\r") ? rest.slice(0, -1) : rest] : [];
+  }
+}
+
+/**
+ * Check whether the start of a response body looks like SSE.
+ * SSE can start with "data: ", "event: ", or ": " (comment/heartbeat).
+ */
+export function looksLikeSse(text: string): boolean {
+  const start = text.trimStart();
+  return start.startsWith("data:") || start.startsWith("event:") || start.startsWith(":");
+}
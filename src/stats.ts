@@ -12,13 +12,23 @@ import type { UsageEntry } from "./logger.js";
 
 const LOG_DIR = join(homedir(), ".openclaw", "clawrouter", "logs");
 
+export type TokenTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  /** Requests whose cost came from provider-reported usage (the rest are estimates) */
+  reportedRequests: number;
+};
+
 export type DailyStats = {
   date: string;
   totalRequests: number;
   totalCost: number;
+  totalEstimatedCost: number;
   totalBaselineCost: number;
   totalSavings: number;
   avgLatencyMs: number;
+  tokens: TokenTotals;
   byTier: Record<string, { count: number; cost: number }>;
   byModel: Record<string, { count: number; cost: number }>;
 };
@@ -27,11 +37,13 @@ export type AggregatedStats = {
   period: string;
   totalRequests: number;
   totalCost: number;
+  totalEstimatedCost: number;
   totalBaselineCost: number;
   totalSavings: number;
   savingsPercentage: number;
   avgLatencyMs: number;
   avgCostPerRequest: number;
+  tokens: TokenTotals;
   byTier: Record<string, { count: number; cost: number; percentage: number }>;
   byModel: Record<string, { count: number; cost: number; percentage: number }>;
   dailyBreakdown: DailyStats[];
@@ -53,9 +65,15 @@ async function parseLogFile(filePath: string): Promise<UsageEntry[]> {
         model: entry.model || "unknown",
         tier: entry.tier || "UNKNOWN",
         cost: entry.cost || 0,
+        estimatedCost: entry.estimatedCost ?? entry.cost ?? 0,
         baselineCost: entry.baselineCost || entry.cost || 0,
         savings: entry.savings || 0,
         latencyMs: entry.latencyMs || 0,
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        cachedTokens: entry.cachedTokens,
+        provider: entry.provider,
+        sessionId: entry.sessionId,
       };
     });
   } catch {
@@ -78,12 +96,28 @@ async function getLogFiles(): Promise<string[]> {
   }
 }
 
+/**
+ * Read all usage entries from log files dated on or after `fromDate` (YYYY-MM-DD).
+ */
+export async function getUsageEntriesSince(fromDate: string): Promise<UsageEntry[]> {
+  const files = (await getLogFiles()).filter((f) => f.slice(6, 16) >= fromDate);
+  const entries: UsageEntry[] = [];
+  for (const file of files) entries.push(...(await parseLogFile(join(LOG_DIR, file))));
+  return entries;
+}
+
 /**
  * Aggregate stats for a single day.
  */
 function aggregateDay(date: string, entries: UsageEntry[]): DailyStats {
   const byTier: Record<string, { count: number; cost: number }> = {};
   const byModel: Record<string, { count: number; cost: number }> = {};
+  const tokens: TokenTotals = {
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    reportedRequests: 0,
+  };
   let totalLatency = 0;
 
   for (const entry of entries) {
@@ -98,18 +132,29 @@ function aggregateDay(date: string, entries: UsageEntry[]): DailyStats {
     byModel[entry.model].cost += entry.cost;
 
     totalLatency += entry.latencyMs;
+
+    // Token totals (only entries with provider-reported usage)
+    if (entry.promptTokens !== undefined || entry.completionTokens !== undefined) {
+      tokens.promptTokens += entry.promptTokens || 0;
+      tokens.completionTokens += entry.completionTokens || 0;
+      tokens.cachedTokens += entry.cachedTokens || 0;
+      tokens.reportedRequests++;
+    }
   }
 
   const totalCost = entries.reduce((sum, e) => sum + e.cost, 0);
+  const totalEstimatedCost = entries.reduce((sum, e) => sum + (e.estimatedCost ?? e.cost), 0);
   const totalBaselineCost = entries.reduce((sum, e) => sum + e.baselineCost, 0);
 
   return {
     date,
     totalRequests: entries.length,
     totalCost,
+    totalEstimatedCost,
     totalBaselineCost,
     totalSavings: totalBaselineCost - totalCost,
     avgLatencyMs: entries.length > 0 ? totalLatency / entries.length : 0,
+    tokens,
     byTier,
     byModel,
   };
@@ -127,8 +172,15 @@ export async function getStats(days: number = 7): Promise<AggregatedStats> {
   const allByModel: Record<string, { count: number; cost: number }> = {};
   let totalRequests = 0;
   let totalCost = 0;
+  let totalEstimatedCost = 0;
   let totalBaselineCost = 0;
   let totalLatency = 0;
+  const tokens: TokenTotals = {
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    reportedRequests: 0,
+  };
 
   for (const file of filesToRead) {
     const date = file.replace("usage-", "").replace(".jsonl", "");
@@ -142,8 +194,13 @@ export async function getStats(days: number = 7): Promise<AggregatedStats> {
 
     totalRequests += dayStats.totalRequests;
     totalCost += dayStats.totalCost;
+    totalEstimatedCost += dayStats.totalEstimatedCost;
     totalBaselineCost += dayStats.totalBaselineCost;
     totalLatency += dayStats.avgLatencyMs * dayStats.totalRequests;
+    tokens.promptTokens += dayStats.tokens.promptTokens;
+    tokens.completionTokens += dayStats.tokens.completionTokens;
+    tokens.cachedTokens += dayStats.tokens.cachedTokens;
+    tokens.reportedRequests += dayStats.tokens.reportedRequests;
 
     // Merge tier stats
     for (const [tier, stats] of Object.entries(dayStats.byTier)) {
@@ -186,11 +243,13 @@ export async function getStats(days: number = 7): Promise<AggregatedStats> {
     period: days === 1 ? "today" : `last ${days} days`,
     totalRequests,
     totalCost,
+    totalEstimatedCost,
     totalBaselineCost,
     totalSavings,
     savingsPercentage,
     avgLatencyMs: totalRequests > 0 ? totalLatency / totalRequests : 0,
     avgCostPerRequest: totalRequests > 0 ? totalCost / totalRequests : 0,
+    tokens,
     byTier: byTierWithPercentage,
     byModel: byModelWithPercentage,
     dailyBreakdown: dailyBreakdown.reverse(), // Oldest first for charts
@@ -212,6 +271,7 @@ export function formatStatsAscii(stats: AggregatedStats): string {
   lines.push(`║  Period: ${stats.period.padEnd(49)}║`);
   lines.push(`║  Total Requests: ${stats.totalRequests.toString().padEnd(41)}║`);
   lines.push(`║  Total Cost: $${stats.totalCost.toFixed(4).padEnd(43)}║`);
+  lines.push(`║  Estimated Cost: $${stats.totalEstimatedCost.toFixed(4).padEnd(39)}║`);
   lines.push(`║  Baseline Cost (Opus): $${stats.totalBaselineCost.toFixed(4).padEnd(33)}║`);
   lines.push(
     `║  💰 Total Saved: $${stats.totalSavings.toFixed(4)} (${stats.savingsPercentage.toFixed(1)}%)`.padEnd(
@@ -219,12 +279,22 @@ export function formatStatsAscii(stats: AggregatedStats): string {
     ) + "║",
   );
   lines.push(`║  Avg Latency: ${stats.avgLatencyMs.toFixed(0)}ms`.padEnd(61) + "║");
+  lines.push(
+    `║  Tokens: ${stats.tokens.promptTokens} in (${stats.tokens.cachedTokens} cached) / ${stats.tokens.completionTokens} out`.padEnd(
+      61,
+    ) + "║",
+  );
+  lines.push(
+    `║  Usage reported: ${stats.tokens.reportedRequests}/${stats.totalRequests} requests`.padEnd(
+      61,
+    ) + "║",
+  );
 
   // Tier breakdown
   lines.push("╠════════════════════════════════════════════════════════════╣");
   lines.push("║  Routing by Tier:                                          ║");
 
-  const tierOrder = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING"];
+  const tierOrder = ["SIMPLE", "MEDIUM", "COMPLEX", "REASONING", "DIRECT"];
   for (const tier of tierOrder) {
     const data = stats.byTier[tier];
     if (data) {
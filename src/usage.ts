@@ -0,0 +1,73 @@
+/**
+ * Token Usage & Cost
+ *
+ * Reads the `usage` object providers report (non-streaming bodies and the
+ * final stream chunk, both already in OpenAI shape) and prices it with the
+ * model's per-1M-token rates. Used for logging real cost next to the
+ * router's pre-request estimate.
+ */
+
+import type { ModelPricing } from "./router/index.js";
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  /** Subset of promptTokens served from the provider's prompt cache */
+  cachedTokens: number;
+};
+
+type OpenAIUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+};
+
+/**
+ * Parse an OpenAI-format usage object. Returns undefined when absent or empty.
+ */
+export function parseUsage(raw: unknown): TokenUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const usage = raw as OpenAIUsage;
+  if (typeof usage.prompt_tokens !== "number" && typeof usage.completion_tokens !== "number") {
+    return undefined;
+  }
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
+
+/**
+ * Pull usage out of an outgoing SSE line.
+ * `usageOnly` is true for the dedicated usage chunk (`choices: []`) that
+ * `stream_options.include_usage` adds at the end of a stream.
+ */
+export function parseUsageChunk(
+  line: string,
+): { usage: TokenUsage; usageOnly: boolean } | undefined {
+  if (!line.startsWith("data: {") || !line.includes('"usage"')) return undefined;
+  try {
+    const chunk = JSON.parse(line.slice(6)) as { usage?: unknown; choices?: unknown[] };
+    const usage = parseUsage(chunk.usage);
+    if (!usage) return undefined;
+    return { usage, usageOnly: !chunk.choices || chunk.choices.length === 0 };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Dollar cost of a request. Cached prompt tokens are billed at the model's
+ * cached-input rate, or the input rate if the catalog has none.
+ */
+export function computeCost(usage: TokenUsage, pricing: ModelPricing | undefined): number {
+  if (!pricing) return 0;
+  const cached = Math.min(usage.cachedTokens, usage.promptTokens);
+  const cachedPrice = pricing.cachedInputPrice ?? pricing.inputPrice;
+  return (
+    ((usage.promptTokens - cached) / 1_000_000) * pricing.inputPrice +
+    (cached / 1_000_000) * cachedPrice +
+    (usage.completionTokens / 1_000_000) * pricing.outputPrice
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Anthropic stream translation check — Messages API SSE → OpenAI chunks.
+ * No network needed.
+ *
+ * Usage: npx tsx test/anthropic-stream.ts
+ */
+
+import { AnthropicStreamTranslator } from "../src/anthropic.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+type Chunk = {
+  choices: Array<{
+    delta: {
+      role?: string;
+      content?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+};
+
+function translate(events: Array<Record<string, unknown>>): { chunks: Chunk[]; done: boolean } {
+  const translator = new AnthropicStreamTranslator("anthropic/claude-sonnet-4");
+  const out: string[] = [];
+  for (const event of events) {
+    out.push(...translator.push(`event: ${event.type}`));
+    out.push(...translator.push(`data: ${JSON.stringify(event)}`));
+    out.push(...translator.push(""));
+  }
+  const dataLines = out.filter((l) => l.startsWith("data: "));
+  return {
+    chunks: dataLines
+      .filter((l) => l !== "data: [DONE]")
+      .map((l) => JSON.parse(l.slice(6)) as Chunk),
+    done: dataLines[dataLines.length - 1] === "data: [DONE]",
+  };
+}
+
+console.log("\n══ Text stream ══\n");
+{
+  const { chunks, done } = translate([
+    {
+      type: "message_start",
+      message: {
+        id: "msg_1",
+        model: "claude-sonnet-4-20250514",
+        usage: { input_tokens: 25, output_tokens: 1 },
+      },
+    },
+    { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+    { type: "ping" },
+    { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hello" } },
+    { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: ", world" } },
+    { type: "content_block_stop", index: 0 },
+    { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 15 } },
+    { type: "message_stop" },
+  ]);
+
+  ok(chunks[0].choices[0].delta.role === "assistant", "First chunk carries the assistant role");
+  const text = chunks.map((c) => c.choices[0]?.delta.content ?? "").join("");
+  ok(text === "Hello, world", `Text deltas concatenate: "${text}"`);
+  const finish = chunks.find((c) => c.choices[0]?.finish_reason);
+  ok(finish?.choices[0].finish_reason === "stop", "end_turn maps to finish_reason=stop");
+  const usage = chunks[chunks.length - 1].usage;
+  ok(usage?.prompt_tokens === 25 && usage.completion_tokens === 15, "Final chunk reports usage");
+  ok(done, "Stream ends with [DONE]");
+}
+
+console.log("\n══ Tool use stream ══\n");
+{
+  const { chunks } = translate([
+    { type: "message_start", message: { id: "msg_2", usage: { input_tokens: 40 } } },
+    { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+    { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "hmm" } },
+    { type: "content_block_stop", index: 0 },
+    {
+      type: "content_block_start",
+      index: 1,
+      content_block: { type: "tool_use", id: "toolu_1", name: "get_weather", input: {} },
+    },
+    {
+      type: "content_block_delta",
+      index: 1,
+      delta: { type: "input_json_delta", partial_json: '{"city":' },
+    },
+    {
+      type: "content_block_delta",
+      index: 1,
+      delta: { type: "input_json_delta", partial_json: '"Paris"}' },
+    },
+    { type: "content_block_stop", index: 1 },
+    { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 20 } },
+    { type: "message_stop" },
+  ]);
+
+  const toolChunks = chunks.filter((c) => c.choices[0]?.delta.tool_calls);
+  const first = toolChunks[0]?.choices[0].delta.tool_calls?.[0];
+  ok(
+    first?.id === "toolu_1" && first.function?.name === "get_weather",
+    "Tool call start carries id + name",
+  );
+  ok(first?.index === 0, "Tool call index counts tool blocks only");
+  const args = toolChunks
+    .map((c) => c.choices[0].delta.tool_calls?.[0].function?.arguments ?? "")
+    .join("");
+  ok(args === '{"city":"Paris"}', `Argument deltas concatenate: ${args}`);
+  ok(!JSON.stringify(chunks).includes("hmm"), "Thinking deltas are dropped");
+  const finish = chunks.find((c) => c.choices[0]?.finish_reason);
+  ok(
+    finish?.choices[0].finish_reason === "tool_calls",
+    "tool_use maps to finish_reason=tool_calls",
+  );
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
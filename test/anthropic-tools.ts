@@ -0,0 +1,152 @@
+/**
+ * Anthropic tool-calling conversion check — OpenAI tools ⇄ tool_use/tool_result.
+ * No network needed.
+ *
+ * Usage: npx tsx test/anthropic-tools.ts
+ */
+
+import { convertToAnthropicFormat, convertAnthropicResponseToOpenAI } from "../src/anthropic.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+type Block = { type: string; [key: string]: unknown };
+type Message = { role: string; content: Block[] };
+
+console.log("\n══ Request conversion ══\n");
+{
+  const body = convertToAnthropicFormat({
+    model: "claude-sonnet-4-20250514",
+    messages: [
+      { role: "system", content: "You are helpful." },
+      { role: "user", content: "Weather in Paris and Rome?" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+          {
+            id: "call_2",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Rome"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "18C" },
+      { role: "tool", tool_call_id: "call_2", content: "24C" },
+    ],
+    tools: [
+      {
+        type: "function",
+        function: {
+          name: "get_weather",
+          description: "Get weather",
+          parameters: { type: "object", properties: { city: { type: "string" } } },
+        },
+      },
+    ],
+    tool_choice: { type: "function", function: { name: "get_weather" } },
+    parallel_tool_calls: false,
+  });
+
+  ok(body.system === "You are helpful.", "System message extracted");
+
+  const tools = body.tools as Array<Record<string, unknown>>;
+  ok(
+    tools[0].name === "get_weather" && !!tools[0].input_schema && !("function" in tools[0]),
+    "Function tools become Anthropic tools with input_schema",
+  );
+
+  const toolChoice = body.tool_choice as Record<string, unknown>;
+  ok(
+    toolChoice.type === "tool" &&
+      toolChoice.name === "get_weather" &&
+      toolChoice.disable_parallel_tool_use === true,
+    "tool_choice + parallel_tool_calls mapped",
+  );
+
+  const messages = body.messages as Message[];
+  ok(
+    messages.map((m) => m.role).join(",") === "user,assistant,user",
+    "Turns alternate (tool results merged into one user turn)",
+  );
+
+  const toolUses = messages[1].content.filter((b) => b.type === "tool_use");
+  ok(
+    toolUses.length === 2 &&
+      toolUses[0].id === "call_1" &&
+      (toolUses[0].input as { city: string }).city === "Paris",
+    "Assistant tool_calls become tool_use blocks with parsed input",
+  );
+
+  const results = messages[2].content.filter((b) => b.type === "tool_result");
+  ok(
+    results.length === 2 && results[0].tool_use_id === "call_1" && results[1].content === "24C",
+    "Tool messages become tool_result blocks with matching IDs",
+  );
+}
+
+console.log("\n══ tool_choice variants ══\n");
+{
+  const base = {
+    messages: [{ role: "user", content: "hi" }],
+    tools: [{ type: "function", function: { name: "f" } }],
+  };
+  const choice = (tc: unknown) =>
+    (convertToAnthropicFormat({ ...base, tool_choice: tc }).tool_choice as { type?: string })?.type;
+  ok(choice("auto") === "auto", "auto → auto");
+  ok(choice("required") === "any", "required → any");
+  ok(choice("none") === "none", "none → none");
+}
+
+console.log("\n══ Response conversion ══\n");
+{
+  const response = convertAnthropicResponseToOpenAI({
+    id: "msg_1",
+    type: "message",
+    model: "claude-sonnet-4-20250514",
+    content: [
+      { type: "text", text: "Checking." },
+      { type: "tool_use", id: "toolu_9", name: "get_weather", input: { city: "Oslo" } },
+    ],
+    stop_reason: "tool_use",
+    usage: { input_tokens: 12, output_tokens: 7 },
+  }) as {
+    choices: Array<{
+      message: {
+        content: string | null;
+        tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+      };
+      finish_reason: string;
+    }>;
+  };
+
+  const choice = response.choices[0];
+  ok(choice.message.content === "Checking.", "Text content preserved");
+  ok(
+    choice.message.tool_calls?.[0].id === "toolu_9" &&
+      JSON.parse(choice.message.tool_calls[0].function.arguments).city === "Oslo",
+    "tool_use blocks become tool_calls with JSON arguments",
+  );
+  ok(choice.finish_reason === "tool_calls", "stop_reason tool_use → tool_calls");
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,199 @@
+/**
+ * Budget enforcement check — spend windows, soft tier cap, hard rejection.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/budget.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { BudgetTracker } from "../src/budget.js";
+import { route, DEFAULT_ROUTING_CONFIG, type RoutingDecision } from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+console.log("\n══ Spend tracking ══\n");
+{
+  let now = new Date("2026-03-14T10:00:00Z");
+  const tracker = new BudgetTracker(
+    {
+      global: { daily: { soft: 1, hard: 2 }, monthly: { hard: 10 } },
+      providers: { anthropic: { daily: { hard: 0.5 } } },
+      perSession: { daily: { hard: 0.3 } },
+    },
+    () => now,
+  );
+  const spend = (cost: number, provider = "openai", sessionId?: string) =>
+    tracker.record({ timestamp: now.toISOString(), cost, provider, sessionId });
+
+  ok(tracker.enabled, "Tracker enabled when limits are configured");
+  ok(tracker.check().state === "ok", "No spend → ok");
+
+  spend(1.2);
+  const soft = tracker.check();
+  ok(soft.state === "soft" && soft.maxTier === "MEDIUM", "Soft limit caps tier at MEDIUM");
+
+  spend(0.9);
+  const hard = tracker.check();
+  ok(hard.state === "hard" && /global daily/.test(hard.reason ?? ""), `Hard limit: ${hard.reason}`);
+
+  now = new Date("2026-03-15T00:00:01Z");
+  ok(tracker.check().state === "ok", "Daily window resets the next day");
+  ok(tracker.getStatus().global.monthly?.spent === 2.1, "Monthly window keeps the spend");
+
+  spend(0.6, "anthropic");
+  ok(tracker.providerState("anthropic") === "hard", "Provider hard limit tracked separately");
+  ok(tracker.providerState("openai") === "ok", "Other providers unaffected");
+
+  spend(0.35, "openai", "agent-1");
+  ok(tracker.check("agent-1").state === "hard", "Session over its own limit is blocked");
+  ok(tracker.check("agent-2").state === "ok", "Other sessions unaffected");
+  ok(tracker.getStatus().sessions.blocked === 1, "Status counts blocked sessions");
+
+  ok(!new BudgetTracker().enabled, "No limits → disabled");
+}
+
+console.log("\n══ Router tier cap ══\n");
+{
+  const opts = { config: DEFAULT_ROUTING_CONFIG, modelPricing: new Map() };
+  const prompt =
+    "Prove step by step that the algorithm is correct, derive its complexity and formally verify the invariant.";
+  const uncapped = route(prompt, undefined, 4096, opts);
+  const capped = route(prompt, undefined, 4096, { ...opts, maxTier: "SIMPLE" });
+  ok(uncapped.tier !== "SIMPLE", `Uncapped tier: ${uncapped.tier}`);
+  ok(
+    capped.tier === "SIMPLE" && capped.reasoning.includes("capped at SIMPLE"),
+    "maxTier caps the routed tier",
+  );
+}
+
+console.log("\n══ Proxy enforcement ══\n");
+{
+  const upstream = createServer(async (req, res) => {
+    for await (const _ of req) {
+      // drain body
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+  const { startProxy } = await import("../src/proxy.js");
+
+  const post = (port: number, body: Record<string, unknown>) =>
+    fetch(`http://127.0.0.1:${port}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  // Hard limit of $0 → every request is over budget
+  const blocked = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    budgets: { global: { daily: { hard: 0 } } },
+    port: 0,
+  });
+  const res = await post(blocked.port, {
+    model: "auto",
+    messages: [{ role: "user", content: "hi" }],
+  });
+  const json = (await res.json()) as { error?: { type?: string; message?: string } };
+  ok(
+    res.status === 429 && json.error?.type === "budget_exceeded",
+    "Hard limit → 429 budget_exceeded",
+  );
+  const embeddings = await fetch(`http://127.0.0.1:${blocked.port}/v1/embeddings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "openai/text-embedding-3-small", input: "hi" }),
+  });
+  const embeddingsJson = (await embeddings.json()) as { error?: { type?: string } };
+  ok(
+    embeddings.status === 429 && embeddingsJson.error?.type === "budget_exceeded",
+    "…for other /v1 endpoints too",
+  );
+  const health = (await (await fetch(`http://127.0.0.1:${blocked.port}/health`)).json()) as {
+    budget?: { global?: { daily?: { remaining?: number; state?: string } } };
+  };
+  ok(
+    health.budget?.global?.daily?.state === "hard" && health.budget.global.daily.remaining === 0,
+    "/health reports remaining budget",
+  );
+  await blocked.close();
+
+  // Soft limit of $0 → routing capped at SIMPLE
+  let decision: RoutingDecision | undefined;
+  const capped = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    budgets: { global: { daily: { soft: 0 } }, softLimitTier: "SIMPLE" },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+  const prompt =
+    "Prove step by step that the algorithm is correct, derive its complexity and formally verify the invariant.";
+  const cappedRes = await post(capped.port, {
+    model: "auto",
+    messages: [{ role: "user", content: `${prompt} [${Date.now()}]` }],
+  });
+  ok(cappedRes.ok, `Soft limit still serves the request (${cappedRes.status})`);
+  ok(decision?.tier === "SIMPLE", `Soft limit caps the proxy's routing (${decision?.tier})`);
+  await capped.close();
+
+  // Other /v1 endpoints go to the model they name, and their spend counts
+  const tracked = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    budgets: { global: { daily: { hard: 1000 } } },
+    port: 0,
+  });
+  type Health = { budget?: { global?: { daily?: { spent?: number } } } };
+  const spent = async () =>
+    ((await (await fetch(`http://127.0.0.1:${tracked.port}/health`)).json()) as Health).budget
+      ?.global?.daily?.spent ?? 0;
+  const spentBefore = await spent();
+  const completion = await fetch(`http://127.0.0.1:${tracked.port}/v1/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: " OpenAI/GPT-4o-mini ", prompt: `hi [${Date.now()}]` }),
+  });
+  ok(completion.ok, `Other /v1 endpoints reach the upstream (${completion.status})`);
+  ok((await spent()) > spentBefore, "…and their spend counts toward the budget");
+  const unpriced = await fetch(`http://127.0.0.1:${tracked.port}/v1/embeddings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "openai/not-a-priced-model", input: "hi" }),
+  });
+  const unpricedJson = (await unpriced.json()) as { error?: { code?: string } };
+  ok(
+    unpriced.status === 400 && unpricedJson.error?.code === "unpriced_model",
+    "…and an unpriced model is refused rather than logged at $0",
+  );
+  await tracked.close();
+
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
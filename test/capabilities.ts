@@ -0,0 +1,217 @@
+/**
+ * Capability-aware routing check — detection, chain filtering, tier moves, proxy.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/capabilities.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  route,
+  detectCapabilities,
+  filterByCapabilities,
+  DEFAULT_ROUTING_CONFIG,
+  type RoutingDecision,
+} from "../src/router/index.js";
+import { getModelCapabilities } from "../src/models.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const IMAGE_MESSAGE = {
+  role: "user",
+  content: [
+    { type: "text", text: "What is in this picture?" },
+    { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+  ],
+};
+
+console.log("\n══ Detection ══\n");
+{
+  const text = { messages: [{ role: "user", content: "hi" }] };
+  ok(detectCapabilities(text).length === 0, "Plain text needs nothing");
+  ok(detectCapabilities({ messages: [IMAGE_MESSAGE] }).join() === "vision", "Image part → vision");
+  ok(
+    detectCapabilities({
+      ...text,
+      tools: [{ type: "function", function: { name: "f" } }],
+    }).join() === "tools",
+    "tools array → tools",
+  );
+  ok(
+    detectCapabilities({ ...text, tool_choice: "none" }).length === 0,
+    'tool_choice "none" ignored',
+  );
+  ok(
+    detectCapabilities({
+      ...text,
+      response_format: { type: "json_schema", json_schema: {} },
+    }).join() === "structuredOutput",
+    "json_schema → structuredOutput",
+  );
+  ok(
+    detectCapabilities({ ...text, response_format: { type: "json_object" } }).length === 0,
+    "json_object needs no schema support",
+  );
+  ok(
+    detectCapabilities({ ...text, thinking: { type: "enabled", budget_tokens: 1024 } }).join() ===
+      "reasoning",
+    "thinking → reasoning",
+  );
+  ok(
+    detectCapabilities({ ...text, thinking: { type: "disabled" } }).length === 0,
+    "Disabled thinking ignored",
+  );
+}
+
+console.log("\n══ Filtering ══\n");
+{
+  const chain = ["nvidia/gpt-oss-120b", "openai/gpt-4o", "custom/unknown"];
+  const { models, dropped } = filterByCapabilities(chain, ["vision"], getModelCapabilities);
+  ok(models.join() === "openai/gpt-4o,custom/unknown", "Keeps capable and unknown models");
+  ok(dropped.join() === "nvidia/gpt-oss-120b", "Reports dropped models");
+  ok(
+    filterByCapabilities(
+      ["openai/o1-mini", "openai/o3"],
+      ["tools"],
+      getModelCapabilities,
+    ).models.join() === "openai/o3",
+    "Models without function calling dropped for tools",
+  );
+}
+
+console.log("\n══ Router ══\n");
+{
+  const opts = {
+    config: DEFAULT_ROUTING_CONFIG,
+    modelPricing: new Map(),
+    modelCapabilities: getModelCapabilities,
+  };
+  const vision = route("What is in this picture?", undefined, 256, {
+    ...opts,
+    requiredCapabilities: ["vision"],
+  });
+  ok(
+    getModelCapabilities(vision.model)?.includes("vision") ?? false,
+    `Vision request → ${vision.model}`,
+  );
+  ok(vision.reasoning.includes("needs vision: dropped"), "Reasoning records the dropped models");
+
+  const textOnly = { primary: "nvidia/gpt-oss-120b", fallback: ["deepseek/deepseek-chat"] };
+  const config = {
+    ...DEFAULT_ROUTING_CONFIG,
+    tiers: { ...DEFAULT_ROUTING_CONFIG.tiers, SIMPLE: textOnly },
+  };
+  const moved = route("hi", undefined, 256, { ...opts, config, requiredCapabilities: ["vision"] });
+  ok(
+    moved.tier === "MEDIUM" && moved.reasoning.includes("moved to MEDIUM"),
+    `No capable model in SIMPLE → ${moved.tier}`,
+  );
+  ok(
+    getModelCapabilities(moved.model)?.includes("vision") ?? false,
+    `Moved tier picks a vision model (${moved.model})`,
+  );
+
+  const plain = route("hi", undefined, 256, opts);
+  ok(!plain.reasoning.includes("needs"), "No requirements → no filtering");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const hits: string[] = [];
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    hits.push((JSON.parse(raw) as { model: string }).model);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "nvidia/gpt-oss-120b", fallback: ["openai/gpt-4o"] };
+  let decision: RoutingDecision | undefined;
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: { tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier } },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+
+  const send = (messages: unknown[]) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Session-ID": "capability-test" },
+      body: JSON.stringify({ model: "auto", messages }),
+    });
+
+  await send([{ role: "user", content: "hi there" }]);
+  ok(
+    hits[hits.length - 1] === "nvidia/gpt-oss-120b",
+    "Text request uses the primary (and pins it)",
+  );
+
+  const res = await send([IMAGE_MESSAGE]);
+  ok(
+    res.ok && hits[hits.length - 1] === "openai/gpt-4o",
+    "Image request skips the text-only pinned model",
+  );
+  ok(
+    decision?.reasoning.includes("needs vision: dropped nvidia/gpt-oss-120b") ?? false,
+    "Decision reasoning records the filter",
+  );
+
+  // An agentic request whose tier has no reachable model isn't moved to the non-agentic tiers
+  const agentic = { primary: "anthropic/claude-sonnet-4", fallback: [] };
+  decision = undefined;
+  const agenticProxy = await startProxy({
+    apiKeys: { providers: { openai: { apiKey: "sk-test", baseUrl } } },
+    routingConfig: {
+      overrides: { agenticMode: true },
+      tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier },
+      agenticTiers: { SIMPLE: agentic, MEDIUM: agentic, COMPLEX: agentic, REASONING: agentic },
+    },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+  const hitsBefore = hits.length;
+  await fetch(`${agenticProxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi agent" }] }),
+  });
+  ok(
+    decision?.model === "anthropic/claude-sonnet-4" && hits.length === hitsBefore,
+    `Inaccessible agentic primary not rerouted to a non-agentic model (${decision?.model})`,
+  );
+  await agenticProxy.close();
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
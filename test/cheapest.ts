@@ -0,0 +1,229 @@
+/**
+ * Cheapest-capable mode check — request cost estimates, cost ranking, live pricing, proxy.
+ * Uses a mock upstream and a stubbed catalog fetch; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/cheapest.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  route,
+  rankByCost,
+  estimateRequestCost,
+  DEFAULT_ROUTING_CONFIG,
+  type ModelPricing,
+  type RoutingConfig,
+  type RoutingDecision,
+} from "../src/router/index.js";
+import { refreshOpenRouterModels, getLivePricing } from "../src/openrouter-models.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+const cheapestConfig: RoutingConfig = {
+  ...DEFAULT_ROUTING_CONFIG,
+  ranking: { ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: true, mode: "cheapest" },
+};
+
+console.log("\n══ Request cost ══\n");
+{
+  const pricing: ModelPricing = { inputPrice: 2, outputPrice: 8, cachedInputPrice: 0.5 };
+  ok(
+    close(estimateRequestCost(pricing, { input: 1_000_000, cached: 0, output: 0 }), 2),
+    "Uncached input at the input rate",
+  );
+  ok(
+    close(
+      estimateRequestCost(pricing, { input: 1_000_000, cached: 500_000, output: 100_000 }),
+      1 + 0.25 + 0.8,
+    ),
+    "Cached input at the cached rate",
+  );
+  ok(
+    close(
+      estimateRequestCost(
+        { inputPrice: 2, outputPrice: 8 },
+        { input: 1_000_000, cached: 500_000, output: 0 },
+      ),
+      2,
+    ),
+    "No cached price → input rate",
+  );
+}
+
+console.log("\n══ Cost ranking ══\n");
+{
+  const pricing = new Map<string, ModelPricing>([
+    ["a/pricey", { inputPrice: 3, outputPrice: 15 }],
+    ["b/cheap", { inputPrice: 0.5, outputPrice: 1 }],
+    ["c/cached", { inputPrice: 1, outputPrice: 1, cachedInputPrice: 0.05 }],
+    ["d/small", { inputPrice: 0.01, outputPrice: 0.01 }],
+  ]);
+  const windows: Record<string, number> = { "d/small": 8_000 };
+  const chain = ["a/pricey", "b/cheap", "c/cached", "d/small", "e/unpriced"];
+  const rank = (tokens: { input: number; cached: number; output: number }) =>
+    rankByCost(chain, pricing, tokens, (m) => windows[m]).join();
+
+  ok(
+    rank({ input: 2_000, cached: 0, output: 500 }).startsWith("d/small,b/cheap"),
+    "Cheapest first",
+  );
+  ok(rank({ input: 2_000, cached: 0, output: 500 }).endsWith("e/unpriced"), "Unpriced models last");
+  ok(
+    rank({ input: 20_000, cached: 0, output: 500 }).startsWith("b/cheap") &&
+      !rank({ input: 20_000, cached: 0, output: 500 }).includes("d/small"),
+    "Models that can't fit the request dropped",
+  );
+  ok(
+    rank({ input: 20_000, cached: 19_000, output: 500 }).startsWith("c/cached"),
+    "Cached-input pricing changes the winner for long conversations",
+  );
+}
+
+console.log("\n══ Router ══\n");
+{
+  const opts = { config: cheapestConfig, modelPricing: new Map<string, ModelPricing>() };
+  for (const [id, inputPrice, outputPrice] of [
+    ["openai/gpt-4o", 2.5, 10],
+    ["openai/gpt-4o-mini", 0.15, 0.6],
+  ] as const) {
+    opts.modelPricing.set(id, { inputPrice, outputPrice });
+  }
+  const tier = { primary: "openai/gpt-4o", fallback: ["openai/gpt-4o-mini"] };
+  const config = { ...cheapestConfig, tiers: { ...cheapestConfig.tiers, SIMPLE: tier } };
+  const decision = route("hi", undefined, 256, { ...opts, config });
+  ok(decision.model === "openai/gpt-4o-mini", `Cheapest model picked (${decision.model})`);
+  ok(
+    decision.reasoning.includes("cheapest: openai/gpt-4o-mini over openai/gpt-4o"),
+    "Reasoning notes it",
+  );
+  const weighted = route("hi", undefined, 256, {
+    ...opts,
+    config: { ...config, ranking: { ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: true } },
+  });
+  ok(
+    weighted.model === "openai/gpt-4o",
+    "Weighted mode keeps the configured primary without health data",
+  );
+}
+
+console.log("\n══ Live pricing ══\n");
+{
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = (async () =>
+    new Response(
+      JSON.stringify({
+        data: [
+          {
+            id: "openai/gpt-4o",
+            pricing: { prompt: "0.000002", completion: "0.000008", input_cache_read: "0.000001" },
+          },
+          { id: "openrouter/auto", pricing: { prompt: "-1", completion: "-1" } },
+        ],
+      }),
+      { status: 200, headers: { "Content-Type": "application/json" } },
+    )) as typeof fetch;
+  try {
+    await refreshOpenRouterModels("sk-or-test");
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+  const live = getLivePricing().get("openai/gpt-4o");
+  ok(
+    !!live &&
+      close(live.inputPrice, 2) &&
+      close(live.outputPrice, 8) &&
+      close(live.cachedInputPrice!, 1),
+    "Catalog per-token prices converted to per-1M",
+  );
+  ok(!getLivePricing().has("openrouter/auto"), "Variable-price entries skipped");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const hits: string[] = [];
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    hits.push((JSON.parse(raw) as { model: string }).model);
+    res.writeHead(503, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message: "Service temporarily unavailable" } }));
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = {
+    primary: "openai/gpt-4o",
+    fallback: ["anthropic/claude-sonnet-4", "openai/gpt-4o-mini"],
+  };
+  let decision: RoutingDecision | undefined;
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: {
+      tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier },
+      ranking: { ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: true, mode: "cheapest" },
+    },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+
+  await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi" }] }),
+  });
+  ok(
+    decision?.reasoning.includes("cheapest: openai/gpt-4o-mini") ?? false,
+    "Proxy routes to the cheapest model",
+  );
+  ok(
+    hits.join() === "openai/gpt-4o-mini,openai/gpt-4o,anthropic/claude-sonnet-4",
+    `Fallback order follows cost (${hits.join(" → ")})`,
+  );
+
+  await proxy.close();
+
+  // Switched off, the mode is ignored everywhere — chain, reasoning, pricing
+  hits.length = 0;
+  const disabled = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: {
+      tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier },
+      ranking: { ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: false, mode: "cheapest" },
+    },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+  await fetch(`${disabled.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hello" }] }),
+  });
+  ok(
+    hits.join() === "openai/gpt-4o,anthropic/claude-sonnet-4,openai/gpt-4o-mini",
+    `Ranking disabled keeps the configured order (${hits.join(" → ")})`,
+  );
+  ok(!decision?.reasoning.includes("cheapest"), "…and says nothing about cost ranking");
+  await disabled.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,283 @@
+/**
+ * Circuit breaker check — state transitions, rate-limit headers, proxy skipping.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/circuit-breaker.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  parseRetryAfter,
+  rateLimitBackoff,
+} from "../src/circuit-breaker.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+console.log("\n══ State transitions ══\n");
+{
+  let now = 0;
+  const breaker = new CircuitBreaker({ ...DEFAULT_CIRCUIT_BREAKER_CONFIG, minCalls: 4 }, () => now);
+
+  breaker.recordSuccess(100);
+  breaker.recordFailure({ reason: "503" });
+  breaker.recordFailure({ reason: "503" });
+  ok(breaker.getState() === "closed", "Below minCalls stays closed");
+  breaker.recordFailure({ reason: "503" });
+  ok(breaker.getState() === "open", "Error rate over threshold opens the circuit");
+  ok(!breaker.canAttempt(), "Open circuit rejects attempts");
+
+  now += DEFAULT_CIRCUIT_BREAKER_CONFIG.openDurationMs;
+  ok(breaker.getState() === "half-open" && breaker.canAttempt(), "Cooldown → half-open");
+  breaker.onAttempt();
+  ok(!breaker.canAttempt(), "Only one probe at a time");
+  breaker.recordFailure({ reason: "503" });
+  ok(breaker.getState() === "open", "Failed probe re-opens");
+
+  now += DEFAULT_CIRCUIT_BREAKER_CONFIG.openDurationMs;
+  breaker.onAttempt();
+  breaker.release();
+  ok(
+    breaker.getState() === "half-open" && breaker.canAttempt(),
+    "Released probe (request error) lets the next request probe",
+  );
+  breaker.onAttempt();
+  breaker.recordSuccess(200);
+  ok(breaker.getState() === "closed", "Successful probe closes");
+
+  breaker.recordFailure({ reason: "429", status: 429, retryAfterMs: 120_000 });
+  ok(breaker.getState() === "open", "429 opens immediately");
+  now += 60_000;
+  ok(breaker.getState() === "open", "Retry-After keeps it open past the default cooldown");
+  now += 60_000;
+  ok(breaker.getState() === "half-open", "Half-open once Retry-After elapses");
+}
+
+console.log("\n══ Only 429s and 503s with Retry-After are rate limits ══\n");
+{
+  const breaker = new CircuitBreaker(DEFAULT_CIRCUIT_BREAKER_CONFIG);
+  breaker.recordFailure({ reason: "500", status: 500, retryAfterMs: 360_000 });
+  ok(breaker.getState() === "closed", "500 with a backoff goes through the error-rate window");
+  breaker.recordFailure({ reason: "503", status: 503, retryAfterMs: 60_000 });
+  ok(breaker.getState() === "open", "503 with Retry-After opens immediately");
+
+  const openai = new Headers({ "x-ratelimit-reset-requests": "6m0s" });
+  ok(rateLimitBackoff(500, openai) === undefined, "500 ignores x-ratelimit-reset-requests");
+  ok(rateLimitBackoff(503, openai) === undefined, "503 without Retry-After has no backoff");
+  ok(rateLimitBackoff(503, new Headers({ "retry-after": "5" })) === 5000, "503 with Retry-After");
+  ok(rateLimitBackoff(429, openai) === 360_000, "429 reads the reset headers");
+}
+
+console.log("\n══ Slow calls ══\n");
+{
+  const breaker = new CircuitBreaker({ ...DEFAULT_CIRCUIT_BREAKER_CONFIG, minCalls: 3 });
+  for (let i = 0; i < 3; i++) breaker.recordSuccess(DEFAULT_CIRCUIT_BREAKER_CONFIG.slowCallMs + 1);
+  ok(breaker.getState() === "open", "Slow-call rate over threshold opens the circuit");
+}
+
+console.log("\n══ Rate-limit headers ══\n");
+{
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  const h = (init: Record<string, string>) => parseRetryAfter(new Headers(init), now);
+  ok(h({ "retry-after": "30" }) === 30_000, "retry-after seconds");
+  ok(h({ "retry-after": "Thu, 01 Jan 2026 00:01:00 GMT" }) === 60_000, "retry-after HTTP date");
+  ok(h({ "retry-after-ms": "1500" }) === 1500, "retry-after-ms");
+  ok(h({ "x-ratelimit-reset": String(now / 1000 + 45) }) === 45_000, "x-ratelimit-reset epoch");
+  ok(
+    h({ "x-ratelimit-reset-requests": "1s", "x-ratelimit-reset-tokens": "6m0s" }) === 360_000,
+    "OpenAI reset durations (longest wins)",
+  );
+  ok(h({}) === undefined, "No headers → undefined");
+}
+
+console.log("\n══ Registry ══\n");
+{
+  const registry = new CircuitBreakerRegistry({ minCalls: 2 });
+  registry.recordFailure("a/x", "a", { reason: "boom" });
+  registry.recordFailure("a/y", "a", { reason: "boom" });
+  ok(!registry.canAttempt("a/z", "a"), "Provider circuit blocks its other models");
+  const chain = registry.filterChain(["a/z", "b/z"], (m) => m.split("/")[0]);
+  ok(chain.join() === "b/z", "filterChain drops blocked models");
+  const all = registry.filterChain(["a/z"], (m) => m.split("/")[0]);
+  ok(all.join() === "a/z", "filterChain keeps the chain when everything is blocked");
+}
+
+console.log("\n══ Proxy skips open circuits ══\n");
+{
+  const hits: Record<string, number> = {};
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const model = (JSON.parse(raw) as { model: string }).model;
+    hits[model] = (hits[model] ?? 0) + 1;
+    if (model === "openai/gpt-4o") {
+      res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "120" });
+      res.end(JSON.stringify({ error: { message: "Rate limit reached" } }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "openai/gpt-4o", fallback: ["openai/gpt-4o-mini"] };
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: { tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier } },
+    port: 0,
+  });
+
+  const send = async (n: number) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: `hi ${n}` }] }),
+    });
+
+  const first = await send(1);
+  ok(first.ok && hits["openai/gpt-4o"] === 1, "First request falls back after the 429");
+  const second = await send(2);
+  ok(
+    second.ok && hits["openai/gpt-4o"] === 1 && hits["openai/gpt-4o-mini"] === 2,
+    "Second request skips the open circuit",
+  );
+
+  const health = (await (await fetch(`${proxy.baseUrl}/health`)).json()) as {
+    circuits?: { models?: Record<string, { state: string; openUntil?: string }> };
+  };
+  const circuit = health.circuits?.models?.["openai/gpt-4o"];
+  ok(circuit?.state === "open" && !!circuit.openUntil, "/health exposes circuit state");
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══ Server errors with OpenAI reset headers ══\n");
+{
+  const upstream = createServer(async (req, res) => {
+    for await (const _ of req) { /* drain */ }
+    res.writeHead(500, { "Content-Type": "application/json", "x-ratelimit-reset-requests": "6m0s" });
+    res.end(JSON.stringify({ error: { message: "Internal server error" } }));
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "openai/gpt-4o", fallback: [] };
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: { tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier } },
+    port: 0,
+  });
+
+  await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi" }] }),
+  });
+  const health = (await (await fetch(`${proxy.baseUrl}/health`)).json()) as {
+    circuits?: { models?: Record<string, { state: string }> };
+  };
+  ok(
+    health.circuits?.models?.["openai/gpt-4o"]?.state === "closed",
+    "A 500 with x-ratelimit-reset-requests leaves the circuit closed",
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══ Half-open probe ending in a request error ══\n");
+{
+  let mode: "rate-limit" | "bad-request" | "ok" = "rate-limit";
+  const hits: Record<string, number> = {};
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const model = (JSON.parse(raw) as { model: string }).model;
+    hits[model] = (hits[model] ?? 0) + 1;
+    if (model === "openai/gpt-4o" && mode === "rate-limit") {
+      res.writeHead(429, { "Content-Type": "application/json", "Retry-After-Ms": "50" });
+      res.end(JSON.stringify({ error: { message: "Rate limit reached" } }));
+      return;
+    }
+    if (model === "openai/gpt-4o" && mode === "bad-request") {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "Invalid value for 'temperature'" } }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "openai/gpt-4o", fallback: ["openai/gpt-4o-mini"] };
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: { tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier } },
+    port: 0,
+  });
+  const send = async (n: number) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: `probe ${n}` }] }),
+    });
+
+  await send(1);
+  await new Promise((r) => setTimeout(r, 80));
+  mode = "bad-request";
+  const probe = await send(2);
+  ok(probe.status === 400 && hits["openai/gpt-4o"] === 2, "Half-open probe gets a request error");
+
+  mode = "ok";
+  const next = await send(3);
+  ok(next.ok && hits["openai/gpt-4o"] === 3, "Next request probes again instead of skipping");
+  const health = (await (await fetch(`${proxy.baseUrl}/health`)).json()) as {
+    circuits?: { models?: Record<string, { state: string }> };
+  };
+  ok(health.circuits?.models?.["openai/gpt-4o"]?.state === "closed", "Successful probe closes");
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
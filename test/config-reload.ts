@@ -0,0 +1,378 @@
+/**
+ * Config reload check — POST /admin/reload auth, key and routing swaps,
+ * invalid configs rejected, in-flight requests finishing on the old config,
+ * custom providers swapped with the rest, the watcher on config.json and key
+ * files (without running apiKeyCommands), strict re-reading of config.json.
+ * Uses a mock upstream and temp files; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/config-reload.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { CONFIG_FILE } from "../src/api-keys.js";
+import { getModelContextWindow } from "../src/models.js";
+import {
+  configSourceFiles,
+  isAdminAuthorized,
+  loadReloadableConfig,
+  watchConfigFile,
+  type ReloadableConfig,
+} from "../src/config-reload.js";
+import { SECRETS_FILE } from "../src/secrets.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+console.log("\n══ Admin token ══\n");
+{
+  ok(isAdminAuthorized("Bearer s3cret", "s3cret"), "Matching bearer token");
+  ok(isAdminAuthorized("bearer  s3cret ", "s3cret"), "Scheme case and spacing ignored");
+  ok(!isAdminAuthorized("Bearer s3cre", "s3cret"), "Wrong length rejected");
+  ok(!isAdminAuthorized("Bearer s3creT", "s3cret"), "Wrong token rejected");
+  ok(!isAdminAuthorized("s3cret", "s3cret"), "Missing scheme rejected");
+  ok(!isAdminAuthorized(undefined, "s3cret"), "No header rejected");
+}
+
+console.log("\n══ Strict re-read ══\n");
+{
+  mkdirSync(dirname(CONFIG_FILE), { recursive: true });
+  writeFileSync(
+    CONFIG_FILE,
+    JSON.stringify({
+      providers: { openai: { apiKey: "sk-file" } },
+      routing: { overrides: { ambiguousDefaultTier: "COMPLEX" } },
+    }),
+  );
+  const loaded = loadReloadableConfig({ routing: { ranking: { mode: "cheapest" } } });
+  ok(loaded.apiKeys.providers.openai?.apiKey === "sk-file", "Keys read from config.json");
+  ok(
+    loaded.routingConfig?.overrides?.ambiguousDefaultTier === "COMPLEX" &&
+      loaded.routingConfig.ranking?.mode === "cheapest",
+    "config.json routing merged with plugin routing",
+  );
+  writeFileSync(CONFIG_FILE, '{ "providers": ');
+  let error = "";
+  try {
+    loadReloadableConfig();
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  ok(error.includes("not valid JSON"), "Half-written config.json is an error, not zero keys");
+  writeFileSync(CONFIG_FILE, "{}");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const seen: Array<{ model: string; key: string }> = [];
+  let hold: (() => void) | undefined;
+  let onHold: (() => void) | undefined;
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { model, messages } = JSON.parse(body) as {
+        model: string;
+        messages: Array<{ content: string }>;
+      };
+      seen.push({ model, key: String(req.headers.authorization) });
+      const reply = () => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            id: "c1",
+            object: "chat.completion",
+            model,
+            choices: [
+              { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+            ],
+          }),
+        );
+      };
+      if (messages[0].content.startsWith("slow")) {
+        hold = reply;
+        onHold?.();
+      } else {
+        reply();
+      }
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const all = (primary: string) => ({
+    SIMPLE: { primary, fallback: [] },
+    MEDIUM: { primary, fallback: [] },
+    COMPLEX: { primary, fallback: [] },
+    REASONING: { primary, fallback: [] },
+  });
+  const configFor = (apiKey: string, model: string): ReloadableConfig => ({
+    apiKeys: { providers: { openai: { apiKey, baseUrl } } },
+    routingConfig: { tiers: all(model) },
+  });
+
+  const { startProxy } = await import("../src/proxy.js");
+  let next: ReloadableConfig = configFor("sk-one", "openai/gpt-4o");
+  const proxy = await startProxy({
+    ...next,
+    loadConfig: () => next,
+    adminToken: "s3cret",
+    port: 0,
+  });
+
+  const send = (content: string) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content }] }),
+    });
+  const reload = (token?: string) =>
+    fetch(`${proxy.baseUrl}/admin/reload`, {
+      method: "POST",
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  const last = () => seen[seen.length - 1];
+
+  await send("hi 1");
+  ok(last().model === "gpt-4o" && last().key === "Bearer sk-one", "Starts on the initial config");
+
+  next = configFor("sk-two", "openai/gpt-4o-mini");
+  ok((await reload()).status === 401, "No token → 401");
+  ok((await reload("nope")).status === 401, "Wrong token → 401");
+  await send("hi 2");
+  ok(last().key === "Bearer sk-one", "Nothing swapped without auth");
+
+  const res = await reload("s3cret");
+  const body = (await res.json()) as { ok: boolean; providers: string[]; rules: number };
+  ok(
+    res.status === 200 && body.ok && body.providers.join() === "openai",
+    "Reload → 200 with summary",
+  );
+  await send("hi 3");
+  ok(
+    last().model === "gpt-4o-mini" && last().key === "Bearer sk-two",
+    "New key and routing for new requests",
+  );
+  ok(
+    proxy.apiKeys().providers.openai?.apiKey === "sk-two",
+    "The handle's keys follow the reload (as /keys shows)",
+  );
+
+  next = {
+    ...configFor("sk-three", "openai/gpt-4o"),
+    routingConfig: { rules: [{ match: { prompt: "(" }, action: { tier: "SIMPLE" } }] },
+  };
+  const bad = await reload("s3cret");
+  const badBody = (await bad.json()) as { ok: boolean; error: string };
+  ok(bad.status === 422 && badBody.error.includes("routing.rules[0]"), "Invalid rule → 422");
+  next = { apiKeys: { providers: {} } };
+  ok(!proxy.reload().ok, "No keys → rejected");
+  await send("hi 4");
+  ok(last().key === "Bearer sk-two", "Failed reloads keep the current config");
+
+  const held = new Promise<void>((r) => (onHold = r));
+  const slow = send("slow request");
+  await held;
+  next = configFor("sk-four", "openai/gpt-4.1");
+  ok(proxy.reload().ok, "Reload while a request is in flight");
+  await send("hi 5");
+  ok(last().model === "gpt-4.1", "New request on the new config");
+  hold!();
+  const slowRes = await slow;
+  const slowBody = (await slowRes.json()) as { model: string };
+  ok(
+    slowRes.status === 200 && slowBody.model === "gpt-4o-mini",
+    "In-flight request finished on the old config",
+  );
+
+  const health = (await fetch(`${proxy.baseUrl}/health`).then((r) => r.json())) as {
+    configuredProviders: string[];
+  };
+  ok(health.configuredProviders.join() === "openai", "/health reflects the current keys");
+  await proxy.close();
+
+  const open = await startProxy({ ...configFor("sk-one", "openai/gpt-4o"), port: 0 });
+  const disabled = await fetch(`${open.baseUrl}/admin/reload`, {
+    method: "POST",
+    headers: { Authorization: "Bearer anything" },
+  });
+  ok(disabled.status === 403, "No admin token configured → endpoint disabled");
+  await open.close();
+
+  console.log("\n══ Custom providers ══\n");
+  const customConfig = (vllm: Record<string, unknown>): ReloadableConfig => ({
+    apiKeys: {
+      providers: {
+        openai: { apiKey: "sk-c", baseUrl },
+        vllm: { apiKey: "local", models: [{ id: "llama", contextWindow: 8192 }], ...vllm },
+      },
+    },
+    routingConfig: { tiers: all("vllm/llama") },
+  });
+  next = customConfig({ baseUrl });
+  const custom = await startProxy({ ...next, loadConfig: () => next, port: 0 });
+  const sendCustom = (model: string, content: string) =>
+    fetch(`${custom.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, messages: [{ role: "user", content }] }),
+    });
+  const listed = async () =>
+    (
+      (await fetch(`${custom.baseUrl}/v1/models`).then((r) => r.json())) as {
+        data: Array<{ id: string }>;
+      }
+    ).data.map((m) => m.id);
+
+  await sendCustom("auto", "custom 1");
+  ok(last().model === "llama", "Custom provider routed");
+
+  next = customConfig({});
+  const noUrl = custom.reload();
+  ok(
+    !noUrl.ok && noUrl.error.includes("providers.vllm.baseUrl"),
+    "Dropping a custom provider's baseUrl is rejected, not covered by its old adapter",
+  );
+  ok(
+    (await sendCustom("vllm/llama", "custom 2")).status === 200 &&
+      getModelContextWindow("vllm/llama") === 8192,
+    "Failed reload leaves the catalog and adapters alone",
+  );
+
+  next = { ...configFor("sk-c", "openai/gpt-4o") };
+  const held2 = new Promise<void>((r) => (onHold = r));
+  const slowCustom = sendCustom("vllm/llama", "slow custom");
+  await held2;
+  ok(custom.reload().ok, "Reload without the custom provider");
+  ok(
+    !(await listed()).includes("vllm/llama") && getModelContextWindow("vllm/llama") === undefined,
+    "Its models leave /v1/models and the shared catalog",
+  );
+  ok((await sendCustom("vllm/llama", "custom 3")).status !== 200, "…and can't be called any more");
+  hold!();
+  ok((await slowCustom).status === 200, "In-flight request finished on its own provider");
+  await custom.close();
+
+  console.log("\n══ Watcher ══\n");
+  const dir = mkdtempSync(join(tmpdir(), "clawrouter-reload-"));
+  const file = join(dir, "config.json");
+  const write = (apiKey: string, model: string) =>
+    writeFileSync(file, JSON.stringify({ apiKey, tiers: all(model) }));
+  write("sk-w1", "openai/gpt-4o");
+  const fromFile = (): ReloadableConfig => {
+    const { apiKey, tiers } = JSON.parse(readFileSync(file, "utf-8")) as {
+      apiKey: string;
+      tiers: ReturnType<typeof all>;
+    };
+    return { apiKeys: { providers: { openai: { apiKey, baseUrl } } }, routingConfig: { tiers } };
+  };
+  const watched = await startProxy({
+    ...fromFile(),
+    loadConfig: fromFile,
+    watchConfigFile: file,
+    port: 0,
+  });
+  const sendWatched = (content: string) =>
+    fetch(`${watched.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content }] }),
+    });
+
+  write("sk-w2", "openai/gpt-4o-mini");
+  await sleep(800);
+  await sendWatched("watched 1");
+  ok(last().key === "Bearer sk-w2" && last().model === "gpt-4o-mini", "File edit reloaded");
+  writeFileSync(join(dir, "other.json"), "{}");
+  writeFileSync(file, "{ broken");
+  await sleep(800);
+  await sendWatched("watched 2");
+  ok(last().key === "Bearer sk-w2", "Broken edit ignored, old config kept");
+  await watched.close();
+
+  const keyDir = mkdtempSync(join(tmpdir(), "clawrouter-keys-"));
+  const keyFile = join(keyDir, "openai");
+  writeFileSync(keyFile, "sk-k1");
+  process.env.OPENAI_API_KEY_FILE = keyFile;
+  const sources = configSourceFiles();
+  delete process.env.OPENAI_API_KEY_FILE;
+  ok(
+    sources.includes(CONFIG_FILE) && sources.includes(SECRETS_FILE) && sources.includes(keyFile),
+    "Sources: config.json, the encrypted store and key files",
+  );
+  let changes = 0;
+  const stop = watchConfigFile([file, keyFile], () => changes++, 50);
+  writeFileSync(keyFile, "sk-k2");
+  await sleep(400);
+  ok(changes === 1, "A key file in another directory is watched too");
+  writeFileSync(join(keyDir, "anthropic"), "sk-ant");
+  await sleep(400);
+  ok(changes === 1, "…but not its neighbours");
+  stop();
+
+  // Watcher reloads reuse apiKeyCommand keys; POST /admin/reload runs the commands again
+  const counter = join(keyDir, "runs");
+  const commandConfig = (tier: string) =>
+    JSON.stringify({
+      providers: {
+        openai: {
+          apiKeyCommand: `n=$(( $(cat ${counter} 2>/dev/null || echo 0) + 1 )); echo $n > ${counter}; echo sk-cmd-$n`,
+          baseUrl,
+        },
+      },
+      routing: { tiers: all(tier) },
+    });
+  writeFileSync(CONFIG_FILE, commandConfig("openai/gpt-4o"));
+  const commanded = await startProxy({
+    ...loadReloadableConfig(),
+    loadConfig: (keyOptions) => loadReloadableConfig(undefined, keyOptions),
+    watchConfigFile: CONFIG_FILE,
+    port: 0,
+  });
+  const sendCommanded = (content: string) =>
+    fetch(`${commanded.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content }] }),
+    });
+  writeFileSync(CONFIG_FILE, commandConfig("openai/gpt-4o-mini"));
+  await sleep(800);
+  await sendCommanded("commanded 1");
+  ok(
+    readFileSync(counter, "utf-8").trim() === "1" &&
+      last().key === "Bearer sk-cmd-1" &&
+      last().model === "gpt-4o-mini",
+    "Watcher reload keeps the command's key without running it",
+  );
+  commanded.reload();
+  await sendCommanded("commanded 2");
+  ok(
+    readFileSync(counter, "utf-8").trim() === "2" && last().key === "Bearer sk-cmd-2",
+    "Explicit reload runs the command again",
+  );
+  await commanded.close();
+  writeFileSync(CONFIG_FILE, "{}");
+
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,253 @@
+/**
+ * Routing config schema check — validateRoutingConfig() errors and warnings,
+ * typo suggestions, the schema embedded in openclaw.plugin.json, validation at
+ * proxy startup and on reload.
+ * No network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/config-schema.ts
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  ROUTING_CONFIG_SCHEMA,
+  validateRoutingConfig,
+  formatConfigIssues,
+  DEFAULT_ROUTING_CONFIG,
+  mergeRoutingConfig,
+  applyProfile,
+  buildConversationContext,
+  route,
+} from "../src/router/index.js";
+import { BLOCKRUN_MODELS } from "../src/models.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const knownModels = BLOCKRUN_MODELS.map((m) => m.id);
+const validate = (config: unknown) => validateRoutingConfig(config, { knownModels });
+const errors = (config: unknown) => formatConfigIssues(validate(config).errors);
+const tier = (primary: string, fallback: string[] = []) => ({ primary, fallback });
+
+console.log("\n══ Schema ══\n");
+{
+  const plugin = JSON.parse(
+    readFileSync(new URL("../openclaw.plugin.json", import.meta.url), "utf-8"),
+  ) as { configSchema: { properties: { routing: unknown } } };
+  ok(
+    JSON.stringify(plugin.configSchema.properties.routing) ===
+      JSON.stringify(ROUTING_CONFIG_SCHEMA),
+    "openclaw.plugin.json embeds ROUTING_CONFIG_SCHEMA",
+  );
+  ok(!JSON.stringify(ROUTING_CONFIG_SCHEMA).includes("$ref"), "Self-contained (no $ref)");
+  ok(validate(undefined).errors.length === 0, "No overrides → valid");
+  ok(validate({}).errors.length === 0, "Empty overrides → valid");
+  const defaults = validateRoutingConfig(JSON.parse(JSON.stringify(DEFAULT_ROUTING_CONFIG)));
+  ok(
+    defaults.errors.length === 0,
+    `The default config passes its own schema ${formatConfigIssues(defaults.errors)}`,
+  );
+}
+
+console.log("\n══ Valid partial configs route ══\n");
+{
+  const partial = {
+    scoring: { conversation: { conversationTokenThresholds: { low: 100 } } },
+    profiles: { deep: { scoring: { conversation: { toolCallThresholds: { high: 4 } } } } },
+  };
+  ok(validate(partial).errors.length === 0, "A partial threshold object validates");
+  const config = mergeRoutingConfig(partial as never);
+  const conversation = buildConversationContext([
+    { role: "user", content: "plan the migration" },
+    { role: "assistant", content: "Here is a plan." },
+    { role: "user", content: "go ahead" },
+  ]);
+  const routes = (routingConfig: typeof config) => {
+    try {
+      route("go ahead", undefined, 256, {
+        config: routingConfig,
+        modelPricing: new Map(),
+        conversation,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  ok(routes(config), "…and a multi-turn request routes under it");
+  ok(routes(applyProfile(config, "deep")!), "…in a profile too");
+}
+
+console.log("\n══ Errors ══\n");
+{
+  const typo = errors({ scoring: { tierBoundries: { simpleMedium: 0 } } });
+  ok(
+    typo.includes("routing.scoring.tierBoundries: unknown key (did you mean tierBoundaries?)"),
+    `Typo named with a suggestion (${typo})`,
+  );
+  ok(
+    errors({ scoring: { dimensionWeights: { codePresense: 0.2 } } }).includes(
+      "did you mean codePresence?",
+    ),
+    "Unknown dimension weight",
+  );
+  ok(
+    errors({ banana: 1 }) === "routing.banana: unknown key",
+    "No suggestion when nothing is close",
+  );
+  ok(
+    errors({ tiers: { MEDIUM: { primary: "openai/gpt-4o" } } }) ===
+      "routing.tiers.MEDIUM.fallback: required",
+    "Missing fallback",
+  );
+  ok(
+    errors({ tiers: { MEDUIM: tier("openai/gpt-4o") } }).includes("did you mean MEDIUM?"),
+    "Unknown tier key",
+  );
+  ok(
+    errors({ overrides: { ambiguousDefaultTier: "COMPLX" } }).includes(
+      "must be one of SIMPLE, MEDIUM, COMPLEX, REASONING (did you mean COMPLEX?)",
+    ),
+    "Enum with suggestion",
+  );
+  ok(
+    errors({ overrides: { maxTokensForceComplex: "lots" } }).includes(
+      'expected an integer, got string "lots"',
+    ),
+    "Wrong type",
+  );
+  ok(
+    errors({ scoring: { dimensionWeights: { codePresence: 1.5 } } }).includes("at most 1"),
+    "Weight out of range",
+  );
+  ok(
+    errors({ tiers: { SIMPLE: tier("gpt-4o") } }).includes("provider/model"),
+    "Model ID without a provider",
+  );
+  const unordered = errors({ scoring: { tierBoundaries: { mediumComplex: -0.5 } } });
+  ok(unordered.includes("routing.scoring.tierBoundaries: must increase"), "Unordered boundaries");
+  ok(
+    errors({ scoring: { tokenCountThresholds: { simple: 900, complex: 500 } } }).includes(
+      "simple (900) must be below complex (500)",
+    ),
+    "Token thresholds out of order",
+  );
+  ok(
+    errors({ profiles: { fast: { scoring: { tierBoundaries: { simpleMedium: 0.9 } } } } }).includes(
+      "routing.profiles.fast.scoring.tierBoundaries",
+    ),
+    "Profiles are checked after merging",
+  );
+  const rules = errors({
+    rules: [
+      { match: { prompt: "(" }, action: { tier: "SIMPLE" } },
+      { match: {}, action: {} },
+      { match: {}, action: { profile: "ecco" } },
+      { match: { timeOfDay: "9am" }, action: { tier: "SIMPLE" } },
+    ],
+  });
+  ok(rules.includes("routing.rules[0].match.prompt: invalid regex"), "Bad rule regex");
+  ok(rules.includes("routing.rules[1].action: needs at least 1 key(s)"), "Empty rule action");
+  ok(rules.includes("routing.rules[3].match.timeOfDay"), "Bad time window");
+  ok(!rules.includes("ecco"), "Profiles checked only once the shape is right");
+  ok(
+    errors({ rules: [{ match: {}, action: { profile: "ecco" } }] }).includes(
+      'routing.rules[0].action.profile: unknown profile "ecco" (did you mean eco?)',
+    ),
+    "Unknown rule profile",
+  );
+  ok(
+    errors({ rules: [{ match: {}, action: { profile: "Eco" } }] }) === "",
+    "Rule profiles match case-insensitively",
+  );
+  ok(
+    validate({ scoring: { tierBoundries: {} }, tiers: { SIMPLE: 1 } }).errors.length === 2,
+    "Every issue reported, not just the first",
+  );
+}
+
+console.log("\n══ Warnings ══\n");
+{
+  const unknown = validate({
+    tiers: { MEDIUM: tier("openai/gpt-4o", ["openai/gpt-4o-mni"]) },
+  });
+  ok(unknown.errors.length === 0, "Unknown model is not an error");
+  ok(
+    formatConfigIssues(unknown.warnings) ===
+      'routing.tiers.MEDIUM.fallback[0]: unknown model "openai/gpt-4o-mni" (did you mean openai/gpt-4o-mini?)',
+    "Warning names the path and the closest model",
+  );
+  const everywhere = validate({
+    classifier: { llmModel: "acme/classify" },
+    rules: [{ match: {}, action: { model: "acme/big" } }],
+    profiles: { team: { tiers: { SIMPLE: tier("acme/small") } } },
+  });
+  ok(
+    everywhere.warnings.map((w) => w.path).join() ===
+      "routing.classifier.llmModel,routing.rules[0].action.model,routing.profiles.team.tiers.SIMPLE.primary",
+    "Classifier, rule and profile models checked",
+  );
+  ok(
+    validateRoutingConfig({ tiers: { SIMPLE: tier("acme/small") } }).warnings.length === 0,
+    "No knownModels → no model warnings",
+  );
+  const zeroed = Object.fromEntries(
+    Object.keys(DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights).map((d) => [d, 0.01]),
+  );
+  const scale = validate({ scoring: { dimensionWeights: zeroed } });
+  ok(
+    scale.warnings.some((w) => w.path === "routing.scoring.dimensionWeights"),
+    `Weights far off the default scale (${formatConfigIssues(scale.warnings)})`,
+  );
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const { startProxy } = await import("../src/proxy.js");
+  const apiKeys = {
+    providers: { openai: { apiKey: "sk-test", baseUrl: "http://127.0.0.1:9/v1" } },
+  };
+  let startError = "";
+  try {
+    await startProxy({
+      apiKeys,
+      routingConfig: { scoring: { tierBoundries: {} } } as never,
+      port: 0,
+    });
+  } catch (err) {
+    startError = err instanceof Error ? err.message : String(err);
+  }
+  ok(
+    startError.startsWith("Invalid routing config:") && startError.includes("tierBoundries"),
+    "Startup fails on an invalid config",
+  );
+
+  let next: unknown = { tiers: { SIMPLE: tier("openai/gpt-4o-mini") } };
+  const proxy = await startProxy({
+    apiKeys,
+    routingConfig: next as never,
+    loadConfig: () => ({ apiKeys, routingConfig: next as never }),
+    port: 0,
+  });
+  next = { overrides: { ambiguousDefaultTier: "MEDUIM" } };
+  const result = proxy.reload();
+  ok(!result.ok && result.error.includes("ambiguousDefaultTier"), "Reload rejects it too");
+  next = { tiers: { SIMPLE: tier("openai/gpt-4o-mini", ["acme/unknown"]) } };
+  ok(proxy.reload().ok, "Warnings don't block a reload");
+  await proxy.close();
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
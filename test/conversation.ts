@@ -0,0 +1,256 @@
+/**
+ * Conversation-context classification check — context extraction, history decay,
+ * tool-activity dimensions, proxy.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/conversation.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  route,
+  buildConversationContext,
+  DEFAULT_ROUTING_CONFIG,
+  mergeRoutingConfig,
+  applyProfile,
+  validateRoutingConfig,
+  TIER_RANK,
+  type RoutingDecision,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const DESIGN_DISCUSSION = [
+  { role: "system", content: "You are a helpful assistant." },
+  {
+    role: "user",
+    content:
+      "I want to design a distributed rate limiter for our kubernetes microservices. It must handle 100k requests per second, avoid a single point of failure, and be consistent across regions. Compare token bucket vs sliding window algorithms and explain the tradeoffs for the architecture.",
+  },
+  {
+    role: "assistant",
+    content:
+      "Here is a design: use a sliding window counter backed by a redis cluster with consistent hashing across shards. First, each service instance keeps a local window, then a reconciliation step merges them. The algorithm has O(1) complexity per request.",
+  },
+  {
+    role: "user",
+    content:
+      "What about clock skew between regions and the latency of cross-region replication? Implement the algorithm in TypeScript with async functions and include tests.",
+  },
+  {
+    role: "assistant",
+    content: "```ts\nasync function allow(key: string) { const now = Date.now(); }\n```",
+  },
+  { role: "user", content: "yes, do it" },
+];
+
+const opts = { config: DEFAULT_ROUTING_CONFIG, modelPricing: new Map() };
+/** Weighted rules score, from the "score=X | ..." reasoning */
+const scoreOf = (d: RoutingDecision) => parseFloat(d.reasoning.slice("score=".length));
+
+console.log("\n══ Context extraction ══\n");
+{
+  ok(
+    buildConversationContext([{ role: "user", content: "hi" }]) === undefined,
+    "Single turn → no context",
+  );
+  ok(
+    buildConversationContext([
+      { role: "system", content: "sys" },
+      { role: "user", content: "hi" },
+    ]) === undefined,
+    "System prompt doesn't make a conversation",
+  );
+
+  const ctx = buildConversationContext(DESIGN_DISCUSSION)!;
+  ok(ctx.priorTurns.length === 4, `Earlier user/assistant turns (${ctx.priorTurns.length})`);
+  ok(ctx.priorTurns[0].startsWith("```ts"), "Most recent turn first");
+  ok(!ctx.priorTurns.includes("yes, do it"), "Newest user message excluded");
+
+  const agent = buildConversationContext([
+    { role: "user", content: "fix the failing tests" },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        { id: "a", type: "function", function: { name: "bash", arguments: "{}" } },
+        { id: "b", type: "function", function: { name: "read", arguments: "{}" } },
+      ],
+    },
+    { role: "tool", tool_call_id: "a", content: "x".repeat(4000) },
+    { role: "tool", tool_call_id: "b", content: [{ type: "text", text: "y".repeat(400) }] },
+  ])!;
+  ok(agent.toolCallCount === 2, "Counts assistant tool calls");
+  ok(agent.toolResultTokens === 1100, `Tool-result tokens (${agent.toolResultTokens})`);
+  ok(agent.priorTurns.length === 0, "Tool results aren't prior turns");
+  ok(agent.totalTokens > agent.toolResultTokens, "Total covers the whole conversation");
+}
+
+console.log("\n══ Follow-ups ══\n");
+{
+  const alone = route("yes, do it", "You are a helpful assistant.", 1024, opts);
+  const inContext = route("yes, do it", "You are a helpful assistant.", 1024, {
+    ...opts,
+    conversation: buildConversationContext(DESIGN_DISCUSSION),
+  });
+  ok(alone.tier === "SIMPLE", `Without context: ${alone.tier}`);
+  ok(TIER_RANK[inContext.tier] >= TIER_RANK.MEDIUM, `After a design discussion: ${inContext.tier}`);
+  ok(inContext.reasoning.includes("history ("), "Reasoning shows the history signal");
+
+  const chitChat = buildConversationContext([
+    { role: "user", content: "hi" },
+    { role: "assistant", content: "Hello! How can I help?" },
+    { role: "user", content: "what is the capital of france?" },
+    { role: "assistant", content: "Paris." },
+    { role: "user", content: "thanks" },
+  ]);
+  ok(
+    route("thanks", undefined, 256, { ...opts, conversation: chitChat }).tier === "SIMPLE",
+    "Simple chat stays SIMPLE",
+  );
+
+  const [sys, designQ, designA, ...rest] = DESIGN_DISCUSSION;
+  const smallTalk = [
+    { role: "user", content: "hi" },
+    { role: "assistant", content: "Hello!" },
+    { role: "user", content: "what is 2+2?" },
+    { role: "assistant", content: "4" },
+  ];
+  const score = (messages: typeof DESIGN_DISCUSSION) =>
+    scoreOf(
+      route("yes, do it", undefined, 256, {
+        ...opts,
+        conversation: buildConversationContext(messages),
+      }),
+    );
+  ok(
+    score([sys, ...smallTalk, designQ, designA, rest[rest.length - 1]]) >
+      score([sys, designQ, designA, ...smallTalk, rest[rest.length - 1]]),
+    "Recent turns weigh more than old ones",
+  );
+}
+
+console.log("\n══ Tool activity ══\n");
+{
+  const prompt = "fix the failing tests in the repo";
+  const loop: Array<Record<string, unknown>> = [{ role: "user", content: prompt }];
+  for (let i = 0; i < 12; i++) {
+    loop.push({
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: `c${i}`, type: "function", function: { name: "bash", arguments: "{}" } }],
+    });
+    loop.push({ role: "tool", tool_call_id: `c${i}`, content: "x".repeat(8_000) });
+  }
+  const alone = route(prompt, undefined, 1024, opts);
+  const deep = route(prompt, undefined, 1024, {
+    ...opts,
+    conversation: buildConversationContext(loop),
+  });
+  ok(
+    scoreOf(deep) > scoreOf(alone),
+    `Tool-heavy loop scores higher (${scoreOf(alone)} → ${scoreOf(deep)})`,
+  );
+  ok(
+    deep.reasoning.includes("12 tool calls") && deep.reasoning.includes("tool results ("),
+    "Reasoning shows tool activity",
+  );
+  ok(deep.reasoning.includes("long conversation"), "Reasoning shows conversation length");
+}
+
+console.log("\n══ Partial conversation overrides ══\n");
+{
+  const partial = {
+    scoring: { conversation: { historyDecay: 0.5, toolCallThresholds: { low: 2 } } },
+  } as never;
+  ok(validateRoutingConfig(partial).errors.length === 0, "Partial conversation override validates");
+  const merged = mergeRoutingConfig(partial);
+  ok(
+    merged.scoring.conversation.maxHistoryTurns === 8 &&
+      merged.scoring.conversation.toolCallThresholds.high === 10,
+    "Unset keys and threshold bounds keep their defaults",
+  );
+  const conversation = buildConversationContext(DESIGN_DISCUSSION);
+  let decision: RoutingDecision | undefined;
+  try {
+    decision = route("yes, do it", undefined, 256, { ...opts, config: merged, conversation });
+  } catch {
+    /* reported below */
+  }
+  ok(decision !== undefined, "Multi-turn request routes under the override");
+
+  const withProfile = mergeRoutingConfig({
+    profiles: { chatty: { scoring: { conversation: { historyDecay: 0.9 } } } },
+  } as never);
+  let profiled: RoutingDecision | undefined;
+  try {
+    profiled = route("yes, do it", undefined, 256, {
+      ...opts,
+      config: applyProfile(withProfile, "chatty")!,
+      conversation,
+    });
+  } catch {
+    /* reported below */
+  }
+  ok(profiled !== undefined, "…and under a profile's partial override");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const upstream = createServer(async (req, res) => {
+    for await (const _ of req) void _;
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  let decision: RoutingDecision | undefined;
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+
+  const res = await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: DESIGN_DISCUSSION }),
+  });
+  ok(res.ok, "Request succeeds");
+  ok(
+    !!decision && TIER_RANK[decision.tier] >= TIER_RANK.MEDIUM,
+    `Follow-up routed with its conversation (${decision?.tier})`,
+  );
+  ok(decision?.reasoning.includes("history (") ?? false, "Proxy passes the earlier turns");
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,260 @@
+/**
+ * Custom providers check — models declared under providers.<id>.models:
+ * validation, keyless local servers, routing a tier to a local vLLM-style
+ * server with cloud fallback, aliases, /v1/models, context windows, reload.
+ * Uses mock upstreams; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/custom-providers.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { loadApiKeys, NO_AUTH_KEY, type ApiKeysConfig } from "../src/api-keys.js";
+import { parseCustomProviders, applyCustomProviders } from "../src/custom-providers.js";
+import { getModelCapabilities, getModelContextWindow, resolveModelAlias } from "../src/models.js";
+import { getProviderAdapter } from "../src/providers.js";
+import { formatConfigIssues, type RoutingDecision } from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const errors = (providers: ApiKeysConfig["providers"]) =>
+  formatConfigIssues(parseCustomProviders({ providers }).errors);
+
+console.log("\n══ Validation ══\n");
+{
+  ok(
+    errors({ vllm: { apiKey: "k", models: [{ id: "llama", contextWindow: 8192 }] } }) ===
+      'providers.vllm.baseUrl: required — "vllm" is not a built-in provider',
+    "Unknown provider needs a baseUrl",
+  );
+  const bad = errors({
+    local: {
+      apiKey: "k",
+      baseUrl: "http://127.0.0.1:9/v1",
+      models: [
+        { id: "a" } as never,
+        { id: "b", contextWindow: 8192, inputPrise: 1 } as never,
+        { id: "c", contextWindow: 8192, aliases: ["fast"] },
+        { id: "c", contextWindow: 8192 },
+        { id: "d", contextWindow: 8192, aliases: ["FAST"] },
+      ],
+    },
+  });
+  ok(bad.includes("providers.local.models[0].contextWindow: required"), "Missing context window");
+  ok(
+    bad.includes("providers.local.models[1].inputPrise: unknown key (did you mean inputPrice?)"),
+    "Typo in a model field",
+  );
+  ok(bad.includes('providers.local.models[3].id: duplicate model "local/c"'), "Duplicate model");
+  ok(
+    bad.includes('providers.local.models[4].aliases: alias "FAST" already points to local/c'),
+    "Duplicate alias",
+  );
+  ok(
+    errors({ openai: { apiKey: "k", models: [{ id: "gpt-4o", contextWindow: 1 }] } }) ===
+      'providers.openai.models[0].id: duplicate model "openai/gpt-4o"',
+    "Built-in model can't be redeclared",
+  );
+  const extra = parseCustomProviders({
+    providers: { openai: { apiKey: "k", models: [{ id: "gpt-6", contextWindow: 1_000_000 }] } },
+  });
+  ok(
+    extra.errors.length === 0 &&
+      extra.adapters.length === 0 &&
+      extra.models[0].id === "openai/gpt-6",
+    "Extra models on a built-in provider reuse its adapter",
+  );
+
+  const keys = loadApiKeys({
+    providers: {
+      ollama: {
+        baseUrl: "http://127.0.0.1:11434/v1",
+        models: [{ id: "qwen3", contextWindow: 32768 }],
+      },
+    },
+  });
+  ok(keys.providers.ollama?.apiKey === NO_AUTH_KEY, "Keyless local server gets a placeholder key");
+}
+
+console.log("\n══ Catalog ══\n");
+{
+  const custom = parseCustomProviders({
+    providers: {
+      groq: {
+        apiKey: "gsk",
+        baseUrl: "https://api.groq.com/openai/v1",
+        models: [
+          {
+            id: "llama-3.3-70b",
+            inputPrice: 0.59,
+            outputPrice: 0.79,
+            contextWindow: 131072,
+            vision: true,
+            tools: false,
+            aliases: ["groq"],
+          },
+        ],
+      },
+    },
+  });
+  applyCustomProviders(custom);
+  ok(getProviderAdapter("groq") !== undefined, "OpenAI-compatible adapter registered");
+  ok(getModelContextWindow("groq/llama-3.3-70b") === 131072, "Context window known");
+  ok(
+    getModelCapabilities("groq/llama-3.3-70b")?.join() === "vision,structuredOutput",
+    "Capability flags honoured",
+  );
+  ok(resolveModelAlias("Groq") === "groq/llama-3.3-70b", "Alias resolves");
+  applyCustomProviders(parseCustomProviders({ providers: {} }));
+  ok(getModelContextWindow("groq/llama-3.3-70b") === undefined, "Re-applying replaces the catalog");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const hits: Array<{ server: string; model: string; auth: string }> = [];
+  let localDown = false;
+  const mock = (server: string) =>
+    createServer((req, res) => {
+      let body = "";
+      req.on("data", (c) => (body += c));
+      req.on("end", () => {
+        const { model } = JSON.parse(body) as { model: string };
+        hits.push({ server, model, auth: String(req.headers.authorization) });
+        if (server === "local" && localDown) {
+          res.writeHead(503);
+          res.end("service unavailable");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            id: "c1",
+            object: "chat.completion",
+            model,
+            choices: [
+              { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+            ],
+          }),
+        );
+      });
+    });
+  const local = mock("local");
+  const cloud = mock("cloud");
+  const listen = async (server: ReturnType<typeof mock>) => {
+    await new Promise<void>((r) => server.listen(0, "127.0.0.1", () => r()));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  };
+  const localUrl = await listen(local);
+  const cloudUrl = await listen(cloud);
+
+  const providers = (models: unknown[]): ApiKeysConfig["providers"] => ({
+    vllm: { apiKey: NO_AUTH_KEY, baseUrl: localUrl, models: models as never },
+    openai: { apiKey: "sk-cloud", baseUrl: cloudUrl },
+  });
+  const llama = { id: "meta-llama/Llama-3.1-8B", contextWindow: 8192, aliases: ["local"] };
+  const tier = (primary: string, fallback: string[]) => ({ primary, fallback });
+  const routingConfig = {
+    tiers: {
+      SIMPLE: tier("vllm/meta-llama/Llama-3.1-8B", ["openai/gpt-4o-mini"]),
+      MEDIUM: tier("openai/gpt-4o-mini", []),
+      COMPLEX: tier("openai/gpt-4o", []),
+      REASONING: tier("openai/o3", []),
+    },
+  };
+
+  const { startProxy } = await import("../src/proxy.js");
+  let next = { apiKeys: { providers: providers([llama]) }, routingConfig };
+  const routed: RoutingDecision[] = [];
+  const proxy = await startProxy({
+    ...next,
+    loadConfig: () => next,
+    port: 0,
+    onRouted: (d) => routed.push(d),
+  });
+  let sent = 0;
+  // A fresh prompt each time, so the deduplicator doesn't answer from cache
+  const send = (model: string, content = `hi ${++sent}`) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, messages: [{ role: "user", content }] }),
+    });
+  const last = () => hits[hits.length - 1];
+
+  await send("auto");
+  ok(
+    last().server === "local" &&
+      last().model === "meta-llama/Llama-3.1-8B" &&
+      last().auth === `Bearer ${NO_AUTH_KEY}`,
+    `SIMPLE tier served by the local model (${last().server} ${last().model})`,
+  );
+  ok(routed[routed.length - 1].costEstimate === 0, "Unpriced local model costs nothing");
+
+  localDown = true;
+  await send("auto");
+  ok(
+    last().server === "cloud" && last().model === "gpt-4o-mini",
+    "Local server down → cloud fallback",
+  );
+  localDown = false;
+
+  await send("local");
+  ok(last().server === "local", "Alias routes to the local model");
+
+  await send("auto", "hi ".repeat(6000));
+  ok(last().server === "cloud", "Prompt over the local context window → cloud");
+
+  const list = (await fetch(`${proxy.baseUrl}/v1/models`).then((r) => r.json())) as {
+    data: Array<{ id: string; owned_by: string }>;
+  };
+  const listed = list.data.find((m) => m.id === "vllm/meta-llama/Llama-3.1-8B");
+  ok(listed?.owned_by === "vllm", "Listed in /v1/models");
+
+  next = {
+    apiKeys: { providers: providers([{ id: "mistral", contextWindow: "big" }]) },
+    routingConfig,
+  };
+  const bad = proxy.reload();
+  ok(
+    !bad.ok && bad.error.includes("providers.vllm.models[0].contextWindow"),
+    "Invalid model rejected on reload",
+  );
+  await send("local");
+  ok(last().server === "local", "…and the old catalog keeps serving");
+
+  next = {
+    apiKeys: { providers: providers([{ id: "qwen3", contextWindow: 32768 }]) },
+    routingConfig: { tiers: { ...routingConfig.tiers, SIMPLE: tier("vllm/qwen3", []) } },
+  };
+  ok(proxy.reload().ok, "Reload with new models");
+  await send("auto");
+  ok(last().model === "qwen3", "New model routed after reload");
+  const relisted = (await fetch(`${proxy.baseUrl}/v1/models`).then((r) => r.json())) as {
+    data: Array<{ id: string }>;
+  };
+  ok(
+    !relisted.data.some((m) => m.id.startsWith("vllm/meta-llama")),
+    "Removed model gone from /v1/models",
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => local.close(() => r()));
+  await new Promise<void>((r) => cloud.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,272 @@
+/**
+ * Routing feedback check — FeedbackStore weights, decay, persistence,
+ * completion outcomes, retry/override detection, tier corrections through the proxy.
+ * Uses a mock upstream and a temp store file; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/feedback.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FeedbackStore,
+  completionOutcome,
+  conversationKey,
+  requestKey,
+  type FeedbackStatus,
+} from "../src/feedback.js";
+import { classifyByRules, signalPattern } from "../src/router/rules.js";
+import { DEFAULT_ROUTING_CONFIG, type RoutingDecision } from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const dir = mkdtempSync(join(tmpdir(), "clawrouter-feedback-"));
+const DAY = 86_400_000;
+
+console.log("\n══ Signal patterns ══\n");
+{
+  const scoring = DEFAULT_ROUTING_CONFIG.scoring;
+  const code = signalPattern(
+    classifyByRules("Write an async function that imports a module", undefined, 20, scoring),
+  );
+  const same = signalPattern(
+    classifyByRules("Write an async function that imports a package", undefined, 20, scoring),
+  );
+  const other = signalPattern(classifyByRules("hi", undefined, 1, scoring));
+  ok(code === same, `Similar prompts share a pattern (${code})`);
+  ok(code !== other, `Different prompts don't (${other})`);
+  ok(code.split(":")[1].split("+").length <= 3, "At most three dimensions");
+}
+
+console.log("\n══ FeedbackStore ══\n");
+{
+  let now = Date.parse("2026-01-01T00:00:00Z");
+  const file = join(dir, "store.json");
+  const store = new FeedbackStore({ enabled: true, threshold: 2, maxTiers: 2, file }, () => now);
+
+  store.record("SIMPLE:none", "success");
+  ok(store.getStatus().patterns.length === 0, "Success alone stores nothing");
+  store.record("SIMPLE:none", "retry");
+  ok(store.correction("SIMPLE:none") === undefined, "Below threshold → no correction");
+  store.record("SIMPLE:none", "override");
+  const correction = store.correction("SIMPLE:none");
+  ok(correction?.tiers === 1, "Threshold reached → one tier");
+  ok(correction?.reason === "retry×1, override×1", `Reason lists signals (${correction?.reason})`);
+  store.record("SIMPLE:none", "override");
+  store.record("SIMPLE:none", "override");
+  ok(store.correction("SIMPLE:none")?.tiers === 2, "Capped at maxTiers");
+  store.record("SIMPLE:none", "override");
+  ok(store.correction("SIMPLE:none")?.tiers === 2, "Never beyond maxTiers");
+
+  now += 7 * DAY;
+  const weight = store.getStatus().patterns[0].weight;
+  ok(Math.abs(weight - 3.5) < 0.01, `Halves after halfLifeDays (${weight})`);
+  now += 21 * DAY;
+  ok(store.correction("SIMPLE:none") === undefined, "Decays away");
+
+  store.record("MEDIUM:codePresence", "empty");
+  await store.flush();
+  const reloaded = new FeedbackStore({ enabled: true, file }, () => now);
+  await reloaded.load();
+  ok(
+    reloaded
+      .getStatus()
+      .patterns.map((p) => p.pattern)
+      .join() === "MEDIUM:codePresence,SIMPLE:none",
+    "Persisted and reloaded, strongest first",
+  );
+  ok(reloaded.reset("MEDIUM:codePresence") === 1, "Reset one pattern");
+  ok(reloaded.reset() === 1 && reloaded.getStatus().patterns.length === 0, "Reset all");
+
+  const disabled = new FeedbackStore({ file: join(dir, "off.json") });
+  disabled.record("SIMPLE:none", "retry");
+  disabled.record("SIMPLE:none", "retry");
+  disabled.record("SIMPLE:none", "retry");
+  await disabled.flush();
+  ok(
+    disabled.correction("SIMPLE:none") === undefined && !existsSync(join(dir, "off.json")),
+    "Disabled by default: nothing recorded or written",
+  );
+}
+
+console.log("\n══ Follow-ups ══\n");
+{
+  let now = 0;
+  const store = new FeedbackStore({ enabled: true, file: join(dir, "follow.json") }, () => now);
+  const messages = [{ role: "user", content: "hi" }];
+  const conv = conversationKey(messages);
+  const req = requestKey(messages);
+
+  ok(store.observe(conv, req, true) === undefined, "First request → nothing to judge");
+  store.answered(conv, req, "SIMPLE:none");
+  ok(store.observe(conv, req, true)?.signal === "retry", "Same messages again → retry");
+  ok(store.observe(conv, req, true) === undefined, "Counted once per answer");
+
+  store.answered(conv, req, "SIMPLE:none");
+  const next = [
+    ...messages,
+    { role: "assistant", content: "Hello!" },
+    { role: "user", content: "more" },
+  ];
+  ok(conversationKey(next) === conv, "Later turns keep the conversation key");
+  ok(store.observe(conv, requestKey(next), true) === undefined, "Next turn, auto → fine");
+
+  store.answered(conv, requestKey(next), "SIMPLE:none");
+  ok(
+    store.observe(conv, requestKey(next), false)?.signal === "override",
+    "Explicit model → override",
+  );
+
+  store.answered(conv, req, "SIMPLE:none");
+  now += 5 * 60 * 1000;
+  ok(store.observe(conv, req, true) === undefined, "Outside the follow-up window → ignored");
+  ok(conversationKey(messages, "abc") === "session:abc", "Session ID wins when sent");
+}
+
+console.log("\n══ Completion outcomes ══\n");
+{
+  const json = (content: string | null, finish = "stop", tools = false) =>
+    JSON.stringify({
+      choices: [
+        {
+          message: { content, ...(tools ? { tool_calls: [{ id: "t" }] } : {}) },
+          finish_reason: finish,
+        },
+      ],
+    });
+  ok(completionOutcome(json("Hello"), false) === undefined, "Content → fine");
+  ok(completionOutcome(json("  "), false) === "empty", "Blank content → empty");
+  ok(completionOutcome(json(null, "tool_calls", true), false) === undefined, "Tool calls → fine");
+  ok(completionOutcome(json("Once upon", "length"), false) === "truncated", "length → truncated");
+  const sse = (content: string, finish: string | null) =>
+    `data: ${JSON.stringify({ choices: [{ delta: { content }, finish_reason: finish }] })}\n\n`;
+  ok(
+    completionOutcome(sse("He", null) + sse("llo", "stop") + "data: [DONE]\n\n", true) ===
+      undefined,
+    "Stream with content → fine",
+  );
+  ok(completionOutcome(sse("", "stop") + "data: [DONE]\n\n", true) === "empty", "Empty stream");
+  ok(completionOutcome("not json", false) === undefined, "Unparseable → fine");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  let reply = "Hello!";
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { model } = JSON.parse(body) as { model: string };
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "c1",
+          object: "chat.completion",
+          model,
+          choices: [
+            { index: 0, message: { role: "assistant", content: reply }, finish_reason: "stop" },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const routed: RoutingDecision[] = [];
+  const tier = (primary: string) => ({ primary, fallback: [] });
+  const proxy = await startProxy({
+    apiKeys: { providers: { openai: { apiKey: "sk-test", baseUrl } } },
+    routingConfig: {
+      tiers: {
+        SIMPLE: tier("openai/gpt-4o-mini"),
+        MEDIUM: tier("openai/gpt-4o"),
+        COMPLEX: tier("openai/gpt-4o"),
+        REASONING: tier("openai/o3"),
+      },
+    },
+    feedback: { enabled: true, threshold: 1.5, file: join(dir, "proxy.json") },
+    adminToken: "feedback-admin",
+    port: 0,
+    onRouted: (d) => routed.push(d),
+  });
+
+  const send = (model: string, messages: unknown[], extra: Record<string, unknown> = {}) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, messages, max_tokens: 50, ...extra }),
+    }).then((r) => r.text());
+  const status = () =>
+    fetch(`${proxy.baseUrl}/feedback`).then((r) => r.json()) as Promise<FeedbackStatus>;
+
+  const hi = [{ role: "user", content: "hi" }];
+  await send("auto", hi);
+  const pattern = routed[0].pattern;
+  ok(routed[0].tier === "SIMPLE" && !!pattern, `Decision carries its pattern (${pattern})`);
+  ok((await status()).patterns.length === 0, "Clean answer → nothing stored");
+
+  // The identical body is answered from the dedup cache — a transport retry, not a verdict
+  await send("auto", hi);
+  ok((await status()).patterns.length === 0, "Retry answered from the dedup cache → not counted");
+  await send("auto", hi, { temperature: 0.5 });
+  ok(!routed[2].reasoning.includes("feedback:"), "One retry → below threshold");
+  await send("auto", hi, { temperature: 0.7 });
+  await send("auto", hi, { temperature: 0.9 });
+  ok(routed[4].tier === "MEDIUM", `Retries move the pattern up (${routed[4].tier})`);
+  ok(
+    routed[4].reasoning.includes("feedback: SIMPLE -> MEDIUM (retry×2)"),
+    "Reasoning names the correction",
+  );
+  const stored = (await status()).patterns.find((p) => p.pattern === pattern);
+  ok(stored?.counts.retry === 3 && stored.tiers === 1, "GET /feedback lists the pattern");
+
+  const resetUrl = `${proxy.baseUrl}/feedback?pattern=${encodeURIComponent(pattern!)}`;
+  const anonymous = await fetch(resetUrl, { method: "DELETE" });
+  ok(
+    anonymous.status === 401 && (await status()).patterns.some((p) => p.pattern === pattern),
+    "DELETE /feedback without the admin token is refused",
+  );
+  const reset = await fetch(resetUrl, {
+    method: "DELETE",
+    headers: { Authorization: "Bearer feedback-admin" },
+  }).then((r) => r.json() as Promise<{ removed: number }>);
+  ok(reset.removed === 1, "DELETE /feedback?pattern= removes it");
+
+  const chat = [{ role: "user", content: "Tell me a story" }];
+  reply = "";
+  await send("auto", chat);
+  const storyPattern = routed[5].pattern;
+  reply = "Once upon a time";
+  await send("openai/gpt-4o", [...chat, { role: "user", content: "again please" }]);
+  const story = (await status()).patterns.find((p) => p.pattern === storyPattern);
+  ok(
+    story?.counts.empty === 1 && story.counts.override === 1,
+    `Empty answer and explicit-model follow-up recorded (${JSON.stringify(story?.counts)})`,
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,193 @@
+/**
+ * Gemini adapter check — chat completions ⇄ generateContent, incl. SSE streams.
+ * No network needed.
+ *
+ * Usage: npx tsx test/google-adapter.ts
+ */
+
+import {
+  convertToGeminiFormat,
+  convertGeminiResponseToOpenAI,
+  GeminiStreamTranslator,
+} from "../src/google.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+type Part = Record<string, unknown>;
+type Content = { role: string; parts: Part[] };
+
+console.log("\n══ Request conversion ══\n");
+{
+  const body = convertToGeminiFormat({
+    model: "gemini-2.5-flash",
+    max_tokens: 256,
+    temperature: 0.2,
+    stop: "END",
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather in Paris?" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_1", content: '{"temp":18}' },
+    ],
+    tools: [
+      {
+        type: "function",
+        function: {
+          name: "get_weather",
+          description: "Get weather",
+          parameters: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            additionalProperties: false,
+          },
+        },
+      },
+    ],
+    tool_choice: "required",
+  });
+
+  const system = body.systemInstruction as { parts: Part[] };
+  ok(system.parts[0].text === "Be brief.", "System message → systemInstruction");
+
+  const contents = body.contents as Content[];
+  ok(contents.map((c) => c.role).join(",") === "user,model,user", "Roles mapped to user/model");
+  const call = contents[1].parts[0].functionCall as { name: string; args: { city: string } };
+  ok(call.name === "get_weather" && call.args.city === "Paris", "tool_calls → functionCall");
+  const response = contents[2].parts[0].functionResponse as {
+    name: string;
+    response: { temp: number };
+  };
+  ok(
+    response.name === "get_weather" && response.response.temp === 18,
+    "tool result → functionResponse (name resolved from call ID)",
+  );
+
+  const tools = body.tools as Array<{
+    functionDeclarations: Array<{ name: string; parameters: Record<string, unknown> }>;
+  }>;
+  const decl = tools[0].functionDeclarations[0];
+  ok(
+    decl.name === "get_weather" && !("additionalProperties" in decl.parameters),
+    "Tools → functionDeclarations with sanitized schema",
+  );
+  const toolConfig = body.toolConfig as { functionCallingConfig: { mode: string } };
+  ok(toolConfig.functionCallingConfig.mode === "ANY", "tool_choice required → mode ANY");
+
+  const gen = body.generationConfig as Record<string, unknown>;
+  ok(
+    gen.maxOutputTokens === 256 &&
+      gen.temperature === 0.2 &&
+      (gen.stopSequences as string[])[0] === "END",
+    "generationConfig mapped",
+  );
+}
+
+console.log("\n══ Response conversion ══\n");
+{
+  const converted = convertGeminiResponseToOpenAI(
+    {
+      candidates: [
+        {
+          content: {
+            role: "model",
+            parts: [
+              { text: "thinking...", thought: true },
+              { functionCall: { name: "get_weather", args: { city: "Oslo" } } },
+            ],
+          },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    },
+    "google/gemini-2.5-flash",
+  ) as {
+    choices: Array<{
+      message: { content: string | null; tool_calls?: Array<{ function: { arguments: string } }> };
+      finish_reason: string;
+    }>;
+    usage: { prompt_tokens: number; completion_tokens: number };
+  };
+
+  const choice = converted.choices[0];
+  ok(choice.message.content === null, "Thought parts dropped, no text → content null");
+  ok(
+    JSON.parse(choice.message.tool_calls![0].function.arguments).city === "Oslo",
+    "functionCall → tool_calls",
+  );
+  ok(choice.finish_reason === "tool_calls", "finish_reason tool_calls when functions called");
+  ok(
+    converted.usage.prompt_tokens === 10 && converted.usage.completion_tokens === 5,
+    "usageMetadata → usage",
+  );
+}
+
+console.log("\n══ Stream translation ══\n");
+{
+  const translator = new GeminiStreamTranslator("google/gemini-2.5-flash");
+  const events = [
+    { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, index: 0 }] },
+    {
+      candidates: [
+        { content: { role: "model", parts: [{ text: ", world" }] }, finishReason: "MAX_TOKENS" },
+      ],
+      usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 3 },
+    },
+  ];
+  const out: string[] = [];
+  for (const event of events) {
+    out.push(...translator.push(`data: ${JSON.stringify(event)}`), ...translator.push(""));
+  }
+  out.push(...translator.finish());
+
+  const data = out.filter((l) => l.startsWith("data: "));
+  const chunks = data
+    .filter((l) => l !== "data: [DONE]")
+    .map(
+      (l) =>
+        JSON.parse(l.slice(6)) as {
+          choices: Array<{
+            delta: { role?: string; content?: string };
+            finish_reason: string | null;
+          }>;
+          usage?: { completion_tokens: number };
+        },
+    );
+
+  ok(chunks[0].choices[0].delta.role === "assistant", "First chunk carries the assistant role");
+  const text = chunks.map((c) => c.choices[0]?.delta.content ?? "").join("");
+  ok(text === "Hello, world", `Text deltas concatenate: "${text}"`);
+  ok(
+    chunks.some((c) => c.choices[0]?.finish_reason === "length"),
+    "MAX_TOKENS → finish_reason length",
+  );
+  ok(chunks[chunks.length - 1].usage?.completion_tokens === 3, "Usage chunk emitted on finish");
+  ok(data[data.length - 1] === "data: [DONE]", "Stream ends with [DONE]");
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,295 @@
+/**
+ * Key pools check — several API keys per provider: validation, weighted
+ * round-robin, least-loaded, rpm/tpm limits, benching on 401/402/429, and the
+ * proxy handing a rate-limited key's request to the next key, with the label
+ * (never the key) in the usage log and /health, and a key from the
+ * environment taking over from config.json's list. Uses a mock upstream; no
+ * network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/key-pools.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { CONFIG_FILE, loadApiKeys, type ProviderConfig } from "../src/api-keys.js";
+import { KeyPoolRegistry, validateProviderKeys } from "../src/key-pool.js";
+import { formatConfigIssues } from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const pick = (pools: KeyPoolRegistry, config: ProviderConfig, n: number, tokens = 100) =>
+  Array.from({ length: n }, () => pools.acquire("openai", config, tokens)?.label ?? "-");
+
+console.log("\n══ Validation ══\n");
+{
+  const issues = formatConfigIssues(
+    validateProviderKeys({
+      providers: {
+        openai: {
+          apiKey: "",
+          keySelection: "fastest" as never,
+          keys: [
+            { apiKey: "sk-a", label: "team-a" },
+            { apiKey: " ", label: "team-b", weight: 0 },
+            { apiKey: "sk-c", label: "team-a", rmp: 10 } as never,
+            { apiKey: "sk-d", cooldownMs: 0 },
+          ],
+        },
+        anthropic: { apiKey: "", keys: [] },
+      },
+    }),
+  );
+  ok(issues.includes("providers.openai.keySelection: must be one of"), "Unknown keySelection");
+  ok(
+    issues.includes('providers.openai.keys[1].apiKey: " " doesn\'t match a non-empty key'),
+    "Blank key",
+  );
+  ok(issues.includes("providers.openai.keys[1].weight: must be greater than 0"), "Zero weight");
+  ok(issues.includes("providers.openai.keys[2].rmp: unknown key (did you mean rpm?)"), "Typo");
+  ok(issues.includes("providers.openai.keys[3].cooldownMs: must be"), "Zero cooldown");
+  ok(issues.includes("providers.anthropic.keys: expected a non-empty array"), "Empty key list");
+  ok(!issues.includes("sk-"), "Messages never quote a key");
+
+  const loaded = loadApiKeys({
+    providers: { openai: { keys: [{ apiKey: "sk-first" }, { apiKey: "sk-second" }] } },
+  });
+  ok(loaded.providers.openai?.apiKey === "sk-first", "A key list alone configures the provider");
+}
+
+console.log("\n══ Selection ══\n");
+{
+  const pools = new KeyPoolRegistry(() => 0);
+  const config: ProviderConfig = {
+    apiKey: "sk-a",
+    keys: [
+      { apiKey: "sk-a", label: "a", weight: 2 },
+      { apiKey: "sk-b", label: "b" },
+    ],
+  };
+  ok(pick(pools, config, 6).join() === "a,b,a,a,b,a", "Weighted round-robin, evenly spread");
+  ok(
+    pools.acquire("openai", { apiKey: "sk-x" }, 100)?.label === undefined,
+    "Provider without keys isn't pooled",
+  );
+  ok(
+    pick(pools, { apiKey: "", keys: [{ apiKey: "sk-1" }, { apiKey: "sk-2" }] }, 2).join() ===
+      "openai#1,openai#2",
+    "Unlabelled keys named by position",
+  );
+
+  let now = 0;
+  const loaded = new KeyPoolRegistry(() => now);
+  const leastLoaded: ProviderConfig = {
+    apiKey: "",
+    keySelection: "least-loaded",
+    keys: [
+      { apiKey: "sk-a", label: "a" },
+      { apiKey: "sk-b", label: "b", weight: 3 },
+    ],
+  };
+  loaded.acquire("openai", leastLoaded, 900);
+  ok(pick(loaded, leastLoaded, 3).join() === "b,b,b", "Least-loaded by tokens per weight");
+  now += 61_000;
+  ok(
+    loaded.getStatus({ providers: { openai: leastLoaded } }).openai[1].tokensLastMinute === 0,
+    "Usage window slides after a minute",
+  );
+}
+
+console.log("\n══ Limits and benching ══\n");
+{
+  let now = 0;
+  const pools = new KeyPoolRegistry(() => now);
+  const config: ProviderConfig = {
+    apiKey: "",
+    keys: [
+      { apiKey: "sk-a", label: "a", rpm: 2 },
+      { apiKey: "sk-b", label: "b", tpm: 1000, cooldownMs: 5_000 },
+    ],
+  };
+  ok(pick(pools, config, 5, 400).join() === "a,b,a,b,-", "rpm and tpm limits skip a full key");
+  now += 60_001;
+  ok(
+    pick(pools, config, 2, 5_000).sort().join() === "a,b",
+    "Window frees up after a minute; an oversized request still goes out on an idle key",
+  );
+
+  now += 60_001;
+  ok(pools.bench("openai", "sk-a", 429, 30_000) === 30_000, "429 benches for its Retry-After");
+  ok(pools.bench("openai", "sk-b", 401) === 5_000, "401 benches for the key's cooldown");
+  ok(pools.bench("openai", "sk-b", 429, 3_600_000) === 600_000, "Retry-After capped at 10 minutes");
+  ok(pools.bench("openai", "sk-b", 429, 0) === 1_000, "Retry-After: 0 still benches for a second");
+  ok(pools.bench("openai", "sk-b", 429, 3_600_000) === 600_000, "…and a later 429 re-benches");
+  ok(pick(pools, config, 1).join() === "-", "Benched keys are skipped");
+  const status = pools.getStatus({ providers: { openai: config } }).openai;
+  ok(status[0].benchedFor === 429 && !!status[0].benchedUntil, "Status shows bench state");
+  now += 30_000;
+  ok(pick(pools, config, 2).join() === "a,a", "Key back once its bench ends");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const seen: string[] = [];
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const auth = String(req.headers.authorization);
+      seen.push(auth);
+      if (auth.startsWith("Bearer sk-zero-")) {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "0" });
+        res.end(JSON.stringify({ error: { message: "Rate limit reached" } }));
+        return;
+      }
+      if (auth === "Bearer sk-team-a") {
+        res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "30" });
+        res.end(JSON.stringify({ error: { message: "Rate limit reached" } }));
+        return;
+      }
+      const { model } = JSON.parse(body) as { model: string };
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "c1",
+          object: "chat.completion",
+          model,
+          choices: [
+            { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+          ],
+          usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const apiKeys = {
+    providers: {
+      openai: {
+        apiKey: "sk-team-a",
+        baseUrl,
+        keys: [
+          { apiKey: "sk-team-a", label: "team-a" },
+          { apiKey: "sk-team-b", label: "team-b" },
+        ],
+      },
+    },
+  };
+  const proxy = await startProxy({ apiKeys, port: 0 });
+  let sent = 0;
+  const send = () =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "openai/gpt-4o-mini",
+        messages: [{ role: "user", content: `hi ${++sent}` }],
+      }),
+    });
+
+  const first = await send();
+  ok(first.status === 200, `Rate-limited key's request served (${first.status})`);
+  ok(seen.join() === "Bearer sk-team-a,Bearer sk-team-b", "…by the next key");
+
+  await new Promise((r) => setTimeout(r, 200)); // logging is fire-and-forget
+  const date = new Date().toISOString().slice(0, 10);
+  const file = join(homedir(), ".openclaw", "clawrouter", "logs", `usage-${date}.jsonl`);
+  const log = await readFile(file, "utf-8").catch(() => "");
+  const lines = log.trim().split("\n").filter(Boolean);
+  const entry = JSON.parse(lines[lines.length - 1] ?? "{}") as { keyLabel?: string };
+  ok(entry.keyLabel === "team-b", "Usage log names the key's label");
+  ok(!log.includes("sk-team"), "Usage log never holds a key");
+
+  seen.length = 0;
+  await send();
+  ok(seen.join() === "Bearer sk-team-b", "Benched key skipped on the next request");
+
+  const healthText = await (await fetch(`${proxy.baseUrl}/health`)).text();
+  const health = JSON.parse(healthText) as {
+    keys?: Record<string, Array<{ label: string; benchedFor?: number }>>;
+  };
+  ok(
+    health.keys?.openai?.[0]?.label === "team-a" && health.keys.openai[0].benchedFor === 429,
+    "/health shows the benched key by label",
+  );
+  ok(!healthText.includes("sk-team"), "/health never shows a key");
+  await proxy.close();
+
+  // A key from a higher-precedence source replaces config.json's key list
+  mkdirSync(dirname(CONFIG_FILE), { recursive: true });
+  writeFileSync(CONFIG_FILE, JSON.stringify({ providers: { openai: apiKeys.providers.openai } }));
+  process.env.OPENAI_API_KEY = "sk-from-env";
+  const layered = loadApiKeys();
+  delete process.env.OPENAI_API_KEY;
+  ok(
+    layered.providers.openai?.apiKey === "sk-from-env" && !layered.providers.openai.keys,
+    "OPENAI_API_KEY drops config.json's keys",
+  );
+  const fromPlugin = loadApiKeys({ providers: { openai: { apiKey: "sk-from-plugin" } } });
+  ok(!fromPlugin.providers.openai?.keys, "…as does a plugin config apiKey");
+  const envProxy = await startProxy({ apiKeys: layered, port: 0 });
+  seen.length = 0;
+  await fetch(`${envProxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "openai/gpt-4o-mini",
+      messages: [{ role: "user", content: `hi ${++sent}` }],
+    }),
+  });
+  ok(seen.join() === "Bearer sk-from-env", `The environment's key is used (${seen.join()})`);
+  await envProxy.close();
+  rmSync(CONFIG_FILE, { force: true });
+
+  // Retry-After: 0 on every key — each key is tried once, then the request gives up
+  const zeroProxy = await startProxy({
+    apiKeys: {
+      providers: {
+        openai: {
+          apiKey: "sk-zero-a",
+          baseUrl,
+          keys: [{ apiKey: "sk-zero-a" }, { apiKey: "sk-zero-b", cooldownMs: 1 }],
+        },
+      },
+    },
+    port: 0,
+  });
+  seen.length = 0;
+  const exhausted = await fetch(`${zeroProxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "openai/gpt-4o-mini",
+      messages: [{ role: "user", content: `hi ${++sent}` }],
+    }),
+  });
+  ok(
+    exhausted.status === 429 && seen.join() === "Bearer sk-zero-a,Bearer sk-zero-b",
+    `Zero-length benches don't loop (${exhausted.status}, ${seen.length} upstream calls)`,
+  );
+  await zeroProxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,240 @@
+/**
+ * LLM classifier check — async routing of ambiguous prompts, cache, latency budget, proxy,
+ * circuit breaking on the classifier model.
+ * Uses stub transports and a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/llm-classifier.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  route,
+  routeAsync,
+  DEFAULT_ROUTING_CONFIG,
+  type PayFetch,
+  type RoutingConfig,
+  type RoutingDecision,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const AMBIGUOUS = [
+  "Tell me about the history of Rome and its emperors",
+  "Write a short poem about cats",
+  "Tell me about the history of Greece and its city states",
+];
+
+const completion = (content: string) => ({
+  id: "x",
+  object: "chat.completion",
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+});
+
+/** Stub transport answering with a fixed tier, counting calls */
+function stubFetch(answer: string): PayFetch & { calls: number } {
+  const fn = (async () => {
+    fn.calls++;
+    return new Response(JSON.stringify(completion(answer)), { status: 200 });
+  }) as PayFetch & { calls: number };
+  fn.calls = 0;
+  return fn;
+}
+
+const enabled: RoutingConfig = {
+  ...DEFAULT_ROUTING_CONFIG,
+  classifier: { ...DEFAULT_ROUTING_CONFIG.classifier, llmEnabled: true, llmTimeoutMs: 200 },
+};
+const opts = (config: RoutingConfig) => ({ config, modelPricing: new Map() });
+
+console.log("\n══ Async routing ══\n");
+{
+  for (const prompt of AMBIGUOUS) {
+    ok(
+      route(prompt, undefined, 256, opts(DEFAULT_ROUTING_CONFIG)).reasoning.includes("ambiguous"),
+      `Rules find "${prompt.slice(0, 30)}…" ambiguous`,
+    );
+  }
+
+  const off = stubFetch("COMPLEX");
+  const offDecision = await routeAsync(
+    AMBIGUOUS[0],
+    undefined,
+    256,
+    opts(DEFAULT_ROUTING_CONFIG),
+    off,
+  );
+  ok(off.calls === 0 && offDecision.method === "rules", "Disabled by default → no classifier call");
+  ok(offDecision.tier === "MEDIUM", "Disabled → ambiguousDefaultTier");
+
+  const llm = stubFetch("COMPLEX");
+  const decision = await routeAsync(AMBIGUOUS[0], undefined, 256, opts(enabled), llm);
+  ok(llm.calls === 1, "Ambiguous prompt → one classifier call");
+  ok(
+    decision.method === "llm" && decision.tier === "COMPLEX",
+    `Classifier tier used (${decision.tier})`,
+  );
+  ok(decision.reasoning.includes("ambiguous -> llm: COMPLEX"), "Reasoning notes the classifier");
+
+  await routeAsync(AMBIGUOUS[0], undefined, 256, opts(enabled), llm);
+  ok(llm.calls === 1, "Repeat prompt served from the cache");
+
+  const confident = stubFetch("REASONING");
+  const simple = await routeAsync("hi", undefined, 256, opts(enabled), confident);
+  ok(confident.calls === 0 && simple.method === "rules", "Confident rules → no classifier call");
+}
+
+console.log("\n══ Failures fall back ══\n");
+{
+  const hang: PayFetch = (_input, init) =>
+    new Promise((_resolve, reject) =>
+      init?.signal?.addEventListener("abort", () => reject(init.signal!.reason)),
+    );
+  // The latency budget's timer doesn't hold the event loop open on its own
+  const keepAlive = setTimeout(() => {}, 5_000);
+  const start = Date.now();
+  const slow = await routeAsync(AMBIGUOUS[1], undefined, 256, opts(enabled), hang);
+  const elapsed = Date.now() - start;
+  clearTimeout(keepAlive);
+  ok(elapsed < 1000, `Latency budget enforced (${elapsed}ms)`);
+  ok(slow.method === "rules" && slow.tier === "MEDIUM", "Timeout → ambiguousDefaultTier");
+  ok(slow.reasoning.includes("llm classifier failed"), "Reasoning notes the failure");
+
+  const gibberish = await routeAsync(
+    AMBIGUOUS[1],
+    undefined,
+    256,
+    opts(enabled),
+    stubFetch("dunno"),
+  );
+  ok(gibberish.method === "rules", "Unparseable reply → ambiguousDefaultTier");
+
+  const error: PayFetch = async () => new Response("nope", { status: 500 });
+  ok(
+    (await routeAsync(AMBIGUOUS[1], undefined, 256, opts(enabled), error)).method === "rules",
+    "Upstream error → ambiguousDefaultTier",
+  );
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const hits: string[] = [];
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const model = (JSON.parse(raw) as { model: string }).model;
+    hits.push(model);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(completion(model === "google/gemini-2.5-flash" ? "REASONING" : "ok")));
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  let decision: RoutingDecision | undefined;
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: { classifier: { ...enabled.classifier, llmTimeoutMs: 2_000 } },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+
+  const res = await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: AMBIGUOUS[2] }] }),
+  });
+  ok(res.ok, "Request succeeds");
+  ok(hits[0] === "google/gemini-2.5-flash", "Classifier model called through the provider layer");
+  ok(
+    decision?.method === "llm" && decision.tier === "REASONING",
+    `Decision recorded with method "llm" (${decision?.method}, ${decision?.tier})`,
+  );
+  ok(
+    hits[1] === DEFAULT_ROUTING_CONFIG.tiers.REASONING.primary,
+    `Request sent to the classified tier (${hits[1]})`,
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══ Classifier provider failing ══\n");
+{
+  let classifierCalls = 0;
+  const upstream = createServer(async (req, res) => {
+    for await (const _chunk of req);
+    if (req.headers.authorization === "Bearer sk-openai") {
+      classifierCalls++;
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "internal error" } }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(completion("ok")));
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "deepseek/deepseek-chat", fallback: [] };
+  const proxy = await startProxy({
+    apiKeys: {
+      providers: {
+        openai: { apiKey: "sk-openai", baseUrl },
+        deepseek: { apiKey: "sk-deepseek", baseUrl },
+      },
+    },
+    routingConfig: {
+      tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier },
+      classifier: { ...enabled.classifier, llmModel: "openai/gpt-4o-mini", llmTimeoutMs: 2_000 },
+    },
+    circuitBreaker: { minCalls: 2 },
+    port: 0,
+  });
+
+  const statuses: number[] = [];
+  // Prompts the earlier sections haven't classified (and cached)
+  const fresh = ["Egypt and its pharaohs", "Persia and its kings", "China and its dynasties"];
+  for (const topic of fresh) {
+    const content = `Tell me about the history of ${topic}`;
+    const res = await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content }] }),
+    });
+    statuses.push(res.status);
+  }
+  ok(
+    statuses.every((s) => s === 200),
+    "Requests still routed by the rules",
+  );
+  const health = (await (await fetch(`${proxy.baseUrl}/health`)).json()) as {
+    circuits?: { models?: Record<string, { state: string }> };
+  };
+  ok(
+    health.circuits?.models?.["openai/gpt-4o-mini"]?.state === "open",
+    "Classifier failures open its circuit",
+  );
+  ok(classifierCalls === 2, `Open circuit skips the classifier (${classifierCalls} calls)`);
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
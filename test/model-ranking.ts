@@ -0,0 +1,223 @@
+/**
+ * Latency/health-aware ranking check — health stats, chain scoring, proxy reordering.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/model-ranking.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { ModelHealthTracker } from "../src/model-health.js";
+import {
+  route,
+  rankModels,
+  rankingMode,
+  DEFAULT_ROUTING_CONFIG,
+  type ModelHealth,
+  type RankingConfig,
+  type RoutingDecision,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const health = (ttftP95Ms: number, errorRate = 0): ModelHealth => ({
+  samples: 10,
+  ttftP50Ms: ttftP95Ms / 2,
+  ttftP95Ms,
+  errorRate,
+});
+
+console.log("\n══ Health tracking ══\n");
+{
+  const tracker = new ModelHealthTracker(10);
+  for (let i = 1; i <= 20; i++) tracker.recordSuccess("a/x", i * 100);
+  tracker.recordFailure("a/x");
+  const h = tracker.get("a/x");
+  ok(h?.samples === 10, "Window keeps the last N outcomes");
+  ok(
+    h?.ttftP95Ms === 2000 && h.ttftP50Ms === 1500,
+    `Percentiles over the window (${h?.ttftP50Ms}/${h?.ttftP95Ms})`,
+  );
+  ok(h?.errorRate === 0.1, "Error rate over the window");
+  ok(tracker.get("a/unknown") === undefined, "Unknown model → undefined");
+}
+
+console.log("\n══ Chain ranking ══\n");
+{
+  const ranking: RankingConfig = {
+    enabled: true,
+    weights: { cost: 0, latency: 1, reliability: 0 },
+    minSamples: 5,
+  };
+  const pricing = new Map([
+    ["a/slow", { inputPrice: 1, outputPrice: 1 }],
+    ["b/fast", { inputPrice: 5, outputPrice: 5 }],
+  ]);
+  const stats: Record<string, ModelHealth> = { "a/slow": health(4000), "b/fast": health(800) };
+  const chain = ["a/slow", "b/fast"];
+
+  ok(
+    rankModels(chain, "SIMPLE", ranking, pricing, (m) => stats[m]).join() === "b/fast,a/slow",
+    "Latency weight → fastest first",
+  );
+  ok(
+    rankModels(
+      chain,
+      "SIMPLE",
+      { ...ranking, weights: { cost: 1, latency: 0, reliability: 0 } },
+      pricing,
+      (m) => stats[m],
+    ).join() === "a/slow,b/fast",
+    "Cost weight → cheapest first",
+  );
+  ok(
+    rankModels(
+      chain,
+      "COMPLEX",
+      { ...ranking, tierWeights: { COMPLEX: { latency: 0, reliability: 1 } } },
+      pricing,
+      (m) => ({ ...stats, "a/slow": health(4000, 0), "b/fast": health(800, 0.5) })[m],
+    ).join() === "a/slow,b/fast",
+    "Per-tier weights override the defaults",
+  );
+  ok(
+    rankModels(chain, "SIMPLE", ranking, pricing, () => undefined).join() === "a/slow,b/fast",
+    "No health data → configured order",
+  );
+  ok(
+    rankModels(chain, "SIMPLE", { ...ranking, enabled: false }, pricing, (m) => stats[m]).join() ===
+      "a/slow,b/fast",
+    "Disabled → configured order",
+  );
+  ok(
+    rankModels(chain, "SIMPLE", ranking, pricing, (m) => ({ ...stats[m], samples: 2 })).join() ===
+      "a/slow,b/fast",
+    "Below minSamples → configured order",
+  );
+  ok(
+    rankingMode(undefined) === undefined &&
+      rankingMode({ ...ranking, enabled: false, mode: "cheapest" }) === undefined &&
+      rankingMode({ ...ranking, mode: undefined }) === "weighted" &&
+      rankingMode({ ...ranking, mode: "cheapest" }) === "cheapest",
+    "rankingMode: off without config or when disabled, weighted by default",
+  );
+}
+
+console.log("\n══ Router picks the ranked primary ══\n");
+{
+  const primary = DEFAULT_ROUTING_CONFIG.tiers.SIMPLE.primary;
+  const fallback = DEFAULT_ROUTING_CONFIG.tiers.SIMPLE.fallback[0];
+  const routeWith = (ranking: RankingConfig) =>
+    route("hi", undefined, 256, {
+      config: { ...DEFAULT_ROUTING_CONFIG, ranking },
+      modelPricing: new Map(),
+      modelHealth: (m) => (m === primary ? health(5000) : m === fallback ? health(300) : undefined),
+    });
+  ok(
+    routeWith(DEFAULT_ROUTING_CONFIG.ranking!).model === primary,
+    "Ranking is off by default: configured primary kept",
+  );
+  const decision = routeWith({ ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: true });
+  ok(decision.tier === "SIMPLE", `Tier: ${decision.tier}`);
+  ok(decision.model === fallback, `Faster fallback promoted (${decision.model})`);
+  ok(
+    decision.reasoning.includes(`ranked: ${fallback} over ${primary}`),
+    "Reasoning notes the reordering",
+  );
+}
+
+console.log("\n══ Proxy reorders by observed errors ══\n");
+{
+  const hits: string[] = [];
+  const upstream = createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const model = (JSON.parse(raw) as { model: string }).model;
+    hits.push(model);
+    if (model === "openai/gpt-4o") {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "Service temporarily unavailable" } }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "x",
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+        ],
+      }),
+    );
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = { primary: "openai/gpt-4o", fallback: ["openai/gpt-4o-mini"] };
+  let decision: RoutingDecision | undefined;
+  const proxy = await startProxy({
+    apiKeys: { providers: { openrouter: { apiKey: "sk-or-test", baseUrl } } },
+    routingConfig: {
+      tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier },
+      ranking: { ...DEFAULT_ROUTING_CONFIG.ranking!, enabled: true, minSamples: 2 },
+    },
+    port: 0,
+    onRouted: (d) => (decision = d),
+  });
+
+  const send = (n: number) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: `hi ${n}` }] }),
+    });
+
+  await send(1);
+  await send(2);
+  ok(
+    hits.join() === "openai/gpt-4o,openai/gpt-4o-mini,openai/gpt-4o,openai/gpt-4o-mini",
+    "Configured order while learning",
+  );
+
+  hits.length = 0;
+  const res = await send(3);
+  ok(res.ok && hits.join() === "openai/gpt-4o-mini", "Failing primary demoted once it has samples");
+  ok(
+    decision?.reasoning.includes("ranked: openai/gpt-4o-mini over openai/gpt-4o") ?? false,
+    "Routing decision reports the ranking",
+  );
+
+  const status = (await (await fetch(`${proxy.baseUrl}/health`)).json()) as {
+    modelHealth?: Record<string, ModelHealth>;
+  };
+  const mini = status.modelHealth?.["openai/gpt-4o-mini"];
+  ok(
+    mini?.samples === 3 && mini.errorRate === 0 && mini.ttftP95Ms >= 0,
+    "/health exposes model health",
+  );
+  ok(
+    status.modelHealth?.["openai/gpt-4o"]?.errorRate === 1,
+    "/health reports the primary's error rate",
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,120 @@
+/**
+ * Scoring optimizer check — improvement, reproducibility, routing penalties,
+ * override round-trip through evaluateRouting.
+ * No network needed.
+ *
+ * Usage: npx tsx test/optimizer.ts
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  optimizeScoring,
+  parseEvalDataset,
+  evaluateRouting,
+  mergeRoutingConfig,
+  DEFAULT_ROUTING_CONFIG,
+  TIER_RANK,
+  type EvalReport,
+  type RoutingConfig,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const cases = parseEvalDataset(
+  readFileSync(new URL("./fixtures/routing-eval.jsonl", import.meta.url), "utf-8"),
+);
+const opts = (config: RoutingConfig) => ({ config, modelPricing: new Map() });
+
+/** Cases routed below / above their label */
+function misroutes(report: EvalReport) {
+  const under = report.results.filter((r) => TIER_RANK[r.tier] < TIER_RANK[r.case.tier]).length;
+  const over = report.results.filter((r) => TIER_RANK[r.tier] > TIER_RANK[r.case.tier]).length;
+  return { under, over };
+}
+
+console.log("\n══ Search ══\n");
+{
+  const result = optimizeScoring(cases, DEFAULT_ROUTING_CONFIG, { iterations: 1500 });
+  ok(
+    result.after.loss < result.before.loss,
+    `Loss ${result.before.loss.toFixed(3)} → ${result.after.loss.toFixed(3)}`,
+  );
+  ok(
+    result.after.accuracy > result.before.accuracy,
+    `Accuracy ${result.before.accuracy.toFixed(2)} → ${result.after.accuracy.toFixed(2)}`,
+  );
+  const { simpleMedium, mediumComplex, complexReasoning } = result.scoring.tierBoundaries;
+  ok(simpleMedium < mediumComplex && mediumComplex < complexReasoning, "Boundaries stay ordered");
+  ok(
+    result.scoring.dimensionWeights.conversationHistory ===
+      DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights.conversationHistory,
+    "Dimensions the dataset never exercises keep their weights",
+  );
+  ok(
+    Object.values(result.scoring.dimensionWeights).every((w) => Number.isInteger(w * 1000)),
+    "Weights rounded for a readable override",
+  );
+
+  const again = optimizeScoring(cases, DEFAULT_ROUTING_CONFIG, { iterations: 1500 });
+  ok(JSON.stringify(again) === JSON.stringify(result), "Same seed → same result");
+  const other = optimizeScoring(cases, DEFAULT_ROUTING_CONFIG, { iterations: 1500, seed: 7 });
+  ok(JSON.stringify(other.scoring) !== JSON.stringify(result.scoring), "Seed changes the search");
+
+  const tuned = mergeRoutingConfig({ scoring: result.scoring } as Partial<RoutingConfig>);
+  const report = evaluateRouting(cases, opts(tuned));
+  ok(
+    Math.abs(report.accuracy - result.after.accuracy) < 1e-9,
+    `Override reproduces the accuracy through route() (${report.accuracy.toFixed(2)})`,
+  );
+}
+
+console.log("\n══ Penalties ══\n");
+{
+  const perfect = optimizeScoring(cases.slice(0, 2), DEFAULT_ROUTING_CONFIG, { iterations: 200 });
+  ok(perfect.before.loss === 0 && perfect.after.loss === 0, "Nothing to fix → loss stays 0");
+  ok(
+    JSON.stringify(perfect.scoring.tierBoundaries) ===
+      JSON.stringify(DEFAULT_ROUTING_CONFIG.scoring.tierBoundaries),
+    "Nothing to fix → config unchanged",
+  );
+
+  const cautious = optimizeScoring(cases, DEFAULT_ROUTING_CONFIG, {
+    underRoutingPenalty: 10,
+    overRoutingPenalty: 1,
+  });
+  const frugal = optimizeScoring(cases, DEFAULT_ROUTING_CONFIG, {
+    underRoutingPenalty: 1,
+    overRoutingPenalty: 10,
+  });
+  const c = misroutes(
+    evaluateRouting(
+      cases,
+      opts(mergeRoutingConfig({ scoring: cautious.scoring } as Partial<RoutingConfig>)),
+    ),
+  );
+  const f = misroutes(
+    evaluateRouting(
+      cases,
+      opts(mergeRoutingConfig({ scoring: frugal.scoring } as Partial<RoutingConfig>)),
+    ),
+  );
+  ok(c.under <= c.over, `Costly under-routing → errs high (${c.under} under, ${c.over} over)`);
+  ok(f.over <= f.under, `Costly over-routing → errs low (${f.under} under, ${f.over} over)`);
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
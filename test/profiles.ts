@@ -0,0 +1,215 @@
+/**
+ * Routing profiles check — applyProfile() merging, profile selection by model
+ * suffix and header, /v1/models listing, session pins per profile.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/profiles.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  applyProfile,
+  mergeRoutingConfig,
+  route,
+  DEFAULT_ROUTING_CONFIG,
+  type RoutingConfig,
+  type RoutingDecision,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+console.log("\n══ applyProfile ══\n");
+{
+  const config = mergeRoutingConfig({
+    profiles: {
+      team: {
+        tiers: { SIMPLE: { primary: "openai/gpt-4o-mini", fallback: [] } },
+        scoring: {
+          dimensionWeights: { codePresence: 0.3 },
+          tierBoundaries: { simpleMedium: 0.05 },
+        },
+        overrides: { ambiguousDefaultTier: "COMPLEX" },
+        ranking: { mode: "cheapest" },
+      },
+    },
+  } as Partial<RoutingConfig>);
+
+  ok(
+    ["eco", "balanced", "premium", "coding", "team"].every((p) => !!config.profiles?.[p]),
+    "Built-in profiles kept next to configured ones",
+  );
+  ok(applyProfile(config, "missing") === undefined, "Unknown profile → undefined");
+
+  const team = applyProfile(config, "team")!;
+  ok(team.tiers.SIMPLE.primary === "openai/gpt-4o-mini", "Profile tier replaces the base tier");
+  ok(team.tiers.COMPLEX === config.tiers.COMPLEX, "Other tiers keep the base config");
+  ok(
+    team.scoring.dimensionWeights.codePresence === 0.3 &&
+      team.scoring.dimensionWeights.reasoningMarkers ===
+        config.scoring.dimensionWeights.reasoningMarkers,
+    "Dimension weights merged key by key",
+  );
+  ok(
+    team.scoring.tierBoundaries.simpleMedium === 0.05 &&
+      team.scoring.tierBoundaries.mediumComplex === config.scoring.tierBoundaries.mediumComplex,
+    "Tier boundaries merged key by key",
+  );
+  ok(
+    team.overrides.ambiguousDefaultTier === "COMPLEX" &&
+      team.overrides.maxTokensForceComplex === config.overrides.maxTokensForceComplex,
+    "Overrides merged",
+  );
+  ok(
+    team.ranking?.mode === "cheapest" &&
+      JSON.stringify(team.ranking.weights) === JSON.stringify(config.ranking?.weights),
+    "Ranking merged",
+  );
+
+  const balanced = applyProfile(DEFAULT_ROUTING_CONFIG, "balanced")!;
+  const opts = (c: RoutingConfig) => ({ config: c, modelPricing: new Map() });
+  const prompt = "Explain how a hash map works";
+  ok(
+    route(prompt, undefined, 512, opts(balanced)).model ===
+      route(prompt, undefined, 512, opts(DEFAULT_ROUTING_CONFIG)).model,
+    "balanced routes like the defaults",
+  );
+  const eco = applyProfile(DEFAULT_ROUTING_CONFIG, "eco")!;
+  const premium = applyProfile(DEFAULT_ROUTING_CONFIG, "premium")!;
+  ok(
+    route("hi", undefined, 64, opts(eco)).model !== route("hi", undefined, 64, opts(premium)).model,
+    "eco and premium pick different models",
+  );
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const upstreamModels: string[] = [];
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { model } = JSON.parse(body) as { model: string };
+      upstreamModels.push(model);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "c1",
+          object: "chat.completion",
+          model,
+          choices: [
+            { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+          ],
+        }),
+      );
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const routed: RoutingDecision[] = [];
+  const all = (primary: string) => ({
+    SIMPLE: { primary, fallback: [] },
+    MEDIUM: { primary, fallback: [] },
+    COMPLEX: { primary, fallback: [] },
+    REASONING: { primary, fallback: [] },
+  });
+  const proxy = await startProxy({
+    apiKeys: { providers: { openai: { apiKey: "sk-test", baseUrl } } },
+    routingConfig: {
+      tiers: all("openai/gpt-4o"),
+      profiles: {
+        cheap: { tiers: all("openai/gpt-4o-mini") },
+        fast: { tiers: all("openai/gpt-4.1-nano") },
+      },
+    },
+    sessionConfig: { enabled: true },
+    port: 0,
+    onRouted: (d) => routed.push(d),
+  });
+
+  const send = (model: string, headers: Record<string, string> = {}) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: `hi ${upstreamModels.length}` }],
+      }),
+    });
+  const lastModel = () => upstreamModels[upstreamModels.length - 1];
+
+  await send("auto");
+  ok(lastModel() === "gpt-4o", "No profile → base config");
+  await send("clawrouter/auto:cheap");
+  ok(lastModel() === "gpt-4o-mini", "clawrouter/auto:cheap → profile tiers");
+  await send("auto:FAST");
+  ok(lastModel() === "gpt-4.1-nano", "auto:<name>, case-insensitive");
+  await send("auto", { "x-clawrouter-profile": "cheap" });
+  ok(lastModel() === "gpt-4o-mini", "x-clawrouter-profile header");
+  await send("auto:fast", { "x-clawrouter-profile": "cheap" });
+  ok(lastModel() === "gpt-4.1-nano", "Model suffix wins over the header");
+  await send("openai/gpt-4o", { "x-clawrouter-profile": "cheap" });
+  ok(lastModel() === "gpt-4o", "Explicit model ignores the header");
+
+  const hits = upstreamModels.length;
+  const unknown = await send("auto:nope");
+  const error = (await unknown.json()) as { error: { message: string; code: string } };
+  ok(unknown.status === 400 && error.error.code === "unknown_profile", "Unknown profile → 400");
+  ok(error.error.message.includes("cheap"), "Error lists the available profiles");
+  ok(upstreamModels.length === hits, "Nothing sent upstream");
+
+  await send("auto", { "x-session-id": "s1" });
+  await send("auto:cheap", { "x-session-id": "s1" });
+  ok(lastModel() === "gpt-4o-mini", "Session pin doesn't carry over to another profile");
+  const pinnedRoutes = routed.length;
+  await send("auto:cheap", { "x-session-id": "s1" });
+  ok(
+    lastModel() === "gpt-4o-mini" && routed.length === pinnedRoutes,
+    "Same profile → pinned model reused",
+  );
+
+  const models = (await fetch(`${proxy.baseUrl}/v1/models`).then((r) => r.json())) as {
+    data: Array<{ id: string; owned_by: string }>;
+  };
+  const ids = models.data.map((m) => m.id);
+  ok(
+    ["auto", "auto:cheap", "auto:fast", "auto:eco", "auto:premium"].every((id) => ids.includes(id)),
+    "/v1/models lists a virtual model per profile",
+  );
+  ok(
+    models.data.find((m) => m.id === "auto:cheap")?.owned_by === "clawrouter",
+    "Owned by clawrouter",
+  );
+
+  const explained = (await fetch(`${proxy.baseUrl}/v1/route/explain`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "auto:cheap", messages: [{ role: "user", content: "hi" }] }),
+  }).then((r) => r.json())) as { profile?: string; model: string };
+  ok(
+    explained.profile === "cheap" && explained.model === "openai/gpt-4o-mini",
+    "Explain honours the profile",
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,296 @@
+/**
+ * Provider adapter check — the built-in adapters' URLs, headers, model IDs and
+ * error classes, a third-party adapter registered in code and one loaded from
+ * plugin config, each driving a native-format mock upstream through the proxy.
+ * No network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/provider-adapters.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getProviderAdapter,
+  listProviderAdapters,
+  registerProviderAdapter,
+  buildProviderHeaders,
+  classifyProviderError,
+  openAICompatibleAdapter,
+  type ProviderAdapter,
+} from "../src/providers.js";
+import {
+  loadApiKeys,
+  loadProviderAdapters,
+  getProviderBaseUrl,
+  getAccessibleProviders,
+  resolveProviderAccess,
+} from "../src/api-keys.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const adapter = (id: string) => getProviderAdapter(id)!;
+
+console.log("\n══ Built-ins ══\n");
+{
+  ok(
+    listProviderAdapters()
+      .map((a) => a.id)
+      .join() === "openai,anthropic,google,xai,deepseek,moonshot,nvidia,openrouter",
+    "Every built-in provider registered",
+  );
+  ok(
+    getProviderBaseUrl({ providers: {} }, "deepseek") === "https://api.deepseek.com/v1",
+    "Default endpoint from the adapter",
+  );
+  ok(
+    getProviderBaseUrl(
+      { providers: { deepseek: { apiKey: "k", baseUrl: "http://x/v1" } } },
+      "deepseek",
+    ) === "http://x/v1",
+    "baseUrl override still wins",
+  );
+  ok(
+    adapter("anthropic").mapModelId!("anthropic/claude-sonnet-4") === "claude-sonnet-4-20250514",
+    "Anthropic maps to dated model IDs",
+  );
+  ok(
+    adapter("anthropic").buildUrl!("https://api.anthropic.com/v1", "/v1/chat/completions", {
+      model: "m",
+      stream: true,
+    }) === "https://api.anthropic.com/v1/messages",
+    "Anthropic URL → /messages",
+  );
+  const google = (stream: boolean) =>
+    adapter("google").buildUrl!("https://g/v1beta", "/v1/chat/completions", {
+      model: "gemini-2.5-flash",
+      stream,
+    });
+  ok(
+    google(true) === "https://g/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse" &&
+      google(false) === "https://g/v1beta/models/gemini-2.5-flash:generateContent",
+    "Google URL carries the model and method",
+  );
+  const headers = buildProviderHeaders(adapter("anthropic"), "sk-ant");
+  ok(
+    headers["x-api-key"] === "sk-ant" &&
+      headers["anthropic-version"] === "2023-06-01" &&
+      headers["content-type"] === "application/json" &&
+      !headers.authorization,
+    "Anthropic headers",
+  );
+  ok(buildProviderHeaders(adapter("google"), "g")["x-goog-api-key"] === "g", "Google headers");
+  ok(
+    buildProviderHeaders(adapter("openrouter"), "or")["x-title"] === "ClawRouter",
+    "OpenRouter headers",
+  );
+  const usage = adapter("openai").transformRequest!(
+    { model: "gpt-4o" },
+    { model: "gpt-4o", stream: true },
+  );
+  ok(
+    (usage.stream_options as { include_usage?: boolean }).include_usage === true,
+    "Built-in OpenAI-compatible streams ask for usage",
+  );
+  const custom = openAICompatibleAdapter({ id: "ollama", baseUrl: "http://127.0.0.1:11434/v1" });
+  const plain = custom.transformRequest?.({ model: "llama3" }, { model: "llama3", stream: true });
+  ok(plain?.stream_options === undefined, "…custom OpenAI-compatible ones only when asked to");
+  ok(
+    classifyProviderError(503, "") === "provider" &&
+      classifyProviderError(429, "rate limit reached") === "provider" &&
+      classifyProviderError(400, "messages: required") === "request",
+    "Default error classification",
+  );
+  ok(
+    adapter("anthropic").classifyError!(529, "overloaded_error") === "provider" &&
+      classifyProviderError(529, "overloaded_error") === "request",
+    "Anthropic 529 falls back",
+  );
+}
+
+// A made-up native API: { input } in, { output } or `data: {"text"}` events out
+const acme = (id: string, baseUrl: string): ProviderAdapter => ({
+  id,
+  baseUrl,
+  envVar: `${id.toUpperCase()}_API_KEY`,
+  mapModelId: (modelId) => modelId.split("/")[1].toUpperCase(),
+  buildUrl: (base, _path, ctx) => `${base}/generate/${ctx.model}${ctx.stream ? "?stream=1" : ""}`,
+  authHeaders: (apiKey) => ({ "x-acme-key": apiKey }),
+  transformRequest: (body) => ({
+    input: (body.messages as Array<{ content: string }>).map((m) => m.content).join("\n"),
+  }),
+  transformResponse: (body, model) =>
+    typeof body.output === "string"
+      ? {
+          id: "acme-1",
+          object: "chat.completion",
+          model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: body.output },
+              finish_reason: "stop",
+            },
+          ],
+        }
+      : undefined,
+  createStreamTranslator: (model) => ({
+    push: (line) =>
+      line.startsWith("data:")
+        ? [
+            `data: ${JSON.stringify({
+              object: "chat.completion.chunk",
+              model,
+              choices: [
+                {
+                  index: 0,
+                  delta: { content: JSON.parse(line.slice(5)).text },
+                  finish_reason: null,
+                },
+              ],
+            })}`,
+            "",
+          ]
+        : [],
+    finish: () => ["data: [DONE]", ""],
+  }),
+});
+
+console.log("\n══ Third-party adapters ══\n");
+{
+  const seen: Array<{ url: string; key: string; body: string }> = [];
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      seen.push({ url: req.url ?? "", key: String(req.headers["x-acme-key"]), body });
+      if (req.url?.endsWith("?stream=1")) {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.end('data: {"text":"hel"}\n\ndata: {"text":"lo"}\n\n');
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ output: "hello" }));
+      }
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+  registerProviderAdapter(acme("acme", baseUrl));
+  process.env.ACME_API_KEY = "acme-env";
+  const keys = loadApiKeys();
+  ok(keys.providers.acme?.apiKey === "acme-env", "Adapter's env var read by loadApiKeys");
+  ok(
+    resolveProviderAccess(keys, "acme/small")?.provider === "acme",
+    "Models with the adapter's prefix resolve directly",
+  );
+  ok(
+    getAccessibleProviders({ providers: { openrouter: { apiKey: "or" } } }).includes("acme"),
+    "Listed among accessible providers",
+  );
+  let threw = false;
+  try {
+    registerProviderAdapter({ id: "bad/id", baseUrl: "", authHeaders: () => ({}) });
+  } catch {
+    threw = true;
+  }
+  ok(threw, "Malformed adapter rejected");
+
+  const dir = mkdtempSync(join(tmpdir(), "clawrouter-adapter-"));
+  const modulePath = join(dir, "beta.mjs");
+  writeFileSync(
+    modulePath,
+    `export default [{ id: "beta", baseUrl: ${JSON.stringify(baseUrl)}, envVar: "BETA_API_KEY",
+      authHeaders: (k) => ({ "x-acme-key": k }) }];`,
+  );
+  writeFileSync(join(dir, "broken.mjs"), "export default { id: 42 };");
+  const loaded = await loadProviderAdapters({
+    providerAdapters: [modulePath, join(dir, "broken.mjs"), join(dir, "missing.mjs")],
+  });
+  ok(loaded.map((a) => a.id).join() === "beta", "Adapter module loaded from plugin config");
+  ok(getProviderAdapter("beta") !== undefined, "…and registered; bad modules skipped");
+
+  const { startProxy } = await import("../src/proxy.js");
+  const proxy = await startProxy({
+    apiKeys: {
+      providers: {
+        acme: { apiKey: "acme-key" },
+        beta: { apiKey: "beta-key" },
+        google: { apiKey: "g-key", baseUrl },
+        openai: { apiKey: "sk-test", baseUrl: "http://127.0.0.1:9/v1" },
+      },
+    },
+    port: 0,
+  });
+  const send = (model: string, stream = false) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, stream, messages: [{ role: "user", content: "hi" }] }),
+    });
+  const last = () => seen[seen.length - 1];
+
+  const res = await send("acme/small");
+  const body = (await res.json()) as { choices: Array<{ message: { content: string } }> };
+  ok(
+    last().url === "/generate/SMALL" && last().key === "acme-key",
+    `Adapter's URL, model ID and auth used (${last().url})`,
+  );
+  ok(JSON.parse(last().body).input === "hi", "Request transformed to the native format");
+  ok(
+    res.status === 200 && body.choices[0].message.content === "hello",
+    "Response transformed back",
+  );
+
+  const streamed = await (await send("acme/small", true)).text();
+  ok(
+    streamed.includes('"content":"hel"') &&
+      streamed.includes('"content":"lo"') &&
+      streamed.trimEnd().endsWith("data: [DONE]"),
+    "Stream translated, finish() called at the end",
+  );
+
+  await send("beta/tiny");
+  ok(
+    last().url === "/v1/chat/completions" &&
+      last().key === "beta-key" &&
+      JSON.parse(last().body).model === "tiny",
+    "Module adapter with defaults is OpenAI-shaped",
+  );
+
+  const seenBefore = seen.length;
+  const embeddings = await fetch(`${proxy.baseUrl}/v1/embeddings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "google/gemini-2.5-flash", input: "hi" }),
+  });
+  const embeddingsBody = (await embeddings.json()) as { error: { type: string; message: string } };
+  ok(
+    embeddings.status === 400 &&
+      embeddingsBody.error.type === "invalid_request_error" &&
+      seen.length === seenBefore,
+    `Adapter without the path refuses it up front (${embeddingsBody.error.message})`,
+  );
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,236 @@
+/**
+ * Routing explain check — explainRoute(), POST /v1/route/explain, clawrouter explain.
+ * Uses a mock upstream (which must never be called); no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/route-explain.ts
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { dirname } from "node:path";
+import type { AddressInfo } from "node:net";
+import {
+  route,
+  explainRoute,
+  DEFAULT_ROUTING_CONFIG,
+  type DimensionDetail,
+} from "../src/router/index.js";
+import { CONFIG_FILE } from "../src/api-keys.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const opts = { config: DEFAULT_ROUTING_CONFIG, modelPricing: new Map() };
+
+console.log("\n══ explainRoute ══\n");
+{
+  const prompt = "Write an async function that imports a module and returns a class";
+  const explained = explainRoute(prompt, undefined, 1024, opts);
+  const plain = route(prompt, undefined, 1024, opts);
+  ok(
+    explained.decision.model === plain.model && explained.decision.tier === plain.tier,
+    "Same decision as route()",
+  );
+
+  const dims = explained.scoring.dimensions ?? [];
+  ok(dims.length >= 15, `Every dimension reported (${dims.length})`);
+  const total = dims.reduce((sum, d) => sum + d.score * d.weight, 0);
+  ok(Math.abs(total - explained.scoring.score) < 1e-9, "score × weight sums to the total");
+  const code = dims.find((d) => d.name === "codePresence");
+  ok(
+    code?.weight === DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights.codePresence &&
+      code.score > 0 &&
+      !!code.signal,
+    "Dimension carries score, weight and signal",
+  );
+
+  const { lower, upper } = explained.boundaries;
+  ok(
+    (!lower || lower.value <= explained.scoring.score) &&
+      (!upper || upper.value > explained.scoring.score),
+    `Score ${explained.scoring.score.toFixed(2)} between ${lower?.name ?? "bottom"} and ${upper?.name ?? "top"}`,
+  );
+  const low = explainRoute("hi", undefined, 256, opts);
+  ok(
+    !low.boundaries.lower && low.boundaries.upper?.name === "simpleMedium",
+    "Below the first boundary → no lower bound",
+  );
+  ok(explained.agentic === false, "Agentic flag reported");
+  ok(
+    explainRoute("hi", undefined, 256, {
+      ...opts,
+      config: {
+        ...DEFAULT_ROUTING_CONFIG,
+        overrides: { ...DEFAULT_ROUTING_CONFIG.overrides, agenticMode: true },
+      },
+    }).agentic,
+    "agenticMode → agentic tiers",
+  );
+}
+
+console.log("\n══ POST /v1/route/explain ══\n");
+{
+  let upstreamHits = 0;
+  const upstream = createServer((_req, res) => {
+    upstreamHits++;
+    res.writeHead(500);
+    res.end();
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const tier = {
+    primary: "nvidia/gpt-oss-120b",
+    fallback: [
+      "openai/gpt-4o",
+      "xai/grok-4-0709",
+      "anthropic/claude-sonnet-4",
+      "openai/gpt-4o-mini",
+    ],
+  };
+  const proxy = await startProxy({
+    apiKeys: { providers: { openai: { apiKey: "sk-test", baseUrl } } },
+    routingConfig: { tiers: { SIMPLE: tier, MEDIUM: tier, COMPLEX: tier, REASONING: tier } },
+    port: 0,
+  });
+
+  const explain = (body: unknown) =>
+    fetch(`${proxy.baseUrl}/v1/route/explain`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  const res = await explain({
+    model: "auto",
+    messages: [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is in this picture?" },
+          { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+        ],
+      },
+    ],
+  });
+  const body = (await res.json()) as {
+    model: string;
+    tier: string;
+    method: string;
+    confidence: number;
+    scoring: { score: number; dimensions: DimensionDetail[] };
+    boundaries: { upper?: { name: string } };
+    agentic: boolean;
+    requiredCapabilities: string[];
+    chain: string[];
+    dropped: Array<{ model: string; reason: string }>;
+    cost: { estimate: number; baseline: number; savings: number };
+    budget: { state: string };
+  };
+  ok(res.ok, "200 OK");
+  ok(upstreamHits === 0, "No provider called");
+  ok(body.scoring.dimensions.length >= 15 && !!body.boundaries.upper, "Scoring and boundaries");
+  ok(
+    body.method === "rules" && body.confidence > 0 && body.agentic === false,
+    "Method, confidence, agentic",
+  );
+  ok(body.requiredCapabilities.join() === "vision", "Required capabilities");
+  ok(body.chain.join() === "openai/gpt-4o,openai/gpt-4o-mini", `Chain: ${body.chain.join(" → ")}`);
+  ok(body.model === "openai/gpt-4o", "Model is the chain's first");
+  const reason = (m: string) => body.dropped.find((d) => d.model === m)?.reason ?? "";
+  ok(reason("nvidia/gpt-oss-120b") === "lacks vision", "Dropped for a missing capability");
+  ok(reason("xai/grok-4-0709") === "lacks vision", "Text-only fallback dropped too");
+  ok(
+    reason("anthropic/claude-sonnet-4").startsWith("no API key for anthropic"),
+    "Dropped for a missing key",
+  );
+  ok(body.cost.estimate > 0 && body.cost.baseline > 0, "Cost estimate");
+  ok(body.budget.state === "ok", "Budget state");
+
+  const long = await explain({
+    model: "auto",
+    max_tokens: 100,
+    messages: [{ role: "user", content: "word ".repeat(120_000) }],
+  });
+  const longBody = (await long.json()) as { dropped: Array<{ model: string; reason: string }> };
+  ok(
+    longBody.dropped.some((d) => d.reason.startsWith("context window")),
+    "Dropped for a small context window",
+  );
+
+  const bad = await explain({ prompt: "hi" });
+  ok(bad.status === 400, "Body without messages → 400");
+  const broken = await explain({ model: "auto", messages: [{ role: "user", content: [null] }] });
+  const brokenBody = (await broken.json()) as { error: { type: string } };
+  ok(
+    broken.status === 500 && brokenBody.error.type === "proxy_error",
+    "Explain failure on a non-private request → 500, not private_route_unavailable",
+  );
+  ok(upstreamHits === 0, "Still no provider called");
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+}
+
+console.log("\n══ clawrouter explain (no proxy running) ══\n");
+{
+  const tier = (primary: string) => ({ primary, fallback: [] });
+  const tiers = (primary: string) => ({
+    SIMPLE: tier(primary),
+    MEDIUM: tier(primary),
+    COMPLEX: tier(primary),
+    REASONING: tier(primary),
+  });
+  mkdirSync(dirname(CONFIG_FILE), { recursive: true });
+  writeFileSync(
+    CONFIG_FILE,
+    JSON.stringify({
+      providers: { openai: { apiKey: "sk-test", baseUrl: "http://127.0.0.1:9/v1" } },
+      routing: {
+        tiers: tiers("openai/gpt-4o"),
+        profiles: { cheap: { tiers: tiers("openai/gpt-4o-mini") } },
+      },
+    }),
+  );
+  // A port nothing listens on, so the CLI starts its own proxy
+  const probe = createServer();
+  await new Promise<void>((r) => probe.listen(0, "127.0.0.1", () => r()));
+  const port = String((probe.address() as AddressInfo).port);
+  await new Promise<void>((r) => probe.close(() => r()));
+
+  const cli = (...args: string[]) => {
+    const run = spawnSync(
+      "npx",
+      ["--no-install", "tsx", "src/cli.ts", "explain", "hi", "--json", "--port", port, ...args],
+      { encoding: "utf-8", env: process.env, timeout: 60_000 },
+    );
+    const json = run.stdout.slice(run.stdout.indexOf("{"));
+    return (run.status === 0 ? JSON.parse(json) : { error: run.stderr }) as {
+      model?: string;
+      error?: string;
+    };
+  };
+  const base = cli();
+  ok(base.model === "openai/gpt-4o", `Uses config.json's tiers (${base.model ?? base.error})`);
+  const cheap = cli("--profile", "cheap");
+  ok(cheap.model === "openai/gpt-4o-mini", `…and its profiles (${cheap.model ?? cheap.error})`);
+  rmSync(CONFIG_FILE, { force: true });
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
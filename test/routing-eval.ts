@@ -0,0 +1,171 @@
+/**
+ * Offline routing evaluation check — dataset parsing, confusion matrix,
+ * precision/recall, cost vs baseline, config diffs.
+ * No network needed.
+ *
+ * Usage: npx tsx test/routing-eval.ts
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  parseEvalDataset,
+  evaluateRouting,
+  diffEvalReports,
+  mergeRoutingConfig,
+  DEFAULT_ROUTING_CONFIG,
+  BASELINE_MODEL,
+  type ModelPricing,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+function throwsWith(fn: () => unknown, text: string): boolean {
+  try {
+    fn();
+    return false;
+  } catch (err) {
+    return err instanceof Error && err.message.includes(text);
+  }
+}
+
+const modelPricing = new Map<string, ModelPricing>([
+  [BASELINE_MODEL, { inputPrice: 15, outputPrice: 75 }],
+  [DEFAULT_ROUTING_CONFIG.tiers.SIMPLE.primary, { inputPrice: 0.1, outputPrice: 0.4 }],
+]);
+
+const PROOF = "Prove that sqrt(2) is irrational step by step using proof by contradiction";
+
+console.log("\n══ Dataset ══\n");
+{
+  const cases = parseEvalDataset(
+    [
+      '{"prompt": "Hello", "tier": "SIMPLE"}',
+      "",
+      '{"prompt": "Write a poem", "tier": "medium", "systemPrompt": "Be brief", "maxTokens": 64}',
+    ].join("\n"),
+  );
+  ok(cases.length === 2, "Blank lines skipped");
+  ok(cases[1].tier === "MEDIUM", "Tier labels are case-insensitive");
+  ok(cases[1].systemPrompt === "Be brief" && cases[1].maxTokens === 64, "Optional fields kept");
+  ok(
+    throwsWith(() => parseEvalDataset('{"prompt": "x"}\n{oops'), "line 1"),
+    "Missing tier → line 1",
+  );
+  ok(
+    throwsWith(() => parseEvalDataset('{"prompt": "x", "tier": "SIMPLE"}\n{oops'), "line 2"),
+    "Invalid JSON → its line number",
+  );
+  ok(
+    throwsWith(() => parseEvalDataset('{"prompt": "x", "tier": "HARD"}'), "must be one of"),
+    "Unknown tier rejected",
+  );
+
+  const fixture = parseEvalDataset(
+    readFileSync(new URL("./fixtures/routing-eval.jsonl", import.meta.url), "utf-8"),
+  );
+  const labels = new Set(fixture.map((c) => c.tier));
+  ok(
+    fixture.length >= 30 && labels.size === 4,
+    `Shipped dataset covers every tier (${fixture.length} cases)`,
+  );
+}
+
+console.log("\n══ Metrics ══\n");
+{
+  const cases = parseEvalDataset(
+    [
+      { prompt: "Hello", tier: "SIMPLE" },
+      { prompt: "What is the capital of France?", tier: "SIMPLE" },
+      { prompt: PROOF, tier: "REASONING" },
+      // Mislabeled on purpose: routes to SIMPLE
+      { prompt: "Hi there", tier: "COMPLEX" },
+    ]
+      .map((c) => JSON.stringify(c))
+      .join("\n"),
+  );
+  const report = evaluateRouting(cases, { config: DEFAULT_ROUTING_CONFIG, modelPricing });
+
+  ok(report.total === 4 && report.correct === 3, `3/4 correct (${report.correct})`);
+  ok(report.accuracy === 0.75, "Accuracy");
+  ok(
+    report.confusion.SIMPLE.SIMPLE === 2 &&
+      report.confusion.COMPLEX.SIMPLE === 1 &&
+      report.confusion.REASONING.REASONING === 1,
+    "Confusion matrix: expected × routed",
+  );
+  ok(Math.abs(report.tiers.SIMPLE.precision - 2 / 3) < 1e-9, "SIMPLE precision 2/3");
+  ok(report.tiers.SIMPLE.recall === 1 && report.tiers.SIMPLE.support === 2, "SIMPLE recall 1");
+  ok(
+    report.tiers.COMPLEX.recall === 0 && report.tiers.COMPLEX.precision === 0,
+    "Unrouted tier → 0, not NaN",
+  );
+  ok(report.results[2].score > 0 && report.results[2].tier === "REASONING", "Per-case score");
+  ok(
+    report.cost.baseline > report.cost.estimate &&
+      report.cost.savings > 0 &&
+      report.cost.savings <= 1,
+    `Cost vs baseline (saves ${(report.cost.savings * 100).toFixed(1)}%)`,
+  );
+}
+
+console.log("\n══ Config diff ══\n");
+{
+  const cases = parseEvalDataset(
+    [
+      { prompt: "Hello", tier: "SIMPLE" },
+      { prompt: "Tell me about the history of Rome and its emperors", tier: "MEDIUM" },
+      { prompt: "Write a short poem about cats", tier: "SIMPLE" },
+      { prompt: PROOF, tier: "REASONING" },
+    ]
+      .map((c) => JSON.stringify(c))
+      .join("\n"),
+  );
+  const tuned = mergeRoutingConfig({
+    scoring: { tierBoundaries: { simpleMedium: 0.05 } },
+  } as Parameters<typeof mergeRoutingConfig>[0]);
+  ok(
+    tuned.scoring.tierBoundaries.mediumComplex ===
+      DEFAULT_ROUTING_CONFIG.scoring.tierBoundaries.mediumComplex &&
+      tuned.scoring.dimensionWeights.codePresence ===
+        DEFAULT_ROUTING_CONFIG.scoring.dimensionWeights.codePresence,
+    "Partial config merged over the defaults key by key",
+  );
+
+  const before = evaluateRouting(cases, { config: DEFAULT_ROUTING_CONFIG, modelPricing });
+  const after = evaluateRouting(cases, { config: tuned, modelPricing });
+  const diff = diffEvalReports(before, after);
+  const kinds = diff.changes.map((c) => `${c.kind}:${c.prompt.slice(0, 10)}`).join();
+  ok(kinds === "regressed:Tell me ab,fixed:Write a sh", `Changed cases listed (${kinds})`);
+  ok(
+    diff.fixed === diff.changes.filter((c) => c.after === c.expected).length &&
+      diff.regressed === diff.changes.filter((c) => c.before === c.expected).length,
+    "Fixed / regressed counts",
+  );
+  ok(Math.abs(diff.accuracyDelta - (after.accuracy - before.accuracy)) < 1e-9, "Accuracy delta");
+  ok(diffEvalReports(before, before).changes.length === 0, "Same config → no changes");
+  ok(
+    throwsWith(
+      () =>
+        diffEvalReports(before, evaluateRouting(cases.slice(1), { config: tuned, modelPricing })),
+      "different datasets",
+    ),
+    "Different datasets rejected",
+  );
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,285 @@
+/**
+ * Routing rules check — compileRoutingRules() validation, each match kind,
+ * first-match-wins, rule actions through route() and the proxy.
+ * Uses a mock upstream; no network needed.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/routing-rules.ts
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  compileRoutingRules,
+  matchRoutingRule,
+  mergeRoutingConfig,
+  route,
+  DEFAULT_ROUTING_CONFIG,
+  type RoutingConfig,
+  type RoutingDecision,
+  type RoutingRule,
+} from "../src/router/index.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+const compile = (rules: RoutingRule[]) =>
+  compileRoutingRules(mergeRoutingConfig({ rules } as Partial<RoutingConfig>));
+
+function compileError(rule: RoutingRule): string {
+  try {
+    compile([{ name: "ok", match: {}, action: { tier: "SIMPLE" } }, rule]);
+    return "";
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+console.log("\n══ Validation ══\n");
+{
+  ok(compile([]).length === 0, "No rules → nothing compiled");
+  const empty = compileError({ name: "noop", match: {}, action: {} });
+  ok(empty.startsWith("routing.rules[1] (noop):"), `Error names the rule (${empty})`);
+  ok(empty.includes("action is empty"), "Empty action rejected");
+  ok(
+    compileError({ match: {}, action: { tier: "HUGE" as "SIMPLE" } }).includes("tier must be"),
+    "Unknown tier rejected",
+  );
+  ok(
+    compileError({ match: {}, action: { profile: "nope" } }).includes('unknown profile "nope"'),
+    "Unknown profile rejected",
+  );
+  ok(
+    compileError({ match: { prompt: "(" }, action: { tier: "SIMPLE" } }).includes("match.prompt"),
+    "Bad regex rejected",
+  );
+  ok(
+    compileError({ match: { timeOfDay: "9-5" }, action: { tier: "SIMPLE" } }).includes("timeOfDay"),
+    "Bad time window rejected",
+  );
+  ok(
+    compile([{ match: {}, action: { profile: "eco" } }]).length === 1,
+    "Built-in profile accepted",
+  );
+  ok(
+    compile([{ match: {}, action: { profile: "Eco" } }]).length === 1,
+    "Profile names match case-insensitively",
+  );
+}
+
+console.log("\n══ Matching ══\n");
+{
+  const at = (time: string) => new Date(`2026-01-01T${time}:00`);
+  const one = (match: RoutingRule["match"]) =>
+    compile([{ name: "r", match, action: { tier: "SIMPLE" } }]);
+  const hits = (match: RoutingRule["match"], ctx: Parameters<typeof matchRoutingRule>[1]) =>
+    matchRoutingRule(one(match), ctx)?.name === "r";
+
+  ok(
+    hits({ prompt: "translate" }, { prompt: "Please TRANSLATE this" }),
+    "Prompt regex, case-insensitive",
+  );
+  ok(!hits({ prompt: "translate" }, { prompt: "summarize" }), "Prompt regex miss");
+  ok(
+    hits({ systemPrompt: "^You are a coder" }, { prompt: "", systemPrompt: "You are a coder." }),
+    "System prompt regex",
+  );
+  ok(!hits({ systemPrompt: "coder" }, { prompt: "coder" }), "No system prompt → no match");
+  ok(
+    hits({ headers: { "X-Team": "^billing$" } }, { prompt: "", headers: { "x-team": "billing" } }),
+    "Header value (name case-insensitive)",
+  );
+  ok(!hits({ headers: { "x-team": "billing" } }, { prompt: "" }), "Missing header → no match");
+  ok(hits({ tools: true }, { prompt: "", hasTools: true }), "Tools present");
+  ok(hits({ tools: false }, { prompt: "" }), "Tools absent");
+  ok(!hits({ images: true }, { prompt: "" }), "Images required but absent");
+  ok(hits({ minTokens: 1000 }, { prompt: "", tokens: 1000 }), "minTokens inclusive");
+  ok(!hits({ maxTokens: 100 }, { prompt: "", tokens: 101 }), "maxTokens exceeded");
+  ok(hits({ sessionPrefix: "ci-" }, { prompt: "", sessionId: "ci-42" }), "Session ID prefix");
+  ok(!hits({ sessionPrefix: "ci-" }, { prompt: "" }), "No session → no match");
+  ok(hits({ timeOfDay: "09:00-17:00" }, { prompt: "", now: at("12:30") }), "Inside time window");
+  ok(!hits({ timeOfDay: "09:00-17:00" }, { prompt: "", now: at("17:00") }), "Window end exclusive");
+  ok(hits({ timeOfDay: "22:00-06:00" }, { prompt: "", now: at("02:00") }), "Window wraps midnight");
+  ok(
+    !hits({ timeOfDay: "22:00-06:00" }, { prompt: "", now: at("12:00") }),
+    "Outside wrapped window",
+  );
+  ok(
+    !hits({ prompt: "deploy", tools: true }, { prompt: "deploy now" }),
+    "Every condition must hold",
+  );
+
+  const rules = compile([
+    { name: "first", match: { prompt: "a" }, action: { tier: "SIMPLE" } },
+    { name: "second", match: { prompt: "a" }, action: { tier: "COMPLEX" } },
+  ]);
+  ok(matchRoutingRule(rules, { prompt: "a" })?.name === "first", "First match wins");
+  ok(
+    compile([{ match: {}, action: { tier: "SIMPLE" } }])[0].name === "rule 0",
+    "Unnamed → rule <index>",
+  );
+}
+
+console.log("\n══ Actions ══\n");
+{
+  const opts = (rule?: { name: string; action: RoutingRule["action"] }) => ({
+    config: DEFAULT_ROUTING_CONFIG,
+    modelPricing: new Map(),
+    rule,
+  });
+  const hard = "Prove that the halting problem is undecidable, step by step, with a formal proof";
+
+  const forced = route(
+    hard,
+    undefined,
+    512,
+    opts({ name: "pin", action: { model: "openai/gpt-4o" } }),
+  );
+  ok(forced.model === "openai/gpt-4o" && forced.rule === "pin", "Forced model, rule recorded");
+  ok(forced.reasoning.startsWith("rule pin: model openai/gpt-4o"), "Reasoning names the rule");
+
+  const tier = route(hard, undefined, 512, opts({ name: "cheap", action: { tier: "SIMPLE" } }));
+  ok(tier.tier === "SIMPLE" && tier.confidence === 1, "Forced tier skips the classifier");
+
+  const raised = route(
+    "hi",
+    undefined,
+    64,
+    opts({ name: "floor", action: { minTier: "COMPLEX" } }),
+  );
+  ok(raised.tier === "COMPLEX", "minTier raises a simple prompt");
+  ok(raised.reasoning.includes("rule floor: raised to COMPLEX"), "Reasoning shows the raise");
+
+  const base = route("hi", undefined, 64, opts());
+  const provider = base.model.split("/")[0];
+  const excluded = route(
+    "hi",
+    undefined,
+    64,
+    opts({ name: "no-" + provider, action: { excludeProviders: [provider] } }),
+  );
+  ok(
+    !excluded.model.startsWith(`${provider}/`),
+    `Excluded provider skipped (${base.model} → ${excluded.model})`,
+  );
+  ok(base.rule === undefined, "No rule → nothing recorded");
+}
+
+console.log("\n══ Proxy ══\n");
+{
+  const upstreamModels: string[] = [];
+  const upstream = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { model } = JSON.parse(body) as { model: string };
+      upstreamModels.push(model);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          id: "c1",
+          object: "chat.completion",
+          model,
+          choices: [
+            { index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" },
+          ],
+        }),
+      );
+    });
+  });
+  await new Promise<void>((r) => upstream.listen(0, "127.0.0.1", () => r()));
+  const baseUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/v1`;
+
+  const { startProxy } = await import("../src/proxy.js");
+  const routed: RoutingDecision[] = [];
+  const tier = (primary: string, fallback: string[] = []) => ({ primary, fallback });
+  const proxy = await startProxy({
+    apiKeys: { providers: { openai: { apiKey: "sk-test", baseUrl } } },
+    routingConfig: {
+      tiers: {
+        SIMPLE: tier("anthropic/claude-haiku-4.5", ["openai/gpt-4o-mini"]),
+        MEDIUM: tier("openai/gpt-4o"),
+        COMPLEX: tier("openai/gpt-4o"),
+        REASONING: tier("openai/o3"),
+      },
+      profiles: { Cheap: { tiers: { MEDIUM: tier("openai/gpt-4.1-nano") } } },
+      rules: [
+        {
+          name: "pin-translate",
+          match: { prompt: "^translate" },
+          action: { model: "openai/gpt-4.1" },
+        },
+        {
+          name: "billing",
+          match: { headers: { "x-team": "billing" } },
+          action: { tier: "MEDIUM" },
+        },
+        {
+          name: "batch",
+          match: { sessionPrefix: "batch-" },
+          action: { profile: "cheap", tier: "MEDIUM" },
+        },
+      ],
+    },
+    port: 0,
+    onRouted: (d) => routed.push(d),
+  });
+
+  const send = (content: string, headers: Record<string, string> = {}) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content }] }),
+    });
+  const lastModel = () => upstreamModels[upstreamModels.length - 1];
+  const lastRoute = () => routed[routed.length - 1];
+
+  await send("translate this to French: hello");
+  ok(
+    lastModel() === "gpt-4.1" && lastRoute().rule === "pin-translate",
+    "Forced model sent upstream",
+  );
+  await send("hi", { "x-team": "billing" });
+  ok(lastModel() === "gpt-4o" && lastRoute().tier === "MEDIUM", "Header rule forces the tier");
+  await send("hi there", { "x-session-id": "batch-7" });
+  ok(lastModel() === "gpt-4.1-nano", "Rule picks the profile, whatever its case");
+  await send("hello");
+  ok(lastModel() === "gpt-4o-mini" && lastRoute().rule === undefined, "No rule → classifier");
+
+  const explained = (await fetch(`${proxy.baseUrl}/v1/route/explain`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-team": "billing" },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi" }] }),
+  }).then((r) => r.json())) as { rule?: string; tier: string };
+  ok(explained.rule === "billing" && explained.tier === "MEDIUM", "Explain shows the rule");
+
+  await proxy.close();
+  await new Promise<void>((r) => upstream.close(() => r()));
+
+  let startError = "";
+  try {
+    await startProxy({
+      apiKeys: { providers: {} },
+      routingConfig: { rules: [{ match: { prompt: "[" }, action: { tier: "SIMPLE" } }] },
+      port: 0,
+    });
+  } catch (err) {
+    startError = err instanceof Error ? err.message : String(err);
+  }
+  ok(startError.includes("routing.rules[0]"), "Invalid rule fails startProxy");
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
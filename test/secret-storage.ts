@@ -0,0 +1,290 @@
+/**
+ * Secret storage check — the encrypted store (round trip, wrong passphrase,
+ * `keys encrypt` migration), *_API_KEY_FILE pointers, apiKeyCommand, source
+ * precedence, saveApiKeys leaving other sources' keys and config.json's other
+ * sections alone and removing deleted providers from the store, and that no key
+ * reaches a warning or `clawrouter keys`.
+ * Writes config.json and secrets.enc under HOME.
+ *
+ * Usage: HOME=/tmp/clawrouter-test npx tsx test/secret-storage.ts
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  CONFIG_FILE,
+  encryptConfigKeys,
+  loadApiKeys,
+  saveApiKeys,
+  type ApiKeysConfig,
+} from "../src/api-keys.js";
+import { listProviderAdapters } from "../src/providers.js";
+import { decryptSecrets, encryptSecrets, PASSPHRASE_ENV, SECRETS_FILE } from "../src/secrets.js";
+
+let passed = 0;
+let failed = 0;
+
+function ok(condition: boolean, msg: string) {
+  if (condition) {
+    console.log(`  ✓ ${msg}`);
+    passed++;
+  } else {
+    console.error(`  ✗ FAIL: ${msg}`);
+    failed++;
+  }
+}
+
+// Start from no keys in the environment
+for (const { envVar } of listProviderAdapters()) {
+  if (!envVar) continue;
+  delete process.env[envVar];
+  delete process.env[`${envVar}_FILE`];
+}
+delete process.env[PASSPHRASE_ENV];
+
+const warnings: string[] = [];
+console.warn = (msg: string) => warnings.push(msg);
+
+const writeConfig = (config: unknown) => {
+  mkdirSync(dirname(CONFIG_FILE), { recursive: true });
+  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+};
+const reset = () => {
+  rmSync(CONFIG_FILE, { force: true });
+  rmSync(SECRETS_FILE, { force: true });
+  delete process.env[PASSPHRASE_ENV];
+  warnings.length = 0;
+};
+
+console.log("\n══ Encryption ══\n");
+{
+  const content = encryptSecrets({ openai: { apiKey: "sk-round-trip" } }, "hunter2");
+  ok(!content.includes("sk-round-trip"), "Ciphertext doesn't contain the key");
+  ok(
+    decryptSecrets(content, "hunter2").openai?.apiKey === "sk-round-trip",
+    "Decrypts with the passphrase",
+  );
+  let error = "";
+  try {
+    decryptSecrets(content, "wrong");
+  } catch (err) {
+    error = (err as Error).message;
+  }
+  ok(error === "wrong passphrase or damaged file", "Wrong passphrase rejected");
+  ok(
+    encryptSecrets({}, "hunter2") !== encryptSecrets({}, "hunter2"),
+    "Fresh salt and IV each time",
+  );
+}
+
+console.log("\n══ Key files and commands ══\n");
+{
+  reset();
+  const keyFile = join(tmpdir(), `clawrouter-key-${process.pid}`);
+  writeFileSync(keyFile, "sk-from-file\n");
+  process.env.OPENAI_API_KEY_FILE = keyFile;
+  let keys = loadApiKeys();
+  ok(keys.providers.openai?.apiKey === "sk-from-file", "OPENAI_API_KEY_FILE read and trimmed");
+  ok(keys.providers.openai?.keySource === "file OPENAI_API_KEY_FILE", "Source names the variable");
+  process.env.OPENAI_API_KEY = "sk-from-env";
+  keys = loadApiKeys();
+  ok(keys.providers.openai?.apiKey === "sk-from-env", "The variable itself wins over _FILE");
+  delete process.env.OPENAI_API_KEY;
+  process.env.OPENAI_API_KEY_FILE = `${keyFile}-missing`;
+  keys = loadApiKeys();
+  ok(
+    !keys.providers.openai && warnings.some((w) => w.includes("ENOENT")),
+    "Missing key file warned about",
+  );
+  delete process.env.OPENAI_API_KEY_FILE;
+  rmSync(keyFile);
+
+  warnings.length = 0;
+  writeConfig({
+    providers: {
+      anthropic: { apiKeyCommand: "printf 'sk-ant-cmd\\nlogin: me\\n'" },
+      deepseek: { apiKeyCommand: "echo sk-leaked; exit 3" },
+    },
+  });
+  keys = loadApiKeys();
+  ok(keys.providers.anthropic?.apiKey === "sk-ant-cmd", "apiKeyCommand's first line is the key");
+  ok(keys.providers.anthropic?.keySource === "apiKeyCommand", "Source is the command");
+  ok(!keys.providers.deepseek?.apiKey, "Failed command leaves no key");
+  ok(
+    warnings.some((w) => w.includes("apiKeyCommand for deepseek failed (exit 3)")) &&
+      !warnings.some((w) => w.includes("sk-leaked")),
+    "Failure warning has the exit status, not the output",
+  );
+}
+
+console.log("\n══ Precedence ══\n");
+{
+  reset();
+  writeConfig({ providers: { openai: { apiKey: "sk-config" }, xai: { apiKey: "xai-config" } } });
+  const plugin = { providers: { openai: { apiKeyCommand: "echo sk-plugin-cmd" } } };
+  let keys = loadApiKeys(plugin);
+  ok(keys.providers.openai?.apiKey === "sk-plugin-cmd", "Plugin command beats config.json");
+  ok(keys.providers.xai?.keySource === "config.json", "config.json source");
+  process.env.OPENAI_API_KEY = "sk-env";
+  keys = loadApiKeys(plugin);
+  ok(
+    keys.providers.openai?.apiKey === "sk-env" &&
+      keys.providers.openai.keySource === "env OPENAI_API_KEY",
+    "Environment beats plugin config",
+  );
+
+  writeConfig({
+    providers: {
+      xai: { apiKey: "xai-config" },
+      anthropic: { apiKeyCommand: "echo sk-ant-cmd | tr a-z A-Z" },
+      openai: { baseUrl: "https://example.test/v1" },
+    },
+    budgets: { global: { daily: { hard: 5 } } },
+  });
+  const vllm = {
+    baseUrl: "http://gpu-box:8000/v1",
+    models: [{ id: "llama", contextWindow: 8192 }],
+  };
+  saveApiKeys(loadApiKeys({ providers: { ...plugin.providers, vllm } }));
+  const saved = readFileSync(CONFIG_FILE, "utf-8");
+  const providers = (JSON.parse(saved) as ApiKeysConfig).providers;
+  ok(
+    providers.xai?.apiKey === "xai-config" &&
+      providers.anthropic?.apiKeyCommand === "echo sk-ant-cmd | tr a-z A-Z" &&
+      providers.openai?.baseUrl === "https://example.test/v1",
+    "saveApiKeys keeps config.json's own keys and settings",
+  );
+  ok(
+    !/sk-env|SK-ANT-CMD|keySource/.test(saved),
+    "…but no key from the environment or a command, nor keySource",
+  );
+  ok(
+    !providers.vllm && providers.openai?.apiKeyCommand === undefined,
+    "…nor plugin config's providers and settings",
+  );
+  ok(
+    (JSON.parse(saved) as { budgets?: { global?: { daily?: { hard?: number } } } }).budgets?.global?.daily?.hard === 5,
+    "…and leaves config.json's other sections alone",
+  );
+  delete process.env.OPENAI_API_KEY;
+}
+
+console.log("\n══ Encrypted store ══\n");
+{
+  reset();
+  writeConfig({
+    providers: {
+      openai: { apiKey: "sk-plain", baseUrl: "https://example.test/v1" },
+      groq: {
+        baseUrl: "https://api.groq.com/openai/v1",
+        keys: [{ apiKey: "gsk-one", label: "one" }],
+        models: [{ id: "llama", contextWindow: 8192 }],
+      },
+    },
+    routing: { ranking: { mode: "cheapest" } },
+  });
+  const moved = encryptConfigKeys("correct horse");
+  const config = readFileSync(CONFIG_FILE, "utf-8");
+  const store = readFileSync(SECRETS_FILE, "utf-8");
+  ok(moved.join() === "openai,groq", `Keys moved (${moved.join()})`);
+  ok(
+    !config.includes("sk-plain") && !config.includes("gsk-one") && !store.includes("sk-plain"),
+    "No plaintext key left in either file",
+  );
+  const rest = JSON.parse(config) as {
+    providers: ApiKeysConfig["providers"];
+    routing?: unknown;
+  };
+  ok(
+    rest.providers.openai?.baseUrl === "https://example.test/v1" &&
+      rest.providers.groq?.models?.length === 1 &&
+      rest.routing !== undefined,
+    "The rest of config.json kept",
+  );
+
+  let keys = loadApiKeys();
+  ok(
+    !keys.providers.openai?.apiKey && warnings.some((w) => w.includes("is locked")),
+    "Locked store skipped with a warning",
+  );
+  process.env[PASSPHRASE_ENV] = "correct horse";
+  keys = loadApiKeys();
+  ok(
+    keys.providers.openai?.apiKey === "sk-plain" &&
+      keys.providers.openai.baseUrl === "https://example.test/v1" &&
+      keys.providers.openai.keySource === "encrypted store",
+    "Unlocked store fills in the keys",
+  );
+  ok(keys.providers.groq?.keys?.[0]?.label === "one", "Key lists come back too");
+
+  warnings.length = 0;
+  process.env[PASSPHRASE_ENV] = "wrong";
+  keys = loadApiKeys();
+  ok(
+    !keys.providers.openai?.apiKey && warnings.some((w) => w.includes("wrong passphrase")),
+    "Wrong passphrase warned about",
+  );
+  writeConfig({ providers: { xai: { apiKey: "xai-plain" } } });
+  let error = "";
+  try {
+    encryptConfigKeys("wrong");
+  } catch (err) {
+    error = (err as Error).message;
+  }
+  ok(
+    error.includes("wrong passphrase") && readFileSync(CONFIG_FILE, "utf-8").includes("xai-plain"),
+    "Won't overwrite a store it can't open; config.json untouched",
+  );
+
+  process.env[PASSPHRASE_ENV] = "correct horse";
+  keys = loadApiKeys();
+  keys.providers.xai = { apiKey: "xai-saved" };
+  delete keys.providers.groq;
+  writeConfig({
+    ...(JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as object),
+    routing: { ranking: { mode: "cheapest" } },
+  });
+  saveApiKeys(keys);
+  ok(
+    (JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as { routing?: unknown }).routing !== undefined,
+    "saveApiKeys with a passphrase keeps the routing section",
+  );
+  keys = loadApiKeys();
+  ok(
+    !readFileSync(CONFIG_FILE, "utf-8").includes("xai-saved") &&
+      keys.providers.xai?.apiKey === "xai-saved" &&
+      keys.providers.openai?.apiKey === "sk-plain",
+    "saveApiKeys encrypts the providers it's given",
+  );
+  ok(!keys.providers.groq, "…and removes a deleted provider from the store");
+  process.env.OPENAI_API_KEY = "sk-env";
+  saveApiKeys(loadApiKeys());
+  delete process.env.OPENAI_API_KEY;
+  ok(
+    loadApiKeys().providers.openai?.apiKey === "sk-plain",
+    "A stored key the environment overrides is kept",
+  );
+
+  const cli = spawnSync("npx", ["--no-install", "tsx", "src/cli.ts", "keys", "--json"], {
+    encoding: "utf-8",
+    env: process.env,
+    timeout: 60_000,
+  });
+  const listed = JSON.parse(cli.stdout || "{}") as {
+    providers?: Array<{ provider: string; source: string }>;
+  };
+  ok(
+    listed.providers?.find((p) => p.provider === "xai")?.source === "encrypted store",
+    "clawrouter keys lists sources",
+  );
+  ok(!/sk-plain|xai-saved|gsk-one/.test(cli.stdout + cli.stderr), "…and never a key");
+  reset();
+}
+
+console.log("\n══════════════════════════════════");
+console.log(`  ${passed} passed, ${failed} failed`);
+console.log("══════════════════════════════════\n");
+
+process.exit(failed > 0 ? 1 : 0);
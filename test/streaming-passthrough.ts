@@ -0,0 +1,221 @@
+/**
+ * Test for incremental SSE passthrough.
+ *
+ * Tests that streamed upstream events reach the client as they arrive
+ * (not after the upstream finishes), that non-JSON comment lines are
+ * dropped, and that thinking tokens spanning several deltas — or with the
+ * tag itself split across deltas — are stripped, in translated native streams
+ * too, with text held back as a possible tag flushed however the stream ends.
+ *
+ * Usage:
+ *   npx tsx test/streaming-passthrough.ts
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+const CHUNK_DELAY_MS = 300;
+
+function chunk(content: string, finishReason: string | null = null): string {
+  return `data: ${JSON.stringify({
+    id: "chatcmpl-stream",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gpt-4o",
+    choices: [{ index: 0, delta: { content }, finish_reason: finishReason }],
+  })}\n\n`;
+}
+
+// Mock OpenAI-compatible API that streams slowly
+async function startMockServer(): Promise<{ port: number; close: () => Promise<void> }> {
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let body = "";
+    for await (const part of req) body += part;
+    res.writeHead(200, { "Content-Type": "text/event-stream" });
+    const anthropic = (event: Record<string, unknown>) =>
+      `event: ${String(event.type)}\ndata: ${JSON.stringify(event)}\n\n`;
+    const textDelta = (text: string) =>
+      anthropic({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text } });
+    const events = body.includes("no finish")
+      ? [chunk("a <th"), "data: [DONE]\n\n"]
+      : body.includes("cut off")
+        ? [chunk("b <thin")]
+        : body.includes("native stream")
+          ? [
+              anthropic({ type: "message_start", message: { id: "msg_1", model: "claude" } }),
+              textDelta("<think>private</th"),
+              textDelta("ink>Hello from Claude <"),
+              textDelta("3"),
+              anthropic({ type: "message_delta", delta: { stop_reason: "end_turn" } }),
+              anthropic({ type: "message_stop" }),
+            ]
+          : body.includes("split tags")
+            ? [
+                chunk("Hi <thi"),
+                chunk("nk>secret plan</th"),
+                chunk("ink> there <"),
+                chunk("3 apples, "),
+                chunk("done <th", "stop"),
+                "data: [DONE]\n\n",
+              ]
+            : [
+                ": OPENROUTER PROCESSING\n\n",
+                chunk("<think>planning"),
+                chunk(" more planning</think>Hello"),
+                chunk(", world"),
+                "data: [DONE]\n\n",
+              ];
+    for (const event of events) {
+      res.write(event);
+      await new Promise((r) => setTimeout(r, CHUNK_DELAY_MS));
+    }
+    res.end();
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const addr = server.address() as AddressInfo;
+      resolve({
+        port: addr.port,
+        close: () => new Promise<void>((res) => server.close(() => res())),
+      });
+    });
+  });
+}
+
+async function runTests() {
+  const { startProxy } = await import("../src/proxy.js");
+
+  console.log("\n═══ Streaming Passthrough Tests ═══\n");
+
+  let passed = 0;
+  let failed = 0;
+
+  function assert(condition: boolean, msg: string) {
+    if (condition) {
+      console.log(`  ✓ ${msg}`);
+      passed++;
+    } else {
+      console.error(`  ✗ FAIL: ${msg}`);
+      failed++;
+    }
+  }
+
+  const mockApi = await startMockServer();
+  const proxy = await startProxy({
+    apiKeys: {
+      providers: {
+        openai: { apiKey: "sk-test", baseUrl: `http://127.0.0.1:${mockApi.port}/v1` },
+        anthropic: { apiKey: "sk-ant-test", baseUrl: `http://127.0.0.1:${mockApi.port}` },
+      },
+    },
+    port: 0,
+  });
+
+  const start = Date.now();
+  const res = await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "openai/gpt-4o",
+      stream: true,
+      messages: [{ role: "user", content: `Say hello [${Date.now()}]` }],
+    }),
+  });
+
+  assert(res.ok, `Response OK: ${res.status}`);
+
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let firstContentAt: number | undefined;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    if (firstContentAt === undefined && text.includes("Hello")) firstContentAt = Date.now() - start;
+  }
+  const totalMs = Date.now() - start;
+
+  assert(
+    firstContentAt !== undefined && firstContentAt < totalMs - CHUNK_DELAY_MS,
+    `First content arrived before upstream finished (${firstContentAt}ms of ${totalMs}ms)`,
+  );
+  assert(!text.includes("OPENROUTER PROCESSING"), "Comment lines are filtered out");
+  assert(!text.includes("planning"), "Thinking block spanning deltas is stripped");
+  assert(text.includes(", world"), "Later deltas are forwarded");
+  assert(text.split("data: [DONE]").length === 2, "Exactly one [DONE] terminator");
+
+  // Tags cut by delta boundaries: "<thi" + "nk>", "</th" + "ink>"
+  const split = await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "openai/gpt-4o",
+      stream: true,
+      messages: [{ role: "user", content: `Say hi with split tags [${Date.now()}]` }],
+    }),
+  });
+  const contentOf = (sse: string) =>
+    sse
+      .split("\n")
+      .filter((line) => line.startsWith("data: {"))
+      .map(
+        (line) =>
+          (JSON.parse(line.slice(6)) as { choices: Array<{ delta: { content?: string } }> })
+            .choices[0]?.delta.content ?? "",
+      )
+      .join("");
+  const content = contentOf(await split.text());
+  assert(!content.includes("secret plan"), "Thinking block with split tags is stripped");
+  assert(
+    content === "Hi  there <3 apples, done <th",
+    `Text around it kept (${JSON.stringify(content)})`,
+  );
+
+  const streamed = async (model: string, prompt: string) =>
+    (
+      await fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: [{ role: "user", content: `${prompt} [${Date.now()}]` }],
+        }),
+      })
+    ).text();
+
+  // A held-back "<th" is flushed even without a finish_reason chunk
+  const noFinish = await streamed("openai/gpt-4o", "no finish");
+  assert(
+    contentOf(noFinish) === "a <th" && noFinish.indexOf("<th") < noFinish.indexOf("[DONE]"),
+    `Held text flushed before [DONE] (${JSON.stringify(contentOf(noFinish))})`,
+  );
+  const cutOff = await streamed("openai/gpt-4o", "cut off");
+  assert(
+    contentOf(cutOff) === "b <thin",
+    `…and when the stream ends without one (${JSON.stringify(contentOf(cutOff))})`,
+  );
+
+  // Translated native streams (Anthropic) are stripped too
+  const native = contentOf(await streamed("anthropic/claude-sonnet-4", "native stream"));
+  assert(
+    native === "Hello from Claude <3",
+    `Thinking tags stripped from a translated stream (${JSON.stringify(native)})`,
+  );
+
+  await proxy.close();
+  await mockApi.close();
+
+  console.log("\n═══════════════════════════════════");
+  console.log(`  ${passed} passed, ${failed} failed`);
+  console.log("═══════════════════════════════════\n");
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch((err) => {
+  console.error("Test failed:", err);
+  process.exit(1);
+});
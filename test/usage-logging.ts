@@ -0,0 +1,201 @@
+/**
+ * Test for provider-reported usage and real cost logging.
+ *
+ * Tests that streaming requests ask OpenAI-format upstreams for a usage
+ * chunk, that the chunk is only forwarded to clients that asked for it,
+ * and that the usage log records real tokens and cost next to the estimate.
+ *
+ * Usage:
+ *   HOME=/tmp/clawrouter-test npx tsx test/usage-logging.ts
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+const USAGE = {
+  prompt_tokens: 1200,
+  completion_tokens: 300,
+  prompt_tokens_details: { cached_tokens: 1000 },
+};
+
+function sse(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+// Mock OpenRouter-style API that reports usage
+async function startMockServer(): Promise<{
+  port: number;
+  bodies: Array<Record<string, unknown>>;
+  close: () => Promise<void>;
+}> {
+  const bodies: Array<Record<string, unknown>> = [];
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const body = JSON.parse(raw) as Record<string, unknown>;
+    bodies.push(body);
+
+    const base = { id: "chatcmpl-usage", created: 0, model: String(body.model) };
+    if (body.stream) {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(
+        sse({
+          ...base,
+          object: "chat.completion.chunk",
+          choices: [{ index: 0, delta: { content: "Hi" }, finish_reason: "stop" }],
+        }),
+      );
+      if ((body.stream_options as { include_usage?: boolean } | undefined)?.include_usage) {
+        res.write(sse({ ...base, object: "chat.completion.chunk", choices: [], usage: USAGE }));
+      }
+      res.end("data: [DONE]\n\n");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({
+        ...base,
+        object: "chat.completion",
+        choices: [
+          { index: 0, message: { role: "assistant", content: "Hi" }, finish_reason: "stop" },
+        ],
+        usage: USAGE,
+      }),
+    );
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const addr = server.address() as AddressInfo;
+      resolve({
+        port: addr.port,
+        bodies,
+        close: () => new Promise<void>((res) => server.close(() => res())),
+      });
+    });
+  });
+}
+
+type LoggedEntry = {
+  model: string;
+  cost: number;
+  estimatedCost?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedTokens?: number;
+};
+
+async function lastLogEntry(): Promise<LoggedEntry | undefined> {
+  await new Promise((r) => setTimeout(r, 200)); // logging is fire-and-forget
+  const date = new Date().toISOString().slice(0, 10);
+  const file = join(homedir(), ".openclaw", "clawrouter", "logs", `usage-${date}.jsonl`);
+  const lines = (await readFile(file, "utf-8").catch(() => "")).trim().split("\n").filter(Boolean);
+  return lines.length > 0 ? (JSON.parse(lines[lines.length - 1]) as LoggedEntry) : undefined;
+}
+
+async function runTests() {
+  const { startProxy } = await import("../src/proxy.js");
+  const { BLOCKRUN_MODELS } = await import("../src/models.js");
+
+  console.log("\n═══ Usage Logging Tests ═══\n");
+
+  let passed = 0;
+  let failed = 0;
+
+  function assert(condition: boolean, msg: string) {
+    if (condition) {
+      console.log(`  ✓ ${msg}`);
+      passed++;
+    } else {
+      console.error(`  ✗ FAIL: ${msg}`);
+      failed++;
+    }
+  }
+
+  function expectedCost(model: string): number {
+    const m = BLOCKRUN_MODELS.find((x) => x.id === model);
+    if (!m) return NaN;
+    const cached = USAGE.prompt_tokens_details.cached_tokens;
+    return (
+      ((USAGE.prompt_tokens - cached) / 1e6) * m.inputPrice +
+      (cached / 1e6) * (m.cachedInputPrice ?? m.inputPrice) +
+      (USAGE.completion_tokens / 1e6) * m.outputPrice
+    );
+  }
+
+  const mockApi = await startMockServer();
+  const proxy = await startProxy({
+    apiKeys: {
+      providers: {
+        openrouter: { apiKey: "sk-or-test", baseUrl: `http://127.0.0.1:${mockApi.port}/v1` },
+      },
+    },
+    port: 0,
+  });
+
+  const send = (extra: Record<string, unknown>) =>
+    fetch(`${proxy.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "auto",
+        messages: [{ role: "user", content: `What is 2+2? [${Date.now()}-${Math.random()}]` }],
+        ...extra,
+      }),
+    });
+
+  // 1. Streaming, client didn't ask for usage
+  {
+    const text = await (await send({ stream: true })).text();
+    const upstreamBody = mockApi.bodies[mockApi.bodies.length - 1];
+    assert(
+      (upstreamBody.stream_options as { include_usage?: boolean })?.include_usage === true,
+      "Upstream asked for include_usage",
+    );
+    assert(!text.includes('"usage"'), "Usage chunk hidden from client that didn't request it");
+
+    const entry = await lastLogEntry();
+    assert(
+      entry?.promptTokens === 1200 && entry.completionTokens === 300 && entry.cachedTokens === 1000,
+      "Log records reported prompt/completion/cached tokens",
+    );
+    assert(
+      !!entry && Math.abs(entry.cost - expectedCost(entry.model)) < 1e-12,
+      `Log cost priced from real tokens ($${entry?.cost})`,
+    );
+    assert(typeof entry?.estimatedCost === "number", "Log keeps the router estimate alongside");
+  }
+
+  // 2. Streaming, client asked for usage
+  {
+    const text = await (
+      await send({ stream: true, stream_options: { include_usage: true } })
+    ).text();
+    assert(text.includes('"prompt_tokens":1200'), "Usage chunk forwarded when client requested it");
+  }
+
+  // 3. Non-streaming
+  {
+    const json = (await (await send({})).json()) as { usage?: { prompt_tokens: number } };
+    assert(json.usage?.prompt_tokens === 1200, "Non-streaming body keeps usage");
+    const entry = await lastLogEntry();
+    assert(entry?.completionTokens === 300, "Non-streaming usage logged");
+  }
+
+  await proxy.close();
+  await mockApi.close();
+
+  console.log("\n═══════════════════════════════════");
+  console.log(`  ${passed} passed, ${failed} failed`);
+  console.log("═══════════════════════════════════\n");
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch((err) => {
+  console.error("Test failed:", err);
+  process.exit(1);
+});